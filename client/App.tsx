@@ -1,6 +1,11 @@
 import React, { useEffect } from "react";
 import { StyleSheet, View, Text, I18nManager } from "react-native";
-import { NavigationContainer, DefaultTheme, DarkTheme, Theme } from "@react-navigation/native";
+import {
+  NavigationContainer,
+  DefaultTheme,
+  DarkTheme,
+  Theme,
+} from "@react-navigation/native";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { KeyboardProvider } from "react-native-keyboard-controller";
 import { SafeAreaProvider } from "react-native-safe-area-context";
@@ -19,7 +24,11 @@ import { queryClient } from "@/lib/query-client";
 
 import RootStackNavigator from "@/navigation/RootStackNavigator";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { StorageMigrationGate } from "@/components/StorageMigrationGate";
 import { DayProvider } from "@/contexts/DayContext";
+import { PlantConfigProvider } from "@/contexts/PlantConfigContext";
+import { PlantWorkspaceProvider } from "@/contexts/PlantWorkspaceContext";
+import { SyncProvider } from "@/contexts/SyncContext";
 import { LanguageProvider, useLanguage } from "@/contexts/LanguageContext";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
 import { ThemeProvider, useThemeMode } from "@/contexts/ThemeContext";
@@ -30,12 +39,27 @@ SplashScreen.preventAutoHideAsync();
 function ManualRestartScreen({ isRTL }: { isRTL: boolean }) {
   const { theme } = useThemeMode();
   return (
-    <View style={[styles.restartContainer, { backgroundColor: theme.backgroundDefault }]}>
-      <Text style={[styles.restartTitle, { textAlign: isRTL ? "right" : "left", color: theme.text }]}>
+    <View
+      style={[
+        styles.restartContainer,
+        { backgroundColor: theme.backgroundDefault },
+      ]}
+    >
+      <Text
+        style={[
+          styles.restartTitle,
+          { textAlign: isRTL ? "right" : "left", color: theme.text },
+        ]}
+      >
         {isRTL ? "يرجى إعادة تشغيل التطبيق" : "Please Restart the App"}
       </Text>
-      <Text style={[styles.restartMessage, { textAlign: isRTL ? "right" : "left", color: theme.textSecondary }]}>
-        {isRTL 
+      <Text
+        style={[
+          styles.restartMessage,
+          { textAlign: isRTL ? "right" : "left", color: theme.textSecondary },
+        ]}
+      >
+        {isRTL
           ? "أغلق التطبيق تماماً وأعد فتحه لتطبيق إعدادات اللغة بشكل صحيح."
           : "Please close the app completely and reopen it to apply language settings correctly."}
       </Text>
@@ -45,9 +69,9 @@ function ManualRestartScreen({ isRTL }: { isRTL: boolean }) {
 
 function useNavigationTheme(): Theme {
   const { theme, isDark } = useThemeMode();
-  
+
   const baseTheme = isDark ? DarkTheme : DefaultTheme;
-  
+
   return {
     ...baseTheme,
     colors: {
@@ -65,27 +89,35 @@ function useNavigationTheme(): Theme {
 function AuthenticatedApp() {
   const { isDark } = useThemeMode();
   const navigationTheme = useNavigationTheme();
-  
+
   // Use I18nManager.isRTL directly - this is the true source after reload
   // Context isRTL can be stale; I18nManager reflects the actual native state
   const nativeIsRTL = I18nManager.isRTL;
-  
+
   return (
-    <DayProvider>
-      <SafeAreaProvider>
-        <GestureHandlerRootView style={styles.root}>
-          <KeyboardProvider>
-            <NavigationContainer 
-              key={nativeIsRTL ? "rtl" : "ltr"}
-              theme={navigationTheme}
-            >
-              <RootStackNavigator />
-            </NavigationContainer>
-            <StatusBar style={isDark ? "light" : "dark"} />
-          </KeyboardProvider>
-        </GestureHandlerRootView>
-      </SafeAreaProvider>
-    </DayProvider>
+    <StorageMigrationGate>
+      <PlantWorkspaceProvider>
+        <PlantConfigProvider>
+          <SyncProvider>
+            <DayProvider>
+              <SafeAreaProvider>
+                <GestureHandlerRootView style={styles.root}>
+                  <KeyboardProvider>
+                    <NavigationContainer
+                      key={nativeIsRTL ? "rtl" : "ltr"}
+                      theme={navigationTheme}
+                    >
+                      <RootStackNavigator />
+                    </NavigationContainer>
+                    <StatusBar style={isDark ? "light" : "dark"} />
+                  </KeyboardProvider>
+                </GestureHandlerRootView>
+              </SafeAreaProvider>
+            </DayProvider>
+          </SyncProvider>
+        </PlantConfigProvider>
+      </PlantWorkspaceProvider>
+    </StorageMigrationGate>
   );
 }
 
@@ -100,8 +132,15 @@ function AppContent() {
 
   if (loading) {
     return (
-      <View style={[styles.loadingContainer, { backgroundColor: theme.backgroundDefault }]}>
-        <Text style={[styles.loadingText, { color: theme.textSecondary }]}>Loading...</Text>
+      <View
+        style={[
+          styles.loadingContainer,
+          { backgroundColor: theme.backgroundDefault },
+        ]}
+      >
+        <Text style={[styles.loadingText, { color: theme.textSecondary }]}>
+          Loading...
+        </Text>
       </View>
     );
   }
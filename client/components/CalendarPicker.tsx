@@ -7,6 +7,8 @@ import { ThemedText } from "./ThemedText";
 import { useTheme } from "@/hooks/useTheme";
 import { Spacing, BorderRadius, Typography } from "@/constants/theme";
 import { formatDateKey } from "@/lib/storage";
+import { dayCrewLabel } from "@/lib/crewRotation";
+import { usePlantConfig } from "@/contexts/PlantConfigContext";
 
 interface CalendarPickerProps {
   selectedDate: string;
@@ -16,23 +18,28 @@ interface CalendarPickerProps {
 
 const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 const MONTHS = [
-  "January", "February", "March", "April", "May", "June",
-  "July", "August", "September", "October", "November", "December"
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
 ];
 
-function getDayLetter(dateStr: string): string {
-  const letters = ["B", "D", "A", "C"];
-  const date = new Date(dateStr);
-  if (isNaN(date.getTime())) return "A";
-  const epoch = new Date("2026-01-18");
-  const diffDays = Math.floor((date.getTime() - epoch.getTime()) / (1000 * 60 * 60 * 24));
-  const index = ((diffDays % 4) + 4) % 4;
-  return letters[index];
-}
-
-export function CalendarPicker({ selectedDate, onSelectDate, onClose }: CalendarPickerProps) {
+export function CalendarPicker({
+  selectedDate,
+  onSelectDate,
+  onClose,
+}: CalendarPickerProps) {
   const { theme } = useTheme();
-  
+  const { config } = usePlantConfig();
+
   const currentDate = useMemo(() => {
     const d = new Date(selectedDate);
     return isNaN(d.getTime()) ? new Date() : d;
@@ -49,9 +56,9 @@ export function CalendarPicker({ selectedDate, onSelectDate, onClose }: Calendar
     const lastDay = new Date(viewYear, viewMonth + 1, 0);
     const daysInMonth = lastDay.getDate();
     const startWeekday = firstDay.getDay();
-    
+
     const days: { date: Date; dateStr: string; isCurrentMonth: boolean }[] = [];
-    
+
     const prevMonthLastDay = new Date(viewYear, viewMonth, 0).getDate();
     for (let i = startWeekday - 1; i >= 0; i--) {
       const d = new Date(viewYear, viewMonth - 1, prevMonthLastDay - i);
@@ -61,7 +68,7 @@ export function CalendarPicker({ selectedDate, onSelectDate, onClose }: Calendar
         isCurrentMonth: false,
       });
     }
-    
+
     for (let i = 1; i <= daysInMonth; i++) {
       const d = new Date(viewYear, viewMonth, i);
       days.push({
@@ -70,7 +77,7 @@ export function CalendarPicker({ selectedDate, onSelectDate, onClose }: Calendar
         isCurrentMonth: true,
       });
     }
-    
+
     const remainingDays = 42 - days.length;
     for (let i = 1; i <= remainingDays; i++) {
       const d = new Date(viewYear, viewMonth + 1, i);
@@ -80,7 +87,7 @@ export function CalendarPicker({ selectedDate, onSelectDate, onClose }: Calendar
         isCurrentMonth: false,
       });
     }
-    
+
     return days;
   }, [viewMonth, viewYear]);
 
@@ -116,13 +123,18 @@ export function CalendarPicker({ selectedDate, onSelectDate, onClose }: Calendar
     onClose();
   };
 
-  const dayLetter = getDayLetter(selectedDate);
+  const dayLetter = dayCrewLabel(config, selectedDate);
 
   return (
-    <View style={[styles.container, { backgroundColor: theme.backgroundDefault }]}>
+    <View
+      style={[styles.container, { backgroundColor: theme.backgroundDefault }]}
+    >
       <View style={styles.header}>
         <Pressable
-          style={[styles.monthNavButton, { backgroundColor: theme.primary + "20" }]}
+          style={[
+            styles.monthNavButton,
+            { backgroundColor: theme.primary + "20" },
+          ]}
           onPress={handlePrevMonth}
         >
           <Feather name="chevron-left" size={20} color={theme.primary} />
@@ -133,7 +145,10 @@ export function CalendarPicker({ selectedDate, onSelectDate, onClose }: Calendar
           </ThemedText>
         </View>
         <Pressable
-          style={[styles.monthNavButton, { backgroundColor: theme.primary + "20" }]}
+          style={[
+            styles.monthNavButton,
+            { backgroundColor: theme.primary + "20" },
+          ]}
           onPress={handleNextMonth}
         >
           <Feather name="chevron-right" size={20} color={theme.primary} />
@@ -143,7 +158,10 @@ export function CalendarPicker({ selectedDate, onSelectDate, onClose }: Calendar
       <View style={styles.weekdaysRow}>
         {WEEKDAYS.map((day) => (
           <View key={day} style={styles.weekdayCell}>
-            <ThemedText type="caption" style={{ color: theme.textSecondary, textAlign: "center" }}>
+            <ThemedText
+              type="caption"
+              style={{ color: theme.textSecondary, textAlign: "center" }}
+            >
               {day}
             </ThemedText>
           </View>
@@ -154,14 +172,15 @@ export function CalendarPicker({ selectedDate, onSelectDate, onClose }: Calendar
         {calendarDays.map((day, index) => {
           const isSelected = day.dateStr === selectedDate;
           const isToday = day.dateStr === todayStr;
-          
+
           return (
             <Pressable
               key={index}
               style={[
                 styles.dayCell,
                 isSelected && { backgroundColor: theme.primary },
-                isToday && !isSelected && { borderWidth: 2, borderColor: theme.primary },
+                isToday &&
+                  !isSelected && { borderWidth: 2, borderColor: theme.primary },
               ]}
               onPress={() => handleSelectDate(day.dateStr)}
             >
@@ -171,8 +190,8 @@ export function CalendarPicker({ selectedDate, onSelectDate, onClose }: Calendar
                   color: isSelected
                     ? "#fff"
                     : day.isCurrentMonth
-                    ? theme.text
-                    : theme.textSecondary + "60",
+                      ? theme.text
+                      : theme.textSecondary + "60",
                   fontWeight: isSelected || isToday ? "600" : "400",
                   textAlign: "center",
                 }}
@@ -184,15 +203,34 @@ export function CalendarPicker({ selectedDate, onSelectDate, onClose }: Calendar
         })}
       </View>
 
-      <View style={[styles.selectedInfo, { backgroundColor: theme.backgroundSecondary, borderColor: theme.border }]}>
+      <View
+        style={[
+          styles.selectedInfo,
+          {
+            backgroundColor: theme.backgroundSecondary,
+            borderColor: theme.border,
+          },
+        ]}
+      >
         <ThemedText type="body" style={{ color: theme.textSecondary }}>
           Selected:{" "}
         </ThemedText>
-        <ThemedText type="h4" style={{ fontFamily: Typography.mono.fontFamily }}>
+        <ThemedText
+          type="h4"
+          style={{ fontFamily: Typography.mono.fontFamily }}
+        >
           {selectedDate}
         </ThemedText>
-        <View style={[styles.dayLetterBadge, { backgroundColor: theme.primary + "20" }]}>
-          <ThemedText type="small" style={{ color: theme.primary, fontWeight: "600" }}>
+        <View
+          style={[
+            styles.dayLetterBadge,
+            { backgroundColor: theme.primary + "20" },
+          ]}
+        >
+          <ThemedText
+            type="small"
+            style={{ color: theme.primary, fontWeight: "600" }}
+          >
             Day {dayLetter}
           </ThemedText>
         </View>
@@ -202,7 +240,12 @@ export function CalendarPicker({ selectedDate, onSelectDate, onClose }: Calendar
         style={[styles.todayButton, { backgroundColor: theme.primary }]}
         onPress={handleGoToToday}
       >
-        <Feather name="calendar" size={18} color="#fff" style={{ marginRight: Spacing.sm }} />
+        <Feather
+          name="calendar"
+          size={18}
+          color="#fff"
+          style={{ marginRight: Spacing.sm }}
+        />
         <ThemedText type="body" style={{ color: "#fff", fontWeight: "600" }}>
           Go to Today
         </ThemedText>
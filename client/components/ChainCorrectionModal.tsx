@@ -0,0 +1,284 @@
+import React from "react";
+import {
+  View,
+  StyleSheet,
+  Modal,
+  Pressable,
+  ScrollView,
+  ActivityIndicator,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "./ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { usePlantConfig } from "@/contexts/PlantConfigContext";
+import { Spacing, BorderRadius, Typography } from "@/constants/theme";
+import { ChainCorrection } from "@/lib/dayChain";
+import { fieldLabel } from "@/lib/dayHistory";
+import { format2 } from "@/lib/storage";
+
+interface ChainCorrectionModalProps {
+  visible: boolean;
+  corrections: ChainCorrection[];
+  applying: boolean;
+  onApply: () => void;
+  onClose: () => void;
+}
+
+interface TotalRowProps {
+  label: string;
+  before: number;
+  after: number;
+}
+
+function TotalRow({ label, before, after }: TotalRowProps) {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const changed = format2(before) !== format2(after);
+
+  return (
+    <View style={styles.changeRow}>
+      <ThemedText type="small" style={{ color: theme.textSecondary, flex: 1 }}>
+        {label}
+      </ThemedText>
+      <ThemedText
+        type="small"
+        style={{
+          fontFamily: Typography.mono.fontFamily,
+          color: changed ? theme.primary : theme.textSecondary,
+        }}
+      >
+        {format2(before)}
+        {changed ? `  →  ${format2(after)}` : ""} {t("mwh")}
+      </ThemedText>
+    </View>
+  );
+}
+
+// Lists every day a chain correction would rewrite, with the changed
+// readings and the effect on the day's totals, before anything is saved.
+export function ChainCorrectionModal({
+  visible,
+  corrections,
+  applying,
+  onApply,
+  onClose,
+}: ChainCorrectionModalProps) {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const { config } = usePlantConfig();
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View
+          style={[
+            styles.container,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          <View style={[styles.header, { borderBottomColor: theme.border }]}>
+            <View style={styles.headerTitle}>
+              <View
+                style={[
+                  styles.headerIcon,
+                  { backgroundColor: theme.primary + "20" },
+                ]}
+              >
+                <Feather name="link" size={18} color={theme.primary} />
+              </View>
+              <ThemedText type="h4" style={{ marginLeft: Spacing.sm }}>
+                {t("chain_preview")}
+              </ThemedText>
+            </View>
+            <Pressable
+              style={[
+                styles.closeButton,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+              onPress={onClose}
+            >
+              <Feather name="x" size={20} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <ScrollView
+            style={styles.list}
+            contentContainerStyle={styles.listContent}
+            showsVerticalScrollIndicator={false}
+          >
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              {t("chain_preview_hint")}
+            </ThemedText>
+
+            {corrections.map((correction) => (
+              <View
+                key={correction.after.dateKey}
+                style={[
+                  styles.dayCard,
+                  { backgroundColor: theme.backgroundSecondary },
+                ]}
+              >
+                <ThemedText type="body" style={{ fontWeight: "600" }}>
+                  {correction.after.dateKey}
+                </ThemedText>
+
+                {correction.changes.map((change) => (
+                  <View key={change.field} style={styles.changeRow}>
+                    <ThemedText
+                      type="small"
+                      style={{ color: theme.textSecondary, flex: 1 }}
+                    >
+                      {fieldLabel(change.field, config, t)}
+                    </ThemedText>
+                    <ThemedText
+                      type="small"
+                      style={{ fontFamily: Typography.mono.fontFamily }}
+                    >
+                      <ThemedText
+                        type="small"
+                        style={{
+                          color: theme.error,
+                          textDecorationLine: "line-through",
+                        }}
+                      >
+                        {change.oldValue || "—"}
+                      </ThemedText>
+                      {"  →  "}
+                      <ThemedText type="small" style={{ color: theme.success }}>
+                        {change.newValue}
+                      </ThemedText>
+                    </ThemedText>
+                  </View>
+                ))}
+
+                <View style={[styles.totals, { borderTopColor: theme.border }]}>
+                  <TotalRow
+                    label={t("production")}
+                    before={correction.productionBefore}
+                    after={correction.productionAfter}
+                  />
+                  <TotalRow
+                    label={t("export")}
+                    before={correction.exportBefore}
+                    after={correction.exportAfter}
+                  />
+                </View>
+              </View>
+            ))}
+          </ScrollView>
+
+          <View style={[styles.footer, { borderTopColor: theme.border }]}>
+            <Pressable
+              style={[
+                styles.footerButton,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+              onPress={onClose}
+              disabled={applying}
+              testID="button-chain-cancel"
+            >
+              <ThemedText type="body">{t("cancel")}</ThemedText>
+            </Pressable>
+            <Pressable
+              style={[styles.footerButton, { backgroundColor: theme.primary }]}
+              onPress={onApply}
+              disabled={applying || corrections.length === 0}
+              testID="button-chain-apply"
+            >
+              {applying ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <ThemedText type="body" style={{ color: "#fff" }}>
+                  {t("chain_apply")}
+                </ThemedText>
+              )}
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  container: {
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    maxHeight: "85%",
+    minHeight: 300,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    flexDirection: "row",
+    alignItems: "center",
+    flex: 1,
+  },
+  headerIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  list: {
+    flexGrow: 0,
+  },
+  listContent: {
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  dayCard: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.xs,
+  },
+  changeRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  totals: {
+    borderTopWidth: 1,
+    marginTop: Spacing.xs,
+    paddingTop: Spacing.xs,
+    gap: Spacing.xs,
+  },
+  footer: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    padding: Spacing.lg,
+    borderTopWidth: 1,
+  },
+  footerButton: {
+    flex: 1,
+    height: 44,
+    borderRadius: BorderRadius.sm,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
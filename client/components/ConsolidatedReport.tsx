@@ -0,0 +1,295 @@
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet, Pressable, ActivityIndicator } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "./ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { usePlantWorkspace } from "@/contexts/PlantWorkspaceContext";
+import { useRTL } from "@/hooks/useRTL";
+import { Spacing, BorderRadius, Typography } from "@/constants/theme";
+import { formatWithCommas, numberTextStyle } from "@/lib/storage";
+import {
+  ConsolidatedReport as Report,
+  SiteTotals,
+  consolidateSites,
+} from "@/lib/siteConsolidation";
+
+function shiftMonth(month: string, delta: number): string {
+  const [year, m] = month.split("-").map(Number);
+  const date = new Date(year, m - 1 + delta, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+interface TotalsRowProps {
+  label: string;
+  totals: SiteTotals;
+  emphasized?: boolean;
+}
+
+function TotalsRow({ label, totals, emphasized }: TotalsRowProps) {
+  const { theme } = useTheme();
+  const { rtlRow, rtlText } = useRTL();
+  const valueStyle = {
+    fontFamily: Typography.mono.fontFamily,
+    fontWeight: emphasized ? ("700" as const) : ("400" as const),
+    ...numberTextStyle,
+  };
+
+  return (
+    <View
+      style={[
+        styles.row,
+        rtlRow,
+        emphasized && { backgroundColor: theme.backgroundSecondary },
+      ]}
+    >
+      <ThemedText
+        type="small"
+        style={[
+          styles.siteCell,
+          { fontWeight: emphasized ? "700" : "400" },
+          rtlText,
+        ]}
+        numberOfLines={1}
+      >
+        {label}
+      </ThemedText>
+      <ThemedText type="small" style={[styles.valueCell, valueStyle]}>
+        {formatWithCommas(totals.production)}
+      </ThemedText>
+      <ThemedText type="small" style={[styles.valueCell, valueStyle]}>
+        {formatWithCommas(totals.exportTotal)}
+      </ThemedText>
+      <ThemedText type="small" style={[styles.valueCell, valueStyle]}>
+        {formatWithCommas(totals.gasConsumed, 0)}
+      </ThemedText>
+    </View>
+  );
+}
+
+interface ConsolidatedReportProps {
+  initialMonth: string;
+}
+
+// Production, export and gas of the selected sites for a month, side by side
+// and summed.
+export function ConsolidatedReport({ initialMonth }: ConsolidatedReportProps) {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const { isRTL, rtlRow } = useRTL();
+  const { plants, scope } = usePlantWorkspace();
+  const [month, setMonth] = useState(initialMonth);
+  const [excluded, setExcluded] = useState<string[]>([]);
+  const [report, setReport] = useState<Report | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const online = scope !== null;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    const sites = plants.filter((p) => !excluded.includes(p.id));
+    consolidateSites(sites, month, online)
+      .then((next) => {
+        if (!cancelled) setReport(next);
+      })
+      .catch((error) => console.error("Error consolidating sites:", error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [plants, excluded, month, online]);
+
+  const toggleSite = (plantId: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setExcluded((current) =>
+      current.includes(plantId)
+        ? current.filter((id) => id !== plantId)
+        : [...current, plantId],
+    );
+  };
+
+  const changeMonth = (delta: number) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setMonth((current) => shiftMonth(current, delta));
+  };
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.backgroundDefault }]}>
+      <View
+        style={[styles.header, rtlRow, { borderBottomColor: theme.border }]}
+      >
+        <Pressable
+          style={[
+            styles.navButton,
+            { backgroundColor: theme.backgroundSecondary },
+          ]}
+          onPress={() => changeMonth(-1)}
+          testID="button-consolidated-prev"
+        >
+          <Feather
+            name={isRTL ? "chevron-right" : "chevron-left"}
+            size={18}
+            color={theme.text}
+          />
+        </Pressable>
+        <ThemedText type="h4" style={styles.monthLabel}>
+          {month}
+        </ThemedText>
+        <Pressable
+          style={[
+            styles.navButton,
+            { backgroundColor: theme.backgroundSecondary },
+          ]}
+          onPress={() => changeMonth(1)}
+          testID="button-consolidated-next"
+        >
+          <Feather
+            name={isRTL ? "chevron-left" : "chevron-right"}
+            size={18}
+            color={theme.text}
+          />
+        </Pressable>
+      </View>
+
+      <View style={[styles.chipRow, rtlRow]}>
+        {plants.map((plant) => {
+          const included = !excluded.includes(plant.id);
+          return (
+            <Pressable
+              key={plant.id}
+              style={[
+                styles.chip,
+                {
+                  borderColor: included ? theme.primary : theme.border,
+                  backgroundColor: included
+                    ? theme.primary + "20"
+                    : "transparent",
+                },
+              ]}
+              onPress={() => toggleSite(plant.id)}
+              testID={`chip-site-${plant.id}`}
+            >
+              <ThemedText
+                type="small"
+                style={{ color: included ? theme.primary : theme.text }}
+              >
+                {plant.name}
+              </ThemedText>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      <View style={[styles.row, rtlRow, { borderTopColor: theme.border }]}>
+        <ThemedText
+          type="caption"
+          style={[styles.siteCell, { color: theme.textSecondary }]}
+        >
+          {t("site")}
+        </ThemedText>
+        <ThemedText
+          type="caption"
+          style={[styles.valueCell, { color: theme.textSecondary }]}
+        >
+          {t("production")} ({t("mwh")})
+        </ThemedText>
+        <ThemedText
+          type="caption"
+          style={[styles.valueCell, { color: theme.textSecondary }]}
+        >
+          {t("export")} ({t("mwh")})
+        </ThemedText>
+        <ThemedText
+          type="caption"
+          style={[styles.valueCell, { color: theme.textSecondary }]}
+        >
+          {t("gas_consumed")} (m³)
+        </ThemedText>
+      </View>
+
+      {loading || !report ? (
+        <ActivityIndicator
+          style={{ padding: Spacing.lg }}
+          color={theme.primary}
+        />
+      ) : report.sites.length === 0 ? (
+        <ThemedText
+          type="small"
+          style={[styles.empty, { color: theme.textSecondary }]}
+        >
+          {t("no_sites_selected")}
+        </ThemedText>
+      ) : (
+        <>
+          {report.sites.map((site) => (
+            <TotalsRow
+              key={site.plantId}
+              label={site.name}
+              totals={site.totals}
+            />
+          ))}
+          <TotalsRow label={t("all_sites")} totals={report.total} emphasized />
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.lg,
+    overflow: "hidden",
+  },
+  header: {
+    alignItems: "center",
+    padding: Spacing.md,
+    borderBottomWidth: 1,
+  },
+  navButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  monthLabel: {
+    flex: 1,
+    textAlign: "center",
+  },
+  chipRow: {
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    padding: Spacing.md,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+  },
+  row: {
+    alignItems: "center",
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: "transparent",
+  },
+  siteCell: {
+    flex: 1.4,
+  },
+  valueCell: {
+    flex: 1,
+    textAlign: "right",
+  },
+  empty: {
+    padding: Spacing.lg,
+    textAlign: "center",
+  },
+});
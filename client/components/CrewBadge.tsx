@@ -0,0 +1,63 @@
+import React from "react";
+import { StyleSheet, Pressable, Alert } from "react-native";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "./ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { usePlantConfig } from "@/contexts/PlantConfigContext";
+import { Spacing } from "@/constants/theme";
+import { crewsForDay, dayCrewLabel } from "@/lib/crewRotation";
+
+interface CrewBadgeProps {
+  dateKey: string;
+  testID?: string;
+}
+
+export function CrewBadge({ dateKey, testID }: CrewBadgeProps) {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const { config } = usePlantConfig();
+
+  const label = dayCrewLabel(config, dateKey);
+
+  const handlePress = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const lines = crewsForDay(config, dateKey).map(
+      ({ shift, crew, exception }) =>
+        `${shift.name} (${shift.start}): ${crew ?? "—"}${exception ? " *" : ""}`,
+    );
+    Alert.alert(`${t("crew_on_duty")} · ${dateKey}`, lines.join("\n"));
+  };
+
+  return (
+    <Pressable
+      style={[
+        styles.badge,
+        { borderColor: theme.primary, backgroundColor: theme.primary + "10" },
+      ]}
+      onPress={handlePress}
+      testID={testID}
+    >
+      <ThemedText
+        type={label.length > 2 ? "small" : "h3"}
+        style={{ color: theme.primary, fontWeight: "700" }}
+        numberOfLines={1}
+      >
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    minWidth: 44,
+    height: 44,
+    borderRadius: 22,
+    borderWidth: 2,
+    paddingHorizontal: Spacing.sm,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
@@ -0,0 +1,356 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Modal,
+  Pressable,
+  TextInput,
+  ActivityIndicator,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "./ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useDay } from "@/contexts/DayContext";
+import { usePlantWorkspace } from "@/contexts/PlantWorkspaceContext";
+import { useRTL } from "@/hooks/useRTL";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { DayStatus, STATUS_LABELS, dayStatus } from "@/lib/dayApproval";
+import { canApproveDays, canEditDays } from "@/lib/plantWorkspace";
+import { ValidationError } from "@/lib/validation";
+import { showSuccess, showError } from "@/utils/notify";
+
+type Theme = ReturnType<typeof useTheme>["theme"];
+
+const STATUS_ICONS: Record<DayStatus, keyof typeof Feather.glyphMap> = {
+  draft: "edit-3",
+  submitted: "send",
+  approved: "lock",
+};
+
+function statusColor(status: DayStatus, theme: Theme): string {
+  switch (status) {
+    case "submitted":
+      return theme.warning;
+    case "approved":
+      return theme.success;
+    default:
+      return theme.textSecondary;
+  }
+}
+
+interface UnlockDayModalProps {
+  visible: boolean;
+  onUnlock: (reason: string) => void;
+  onClose: () => void;
+}
+
+function UnlockDayModal({ visible, onUnlock, onClose }: UnlockDayModalProps) {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const { rtlText } = useRTL();
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (visible) setReason("");
+  }, [visible]);
+
+  const handleUnlock = () => {
+    if (!reason.trim()) {
+      showError(t("unlock_reason_required"));
+      return;
+    }
+    onUnlock(reason);
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View
+          style={[
+            styles.container,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          <View style={[styles.header, { borderBottomColor: theme.border }]}>
+            <View style={styles.headerTitle}>
+              <View
+                style={[
+                  styles.headerIcon,
+                  { backgroundColor: theme.warning + "20" },
+                ]}
+              >
+                <Feather name="unlock" size={18} color={theme.warning} />
+              </View>
+              <ThemedText type="h4" style={{ marginLeft: Spacing.sm }}>
+                {t("unlock_day")}
+              </ThemedText>
+            </View>
+            <Pressable
+              style={[
+                styles.closeButton,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+              onPress={onClose}
+            >
+              <Feather name="x" size={20} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <View style={styles.body}>
+            <TextInput
+              style={[
+                styles.input,
+                {
+                  color: theme.text,
+                  borderColor: theme.border,
+                  backgroundColor: theme.backgroundSecondary,
+                },
+                rtlText,
+              ]}
+              value={reason}
+              onChangeText={setReason}
+              placeholder={t("unlock_reason")}
+              placeholderTextColor={theme.textSecondary}
+              autoFocus
+              testID="input-unlock-reason"
+            />
+          </View>
+
+          <View style={[styles.footer, { borderTopColor: theme.border }]}>
+            <Pressable
+              style={[
+                styles.footerButton,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+              onPress={onClose}
+              testID="button-unlock-cancel"
+            >
+              <ThemedText type="body">{t("cancel")}</ThemedText>
+            </Pressable>
+            <Pressable
+              style={[styles.footerButton, { backgroundColor: theme.warning }]}
+              onPress={handleUnlock}
+              testID="button-unlock-confirm"
+            >
+              <ThemedText type="body" style={{ color: "#fff" }}>
+                {t("unlock_day")}
+              </ThemedText>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+// Shows the day's approval status with the next step: submit a draft,
+// approve a submitted day, or unlock an approved one with a reason. Days in
+// a closed month have no next step until the month is reopened, and the
+// step is only offered to a role allowed to take it.
+export function DayApprovalBar() {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const { rtlRow, rtlText } = useRTL();
+  const { day, monthClosed, submitDay, approveDay, unlockDay } = useDay();
+  const { role } = usePlantWorkspace();
+  const [busy, setBusy] = useState(false);
+  const [showUnlock, setShowUnlock] = useState(false);
+
+  const status = dayStatus(day);
+  const color = monthClosed ? theme.error : statusColor(status, theme);
+
+  const run = async (action: () => Promise<unknown>, message: string) => {
+    if (busy) return;
+    setBusy(true);
+    try {
+      await action();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      showSuccess(message);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        showError(t("validation_blocked"));
+      } else {
+        console.error("Error changing day status:", error);
+        showError(t("msg_error_generic"));
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAction = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (status === "draft") {
+      run(submitDay, t("msg_day_submitted"));
+    } else if (status === "submitted") {
+      run(approveDay, t("msg_day_approved"));
+    } else {
+      setShowUnlock(true);
+    }
+  };
+
+  const canAct =
+    !monthClosed &&
+    (status === "draft" ? canEditDays(role) : canApproveDays(role));
+
+  const actionLabel =
+    status === "draft"
+      ? t("submit_day")
+      : status === "submitted"
+        ? t("approve_day")
+        : t("unlock_day");
+
+  return (
+    <>
+      <View
+        style={[
+          styles.bar,
+          rtlRow,
+          { backgroundColor: color + "15", borderColor: color },
+        ]}
+      >
+        <Feather
+          name={monthClosed ? "lock" : STATUS_ICONS[status]}
+          size={18}
+          color={color}
+        />
+        <View style={{ flex: 1 }}>
+          <ThemedText
+            type="small"
+            style={[{ color, fontWeight: "600" }, rtlText]}
+          >
+            {t(STATUS_LABELS[status])}
+          </ThemedText>
+          {monthClosed ? (
+            <ThemedText
+              type="caption"
+              style={[{ color: theme.textSecondary }, rtlText]}
+            >
+              {t("month_closed_locked")}
+            </ThemedText>
+          ) : status === "approved" ? (
+            <ThemedText
+              type="caption"
+              style={[{ color: theme.textSecondary }, rtlText]}
+            >
+              {day.approval?.name
+                ? `${t("approved_by")} ${day.approval.name}`
+                : t("day_locked")}
+            </ThemedText>
+          ) : null}
+        </View>
+        {!canAct ? null : (
+          <Pressable
+            style={[styles.actionButton, { borderColor: color }]}
+            onPress={handleAction}
+            disabled={busy}
+            testID="button-day-status"
+          >
+            {busy ? (
+              <ActivityIndicator size="small" color={color} />
+            ) : (
+              <ThemedText type="small" style={{ color, fontWeight: "600" }}>
+                {actionLabel}
+              </ThemedText>
+            )}
+          </Pressable>
+        )}
+      </View>
+
+      <UnlockDayModal
+        visible={showUnlock}
+        onUnlock={(reason) =>
+          run(() => unlockDay(reason), t("msg_day_unlocked"))
+        }
+        onClose={() => setShowUnlock(false)}
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    alignItems: "center",
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    marginBottom: Spacing.lg,
+  },
+  actionButton: {
+    minWidth: 80,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    alignItems: "center",
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  container: {
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    flexDirection: "row",
+    alignItems: "center",
+    flex: 1,
+  },
+  headerIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  body: {
+    padding: Spacing.lg,
+  },
+  input: {
+    height: 44,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    paddingHorizontal: Spacing.md,
+    fontSize: 16,
+  },
+  footer: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    padding: Spacing.lg,
+    borderTopWidth: 1,
+  },
+  footerButton: {
+    flex: 1,
+    height: 44,
+    borderRadius: BorderRadius.sm,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
@@ -0,0 +1,385 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Modal,
+  Pressable,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "./ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { usePlantWorkspace } from "@/contexts/PlantWorkspaceContext";
+import { useDay } from "@/contexts/DayContext";
+import { usePlantConfig } from "@/contexts/PlantConfigContext";
+import { Spacing, BorderRadius, Typography } from "@/constants/theme";
+import { DayRevision, fieldLabel, loadDayHistory } from "@/lib/dayHistory";
+import { DayLockedError, STATUS_LABELS, isDayStatus } from "@/lib/dayApproval";
+import { MonthClosedError } from "@/lib/monthClosing";
+import { PlantPermissionError } from "@/lib/plantWorkspace";
+import { ValidationError } from "@/lib/validation";
+import { showSuccess, showError } from "@/utils/notify";
+
+interface DayHistoryModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+function formatTimestamp(iso: string): string {
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? iso : date.toLocaleString();
+}
+
+export function DayHistoryModal({ visible, onClose }: DayHistoryModalProps) {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const { plant } = usePlantWorkspace();
+  const { dateKey, revertToRevision } = useDay();
+  const { config } = usePlantConfig();
+
+  const [revisions, setRevisions] = useState<DayRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    setLoading(true);
+    try {
+      setRevisions(await loadDayHistory(plant?.id ?? null, dateKey));
+    } catch (error) {
+      console.error("Error loading day history:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [plant?.id, dateKey]);
+
+  useEffect(() => {
+    if (visible) {
+      loadHistory();
+    }
+  }, [visible, loadHistory]);
+
+  const formatValue = (field: string, value: string) => {
+    if (!value) return "—";
+    if (field === "status" && isDayStatus(value)) {
+      return t(STATUS_LABELS[value]);
+    }
+    if (field.endsWith(".readings")) {
+      try {
+        return `${JSON.parse(value).length} ${t("intraday_readings")}`;
+      } catch {
+        return value;
+      }
+    }
+    return value;
+  };
+
+  const confirmRevert = async (revision: DayRevision) => {
+    setRevertingId(revision.id);
+    try {
+      await revertToRevision(revision);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      showSuccess(t("version_restored"));
+      await loadHistory();
+    } catch (error) {
+      console.error("Error restoring version:", error);
+      if (error instanceof MonthClosedError) {
+        showError(t("month_closed_locked"));
+      } else if (error instanceof DayLockedError) {
+        showError(t("day_locked"));
+      } else if (error instanceof ValidationError) {
+        showError(t("restore_version_invalid"));
+      } else if (error instanceof PlantPermissionError) {
+        showError(t("read_only_role"));
+      } else {
+        showError(t("msg_error_generic"));
+      }
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  const handleRevert = (revision: DayRevision) => {
+    if (revertingId) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    Alert.alert(t("restore_version"), t("restore_version_confirm"), [
+      { text: t("cancel"), style: "cancel" },
+      { text: t("restore_version"), onPress: () => confirmRevert(revision) },
+    ]);
+  };
+
+  const revisionTime = (id: string) =>
+    revisions.find((r) => r.id === id)?.createdAt;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View
+          style={[
+            styles.container,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          <View style={[styles.header, { borderBottomColor: theme.border }]}>
+            <View style={styles.headerTitle}>
+              <View
+                style={[
+                  styles.headerIcon,
+                  { backgroundColor: theme.primary + "20" },
+                ]}
+              >
+                <Feather name="git-commit" size={18} color={theme.primary} />
+              </View>
+              <ThemedText type="h4" style={{ marginLeft: Spacing.sm }}>
+                {t("day_history")} · {dateKey}
+              </ThemedText>
+            </View>
+            <Pressable
+              style={[
+                styles.closeButton,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+              onPress={onClose}
+            >
+              <Feather name="x" size={20} color={theme.text} />
+            </Pressable>
+          </View>
+
+          {loading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color={theme.primary} />
+            </View>
+          ) : revisions.length === 0 ? (
+            <View style={styles.emptyContainer}>
+              <Feather name="clock" size={48} color={theme.textSecondary} />
+              <ThemedText
+                type="body"
+                style={{ color: theme.textSecondary, marginTop: Spacing.md }}
+              >
+                {t("no_history")}
+              </ThemedText>
+            </View>
+          ) : (
+            <ScrollView
+              style={styles.list}
+              contentContainerStyle={styles.listContent}
+              showsVerticalScrollIndicator={false}
+            >
+              {revisions.map((revision, index) => {
+                const isCurrent = index === 0;
+                const restoredFrom = revision.revertOf
+                  ? revisionTime(revision.revertOf)
+                  : undefined;
+                return (
+                  <View
+                    key={revision.id}
+                    style={[
+                      styles.revisionCard,
+                      {
+                        backgroundColor: theme.backgroundSecondary,
+                        borderColor: isCurrent ? theme.primary : "transparent",
+                      },
+                    ]}
+                  >
+                    <View style={styles.revisionHeader}>
+                      <View style={{ flex: 1 }}>
+                        <ThemedText type="body" style={{ fontWeight: "600" }}>
+                          {formatTimestamp(revision.createdAt)}
+                        </ThemedText>
+                        <ThemedText
+                          type="caption"
+                          style={{ color: theme.textSecondary }}
+                        >
+                          {revision.authorName || t("history_unknown_user")} ·{" "}
+                          {revision.deviceId}
+                        </ThemedText>
+                      </View>
+                      {isCurrent ? (
+                        <ThemedText
+                          type="caption"
+                          style={{ color: theme.primary, fontWeight: "600" }}
+                        >
+                          {t("current_version")}
+                        </ThemedText>
+                      ) : (
+                        <Pressable
+                          style={[
+                            styles.revertButton,
+                            { borderColor: theme.primary },
+                          ]}
+                          onPress={() => handleRevert(revision)}
+                          disabled={!!revertingId}
+                          testID={`button-revert-${revision.id}`}
+                        >
+                          {revertingId === revision.id ? (
+                            <ActivityIndicator
+                              size="small"
+                              color={theme.primary}
+                            />
+                          ) : (
+                            <>
+                              <Feather
+                                name="corner-up-left"
+                                size={14}
+                                color={theme.primary}
+                              />
+                              <ThemedText
+                                type="small"
+                                style={{
+                                  color: theme.primary,
+                                  marginLeft: Spacing.xs,
+                                }}
+                              >
+                                {t("restore_version")}
+                              </ThemedText>
+                            </>
+                          )}
+                        </Pressable>
+                      )}
+                    </View>
+
+                    {revision.revertOf ? (
+                      <ThemedText
+                        type="caption"
+                        style={{ color: theme.warning }}
+                      >
+                        {t("restored_from")}{" "}
+                        {restoredFrom ? formatTimestamp(restoredFrom) : ""}
+                      </ThemedText>
+                    ) : null}
+
+                    {revision.note ? (
+                      <ThemedText type="small" style={{ fontStyle: "italic" }}>
+                        “{revision.note}”
+                      </ThemedText>
+                    ) : null}
+
+                    {revision.changes.map((change) => (
+                      <View key={change.field} style={styles.changeRow}>
+                        <ThemedText
+                          type="small"
+                          style={{ color: theme.textSecondary, flex: 1 }}
+                        >
+                          {fieldLabel(change.field, config, t)}
+                        </ThemedText>
+                        <ThemedText
+                          type="small"
+                          style={{ fontFamily: Typography.mono.fontFamily }}
+                        >
+                          <ThemedText
+                            type="small"
+                            style={{
+                              color: theme.error,
+                              textDecorationLine: "line-through",
+                            }}
+                          >
+                            {formatValue(change.field, change.oldValue)}
+                          </ThemedText>
+                          {"  →  "}
+                          <ThemedText
+                            type="small"
+                            style={{ color: theme.success }}
+                          >
+                            {formatValue(change.field, change.newValue)}
+                          </ThemedText>
+                        </ThemedText>
+                      </View>
+                    ))}
+                  </View>
+                );
+              })}
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  container: {
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    maxHeight: "85%",
+    minHeight: 300,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    flexDirection: "row",
+    alignItems: "center",
+    flex: 1,
+  },
+  headerIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  loadingContainer: {
+    padding: Spacing["3xl"],
+    alignItems: "center",
+  },
+  emptyContainer: {
+    padding: Spacing["3xl"],
+    alignItems: "center",
+  },
+  list: {
+    flexGrow: 0,
+  },
+  listContent: {
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  revisionCard: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    gap: Spacing.xs,
+  },
+  revisionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: Spacing.xs,
+  },
+  revertButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.xs,
+    borderWidth: 1,
+  },
+  changeRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+});
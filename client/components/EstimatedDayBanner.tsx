@@ -0,0 +1,70 @@
+import React from "react";
+import { View, StyleSheet, Pressable, Alert } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "./ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useDay } from "@/contexts/DayContext";
+import { useRTL } from "@/hooks/useRTL";
+import { Spacing, BorderRadius } from "@/constants/theme";
+
+// Shown above the readings of a day filled in by interpolation. Clearing the
+// mark only changes the draft; it takes effect when the day is saved.
+export function EstimatedDayBanner() {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const { rtlRow, rtlText } = useRTL();
+  const { day, setDay } = useDay();
+
+  if (!day.estimated) return null;
+
+  const handleClear = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    Alert.alert(t("estimated"), t("estimated_clear_confirm"), [
+      { text: t("cancel"), style: "cancel" },
+      {
+        text: t("estimated_clear"),
+        onPress: () => setDay((d) => ({ ...d, estimated: undefined })),
+      },
+    ]);
+  };
+
+  return (
+    <View
+      style={[
+        styles.banner,
+        rtlRow,
+        { backgroundColor: theme.warning + "15", borderColor: theme.warning },
+      ]}
+    >
+      <Feather name="alert-triangle" size={18} color={theme.warning} />
+      <ThemedText
+        type="small"
+        style={[{ color: theme.warning, flex: 1 }, rtlText]}
+      >
+        {t("estimated_banner")}
+      </ThemedText>
+      <Pressable onPress={handleClear} testID="button-clear-estimated">
+        <ThemedText
+          type="small"
+          style={{ color: theme.warning, fontWeight: "600" }}
+        >
+          {t("estimated_clear")}
+        </ThemedText>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    alignItems: "center",
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    marginBottom: Spacing.lg,
+  },
+});
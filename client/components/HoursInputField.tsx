@@ -12,6 +12,7 @@ interface HoursInputFieldProps {
   value: string;
   onChangeValue: (value: string) => void;
   testID?: string;
+  disabled?: boolean;
 }
 
 const KEYS = [
@@ -29,7 +30,13 @@ function clampHours(val: string): string {
   return String(num);
 }
 
-export function HoursInputField({ label, value, onChangeValue, testID }: HoursInputFieldProps) {
+export function HoursInputField({
+  label,
+  value,
+  onChangeValue,
+  testID,
+  disabled,
+}: HoursInputFieldProps) {
   const { theme } = useTheme();
   const [showKeypad, setShowKeypad] = useState(false);
   const [tempValue, setTempValue] = useState("");
@@ -43,14 +50,14 @@ export function HoursInputField({ label, value, onChangeValue, testID }: HoursIn
 
   const handleKeyPress = (key: string) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    
+
     if (key === "⌫") {
       setTempValue((prev) => prev.slice(0, -1));
       return;
     }
-    
+
     if (key === "") return;
-    
+
     const newValue = tempValue + key;
     const num = parseInt(newValue, 10);
     if (num > 24) {
@@ -83,12 +90,20 @@ export function HoursInputField({ label, value, onChangeValue, testID }: HoursIn
       <Pressable
         style={[
           styles.container,
-          { backgroundColor: theme.backgroundSecondary, borderColor: theme.border },
+          {
+            backgroundColor: theme.backgroundSecondary,
+            borderColor: theme.border,
+          },
+          disabled && { opacity: 0.6 },
         ]}
         onPress={handleOpen}
+        disabled={disabled}
         testID={testID}
       >
-        <ThemedText type="caption" style={[styles.label, { color: theme.textSecondary }]}>
+        <ThemedText
+          type="caption"
+          style={[styles.label, { color: theme.textSecondary }]}
+        >
           {label}
         </ThemedText>
         <ThemedText
@@ -109,13 +124,36 @@ export function HoursInputField({ label, value, onChangeValue, testID }: HoursIn
         onRequestClose={handleClose}
       >
         <Pressable style={styles.overlay} onPress={handleClose}>
-          <Pressable style={[styles.keypadContainer, { backgroundColor: theme.backgroundDefault }]} onPress={(e) => e.stopPropagation()}>
-            <ThemedText type="small" style={[styles.keypadLabel, { color: theme.textSecondary }]}>
+          <Pressable
+            style={[
+              styles.keypadContainer,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+            onPress={(e) => e.stopPropagation()}
+          >
+            <ThemedText
+              type="small"
+              style={[styles.keypadLabel, { color: theme.textSecondary }]}
+            >
               {label} (1-24)
             </ThemedText>
-            
-            <View style={[styles.display, { backgroundColor: theme.backgroundSecondary, borderColor: theme.border }]}>
-              <ThemedText type="h2" style={[styles.displayText, { fontFamily: Typography.mono.fontFamily }]}>
+
+            <View
+              style={[
+                styles.display,
+                {
+                  backgroundColor: theme.backgroundSecondary,
+                  borderColor: theme.border,
+                },
+              ]}
+            >
+              <ThemedText
+                type="h2"
+                style={[
+                  styles.displayText,
+                  { fontFamily: Typography.mono.fontFamily },
+                ]}
+              >
                 {tempValue || "0"}
               </ThemedText>
             </View>
@@ -128,12 +166,13 @@ export function HoursInputField({ label, value, onChangeValue, testID }: HoursIn
                       key={`${rowIndex}-${keyIndex}`}
                       style={[
                         styles.key,
-                        { 
-                          backgroundColor: key === "⌫" 
-                            ? theme.error + "20" 
-                            : key === "" 
-                              ? "transparent" 
-                              : theme.backgroundSecondary 
+                        {
+                          backgroundColor:
+                            key === "⌫"
+                              ? theme.error + "20"
+                              : key === ""
+                                ? "transparent"
+                                : theme.backgroundSecondary,
                         },
                       ]}
                       onPress={() => handleKeyPress(key)}
@@ -142,7 +181,10 @@ export function HoursInputField({ label, value, onChangeValue, testID }: HoursIn
                       {key === "⌫" ? (
                         <Feather name="delete" size={24} color={theme.error} />
                       ) : (
-                        <ThemedText type="h3" style={{ fontFamily: Typography.mono.fontFamily }}>
+                        <ThemedText
+                          type="h3"
+                          style={{ fontFamily: Typography.mono.fontFamily }}
+                        >
                           {key}
                         </ThemedText>
                       )}
@@ -154,18 +196,31 @@ export function HoursInputField({ label, value, onChangeValue, testID }: HoursIn
 
             <View style={styles.actionRow}>
               <Pressable
-                style={[styles.actionButton, { backgroundColor: theme.error + "20" }]}
+                style={[
+                  styles.actionButton,
+                  { backgroundColor: theme.error + "20" },
+                ]}
                 onPress={handleClear}
               >
-                <ThemedText type="body" style={{ color: theme.error, fontWeight: "600" }}>
+                <ThemedText
+                  type="body"
+                  style={{ color: theme.error, fontWeight: "600" }}
+                >
                   Clear
                 </ThemedText>
               </Pressable>
               <Pressable
-                style={[styles.actionButton, styles.doneButton, { backgroundColor: theme.primary }]}
+                style={[
+                  styles.actionButton,
+                  styles.doneButton,
+                  { backgroundColor: theme.primary },
+                ]}
                 onPress={handleDone}
               >
-                <ThemedText type="body" style={{ color: "#fff", fontWeight: "600" }}>
+                <ThemedText
+                  type="body"
+                  style={{ color: "#fff", fontWeight: "600" }}
+                >
                   Done
                 </ThemedText>
               </Pressable>
@@ -0,0 +1,328 @@
+import React, { useMemo } from "react";
+import { View, StyleSheet, Modal, Pressable, ScrollView } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "./ThemedText";
+import { NumericInputField } from "./NumericInputField";
+import { TimeInputField } from "./TimeInputField";
+import { LoadProfileBars } from "./LoadProfileBars";
+import { useTheme } from "@/hooks/useTheme";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { usePlantConfig } from "@/contexts/PlantConfigContext";
+import { Spacing, BorderRadius, Typography } from "@/constants/theme";
+import { IntervalReading, format2 } from "@/lib/storage";
+import {
+  EnergySegment,
+  currentTime,
+  hourlyProfile,
+  peakMw,
+  shiftEnergy,
+  sortReadings,
+} from "@/lib/intraday";
+import { showError } from "@/utils/notify";
+
+interface IntradayReadingsModalProps {
+  visible: boolean;
+  title: string;
+  readings: IntervalReading[];
+  segments: EnergySegment[];
+  onChangeReadings: (readings: IntervalReading[]) => void;
+  onClose: () => void;
+}
+
+interface IntradayReadingsButtonProps {
+  count: number;
+  onPress: () => void;
+  testID?: string;
+}
+
+export function IntradayReadingsButton({
+  count,
+  onPress,
+  testID,
+}: IntradayReadingsButtonProps) {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+
+  return (
+    <Pressable
+      style={[styles.openButton, { borderColor: theme.border }]}
+      onPress={onPress}
+      testID={testID}
+    >
+      <Feather name="clock" size={14} color={theme.primary} />
+      <ThemedText
+        type="small"
+        style={{ color: theme.primary, marginLeft: Spacing.xs }}
+      >
+        {t("intraday_readings")} ({count})
+      </ThemedText>
+    </Pressable>
+  );
+}
+
+export function IntradayReadingsModal({
+  visible,
+  title,
+  readings,
+  segments,
+  onChangeReadings,
+  onClose,
+}: IntradayReadingsModalProps) {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const { config } = usePlantConfig();
+
+  const shifts = useMemo(
+    () => shiftEnergy(segments, config),
+    [segments, config],
+  );
+  const profile = useMemo(() => hourlyProfile(segments), [segments]);
+  const peak = peakMw(segments);
+
+  const handleAdd = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onChangeReadings(
+      sortReadings([...readings, { time: currentTime(), value: "" }]),
+    );
+  };
+
+  const handleUpdate = (index: number, changes: Partial<IntervalReading>) => {
+    const next = readings.map((r, i) =>
+      i === index ? { ...r, ...changes } : r,
+    );
+    onChangeReadings(changes.time !== undefined ? sortReadings(next) : next);
+  };
+
+  const handleRemove = (index: number) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    onChangeReadings(readings.filter((_, i) => i !== index));
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View
+          style={[
+            styles.container,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          <View style={[styles.header, { borderBottomColor: theme.border }]}>
+            <View style={styles.headerTitle}>
+              <View
+                style={[
+                  styles.headerIcon,
+                  { backgroundColor: theme.primary + "20" },
+                ]}
+              >
+                <Feather name="clock" size={18} color={theme.primary} />
+              </View>
+              <ThemedText type="h4" style={{ marginLeft: Spacing.sm }}>
+                {t("intraday_readings")} · {title}
+              </ThemedText>
+            </View>
+            <Pressable
+              style={[
+                styles.closeButton,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+              onPress={onClose}
+            >
+              <Feather name="x" size={20} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <ScrollView
+            style={styles.list}
+            contentContainerStyle={styles.listContent}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+          >
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              {t("intraday_readings_hint")}
+            </ThemedText>
+
+            {readings.map((reading, index) => (
+              <View key={`${reading.time}-${index}`} style={styles.readingRow}>
+                <TimeInputField
+                  label={t("reading_time")}
+                  value={reading.time}
+                  onChangeValue={(time) => handleUpdate(index, { time })}
+                  onInvalid={() => showError(t("invalid_time"))}
+                  testID={`input-reading-time-${index}`}
+                />
+                <NumericInputField
+                  label={t("reading_value")}
+                  value={reading.value}
+                  onChangeValue={(value) => handleUpdate(index, { value })}
+                  testID={`input-reading-value-${index}`}
+                />
+                <Pressable
+                  style={[
+                    styles.deleteButton,
+                    { backgroundColor: theme.error + "15" },
+                  ]}
+                  onPress={() => handleRemove(index)}
+                  testID={`button-remove-reading-${index}`}
+                >
+                  <Feather name="trash-2" size={16} color={theme.error} />
+                </Pressable>
+              </View>
+            ))}
+
+            <Pressable
+              style={[styles.addButton, { borderColor: theme.primary }]}
+              onPress={handleAdd}
+              testID="button-add-reading"
+            >
+              <Feather name="plus" size={16} color={theme.primary} />
+              <ThemedText
+                type="small"
+                style={{ color: theme.primary, marginLeft: Spacing.xs }}
+              >
+                {t("add_reading")}
+              </ThemedText>
+            </Pressable>
+
+            <View
+              style={[
+                styles.summary,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+            >
+              <ThemedText type="small" style={{ fontWeight: "600" }}>
+                {t("load_profile")}
+              </ThemedText>
+              <LoadProfileBars values={profile} color={theme.primary} />
+
+              {shifts.map(({ shift, energyMwh }) => (
+                <View key={shift.id} style={styles.summaryRow}>
+                  <ThemedText
+                    type="small"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    {shift.name} ({shift.start})
+                  </ThemedText>
+                  <ThemedText
+                    type="small"
+                    style={{ fontFamily: Typography.mono.fontFamily }}
+                  >
+                    {format2(energyMwh)} {t("mwh")}
+                  </ThemedText>
+                </View>
+              ))}
+              <View style={styles.summaryRow}>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  {t("peak_mw")}
+                </ThemedText>
+                <ThemedText
+                  type="small"
+                  style={{
+                    fontFamily: Typography.mono.fontFamily,
+                    fontWeight: "600",
+                  }}
+                >
+                  {format2(peak)} {t("mw_unit")}
+                </ThemedText>
+              </View>
+            </View>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  openButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    marginTop: Spacing.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.xs,
+    borderWidth: 1,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  container: {
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    maxHeight: "85%",
+    minHeight: 300,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    flexDirection: "row",
+    alignItems: "center",
+    flex: 1,
+  },
+  headerIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  list: {
+    flexGrow: 0,
+  },
+  listContent: {
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  readingRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  deleteButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  addButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    borderStyle: "dashed",
+  },
+  summary: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.sm,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+});
@@ -44,7 +44,14 @@ export function LanguageSwitcher() {
         testID="button-language"
       >
         <Feather name="globe" size={18} color={theme.primary} />
-        <ThemedText type="small" style={{ color: theme.primary, marginLeft: Spacing.xs, fontWeight: "600" }}>
+        <ThemedText
+          type="small"
+          style={{
+            color: theme.primary,
+            marginLeft: Spacing.xs,
+            fontWeight: "600",
+          }}
+        >
           {currentLang?.code.toUpperCase()}
         </ThemedText>
       </Pressable>
@@ -56,8 +63,15 @@ export function LanguageSwitcher() {
         onRequestClose={() => setShowModal(false)}
       >
         <Pressable style={styles.overlay} onPress={() => setShowModal(false)}>
-          <View style={[styles.modalContent, { backgroundColor: theme.backgroundDefault }]}>
-            <View style={[styles.modalHeader, { borderBottomColor: theme.border }]}>
+          <View
+            style={[
+              styles.modalContent,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <View
+              style={[styles.modalHeader, { borderBottomColor: theme.border }]}
+            >
               <ThemedText type="h3">{t("language")}</ThemedText>
               <Pressable onPress={() => setShowModal(false)}>
                 <Feather name="x" size={24} color={theme.text} />
@@ -69,7 +83,9 @@ export function LanguageSwitcher() {
                 key={lang.code}
                 style={[
                   styles.languageOption,
-                  language === lang.code && { backgroundColor: theme.primary + "15" },
+                  language === lang.code && {
+                    backgroundColor: theme.primary + "15",
+                  },
                 ]}
                 onPress={() => handleSelectLanguage(lang.code)}
               >
@@ -77,7 +93,10 @@ export function LanguageSwitcher() {
                   <ThemedText type="body" style={{ fontWeight: "600" }}>
                     {lang.nativeName}
                   </ThemedText>
-                  <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  <ThemedText
+                    type="small"
+                    style={{ color: theme.textSecondary }}
+                  >
                     {lang.name}
                   </ThemedText>
                 </View>
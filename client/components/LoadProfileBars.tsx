@@ -0,0 +1,73 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+
+import { ThemedText } from "./ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing } from "@/constants/theme";
+
+interface LoadProfileBarsProps {
+  values: number[];
+  color: string;
+  height?: number;
+}
+
+const HOUR_LABELS = [0, 6, 12, 18, 24];
+
+export function LoadProfileBars({
+  values,
+  color,
+  height = 80,
+}: LoadProfileBarsProps) {
+  const { theme } = useTheme();
+  const max = Math.max(...values.map((v) => Math.abs(v)), 0.000001);
+
+  return (
+    <View>
+      <View style={[styles.bars, { height, borderBottomColor: theme.border }]}>
+        {values.map((value, hour) => (
+          <View key={hour} style={styles.barSlot}>
+            <View
+              style={{
+                height: (Math.abs(value) / max) * height,
+                backgroundColor: value < 0 ? theme.error : color,
+                borderTopLeftRadius: 2,
+                borderTopRightRadius: 2,
+              }}
+            />
+          </View>
+        ))}
+      </View>
+      <View style={styles.labels}>
+        {HOUR_LABELS.map((hour) => (
+          <ThemedText
+            key={hour}
+            type="caption"
+            style={{ color: theme.textSecondary }}
+          >
+            {String(hour).padStart(2, "0")}
+          </ThemedText>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bars: {
+    flexDirection: "row",
+    alignItems: "flex-end",
+    borderBottomWidth: 1,
+    direction: "ltr",
+  },
+  barSlot: {
+    flex: 1,
+    justifyContent: "flex-end",
+    paddingHorizontal: 1,
+  },
+  labels: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: Spacing.xs,
+    direction: "ltr",
+  },
+});
@@ -0,0 +1,106 @@
+import React from "react";
+import { View, StyleSheet, Pressable } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "./ThemedText";
+import { NumericInputField } from "./NumericInputField";
+import { TimeInputField } from "./TimeInputField";
+import { useTheme } from "@/hooks/useTheme";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import type { MeterReplacement } from "@/lib/storage";
+import { showError } from "@/utils/notify";
+
+interface MeterReplacementFieldsProps {
+  replacement?: MeterReplacement;
+  onChange: (replacement: MeterReplacement | undefined) => void;
+  testID?: string;
+}
+
+export function MeterReplacementFields({
+  replacement,
+  onChange,
+  testID,
+}: MeterReplacementFieldsProps) {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+
+  const handleToggle = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onChange(replacement ? undefined : { oldFinal: "", newInitial: "" });
+  };
+
+  return (
+    <View style={styles.container}>
+      <Pressable
+        style={[styles.toggle, { borderColor: theme.border }]}
+        onPress={handleToggle}
+        testID={`${testID}-toggle`}
+      >
+        <Feather
+          name={replacement ? "x" : "repeat"}
+          size={14}
+          color={replacement ? theme.textSecondary : theme.primary}
+        />
+        <ThemedText
+          type="small"
+          style={{
+            color: replacement ? theme.textSecondary : theme.primary,
+            marginLeft: Spacing.xs,
+          }}
+        >
+          {replacement
+            ? t("remove_meter_replacement")
+            : t("record_meter_replacement")}
+        </ThemedText>
+      </Pressable>
+
+      {replacement ? (
+        <View style={styles.inputRow}>
+          <NumericInputField
+            label={t("old_meter_final")}
+            value={replacement.oldFinal}
+            onChangeValue={(v) => onChange({ ...replacement, oldFinal: v })}
+            testID={`${testID}-old-final`}
+          />
+          <NumericInputField
+            label={t("new_meter_initial")}
+            value={replacement.newInitial}
+            onChangeValue={(v) => onChange({ ...replacement, newInitial: v })}
+            testID={`${testID}-new-initial`}
+          />
+          <TimeInputField
+            label={t("reading_time")}
+            value={replacement.time ?? ""}
+            onChangeValue={(v) =>
+              onChange({ ...replacement, time: v || undefined })
+            }
+            onInvalid={() => showError(t("invalid_time"))}
+            testID={`${testID}-time`}
+          />
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: Spacing.md,
+  },
+  toggle: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.xs,
+    borderWidth: 1,
+  },
+  inputRow: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    marginTop: Spacing.sm,
+  },
+});
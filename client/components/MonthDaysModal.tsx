@@ -10,26 +10,35 @@ import {
 } from "react-native";
 import { Feather } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 
 import { ThemedText } from "./ThemedText";
 import { useTheme } from "@/hooks/useTheme";
 import { useLanguage } from "@/contexts/LanguageContext";
-import { useAuth } from "@/contexts/AuthContext";
+import { usePlantWorkspace } from "@/contexts/PlantWorkspaceContext";
+import { usePlantConfig } from "@/contexts/PlantConfigContext";
+import { useDay } from "@/contexts/DayContext";
+import { useSync } from "@/contexts/SyncContext";
+import { useSyncNow } from "@/hooks/useSyncNow";
+import { SyncStatusIcon, syncProgressLabel } from "./SyncStatusBadge";
 import { Spacing, BorderRadius, Typography } from "@/constants/theme";
-import { format2 } from "@/lib/storage";
-import {
-  DaySummary,
-  fetchMonthDaysFromSupabase,
-  deleteDayFromSupabase,
-} from "@/lib/supabaseSync";
+import { format2, getDeletedDays } from "@/lib/storage";
+import { DaySummary, fetchMonthDaysFromSupabase } from "@/lib/supabaseSync";
 import { showSuccess, showError } from "@/utils/notify";
-import { deleteDayData } from "@/lib/storage";
+import { STATUS_LABELS } from "@/lib/dayApproval";
+import { canApproveDays } from "@/lib/plantWorkspace";
+import { SYNC_STATUS_LABELS, daySyncStatus } from "@/lib/syncOutbox";
+import type { RootStackParamList } from "@/navigation/RootStackNavigator";
 
 interface MonthDaysModalProps {
   visible: boolean;
   monthKey: string;
   onClose: () => void;
   onDayDeleted: () => void;
+  // Days of a closed month cannot be deleted, nor can days be deleted by
+  // anyone but a supervisor.
+  closed?: boolean;
 }
 
 export function MonthDaysModal({
@@ -37,28 +46,43 @@ export function MonthDaysModal({
   monthKey,
   onClose,
   onDayDeleted,
+  closed,
 }: MonthDaysModalProps) {
   const { theme } = useTheme();
   const { t, isRTL } = useLanguage();
-  const { user } = useAuth();
+  const { plant, role } = usePlantWorkspace();
+  const { config } = usePlantConfig();
+  const navigation =
+    useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const { deleteDay } = useDay();
+  const { outbox, pendingCount, progress } = useSync();
+  const { syncNow, syncing } = useSyncNow();
+  const canDelete = !closed && canApproveDays(role);
 
   const [days, setDays] = useState<DaySummary[]>([]);
+  // Days in this device's recycle bin, whose deletion may not have reached
+  // Supabase yet.
+  const [deletedKeys, setDeletedKeys] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const deleteLockRef = useRef(false);
 
   useEffect(() => {
-    if (visible && user) {
+    if (visible && plant) {
       loadDays();
     }
-  }, [visible, monthKey, user]);
+  }, [visible, monthKey, plant, config, pendingCount]);
 
   const loadDays = async () => {
-    if (!user) return;
+    if (!plant) return;
     setLoading(true);
     try {
-      const data = await fetchMonthDaysFromSupabase(user.id, monthKey);
+      const [data, deleted] = await Promise.all([
+        fetchMonthDaysFromSupabase(plant.id, monthKey, config),
+        getDeletedDays(config, plant.id),
+      ]);
       setDays(data);
+      setDeletedKeys(new Set(deleted.map((d) => d.dateKey)));
     } catch (error) {
       console.error("Error loading days:", error);
     } finally {
@@ -69,18 +93,14 @@ export function MonthDaysModal({
   const handleDelete = (day: DaySummary) => {
     if (deleteLockRef.current || deletingId) return;
 
-    Alert.alert(
-      t("delete_day"),
-      t("delete_day_confirm"),
-      [
-        { text: t("cancel"), style: "cancel" },
-        {
-          text: t("delete_day"),
-          style: "destructive",
-          onPress: () => confirmDelete(day),
-        },
-      ]
-    );
+    Alert.alert(t("delete_day"), t("delete_day_confirm"), [
+      { text: t("cancel"), style: "cancel" },
+      {
+        text: t("delete_day"),
+        style: "destructive",
+        onPress: () => confirmDelete(day),
+      },
+    ]);
   };
 
   const confirmDelete = async (day: DaySummary) => {
@@ -91,17 +111,12 @@ export function MonthDaysModal({
     try {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
 
-      const success = await deleteDayFromSupabase(day.id);
+      await deleteDay(day.dateKey);
 
-      if (success) {
-        await deleteDayData(day.dateKey);
-
-        setDays((prev) => prev.filter((d) => d.id !== day.id));
-        showSuccess(t("day_deleted"));
-        onDayDeleted();
-      } else {
-        showError(t("delete_failed"));
-      }
+      setDays((prev) => prev.filter((d) => d.id !== day.id));
+      setDeletedKeys((prev) => new Set(prev).add(day.dateKey));
+      showSuccess(t("day_deleted"));
+      onDayDeleted();
     } catch (error) {
       console.error("Error deleting day:", error);
       showError(t("delete_failed"));
@@ -111,6 +126,45 @@ export function MonthDaysModal({
     }
   };
 
+  // Days saved on this device that have not reached Supabase yet, so are
+  // missing from the list loaded from it. Deletions waiting to be pushed are
+  // the other way round: the list still has their days.
+  const unsyncedKeys = Object.keys(outbox)
+    .filter(
+      (key) =>
+        key.startsWith(monthKey) &&
+        !deletedKeys.has(key) &&
+        !days.some((d) => d.dateKey === key),
+    )
+    .sort();
+  const listedDays = days.filter(
+    (d) => !(deletedKeys.has(d.dateKey) && outbox[d.dateKey]),
+  );
+
+  const openConflict = (dateKey: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onClose();
+    navigation.navigate("ConflictResolution", { dateKey });
+  };
+
+  const renderSyncStatus = (dateKey: string) => {
+    const status = daySyncStatus(outbox, dateKey);
+    return status === "conflict" ? (
+      <Pressable
+        style={styles.syncIcon}
+        onPress={() => openConflict(dateKey)}
+        accessibilityLabel={t("resolve_conflict")}
+        testID={`button-resolve-conflict-${dateKey}`}
+      >
+        <SyncStatusIcon status={status} size={20} />
+      </Pressable>
+    ) : (
+      <View style={styles.syncIcon}>
+        <SyncStatusIcon status={status} />
+      </View>
+    );
+  };
+
   const formatMonthName = (monthKey: string) => {
     const [year, month] = monthKey.split("-");
     const date = new Date(parseInt(year), parseInt(month) - 1, 1);
@@ -134,9 +188,7 @@ export function MonthDaysModal({
             { backgroundColor: theme.backgroundDefault },
           ]}
         >
-          <View
-            style={[styles.header, { borderBottomColor: theme.border }]}
-          >
+          <View style={[styles.header, { borderBottomColor: theme.border }]}>
             <View style={styles.headerTitle}>
               <View
                 style={[
@@ -150,6 +202,40 @@ export function MonthDaysModal({
                 {t("month_days_title")} {formatMonthName(monthKey)}
               </ThemedText>
             </View>
+            {syncing && progress ? (
+              <ThemedText
+                type="small"
+                style={{ color: theme.warning, marginRight: Spacing.sm }}
+                testID="text-sync-progress"
+              >
+                {progress.done}/{progress.total} · {syncProgressLabel(progress)}
+              </ThemedText>
+            ) : null}
+            {pendingCount === 0 ? null : (
+              <Pressable
+                style={[
+                  styles.closeButton,
+                  {
+                    backgroundColor: theme.warning + "20",
+                    marginRight: Spacing.sm,
+                  },
+                ]}
+                onPress={syncNow}
+                disabled={syncing}
+                accessibilityLabel={t("sync_now")}
+                testID="button-sync-now"
+              >
+                {syncing ? (
+                  <ActivityIndicator size="small" color={theme.warning} />
+                ) : (
+                  <Feather
+                    name="upload-cloud"
+                    size={18}
+                    color={theme.warning}
+                  />
+                )}
+              </Pressable>
+            )}
             <Pressable
               style={[
                 styles.closeButton,
@@ -171,7 +257,7 @@ export function MonthDaysModal({
                 {t("loading_days")}
               </ThemedText>
             </View>
-          ) : days.length === 0 ? (
+          ) : listedDays.length === 0 && unsyncedKeys.length === 0 ? (
             <View style={styles.emptyContainer}>
               <View
                 style={[
@@ -198,7 +284,41 @@ export function MonthDaysModal({
               contentContainerStyle={styles.listContent}
               showsVerticalScrollIndicator={false}
             >
-              {days.map((day) => {
+              {unsyncedKeys.map((dateKey) => {
+                const status = daySyncStatus(outbox, dateKey);
+                return (
+                  <View
+                    key={dateKey}
+                    style={[
+                      styles.dayRow,
+                      { backgroundColor: theme.backgroundSecondary },
+                    ]}
+                  >
+                    <View style={styles.dayInfo}>
+                      <ThemedText
+                        type="body"
+                        style={{
+                          fontFamily: Typography.mono.fontFamily,
+                          fontWeight: "600",
+                        }}
+                      >
+                        {dateKey}
+                      </ThemedText>
+                      <ThemedText
+                        type="small"
+                        style={{
+                          color: theme.textSecondary,
+                          marginTop: Spacing.xs,
+                        }}
+                      >
+                        {t(SYNC_STATUS_LABELS[status])}
+                      </ThemedText>
+                    </View>
+                    {renderSyncStatus(dateKey)}
+                  </View>
+                );
+              })}
+              {listedDays.map((day) => {
                 const isDeleting = deletingId === day.id;
                 return (
                   <View
@@ -217,6 +337,33 @@ export function MonthDaysModal({
                         }}
                       >
                         {day.dateKey}
+                        {day.crew ? (
+                          <ThemedText
+                            type="small"
+                            style={{ color: theme.textSecondary }}
+                          >
+                            {"  "}
+                            {t("crew")} {day.crew}
+                          </ThemedText>
+                        ) : null}
+                        {day.estimated ? (
+                          <ThemedText
+                            type="small"
+                            style={{ color: theme.warning }}
+                          >
+                            {"  "}
+                            {t("estimated")}
+                          </ThemedText>
+                        ) : null}
+                        {day.status === "approved" ? (
+                          <ThemedText
+                            type="small"
+                            style={{ color: theme.success }}
+                          >
+                            {"  "}
+                            {t(STATUS_LABELS[day.status])}
+                          </ThemedText>
+                        ) : null}
                       </ThemedText>
                       <View style={styles.dayStats}>
                         <View style={styles.dayStat}>
@@ -267,21 +414,24 @@ export function MonthDaysModal({
                         </View>
                       </View>
                     </View>
-                    <Pressable
-                      style={[
-                        styles.deleteButton,
-                        { backgroundColor: "#f04438" + "20" },
-                        isDeleting && { opacity: 0.5 },
-                      ]}
-                      onPress={() => handleDelete(day)}
-                      disabled={isDeleting || deletingId !== null}
-                    >
-                      {isDeleting ? (
-                        <ActivityIndicator size="small" color="#f04438" />
-                      ) : (
-                        <Feather name="trash-2" size={18} color="#f04438" />
-                      )}
-                    </Pressable>
+                    {renderSyncStatus(day.dateKey)}
+                    {!canDelete ? null : (
+                      <Pressable
+                        style={[
+                          styles.deleteButton,
+                          { backgroundColor: "#f04438" + "20" },
+                          isDeleting && { opacity: 0.5 },
+                        ]}
+                        onPress={() => handleDelete(day)}
+                        disabled={isDeleting || deletingId !== null}
+                      >
+                        {isDeleting ? (
+                          <ActivityIndicator size="small" color="#f04438" />
+                        ) : (
+                          <Feather name="trash-2" size={18} color="#f04438" />
+                        )}
+                      </Pressable>
+                    )}
                   </View>
                 );
               })}
@@ -383,6 +533,9 @@ const styles = StyleSheet.create({
     borderRadius: 3,
     marginRight: 4,
   },
+  syncIcon: {
+    marginLeft: Spacing.md,
+  },
   deleteButton: {
     width: 40,
     height: 40,
@@ -3,18 +3,33 @@ import { View, StyleSheet, Pressable } from "react-native";
 
 import { ThemedText } from "./ThemedText";
 import { NumericKeypad } from "./NumericKeypad";
+import { ReadingFlagIcon } from "./ReadingFlagModal";
 import { useTheme } from "@/hooks/useTheme";
 import { Spacing, BorderRadius, Typography } from "@/constants/theme";
-import { formatWithCommas, stripCommas } from "@/lib/storage";
+import { ReadingFlag, formatWithCommas, stripCommas } from "@/lib/storage";
 
 interface NumericInputFieldProps {
   label: string;
   value: string;
   onChangeValue: (value: string) => void;
   testID?: string;
+  // When set, a flag icon in the corner shows the reading's quality and
+  // opens the flag editor.
+  flag?: ReadingFlag;
+  onPressFlag?: () => void;
+  // Read-only: the keypad and flag editor do not open.
+  disabled?: boolean;
 }
 
-export function NumericInputField({ label, value, onChangeValue, testID }: NumericInputFieldProps) {
+export function NumericInputField({
+  label,
+  value,
+  onChangeValue,
+  testID,
+  flag,
+  onPressFlag,
+  disabled,
+}: NumericInputFieldProps) {
   const { theme } = useTheme();
   const [showKeypad, setShowKeypad] = useState(false);
 
@@ -29,19 +44,41 @@ export function NumericInputField({ label, value, onChangeValue, testID }: Numer
       <Pressable
         style={[
           styles.container,
-          { backgroundColor: theme.backgroundSecondary, borderColor: theme.border },
+          {
+            backgroundColor: theme.backgroundSecondary,
+            borderColor: theme.border,
+          },
+          disabled && { opacity: 0.6 },
         ]}
         onPress={() => setShowKeypad(true)}
+        disabled={disabled}
         testID={testID}
       >
-        <ThemedText type="caption" style={[styles.label, { color: theme.textSecondary }]}>
+        <ThemedText
+          type="caption"
+          style={[styles.label, { color: theme.textSecondary }]}
+        >
           {label}
         </ThemedText>
+        {onPressFlag ? (
+          <Pressable
+            style={styles.flagButton}
+            onPress={onPressFlag}
+            disabled={disabled}
+            hitSlop={8}
+            testID={testID ? `${testID}-flag` : undefined}
+          >
+            <ReadingFlagIcon flag={flag} />
+          </Pressable>
+        ) : null}
         <ThemedText
           type="body"
           style={[
             styles.value,
-            { color: value ? theme.text : theme.textSecondary, fontFamily: Typography.mono.fontFamily },
+            {
+              color: value ? theme.text : theme.textSecondary,
+              fontFamily: Typography.mono.fontFamily,
+            },
           ]}
         >
           {displayValue || "0"}
@@ -72,6 +109,11 @@ const styles = StyleSheet.create({
   label: {
     marginBottom: 2,
   },
+  flagButton: {
+    position: "absolute",
+    top: Spacing.xs,
+    right: Spacing.xs,
+  },
   value: {
     fontSize: 16,
   },
@@ -23,25 +23,31 @@ const KEYS = [
   [".", "0", "⌫"],
 ];
 
-export function NumericKeypad({ visible, value, onChangeValue, onClose, label }: NumericKeypadProps) {
+export function NumericKeypad({
+  visible,
+  value,
+  onChangeValue,
+  onClose,
+  label,
+}: NumericKeypadProps) {
   const { theme } = useTheme();
 
   const handleKeyPress = (key: string) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    
+
     const cleanValue = value.replace(/,/g, "");
-    
+
     if (key === "⌫") {
       onChangeValue(cleanValue.slice(0, -1));
       return;
     }
-    
+
     if (key === ".") {
       if (cleanValue.includes(".")) return;
       onChangeValue(cleanValue + ".");
       return;
     }
-    
+
     onChangeValue(cleanValue + key);
   };
 
@@ -65,15 +71,38 @@ export function NumericKeypad({ visible, value, onChangeValue, onClose, label }:
       onRequestClose={onClose}
     >
       <Pressable style={styles.overlay} onPress={onClose}>
-        <Pressable style={[styles.container, { backgroundColor: theme.backgroundDefault }]} onPress={(e) => e.stopPropagation()}>
+        <Pressable
+          style={[
+            styles.container,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+          onPress={(e) => e.stopPropagation()}
+        >
           {label ? (
-            <ThemedText type="small" style={[styles.label, { color: theme.textSecondary }]}>
+            <ThemedText
+              type="small"
+              style={[styles.label, { color: theme.textSecondary }]}
+            >
               {label}
             </ThemedText>
           ) : null}
-          
-          <View style={[styles.display, { backgroundColor: theme.backgroundSecondary, borderColor: theme.border }]}>
-            <ThemedText type="h2" style={[styles.displayText, { fontFamily: Typography.mono.fontFamily }]}>
+
+          <View
+            style={[
+              styles.display,
+              {
+                backgroundColor: theme.backgroundSecondary,
+                borderColor: theme.border,
+              },
+            ]}
+          >
+            <ThemedText
+              type="h2"
+              style={[
+                styles.displayText,
+                { fontFamily: Typography.mono.fontFamily },
+              ]}
+            >
               {displayValue || "0"}
             </ThemedText>
           </View>
@@ -86,14 +115,22 @@ export function NumericKeypad({ visible, value, onChangeValue, onClose, label }:
                     key={key}
                     style={[
                       styles.key,
-                      { backgroundColor: key === "⌫" ? theme.error + "20" : theme.backgroundSecondary },
+                      {
+                        backgroundColor:
+                          key === "⌫"
+                            ? theme.error + "20"
+                            : theme.backgroundSecondary,
+                      },
                     ]}
                     onPress={() => handleKeyPress(key)}
                   >
                     {key === "⌫" ? (
                       <Feather name="delete" size={24} color={theme.error} />
                     ) : (
-                      <ThemedText type="h3" style={{ fontFamily: Typography.mono.fontFamily }}>
+                      <ThemedText
+                        type="h3"
+                        style={{ fontFamily: Typography.mono.fontFamily }}
+                      >
                         {key}
                       </ThemedText>
                     )}
@@ -105,18 +142,31 @@ export function NumericKeypad({ visible, value, onChangeValue, onClose, label }:
 
           <View style={styles.actionRow}>
             <Pressable
-              style={[styles.actionButton, { backgroundColor: theme.error + "20" }]}
+              style={[
+                styles.actionButton,
+                { backgroundColor: theme.error + "20" },
+              ]}
               onPress={handleClear}
             >
-              <ThemedText type="body" style={{ color: theme.error, fontWeight: "600" }}>
+              <ThemedText
+                type="body"
+                style={{ color: theme.error, fontWeight: "600" }}
+              >
                 Clear
               </ThemedText>
             </Pressable>
             <Pressable
-              style={[styles.actionButton, styles.doneButton, { backgroundColor: theme.primary }]}
+              style={[
+                styles.actionButton,
+                styles.doneButton,
+                { backgroundColor: theme.primary },
+              ]}
               onPress={handleDone}
             >
-              <ThemedText type="body" style={{ color: "#fff", fontWeight: "600" }}>
+              <ThemedText
+                type="body"
+                style={{ color: "#fff", fontWeight: "600" }}
+              >
                 Done
               </ThemedText>
             </Pressable>
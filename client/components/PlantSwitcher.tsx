@@ -0,0 +1,202 @@
+import React, { useState } from "react";
+import { View, StyleSheet, Modal, Pressable, ScrollView } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "./ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { usePlantWorkspace } from "@/contexts/PlantWorkspaceContext";
+import { useRTL } from "@/hooks/useRTL";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { ROLE_LABELS } from "@/lib/plantWorkspace";
+
+// "North Station" → "NS", "Alpha" → "AL".
+function plantInitials(name: string): string {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  const initials =
+    words.length > 1
+      ? words
+          .slice(0, 2)
+          .map((w) => w[0])
+          .join("")
+      : name.trim().slice(0, 2);
+  return initials.toUpperCase();
+}
+
+interface PlantSwitcherProps {
+  testID?: string;
+}
+
+// Shows which plant's days are on screen and switches to another. Hidden
+// unless the user belongs to more than one plant.
+export function PlantSwitcher({ testID }: PlantSwitcherProps) {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const { rtlRow, rtlText } = useRTL();
+  const { plants, plant, selectPlant } = usePlantWorkspace();
+  const [visible, setVisible] = useState(false);
+
+  if (plants.length < 2 || !plant) return null;
+
+  const handleSelect = async (id: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setVisible(false);
+    if (id !== plant.id) {
+      await selectPlant(id);
+    }
+  };
+
+  return (
+    <>
+      <Pressable
+        style={[
+          styles.badge,
+          { borderColor: theme.success, backgroundColor: theme.success + "10" },
+        ]}
+        onPress={() => {
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+          setVisible(true);
+        }}
+        accessibilityLabel={`${t("switch_plant")}: ${plant.name}`}
+        testID={testID}
+      >
+        <ThemedText
+          type="small"
+          style={{ color: theme.success, fontWeight: "700" }}
+          numberOfLines={1}
+        >
+          {plantInitials(plant.name)}
+        </ThemedText>
+      </Pressable>
+
+      <Modal
+        visible={visible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setVisible(false)}
+      >
+        <View style={styles.overlay}>
+          <View
+            style={[
+              styles.container,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <View style={[styles.header, { borderBottomColor: theme.border }]}>
+              <View style={styles.headerTitle}>
+                <View
+                  style={[
+                    styles.headerIcon,
+                    { backgroundColor: theme.success + "20" },
+                  ]}
+                >
+                  <Feather name="home" size={18} color={theme.success} />
+                </View>
+                <ThemedText type="h4" style={{ marginLeft: Spacing.sm }}>
+                  {t("switch_plant")}
+                </ThemedText>
+              </View>
+              <Pressable
+                style={[
+                  styles.closeButton,
+                  { backgroundColor: theme.backgroundSecondary },
+                ]}
+                onPress={() => setVisible(false)}
+              >
+                <Feather name="x" size={20} color={theme.text} />
+              </Pressable>
+            </View>
+
+            <ScrollView style={styles.list}>
+              {plants.map((p) => (
+                <Pressable
+                  key={p.id}
+                  style={[
+                    styles.plantRow,
+                    rtlRow,
+                    { borderBottomColor: theme.border },
+                  ]}
+                  onPress={() => handleSelect(p.id)}
+                  testID={`button-switch-plant-${p.id}`}
+                >
+                  <View style={{ flex: 1 }}>
+                    <ThemedText type="body" style={rtlText}>
+                      {p.name}
+                    </ThemedText>
+                    <ThemedText
+                      type="caption"
+                      style={[{ color: theme.textSecondary }, rtlText]}
+                    >
+                      {t(ROLE_LABELS[p.role])}
+                    </ThemedText>
+                  </View>
+                  {p.id === plant.id ? (
+                    <Feather name="check" size={20} color={theme.primary} />
+                  ) : null}
+                </Pressable>
+              ))}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    minWidth: 44,
+    height: 44,
+    borderRadius: 22,
+    borderWidth: 2,
+    paddingHorizontal: Spacing.sm,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  container: {
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    maxHeight: "70%",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    flexDirection: "row",
+    alignItems: "center",
+    flex: 1,
+  },
+  headerIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  list: {
+    paddingBottom: Spacing.xl,
+  },
+  plantRow: {
+    alignItems: "center",
+    gap: Spacing.md,
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+  },
+});
@@ -0,0 +1,274 @@
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet, Modal, Pressable, TextInput } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "./ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useRTL } from "@/hooks/useRTL";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { ReadingFlag, ReadingQuality } from "@/lib/storage";
+import { QUALITY_LABELS, READING_QUALITIES } from "@/lib/readingFlags";
+
+type Theme = ReturnType<typeof useTheme>["theme"];
+
+function qualityColor(quality: ReadingQuality, theme: Theme): string {
+  switch (quality) {
+    case "estimated":
+      return theme.warning;
+    case "corrected":
+      return theme.primary;
+    case "override":
+      return theme.error;
+    default:
+      return theme.textSecondary;
+  }
+}
+
+interface ReadingFlagIconProps {
+  flag?: ReadingFlag;
+  size?: number;
+}
+
+// Outlined and faded for a measured reading, coloured by quality otherwise.
+export function ReadingFlagIcon({ flag, size = 14 }: ReadingFlagIconProps) {
+  const { theme } = useTheme();
+  const quality = flag?.quality ?? "measured";
+
+  return (
+    <Feather
+      name="flag"
+      size={size}
+      color={qualityColor(quality, theme)}
+      style={quality === "measured" ? { opacity: 0.4 } : undefined}
+    />
+  );
+}
+
+interface ReadingFlagModalProps {
+  visible: boolean;
+  title: string;
+  flag?: ReadingFlag;
+  onSave: (flag: ReadingFlag | null) => void;
+  onClose: () => void;
+}
+
+export function ReadingFlagModal({
+  visible,
+  title,
+  flag,
+  onSave,
+  onClose,
+}: ReadingFlagModalProps) {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const { rtlRow, rtlText } = useRTL();
+  const [quality, setQuality] = useState<ReadingQuality>("measured");
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (visible) {
+      setQuality(flag?.quality ?? "measured");
+      setReason(flag?.reason ?? "");
+    }
+  }, [visible, flag]);
+
+  const handleSave = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onSave(quality === "measured" ? null : { quality, reason });
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View
+          style={[
+            styles.container,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          <View style={[styles.header, { borderBottomColor: theme.border }]}>
+            <View style={styles.headerTitle}>
+              <View
+                style={[
+                  styles.headerIcon,
+                  { backgroundColor: theme.primary + "20" },
+                ]}
+              >
+                <Feather name="flag" size={18} color={theme.primary} />
+              </View>
+              <View style={{ marginLeft: Spacing.sm, flex: 1 }}>
+                <ThemedText type="h4">{t("reading_quality")}</ThemedText>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  {title}
+                </ThemedText>
+              </View>
+            </View>
+            <Pressable
+              style={[
+                styles.closeButton,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+              onPress={onClose}
+            >
+              <Feather name="x" size={20} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <View style={styles.body}>
+            <View style={[styles.chipWrap, rtlRow]}>
+              {READING_QUALITIES.map((q) => {
+                const selected = q === quality;
+                const color = qualityColor(q, theme);
+                return (
+                  <Pressable
+                    key={q}
+                    style={[
+                      styles.chip,
+                      {
+                        borderColor: selected ? color : theme.border,
+                        backgroundColor: selected ? color + "20" : undefined,
+                      },
+                    ]}
+                    onPress={() => setQuality(q)}
+                    testID={`chip-quality-${q}`}
+                  >
+                    <ThemedText
+                      type="small"
+                      style={{ color: selected ? color : theme.text }}
+                    >
+                      {t(QUALITY_LABELS[q])}
+                    </ThemedText>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            {quality !== "measured" ? (
+              <TextInput
+                style={[
+                  styles.input,
+                  {
+                    color: theme.text,
+                    borderColor: theme.border,
+                    backgroundColor: theme.backgroundSecondary,
+                  },
+                  rtlText,
+                ]}
+                value={reason}
+                onChangeText={setReason}
+                placeholder={t("quality_reason")}
+                placeholderTextColor={theme.textSecondary}
+                testID="input-quality-reason"
+              />
+            ) : null}
+          </View>
+
+          <View style={[styles.footer, { borderTopColor: theme.border }]}>
+            <Pressable
+              style={[
+                styles.footerButton,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+              onPress={onClose}
+              testID="button-quality-cancel"
+            >
+              <ThemedText type="body">{t("cancel")}</ThemedText>
+            </Pressable>
+            <Pressable
+              style={[styles.footerButton, { backgroundColor: theme.primary }]}
+              onPress={handleSave}
+              testID="button-quality-save"
+            >
+              <ThemedText type="body" style={{ color: "#fff" }}>
+                {t("save")}
+              </ThemedText>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  container: {
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    flexDirection: "row",
+    alignItems: "center",
+    flex: 1,
+  },
+  headerIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  body: {
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  chipWrap: {
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+  },
+  input: {
+    height: 44,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    paddingHorizontal: Spacing.md,
+    fontSize: 16,
+  },
+  footer: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    padding: Spacing.lg,
+    borderTopWidth: 1,
+  },
+  footerButton: {
+    flex: 1,
+    height: 44,
+    borderRadius: BorderRadius.sm,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
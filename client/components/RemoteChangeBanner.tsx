@@ -0,0 +1,98 @@
+import React from "react";
+import { View, StyleSheet, Pressable } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "./ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useDay } from "@/contexts/DayContext";
+import { useSync } from "@/contexts/SyncContext";
+import { useRTL } from "@/hooks/useRTL";
+import { changedFieldLabel } from "@/lib/realtimeDays";
+import { Spacing, BorderRadius } from "@/constants/theme";
+
+// Fields named before the rest are counted.
+const SHOWN_FIELDS = 3;
+
+// Shown above the readings of a day someone else changed while it was open.
+// The change is already loaded unless the day had unsaved edits, which are
+// kept until the user chooses to load the other version.
+export function RemoteChangeBanner() {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const { rtlRow, rtlText } = useRTL();
+  const { dateKey, overtaken, reloadDay } = useDay();
+  const { remoteChanges, dismissRemoteChange } = useSync();
+
+  const change = remoteChanges[dateKey];
+  if (!change) return null;
+
+  const shown = change.fields.slice(0, SHOWN_FIELDS).map(changedFieldLabel);
+  const more = change.fields.length - shown.length;
+  const author = change.authorName || t("remote_someone");
+  const summary = change.deleted
+    ? `${author} ${t("remote_deleted")}`
+    : `${author} ${t("remote_changed")}: ${shown.join(", ")}${more > 0 ? ` (+${more})` : ""}`;
+
+  const handleLoad = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    await reloadDay();
+    dismissRemoteChange(dateKey);
+  };
+
+  return (
+    <View
+      style={[
+        styles.banner,
+        rtlRow,
+        { backgroundColor: theme.primary + "15", borderColor: theme.primary },
+      ]}
+      testID="banner-remote-change"
+    >
+      <Feather name="users" size={18} color={theme.primary} />
+      <View style={{ flex: 1, gap: Spacing.xs }}>
+        <ThemedText type="small" style={[{ color: theme.primary }, rtlText]}>
+          {summary}
+        </ThemedText>
+        {overtaken ? (
+          <>
+            <ThemedText
+              type="small"
+              style={[{ color: theme.textSecondary }, rtlText]}
+            >
+              {t("remote_overtaken")}
+            </ThemedText>
+            <Pressable onPress={handleLoad} testID="button-load-remote-day">
+              <ThemedText
+                type="small"
+                style={[{ color: theme.primary, fontWeight: "600" }, rtlText]}
+              >
+                {t("remote_load")}
+              </ThemedText>
+            </Pressable>
+          </>
+        ) : null}
+      </View>
+      <Pressable
+        onPress={() => dismissRemoteChange(dateKey)}
+        hitSlop={8}
+        accessibilityLabel={t("remote_dismiss")}
+        testID="button-dismiss-remote-change"
+      >
+        <Feather name="x" size={16} color={theme.primary} />
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    alignItems: "flex-start",
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    marginBottom: Spacing.lg,
+  },
+});
@@ -6,14 +6,10 @@ import { useTheme } from "@/hooks/useTheme";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { Spacing, BorderRadius, Typography } from "@/constants/theme";
 import { Feather } from "@expo/vector-icons";
-import {
-  DayData,
-  turbineProductionMwh,
-  feederExport,
-  turbineRowComputed,
-  gasForTurbine,
-  TURBINES,
-} from "@/lib/storage";
+import { DayData } from "@/lib/storage";
+import { PlantConfig } from "@/lib/plantConfig";
+import { dayFigures } from "@/lib/dayFigures";
+import { usePlantConfig } from "@/contexts/PlantConfigContext";
 
 interface ChartDataPoint {
   dateKey: string;
@@ -23,31 +19,26 @@ interface ChartDataPoint {
   exportVal: number;
   isExport: boolean;
   gasConsumed: number;
+  estimated: boolean;
 }
 
 interface SevenDayChartProps {
   days: DayData[];
 }
 
-function computeDayStats(day: DayData): Omit<ChartDataPoint, "label"> {
-  const production = turbineProductionMwh(day);
-  const exportVal = feederExport(day);
-  const consumption = production - exportVal;
-  const isExport = exportVal >= 0;
-
-  let totalGas = 0;
-  for (const t of TURBINES) {
-    const row = turbineRowComputed(day, t);
-    totalGas += gasForTurbine(row.diff, row.mwPerHr);
-  }
-
+function computeDayStats(
+  day: DayData,
+  config: PlantConfig,
+): Omit<ChartDataPoint, "label"> {
+  const figures = dayFigures(day, config);
   return {
     dateKey: day.dateKey,
-    production,
-    consumption,
-    exportVal,
-    isExport,
-    gasConsumed: totalGas,
+    production: figures.productionMwh,
+    consumption: figures.consumptionMwh,
+    exportVal: figures.exportMwh,
+    isExport: figures.exportMwh >= 0,
+    gasConsumed: figures.gasM3,
+    estimated: !!day.estimated,
   };
 }
 
@@ -61,13 +52,27 @@ function formatDateLabel(dateKey: string, language: string): string {
   if (language === "ar") {
     return `${day}/${month}`;
   }
-  const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+  const monthNames = [
+    "Jan",
+    "Feb",
+    "Mar",
+    "Apr",
+    "May",
+    "Jun",
+    "Jul",
+    "Aug",
+    "Sep",
+    "Oct",
+    "Nov",
+    "Dec",
+  ];
   return `${monthNames[date.getMonth()]} ${day}`;
 }
 
 export function SevenDayChart({ days }: SevenDayChartProps) {
   const { theme } = useTheme();
   const { t, language, isRTL } = useLanguage();
+  const { config } = usePlantConfig();
 
   const chartData = useMemo(() => {
     const sorted = [...days]
@@ -76,27 +81,55 @@ export function SevenDayChart({ days }: SevenDayChartProps) {
       .reverse();
 
     return sorted.map((day) => ({
-      ...computeDayStats(day),
+      ...computeDayStats(day, config),
       label: formatDateLabel(day.dateKey, language),
     }));
-  }, [days, language]);
+  }, [days, language, config]);
 
   const hasWithdrawal = useMemo(() => {
     return chartData.some((d) => !d.isExport);
   }, [chartData]);
 
-  const flowLabel = hasWithdrawal ? t("export") + "/" + t("withdrawal") : t("export");
+  const hasEstimated = chartData.some((d) => d.estimated);
+
+  const flowLabel = hasWithdrawal
+    ? t("export") + "/" + t("withdrawal")
+    : t("export");
 
   if (chartData.length === 0) {
     return (
-      <View style={[styles.emptyState, { backgroundColor: theme.backgroundDefault }]}>
-        <View style={[styles.emptyIconCircle, { backgroundColor: theme.primary + "15" }]}>
+      <View
+        style={[
+          styles.emptyState,
+          { backgroundColor: theme.backgroundDefault },
+        ]}
+      >
+        <View
+          style={[
+            styles.emptyIconCircle,
+            { backgroundColor: theme.primary + "15" },
+          ]}
+        >
           <Feather name="bar-chart-2" size={32} color={theme.primary} />
         </View>
-        <ThemedText type="body" style={{ color: theme.text, marginTop: Spacing.lg, fontWeight: "600" }}>
+        <ThemedText
+          type="body"
+          style={{
+            color: theme.text,
+            marginTop: Spacing.lg,
+            fontWeight: "600",
+          }}
+        >
           {t("no_chart_data")}
         </ThemedText>
-        <ThemedText type="small" style={{ color: theme.textSecondary, textAlign: "center", marginTop: Spacing.xs }}>
+        <ThemedText
+          type="small"
+          style={{
+            color: theme.textSecondary,
+            textAlign: "center",
+            marginTop: Spacing.xs,
+          }}
+        >
           {t("save_data_for_chart")}
         </ThemedText>
       </View>
@@ -124,7 +157,7 @@ export function SevenDayChart({ days }: SevenDayChartProps) {
   const barGap = barWidth * 0.3;
 
   const getX = (index: number) => {
-    const step = plotWidth / (chartData.length);
+    const step = plotWidth / chartData.length;
     return paddingLeft + step * index + step / 2;
   };
 
@@ -143,7 +176,9 @@ export function SevenDayChart({ days }: SevenDayChartProps) {
   return (
     <View style={[styles.card, { backgroundColor: theme.backgroundDefault }]}>
       <View style={[styles.cardHeader, { borderBottomColor: theme.border }]}>
-        <View style={[styles.iconCircle, { backgroundColor: theme.primary + "20" }]}>
+        <View
+          style={[styles.iconCircle, { backgroundColor: theme.primary + "20" }]}
+        >
           <Feather name="trending-up" size={18} color={theme.primary} />
         </View>
         <ThemedText type="h4" style={{ marginLeft: Spacing.md }}>
@@ -169,8 +204,11 @@ export function SevenDayChart({ days }: SevenDayChartProps) {
           {chartData.map((d, i) => {
             const x = getX(i);
             const exportColor = d.isExport ? colors.export : colors.withdrawal;
-            const exportBarHeight = (Math.abs(d.exportVal) / maxEnergy) * plotHeight;
+            const exportBarHeight =
+              (Math.abs(d.exportVal) / maxEnergy) * plotHeight;
             const gasBarHeight = (d.gasConsumed / maxGas) * plotHeight;
+            // Estimated days are drawn faded so they stand apart from measured ones.
+            const fade = d.estimated ? 0.35 : 1;
 
             return (
               <G key={d.dateKey}>
@@ -181,6 +219,7 @@ export function SevenDayChart({ days }: SevenDayChartProps) {
                   height={exportBarHeight}
                   fill={exportColor}
                   rx={2}
+                  opacity={fade}
                 />
                 <Rect
                   x={x + barGap / 2}
@@ -189,7 +228,7 @@ export function SevenDayChart({ days }: SevenDayChartProps) {
                   height={gasBarHeight}
                   fill={colors.gas}
                   rx={2}
-                  opacity={0.7}
+                  opacity={0.7 * fade}
                 />
               </G>
             );
@@ -232,8 +271,24 @@ export function SevenDayChart({ days }: SevenDayChartProps) {
 
           {chartData.map((d, i) => (
             <G key={`dots-${d.dateKey}`}>
-              <Circle cx={getX(i)} cy={getY(d.production, maxEnergy)} r={4} fill={colors.production} />
-              <Circle cx={getX(i)} cy={getY(d.consumption, maxEnergy)} r={4} fill={colors.consumption} />
+              <Circle
+                cx={getX(i)}
+                cy={getY(d.production, maxEnergy)}
+                r={4}
+                fill={d.estimated ? theme.backgroundDefault : colors.production}
+                stroke={colors.production}
+                strokeWidth={d.estimated ? 2 : 0}
+              />
+              <Circle
+                cx={getX(i)}
+                cy={getY(d.consumption, maxEnergy)}
+                r={4}
+                fill={
+                  d.estimated ? theme.backgroundDefault : colors.consumption
+                }
+                stroke={colors.consumption}
+                strokeWidth={d.estimated ? 2 : 0}
+              />
             </G>
           ))}
 
@@ -265,21 +320,29 @@ export function SevenDayChart({ days }: SevenDayChartProps) {
         </Svg>
       </View>
 
-      <View style={[styles.legendContainer, isRTL && styles.legendContainerRTL]}>
+      <View
+        style={[styles.legendContainer, isRTL && styles.legendContainerRTL]}
+      >
         <View style={styles.legendItem}>
-          <View style={[styles.legendDot, { backgroundColor: colors.production }]} />
+          <View
+            style={[styles.legendDot, { backgroundColor: colors.production }]}
+          />
           <ThemedText type="caption" style={{ color: theme.textSecondary }}>
             {t("production")}
           </ThemedText>
         </View>
         <View style={styles.legendItem}>
-          <View style={[styles.legendDot, { backgroundColor: colors.consumption }]} />
+          <View
+            style={[styles.legendDot, { backgroundColor: colors.consumption }]}
+          />
           <ThemedText type="caption" style={{ color: theme.textSecondary }}>
             {t("consumption")}
           </ThemedText>
         </View>
         <View style={styles.legendItem}>
-          <View style={[styles.legendRect, { backgroundColor: colors.export }]} />
+          <View
+            style={[styles.legendRect, { backgroundColor: colors.export }]}
+          />
           <ThemedText type="caption" style={{ color: theme.textSecondary }}>
             {flowLabel}
           </ThemedText>
@@ -290,6 +353,20 @@ export function SevenDayChart({ days }: SevenDayChartProps) {
             {t("gas_consumed")}
           </ThemedText>
         </View>
+        {hasEstimated ? (
+          <View style={styles.legendItem}>
+            <View
+              style={[
+                styles.legendDot,
+                styles.legendHollow,
+                { borderColor: theme.textSecondary },
+              ]}
+            />
+            <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+              {t("estimated")}
+            </ThemedText>
+          </View>
+        ) : null}
       </View>
     </View>
   );
@@ -339,6 +416,9 @@ const styles = StyleSheet.create({
     height: 10,
     borderRadius: 5,
   },
+  legendHollow: {
+    borderWidth: 2,
+  },
   legendRect: {
     width: 10,
     height: 10,
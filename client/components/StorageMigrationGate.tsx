@@ -0,0 +1,36 @@
+import React, { ReactNode, useEffect, useState } from "react";
+
+import { runMigrations } from "@/lib/migrations";
+
+interface StorageMigrationGateProps {
+  children: ReactNode;
+}
+
+// Holds back the data providers until local storage has been migrated to the
+// current schema. A failed migration is logged and retried on next launch;
+// the app still opens so existing data stays reachable.
+export function StorageMigrationGate({ children }: StorageMigrationGateProps) {
+  const [isReady, setIsReady] = useState(false);
+
+  useEffect(() => {
+    const migrate = async () => {
+      try {
+        const { from, to, applied } = await runMigrations();
+        if (applied.length > 0) {
+          console.log(`Migrated local storage from v${from} to v${to}`);
+        }
+      } catch (error) {
+        console.error("Error migrating local storage:", error);
+      } finally {
+        setIsReady(true);
+      }
+    };
+    migrate();
+  }, []);
+
+  if (!isReady) {
+    return null;
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,127 @@
+import React from "react";
+import { StyleSheet, Pressable, ActivityIndicator } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useSync } from "@/contexts/SyncContext";
+import { useSyncNow } from "@/hooks/useSyncNow";
+import {
+  DaySyncStatus,
+  SYNC_STATUS_LABELS,
+  SyncProgress,
+} from "@/lib/syncOutbox";
+import type { RootStackParamList } from "@/navigation/RootStackNavigator";
+
+type Theme = ReturnType<typeof useTheme>["theme"];
+
+const STATUS_ICONS: Record<DaySyncStatus, keyof typeof Feather.glyphMap> = {
+  synced: "check-circle",
+  pending: "upload-cloud",
+  failed: "alert-triangle",
+  conflict: "git-merge",
+};
+
+function statusColor(status: DaySyncStatus, theme: Theme): string {
+  switch (status) {
+    case "pending":
+      return theme.warning;
+    case "failed":
+    case "conflict":
+      return theme.error;
+    default:
+      return theme.success;
+  }
+}
+
+interface SyncStatusIconProps {
+  status: DaySyncStatus;
+  size?: number;
+}
+
+export function SyncStatusIcon({ status, size = 16 }: SyncStatusIconProps) {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+
+  return (
+    <Feather
+      name={STATUS_ICONS[status]}
+      size={size}
+      color={statusColor(status, theme)}
+      accessibilityLabel={t(SYNC_STATUS_LABELS[status])}
+    />
+  );
+}
+
+// A sync's progress as a percentage of the days it is pushing.
+export function syncProgressLabel({ done, total }: SyncProgress): string {
+  return `${total > 0 ? Math.round((done / total) * 100) : 0}%`;
+}
+
+interface SyncStatusBadgeProps {
+  dateKey: string;
+  testID?: string;
+}
+
+// Whether the day has reached Supabase; pressing it syncs every queued day
+// now, or opens the day's conflict for resolution. Shown only when signed in.
+// A sync of several days shows how far it has got.
+export function SyncStatusBadge({ dateKey, testID }: SyncStatusBadgeProps) {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const navigation =
+    useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const { statusOf, online, progress } = useSync();
+  const { syncNow, syncing } = useSyncNow();
+
+  const status = statusOf(dateKey);
+  if (!status) return null;
+
+  const color = statusColor(status, theme);
+  const conflict = status === "conflict";
+
+  return (
+    <Pressable
+      style={[
+        styles.badge,
+        { borderColor: color, backgroundColor: color + "10" },
+      ]}
+      onPress={() =>
+        conflict
+          ? navigation.navigate("ConflictResolution", { dateKey })
+          : syncNow()
+      }
+      disabled={syncing && !conflict}
+      accessibilityLabel={`${t(SYNC_STATUS_LABELS[status])} · ${t(conflict ? "resolve_conflict" : "sync_now")}`}
+      testID={testID}
+    >
+      {syncing && !conflict ? (
+        progress && progress.total > 1 ? (
+          <ThemedText type="caption" style={{ color }}>
+            {syncProgressLabel(progress)}
+          </ThemedText>
+        ) : (
+          <ActivityIndicator size="small" color={color} />
+        )
+      ) : !online && !conflict && status !== "synced" ? (
+        <Feather name="cloud-off" size={18} color={color} />
+      ) : (
+        <SyncStatusIcon status={status} size={18} />
+      )}
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    borderWidth: 2,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
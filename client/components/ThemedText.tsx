@@ -58,11 +58,14 @@ export function ThemedText({
   };
 
   const rtlStyle = {
-    textAlign: I18nManager.isRTL ? "right" as const : "left" as const,
-    writingDirection: I18nManager.isRTL ? "rtl" as const : "ltr" as const,
+    textAlign: I18nManager.isRTL ? ("right" as const) : ("left" as const),
+    writingDirection: I18nManager.isRTL ? ("rtl" as const) : ("ltr" as const),
   };
 
   return (
-    <Text style={[{ color: getColor() }, getTypeStyle(), rtlStyle, style]} {...rest} />
+    <Text
+      style={[{ color: getColor() }, getTypeStyle(), rtlStyle, style]}
+      {...rest}
+    />
   );
 }
@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet, TextInput } from "react-native";
+
+import { ThemedText } from "./ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius, Typography } from "@/constants/theme";
+import { formatTime, parseTime } from "@/lib/intraday";
+
+interface TimeInputFieldProps {
+  label: string;
+  value: string;
+  onChangeValue: (value: string) => void;
+  onInvalid?: () => void;
+  testID?: string;
+}
+
+export function TimeInputField({
+  label,
+  value,
+  onChangeValue,
+  onInvalid,
+  testID,
+}: TimeInputFieldProps) {
+  const { theme } = useTheme();
+  const [text, setText] = useState(value);
+
+  useEffect(() => {
+    setText(value);
+  }, [value]);
+
+  const handleEndEditing = () => {
+    if (!text.trim()) {
+      setText("");
+      if (value) onChangeValue("");
+      return;
+    }
+    const minutes = parseTime(text);
+    if (minutes === null) {
+      setText(value);
+      onInvalid?.();
+      return;
+    }
+    const normalized = formatTime(minutes);
+    setText(normalized);
+    if (normalized !== value) onChangeValue(normalized);
+  };
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          backgroundColor: theme.backgroundSecondary,
+          borderColor: theme.border,
+        },
+      ]}
+    >
+      <ThemedText
+        type="caption"
+        style={[styles.label, { color: theme.textSecondary }]}
+      >
+        {label}
+      </ThemedText>
+      <TextInput
+        style={[
+          styles.value,
+          { color: theme.text, fontFamily: Typography.mono.fontFamily },
+        ]}
+        value={text}
+        onChangeText={setText}
+        onEndEditing={handleEndEditing}
+        placeholder="HH:MM"
+        placeholderTextColor={theme.textSecondary}
+        keyboardType="numbers-and-punctuation"
+        maxLength={5}
+        testID={testID}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: 88,
+    height: 56,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    justifyContent: "center",
+  },
+  label: {
+    marginBottom: 2,
+  },
+  value: {
+    fontSize: 16,
+    padding: 0,
+  },
+});
@@ -0,0 +1,79 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "./ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { usePlantConfig } from "@/contexts/PlantConfigContext";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { fieldLabel } from "@/lib/dayHistory";
+import { ValidationIssue, formatIssue } from "@/lib/validation";
+
+interface ValidationMessagesProps {
+  issues: ValidationIssue[];
+  testID?: string;
+}
+
+// Issues for one meter, each labelled with the field it concerns.
+export function ValidationMessages({
+  issues,
+  testID,
+}: ValidationMessagesProps) {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const { config } = usePlantConfig();
+
+  if (issues.length === 0) return null;
+
+  return (
+    <View style={styles.container} testID={testID}>
+      {issues.map((issue) => {
+        const color = issue.severity === "error" ? theme.error : theme.warning;
+        return (
+          <View
+            key={`${issue.ruleId}-${issue.field}`}
+            style={[
+              styles.message,
+              { backgroundColor: color + "15", borderColor: color },
+            ]}
+          >
+            <Feather
+              name={
+                issue.severity === "error" ? "alert-circle" : "alert-triangle"
+              }
+              size={16}
+              color={color}
+            />
+            <View style={styles.text}>
+              <ThemedText type="caption" style={{ color }}>
+                {fieldLabel(issue.field, config, t)}
+              </ThemedText>
+              <ThemedText type="small" style={{ color }}>
+                {formatIssue(issue, t)}
+              </ThemedText>
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  message: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    borderWidth: 1,
+  },
+  text: {
+    flex: 1,
+    marginLeft: Spacing.xs,
+  },
+});
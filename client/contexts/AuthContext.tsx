@@ -1,5 +1,6 @@
 import React, {
   createContext,
+  useCallback,
   useContext,
   useEffect,
   useState,
@@ -7,7 +8,20 @@ import React, {
 } from "react";
 import { supabase } from "@/lib/supabase";
 import { Session, User, AuthError } from "@supabase/supabase-js";
-import { signInAsGuest, isGuestUser, clearGuestUserId, storeGuestUserId } from "@/lib/guestAuth";
+import {
+  signInAsGuest,
+  isGuestUser,
+  clearGuestUserId,
+  storeGuestUserId,
+} from "@/lib/guestAuth";
+import {
+  GuestSession,
+  rememberGuestSession,
+  getPendingGuestSession,
+  clearPendingGuestSession,
+  isSameGuestSession,
+  removeGuestDays,
+} from "@/lib/guestMerge";
 
 interface AuthContextType {
   user: User | null;
@@ -15,11 +29,35 @@ interface AuthContextType {
   loading: boolean;
   isGuest: boolean;
   authError: string | null;
-  signUp: (email: string, password: string, displayName?: string) => Promise<{ error: AuthError | null }>;
-  signIn: (email: string, password: string) => Promise<{ error: AuthError | null }>;
+  signUp: (
+    email: string,
+    password: string,
+    displayName?: string,
+  ) => Promise<{ error: AuthError | null }>;
+  // Signing in from a guest session leaves the guest's days pending a
+  // merge into the account, which the result reports.
+  signIn: (
+    email: string,
+    password: string,
+  ) => Promise<{
+    error: AuthError | null;
+    pendingGuestMerge?: GuestSession | null;
+  }>;
   signOut: () => Promise<void>;
   resetPassword: (email: string) => Promise<{ error: AuthError | null }>;
-  upgradeGuestAccount: (email: string, password: string, displayName?: string) => Promise<{ error: string | null }>;
+  upgradeGuestAccount: (
+    email: string,
+    password: string,
+    displayName?: string,
+  ) => Promise<{ error: string | null }>;
+  // The guest session whose days wait to be merged into this account, or
+  // the days saved on this device while signed out.
+  pendingGuestMerge: GuestSession | null;
+  // Looks again for days saved while signed out, e.g. once the user has a
+  // plant to merge them into.
+  refreshGuestMerge: () => Promise<void>;
+  // Discards the guest identity once its days are merged or given up.
+  finishGuestMerge: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -41,22 +79,28 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
   const [authError, setAuthError] = useState<string | null>(null);
+  const [pendingGuestMerge, setPendingGuestMerge] =
+    useState<GuestSession | null>(null);
 
   const isGuest = isGuestUser(user);
 
   useEffect(() => {
     const initAuth = async () => {
       try {
-        const { data: { session: existingSession } } = await supabase.auth.getSession();
-        
+        const {
+          data: { session: existingSession },
+        } = await supabase.auth.getSession();
+
         if (existingSession) {
           setSession(existingSession);
           setUser(existingSession.user);
-          
+
           if (isGuestUser(existingSession.user)) {
             await storeGuestUserId(existingSession.user.id);
+          } else {
+            setPendingGuestMerge(await getPendingGuestSession());
           }
-          
+
           setLoading(false);
           return;
         }
@@ -68,8 +112,10 @@ export function AuthProvider({ children }: AuthProviderProps) {
             setAuthError(result.error || "Anonymous sign-in requires setup");
           }
         }
-        
-        const { data: { session: newSession } } = await supabase.auth.getSession();
+
+        const {
+          data: { session: newSession },
+        } = await supabase.auth.getSession();
         setSession(newSession);
         setUser(newSession?.user ?? null);
       } catch (error) {
@@ -81,21 +127,25 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
     initAuth();
 
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      async (_event, session) => {
-        setSession(session);
-        setUser(session?.user ?? null);
-        
-        if (session?.user && isGuestUser(session.user)) {
-          await storeGuestUserId(session.user.id);
-        }
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange(async (_event, session) => {
+      setSession(session);
+      setUser(session?.user ?? null);
+
+      if (session?.user && isGuestUser(session.user)) {
+        await storeGuestUserId(session.user.id);
       }
-    );
+    });
 
     return () => subscription.unsubscribe();
   }, []);
 
-  const signUp = async (email: string, password: string, displayName?: string) => {
+  const signUp = async (
+    email: string,
+    password: string,
+    displayName?: string,
+  ) => {
     const { error } = await supabase.auth.signUp({
       email,
       password,
@@ -109,22 +159,33 @@ export function AuthProvider({ children }: AuthProviderProps) {
   };
 
   const signIn = async (email: string, password: string) => {
+    // The guest's plants are only known while still signed in as the guest.
+    const guestSession =
+      user && isGuestUser(user) ? await rememberGuestSession(user.id) : null;
+
     const { error } = await supabase.auth.signInWithPassword({
       email,
       password,
     });
-    
-    if (!error) {
-      setAuthError(null);
+
+    if (error) {
+      if (guestSession) {
+        await clearPendingGuestSession();
+      }
+      return { error };
     }
-    
-    return { error };
+
+    setAuthError(null);
+    setPendingGuestMerge(guestSession);
+    return { error, pendingGuestMerge: guestSession };
   };
 
   const signOut = async () => {
     await supabase.auth.signOut();
     await clearGuestUserId();
-    
+    await clearPendingGuestSession();
+    setPendingGuestMerge(null);
+
     const result = await signInAsGuest();
     if (!result.success && result.requiresSetup) {
       setAuthError(result.error || "Anonymous sign-in requires setup");
@@ -141,7 +202,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const upgradeGuestAccount = async (
     email: string,
     password: string,
-    displayName?: string
+    displayName?: string,
   ): Promise<{ error: string | null }> => {
     if (!user || !session) {
       return { error: "No user session found" };
@@ -168,6 +229,25 @@ export function AuthProvider({ children }: AuthProviderProps) {
     return { error: null };
   };
 
+  // An unchanged session keeps its identity, so that an open merge screen
+  // keeps its selection.
+  const refreshGuestMerge = useCallback(async () => {
+    const next = await getPendingGuestSession();
+    setPendingGuestMerge((current) =>
+      isSameGuestSession(current, next) ? current : next,
+    );
+  }, []);
+
+  // Days saved while signed out may be offered once a guest's are merged.
+  const finishGuestMerge = async () => {
+    if (pendingGuestMerge) {
+      await removeGuestDays(pendingGuestMerge, user?.id ?? null);
+    }
+    await clearPendingGuestSession();
+    if (pendingGuestMerge?.userId) await clearGuestUserId();
+    setPendingGuestMerge(await getPendingGuestSession());
+  };
+
   return (
     <AuthContext.Provider
       value={{
@@ -181,6 +261,9 @@ export function AuthProvider({ children }: AuthProviderProps) {
         signOut,
         resetPassword,
         upgradeGuestAccount,
+        pendingGuestMerge,
+        refreshGuestMerge,
+        finishGuestMerge,
       }}
     >
       {children}
@@ -1,108 +1,497 @@
-import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from "react";
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+  ReactNode,
+} from "react";
 import {
   DayData,
   todayKey,
   defaultDay,
   getDayDataWithLinkedValues,
+  getSavedDayData,
   saveDayData,
+  deleteDayData,
+  saveDeletedDayData,
   getPreviousDateKey,
-  FEEDERS,
-  TURBINES,
+  linkFromPreviousDay,
 } from "@/lib/storage";
+import { dayCrewLabel } from "@/lib/crewRotation";
+import {
+  DayRevision,
+  RevisionAuthor,
+  RevisionMeta,
+  recordDayRevision,
+} from "@/lib/dayHistory";
+import {
+  DayLockedError,
+  approveDay as markApproved,
+  isDayLocked,
+  submitDay as markSubmitted,
+  unlockDay as markUnlocked,
+} from "@/lib/dayApproval";
+import {
+  MonthClosedError,
+  MonthClosures,
+  closeMonth as recordMonthClosure,
+  isMonthClosed,
+  loadMonthClosures,
+  reopenMonth as removeMonthClosure,
+} from "@/lib/monthClosing";
+import {
+  ValidationContext,
+  ValidationError,
+  ValidationIssue,
+  blockingIssues,
+  loadValidationContext,
+  validateDay,
+} from "@/lib/validation";
 import { useAuth } from "@/contexts/AuthContext";
+import { usePlantConfig } from "@/contexts/PlantConfigContext";
+import { usePlantWorkspace } from "@/contexts/PlantWorkspaceContext";
+import { useSync } from "@/contexts/SyncContext";
 import {
-  syncDayToSupabase,
-  fetchDayFromSupabase,
-} from "@/lib/supabaseSync";
+  PlantPermissionError,
+  canApproveDays,
+  canEditDays,
+} from "@/lib/plantWorkspace";
+import { fetchDayFromSupabase } from "@/lib/supabaseSync";
+import { getOutbox } from "@/lib/syncOutbox";
 
 interface DayContextType {
   dateKey: string;
   setDateKey: (key: string) => void;
   day: DayData;
   setDay: React.Dispatch<React.SetStateAction<DayData>>;
-  saveDay: () => Promise<void>;
+  // Resolves with the warnings the day was saved with; rejects with a
+  // ValidationError when a blocking rule fails.
+  saveDay: () => Promise<ValidationIssue[]>;
+  issues: ValidationIssue[];
+  revertToRevision: (revision: DayRevision) => Promise<void>;
+  // Approved days and days in a closed month are read-only: setDay ignores
+  // edits and saving rejects with a DayLockedError (a MonthClosedError for
+  // a closed month) until the day is unlocked or the month reopened. Every
+  // day is read-only to a plant viewer.
+  locked: boolean;
+  monthClosed: boolean;
+  closures: MonthClosures;
+  closeMonth: (monthKey: string) => Promise<void>;
+  reopenMonth: (monthKey: string) => Promise<void>;
+  submitDay: () => Promise<ValidationIssue[]>;
+  approveDay: () => Promise<ValidationIssue[]>;
+  unlockDay: (reason: string) => Promise<void>;
+  // Saves days written outside the editor, e.g. by a chain correction or
+  // the backfill wizard.
+  saveDays: (days: DayData[]) => Promise<void>;
+  // Saves a day whose conflict with Supabase was resolved. The result may
+  // take the other version's approval, so only the role and a closed month
+  // stop it. A deleted result keeps the day deleted, which only a
+  // supervisor may.
+  resolveConflict: (resolved: DayData) => Promise<void>;
+  // Moves a saved day to the recycle bin, or brings one back from it. Only
+  // a supervisor may, and not in a closed month. Both reach Supabase through
+  // the outbox.
+  deleteDay: (dateKey: string) => Promise<void>;
+  restoreDay: (deleted: DayData) => Promise<void>;
   resetDay: () => void;
+  // Loads the day as saved, dropping unsaved edits.
+  reloadDay: () => Promise<void>;
+  // Set when someone changed the open day elsewhere while it had unsaved
+  // edits. The edits are kept, and saving them goes through conflict review.
+  overtaken: boolean;
   loading: boolean;
-  syncing: boolean;
 }
 
 const DayContext = createContext<DayContextType | undefined>(undefined);
 
 export function DayProvider({ children }: { children: ReactNode }) {
   const { user } = useAuth();
+  const { config } = usePlantConfig();
+  const { plant, role } = usePlantWorkspace();
+  const { queueDay, lastFullSync, lastRemoteChange } = useSync();
+  const plantId = plant?.id ?? null;
   const [dateKey, setDateKey] = useState(todayKey());
-  const [day, setDay] = useState<DayData>(defaultDay(dateKey));
+  const [day, setDay] = useState<DayData>(defaultDay(dateKey, config));
   const [loading, setLoading] = useState(true);
-  const [syncing, setSyncing] = useState(false);
+  // Whether the editor holds edits made since the day was loaded or saved.
+  const editedRef = useRef(false);
+  const [overtakenDate, setOvertakenDate] = useState<string | null>(null);
+  const [closures, setClosures] = useState<MonthClosures>({});
+  const [validationContext, setValidationContext] = useState<ValidationContext>(
+    {
+      previousDay: null,
+      recentDays: [],
+    },
+  );
 
-  useEffect(() => {
-    loadDay();
-  }, [dateKey, user?.id]);
+  // Loads overlap when the date changes, or a sync lands, while a load is
+  // still waiting on storage or Supabase. Only the latest may reach the
+  // editor; an earlier one would replace it with another date's day.
+  const loadIdRef = useRef(0);
 
-  const loadDay = async () => {
+  const loadDay = useCallback(async () => {
+    const loadId = ++loadIdRef.current;
+    const current = () => loadId === loadIdRef.current;
     setLoading(true);
-    
-    let data = await getDayDataWithLinkedValues(dateKey);
-    
-    if (user?.id) {
+    editedRef.current = false;
+    setOvertakenDate(null);
+
+    let data = await getDayDataWithLinkedValues(dateKey, config);
+
+    // A day still in the outbox is newer here than in Supabase.
+    if (plantId && !(await getOutbox(plantId))[dateKey]) {
       try {
-        const cloudData = await fetchDayFromSupabase(user.id, dateKey);
-        if (cloudData) {
+        const cloudData = await fetchDayFromSupabase(plantId, dateKey, config);
+        if (cloudData && !cloudData.deletedAt) {
           const prevDateKey = getPreviousDateKey(dateKey);
-          if (prevDateKey) {
-            const prevCloudData = await fetchDayFromSupabase(user.id, prevDateKey);
-            if (prevCloudData) {
-              for (const f of FEEDERS) {
-                const prevEnd = prevCloudData.feeders?.[f]?.end;
-                if (prevEnd && !cloudData.feeders[f]?.start) {
-                  cloudData.feeders[f] = {
-                    ...cloudData.feeders[f],
-                    start: prevEnd,
-                  };
-                }
-              }
-              for (const t of TURBINES) {
-                const prevPresent = prevCloudData.turbines?.[t]?.present;
-                if (prevPresent && !cloudData.turbines[t]?.previous) {
-                  cloudData.turbines[t] = {
-                    ...cloudData.turbines[t],
-                    previous: prevPresent,
-                  };
-                }
-              }
-            }
-          }
-          data = cloudData;
+          const prevCloudData = prevDateKey
+            ? await fetchDayFromSupabase(plantId, prevDateKey, config)
+            : null;
+          data = prevCloudData
+            ? linkFromPreviousDay(cloudData, prevCloudData, config)
+            : cloudData;
         }
       } catch (error) {
         console.error("Error fetching from Supabase:", error);
       }
     }
-    
+
+    if (!current()) return;
     setDay(data);
-    setLoading(false);
-  };
-
-  const saveDay = useCallback(async () => {
-    const dayToSave = { ...day, dateKey };
-    
-    await saveDayData(dayToSave);
-    
-    if (user?.id) {
-      setSyncing(true);
+
+    try {
+      const context = await loadValidationContext(dateKey, config);
+      if (!current()) return;
+      setValidationContext(context);
+    } catch (error) {
+      console.error("Error loading validation context:", error);
+    }
+    if (current()) setLoading(false);
+  }, [dateKey, plantId, config]);
+
+  // A full sync may have replaced the open day.
+  useEffect(() => {
+    loadDay();
+  }, [loadDay, lastFullSync]);
+
+  // A change made elsewhere replaces the open day unless it is being edited.
+  // Each change is handled once, not again when the open date changes.
+  const handledChangeRef = useRef(lastRemoteChange);
+  useEffect(() => {
+    if (lastRemoteChange === handledChangeRef.current) return;
+    handledChangeRef.current = lastRemoteChange;
+    if (lastRemoteChange?.dateKey !== dateKey) return;
+    if (editedRef.current) {
+      setOvertakenDate(dateKey);
+    } else {
+      loadDay();
+    }
+  }, [lastRemoteChange, dateKey, loadDay]);
+
+  useEffect(() => {
+    loadMonthClosures(plantId)
+      .then(setClosures)
+      .catch((error) => console.error("Error loading month closures:", error));
+  }, [plantId]);
+
+  const author = useMemo<RevisionAuthor>(
+    () => ({
+      userId: user?.id ?? null,
+      name: user?.user_metadata?.display_name || user?.email || undefined,
+    }),
+    [user],
+  );
+
+  // Every save appends to the day's history, recording what changed, who
+  // made the change and on which device. The day then waits in the outbox
+  // until it reaches Supabase.
+  const persistDay = useCallback(
+    async (edited: DayData, meta: RevisionMeta = {}) => {
+      const before = await getSavedDayData(edited.dateKey, config);
+      // The editor's copy may predate a push made since it was loaded, which
+      // left the newer remote revision on the saved copy.
+      // Unless it was changed elsewhere while being edited, which has to be
+      // reviewed as a conflict.
+      const remoteRevision =
+        overtakenDate === edited.dateKey
+          ? (edited.remoteRevision ?? 0)
+          : Math.max(before?.remoteRevision ?? 0, edited.remoteRevision ?? 0);
+      const saved = { ...edited, updatedAt: new Date().toISOString() };
+      const dayToSave =
+        remoteRevision > 0 ? { ...saved, remoteRevision } : saved;
+      await saveDayData(dayToSave);
+      const revision = await recordDayRevision(before, dayToSave, author, meta);
+
       try {
-        await syncDayToSupabase(user.id, dayToSave);
+        await queueDay(dayToSave.dateKey, revision);
       } catch (error) {
-        console.error("Error syncing to Supabase:", error);
-      } finally {
-        setSyncing(false);
+        console.error("Error queueing day for sync:", error);
+      }
+    },
+    [queueDay, author, config, overtakenDate],
+  );
+
+  // The rules are evaluated as the day is edited, and again on save against
+  // freshly loaded days in case they changed in the meantime.
+  const issues = useMemo(
+    () => validateDay({ ...day, dateKey }, validationContext, config),
+    [day, dateKey, validationContext, config],
+  );
+
+  const readOnly = !canEditDays(role);
+  const monthClosed = isMonthClosed(closures, dateKey);
+  const locked = readOnly || monthClosed || isDayLocked(day);
+
+  // Edits made while the day is locked are dropped rather than staged.
+  const editDay = useCallback<React.Dispatch<React.SetStateAction<DayData>>>(
+    (action) => {
+      setDay((current) => {
+        if (readOnly || monthClosed || isDayLocked(current)) return current;
+        editedRef.current = true;
+        return typeof action === "function" ? action(current) : action;
+      });
+    },
+    [readOnly, monthClosed],
+  );
+
+  const assertUnlocked = useCallback(
+    (target: DayData) => {
+      if (readOnly) {
+        throw new PlantPermissionError("change days");
       }
+      if (isMonthClosed(closures, target.dateKey)) {
+        throw new MonthClosedError(target.dateKey);
+      }
+      if (isDayLocked(target)) {
+        throw new DayLockedError(target.dateKey);
+      }
+    },
+    [readOnly, closures],
+  );
+
+  const validateAndPersist = useCallback(
+    async (dayToSave: DayData) => {
+      const context = await loadValidationContext(dateKey, config);
+      setValidationContext(context);
+      const found = validateDay(dayToSave, context, config);
+      const blocking = blockingIssues(found);
+      if (blocking.length > 0) {
+        throw new ValidationError(blocking);
+      }
+      await persistDay(dayToSave);
+      editedRef.current = false;
+      // Keeps the editor in step with a status change, unless another date
+      // was opened while saving.
+      setDay((current) =>
+        current.dateKey === dayToSave.dateKey ? dayToSave : current,
+      );
+      return found;
+    },
+    [dateKey, config, persistDay],
+  );
+
+  const editedDay = useCallback((): DayData => {
+    const edited = { ...day, dateKey, crew: dayCrewLabel(config, dateKey) };
+    assertUnlocked(edited);
+    return edited;
+  }, [day, dateKey, config, assertUnlocked]);
+
+  const saveDay = useCallback(
+    async () => validateAndPersist(editedDay()),
+    [editedDay, validateAndPersist],
+  );
+
+  const submitDay = useCallback(
+    async () => validateAndPersist(markSubmitted(editedDay())),
+    [editedDay, validateAndPersist],
+  );
+
+  const assertSupervisor = useCallback(() => {
+    if (!canApproveDays(role)) {
+      throw new PlantPermissionError("approve days or close months");
     }
-  }, [day, dateKey, user?.id]);
+  }, [role]);
+
+  const approveDay = useCallback(async () => {
+    assertSupervisor();
+    return validateAndPersist(markApproved(editedDay(), author));
+  }, [assertSupervisor, editedDay, author, validateAndPersist]);
+
+  // Unlocking is recorded in the day's history with the reason given.
+  const unlockDay = useCallback(
+    async (reason: string) => {
+      assertSupervisor();
+      if (monthClosed) {
+        throw new MonthClosedError(dateKey);
+      }
+      const unlocked = markUnlocked({ ...day, dateKey });
+      await persistDay(unlocked, { note: reason.trim() || undefined });
+      setDay(unlocked);
+    },
+    [assertSupervisor, day, dateKey, monthClosed, persistDay],
+  );
+
+  // A restored version comes back as a draft, whatever its status was, and
+  // must pass the same checks as a save; approving it again is up to a
+  // supervisor.
+  const revertToRevision = useCallback(
+    async (revision: DayRevision) => {
+      if (readOnly) {
+        throw new PlantPermissionError("change days");
+      }
+      if (isMonthClosed(closures, revision.dateKey)) {
+        throw new MonthClosedError(revision.dateKey);
+      }
+      if (revision.dateKey === dateKey && locked) {
+        throw new DayLockedError(dateKey);
+      }
+      const restored = markUnlocked({
+        ...revision.snapshot,
+        dateKey: revision.dateKey,
+      });
+      const context = await loadValidationContext(revision.dateKey, config);
+      const blocking = blockingIssues(validateDay(restored, context, config));
+      if (blocking.length > 0) {
+        throw new ValidationError(blocking);
+      }
+      await persistDay(restored, { revertOf: revision.id });
+      if (revision.dateKey === dateKey) {
+        setDay(restored);
+      }
+    },
+    [readOnly, dateKey, locked, closures, config, persistDay],
+  );
+
+  const saveDays = useCallback(
+    async (days: DayData[]) => {
+      days.forEach(assertUnlocked);
+      for (const corrected of days) {
+        await persistDay(corrected);
+        if (corrected.dateKey === dateKey) {
+          setDay(corrected);
+        }
+      }
+    },
+    [dateKey, assertUnlocked, persistDay],
+  );
+
+  const assertCanDelete = useCallback(
+    (target: string) => {
+      if (!canApproveDays(role)) {
+        throw new PlantPermissionError("delete days");
+      }
+      if (isMonthClosed(closures, target)) {
+        throw new MonthClosedError(target);
+      }
+    },
+    [role, closures],
+  );
+
+  const resolveConflict = useCallback(
+    async (resolved: DayData) => {
+      if (resolved.deletedAt) {
+        assertCanDelete(resolved.dateKey);
+        await saveDeletedDayData(resolved, plantId ?? undefined);
+        try {
+          await queueDay(resolved.dateKey, null);
+        } catch (error) {
+          console.error("Error queueing deleted day for sync:", error);
+        }
+        if (resolved.dateKey === dateKey) await loadDay();
+        return;
+      }
+      if (readOnly) {
+        throw new PlantPermissionError("change days");
+      }
+      if (isMonthClosed(closures, resolved.dateKey)) {
+        throw new MonthClosedError(resolved.dateKey);
+      }
+      await persistDay(resolved);
+      if (resolved.dateKey === dateKey) {
+        setDay(resolved);
+      }
+    },
+    [
+      assertCanDelete,
+      plantId,
+      queueDay,
+      loadDay,
+      readOnly,
+      closures,
+      dateKey,
+      persistDay,
+    ],
+  );
+
+  const deleteDay = useCallback(
+    async (target: string) => {
+      assertCanDelete(target);
+      const deleted = await deleteDayData(target, config, plantId ?? undefined);
+      if (!deleted) return;
+      try {
+        await queueDay(target, null);
+      } catch (error) {
+        console.error("Error queueing deleted day for sync:", error);
+      }
+      if (target === dateKey) {
+        await loadDay();
+      }
+    },
+    [assertCanDelete, config, plantId, queueDay, dateKey, loadDay],
+  );
+
+  // A restored day is saved as it was when deleted, based on the revision
+  // its deletion reached in Supabase.
+  const restoreDay = useCallback(
+    async (deleted: DayData) => {
+      assertCanDelete(deleted.dateKey);
+      await persistDay({ ...deleted, deletedAt: undefined });
+      if (deleted.dateKey === dateKey && !editedRef.current) {
+        await loadDay();
+      }
+    },
+    [assertCanDelete, persistDay, dateKey, loadDay],
+  );
+
+  // Closing snapshots the month's totals as they stand now.
+  const closeMonth = useCallback(
+    async (monthKey: string) => {
+      assertSupervisor();
+      const closure = await recordMonthClosure(
+        monthKey,
+        config,
+        author,
+        plantId,
+      );
+      setClosures((current) => ({ ...current, [monthKey]: closure }));
+    },
+    [assertSupervisor, config, author, plantId],
+  );
+
+  const reopenMonth = useCallback(
+    async (monthKey: string) => {
+      assertSupervisor();
+      await removeMonthClosure(monthKey, plantId);
+      setClosures((current) => {
+        const next = { ...current };
+        delete next[monthKey];
+        return next;
+      });
+    },
+    [assertSupervisor, plantId],
+  );
+
+  const reloadDay = useCallback(async () => {
+    await loadDay();
+  }, [loadDay]);
 
   const resetDay = useCallback(() => {
-    setDay(defaultDay(dateKey));
-  }, [dateKey]);
+    editDay(defaultDay(dateKey, config));
+  }, [dateKey, config, editDay]);
 
   return (
     <DayContext.Provider
@@ -110,11 +499,26 @@ export function DayProvider({ children }: { children: ReactNode }) {
         dateKey,
         setDateKey,
         day,
-        setDay,
+        setDay: editDay,
         saveDay,
+        issues,
+        revertToRevision,
+        locked,
+        monthClosed,
+        closures,
+        closeMonth,
+        reopenMonth,
+        submitDay,
+        approveDay,
+        unlockDay,
+        saveDays,
+        resolveConflict,
+        deleteDay,
+        restoreDay,
         resetDay,
+        reloadDay,
+        overtaken: overtakenDate === dateKey,
         loading,
-        syncing,
       }}
     >
       {children}
@@ -1,12 +1,18 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from "react";
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  ReactNode,
+} from "react";
 
 import { translations, TranslationKey } from "@/lib/i18n";
-import { 
-  initializeRTL, 
+import {
+  initializeRTL,
   switchLanguage as rtlSwitchLanguage,
   saveLanguageOnly,
   Language,
-  RTLBootstrapResult 
+  RTLBootstrapResult,
 } from "@/lib/rtl-bootstrap";
 
 interface LanguageContextType {
@@ -18,7 +24,9 @@ interface LanguageContextType {
   needsManualRestart: boolean;
 }
 
-const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
+const LanguageContext = createContext<LanguageContextType | undefined>(
+  undefined,
+);
 
 function isRTLLanguage(lang: Language): boolean {
   return lang === "ar";
@@ -37,7 +45,7 @@ export function LanguageProvider({ children }: { children: ReactNode }) {
     const initialize = async () => {
       try {
         const result: RTLBootstrapResult = await initializeRTL();
-        
+
         if (!mounted) return;
 
         setLanguageState(result.language);
@@ -62,7 +70,7 @@ export function LanguageProvider({ children }: { children: ReactNode }) {
   const setLanguage = async (lang: Language) => {
     try {
       const willReload = await rtlSwitchLanguage(lang);
-      
+
       if (!willReload) {
         const saved = await saveLanguageOnly(lang);
         if (saved) {
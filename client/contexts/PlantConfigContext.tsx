@@ -0,0 +1,93 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  ReactNode,
+} from "react";
+import {
+  PlantConfig,
+  DEFAULT_PLANT_CONFIG,
+  getPlantConfig,
+  savePlantConfig,
+} from "@/lib/plantConfig";
+import { LOCAL_PLANT_ID, invalidateDayTotals } from "@/lib/storage";
+import { usePlantWorkspace } from "@/contexts/PlantWorkspaceContext";
+
+interface PlantConfigContextType {
+  config: PlantConfig;
+  updateConfig: (
+    update: (current: PlantConfig) => PlantConfig,
+  ) => Promise<void>;
+}
+
+const PlantConfigContext = createContext<PlantConfigContextType | undefined>(
+  undefined,
+);
+
+export function usePlantConfig() {
+  const context = useContext(PlantConfigContext);
+  if (!context) {
+    throw new Error("usePlantConfig must be used within a PlantConfigProvider");
+  }
+  return context;
+}
+
+interface PlantConfigProviderProps {
+  children: ReactNode;
+}
+
+// The configuration of the plant being worked on; switching plants loads
+// the other plant's configuration.
+export function PlantConfigProvider({ children }: PlantConfigProviderProps) {
+  const { plant } = usePlantWorkspace();
+  const plantId = plant?.id ?? LOCAL_PLANT_ID;
+  const [config, setConfig] = useState<PlantConfig>(DEFAULT_PLANT_CONFIG);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadConfig = async () => {
+      const saved = await getPlantConfig(plantId);
+      if (cancelled) return;
+      setConfig(saved);
+      setIsLoaded(true);
+    };
+    loadConfig();
+    return () => {
+      cancelled = true;
+    };
+  }, [plantId]);
+
+  const updateConfig = useCallback(
+    async (update: (current: PlantConfig) => PlantConfig) => {
+      const next = update(config);
+      setConfig(next);
+      await savePlantConfig(next, plantId);
+      if (
+        JSON.stringify([next.feeders, next.turbines]) !==
+        JSON.stringify([config.feeders, config.turbines])
+      ) {
+        await invalidateDayTotals();
+      }
+    },
+    [config, plantId],
+  );
+
+  const value = useMemo(
+    () => ({ config, updateConfig }),
+    [config, updateConfig],
+  );
+
+  if (!isLoaded) {
+    return null;
+  }
+
+  return (
+    <PlantConfigContext.Provider value={value}>
+      {children}
+    </PlantConfigContext.Provider>
+  );
+}
@@ -0,0 +1,186 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  ReactNode,
+} from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLanguage } from "@/contexts/LanguageContext";
+import {
+  Plant,
+  PlantRole,
+  getCachedPlants,
+  getSelectedPlantId,
+  loadPlants,
+  pickPlant,
+  saveSelectedPlantId,
+} from "@/lib/plantWorkspace";
+import { LOCAL_PLANT_ID, setActivePlantId } from "@/lib/storage";
+import {
+  SyncScope,
+  createPlantInSupabase,
+  joinPlantInSupabase,
+} from "@/lib/supabaseSync";
+
+interface PlantWorkspaceContextType {
+  plants: Plant[];
+  // The plant whose days are shown and synced, or null when signed out, in
+  // which case days are kept in the local plant.
+  plant: Plant | null;
+  role: PlantRole | null;
+  // Null unless signed in with a plant selected.
+  scope: SyncScope | null;
+  loading: boolean;
+  selectPlant: (plantId: string) => Promise<void>;
+  createPlant: (name: string) => Promise<Plant | null>;
+  // Resolves to false when the code matches no plant.
+  joinPlant: (joinCode: string) => Promise<boolean>;
+  refresh: () => Promise<void>;
+}
+
+const PlantWorkspaceContext = createContext<
+  PlantWorkspaceContextType | undefined
+>(undefined);
+
+export function usePlantWorkspace() {
+  const context = useContext(PlantWorkspaceContext);
+  if (!context) {
+    throw new Error(
+      "usePlantWorkspace must be used within a PlantWorkspaceProvider",
+    );
+  }
+  return context;
+}
+
+interface PlantWorkspaceProviderProps {
+  children: ReactNode;
+}
+
+export function PlantWorkspaceProvider({
+  children,
+}: PlantWorkspaceProviderProps) {
+  const { user, refreshGuestMerge } = useAuth();
+  const { t } = useLanguage();
+  const [plants, setPlants] = useState<Plant[]>([]);
+  const [plantId, setPlantId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Storage switches to the plant's days before the plant is published, so
+  // providers reloading on the change read the right plant.
+  const activate = useCallback((id: string | null) => {
+    setActivePlantId(id ?? LOCAL_PLANT_ID);
+    setPlantId(id);
+  }, []);
+
+  const applyPlants = useCallback(
+    async (list: Plant[]) => {
+      const picked = pickPlant(list, await getSelectedPlantId());
+      setPlants(list);
+      activate(picked?.id ?? null);
+      setLoading(false);
+      // Days saved while signed out are offered to the plant for the user
+      // to merge, rather than moved into it unasked.
+      if (picked) {
+        await refreshGuestMerge().catch((error) =>
+          console.error("Error looking for days saved signed out:", error),
+        );
+      }
+    },
+    [activate, refreshGuestMerge],
+  );
+
+  const refresh = useCallback(async () => {
+    if (!user?.id) {
+      setPlants([]);
+      activate(null);
+      setLoading(false);
+      return;
+    }
+    try {
+      const cached = await getCachedPlants(user.id);
+      if (cached) await applyPlants(cached);
+      const loaded = await loadPlants(user.id, t("default_plant_name"));
+      if (loaded) await applyPlants(loaded);
+    } catch (error) {
+      console.error("Error loading plants:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id, t, activate, applyPlants]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const selectPlant = useCallback(
+    async (id: string) => {
+      activate(id);
+      await saveSelectedPlantId(id);
+    },
+    [activate],
+  );
+
+  const createPlant = useCallback(
+    async (name: string) => {
+      if (!user?.id) return null;
+      const created = await createPlantInSupabase(user.id, name);
+      if (created) {
+        setPlants((current) => [...current, created]);
+        await selectPlant(created.id);
+      }
+      return created;
+    },
+    [user?.id, selectPlant],
+  );
+
+  const joinPlant = useCallback(
+    async (joinCode: string) => {
+      const joinedId = await joinPlantInSupabase(joinCode.trim());
+      if (!joinedId) return false;
+      await saveSelectedPlantId(joinedId);
+      await refresh();
+      return true;
+    },
+    [refresh],
+  );
+
+  const plant = plants.find((p) => p.id === plantId) ?? null;
+
+  const value = useMemo(
+    () => ({
+      plants,
+      plant,
+      role: plant?.role ?? null,
+      scope: user?.id && plant ? { userId: user.id, plantId: plant.id } : null,
+      loading,
+      selectPlant,
+      createPlant,
+      joinPlant,
+      refresh,
+    }),
+    [
+      plants,
+      plant,
+      user?.id,
+      loading,
+      selectPlant,
+      createPlant,
+      joinPlant,
+      refresh,
+    ],
+  );
+
+  // Nothing below may read days before the plant they belong to is known.
+  if (loading) {
+    return null;
+  }
+
+  return (
+    <PlantWorkspaceContext.Provider value={value}>
+      {children}
+    </PlantWorkspaceContext.Provider>
+  );
+}
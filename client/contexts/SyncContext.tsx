@@ -0,0 +1,269 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  ReactNode,
+} from "react";
+import * as Network from "expo-network";
+import { usePlantWorkspace } from "@/contexts/PlantWorkspaceContext";
+import type { DayRevision } from "@/lib/dayHistory";
+import { FullSyncResult, fullSync as pullAndMerge } from "@/lib/fullSync";
+import { RemoteDayChange, watchPlantDays } from "@/lib/realtimeDays";
+import {
+  DaySyncStatus,
+  OfflineError,
+  Outbox,
+  SyncProgress,
+  daySyncStatus,
+  enqueueDaySync,
+  flushOutbox,
+  getOutbox,
+  nextAttemptAt,
+} from "@/lib/syncOutbox";
+
+interface SyncContextType {
+  online: boolean;
+  syncing: boolean;
+  // How far the sync in progress has got, or null when none is running.
+  progress: SyncProgress | null;
+  // Days of the current plant still waiting to reach Supabase.
+  outbox: Outbox;
+  pendingCount: number;
+  // Null when signed out, as days then stay on this device.
+  statusOf: (dateKey: string) => DaySyncStatus | null;
+  // Queues a saved day, with the history entry its save recorded, and
+  // pushes it right away when online.
+  queueDay: (dateKey: string, revision: DayRevision | null) => Promise<void>;
+  // Pushes every queued day now, ignoring backoff, and resolves with the
+  // number still waiting. Rejects when offline.
+  syncNow: () => Promise<number>;
+  // Downloads every day from Supabase and queues days only on this device,
+  // as on signing in. Resolves with null when Supabase could not be read;
+  // rejects when offline.
+  fullSync: () => Promise<FullSyncResult | null>;
+  // The last full sync of the current plant in this session.
+  lastFullSync: FullSyncResult | null;
+  // The latest change made elsewhere to each day of the current plant since
+  // it was opened, saved here as it arrived.
+  remoteChanges: Record<string, RemoteDayChange>;
+  lastRemoteChange: RemoteDayChange | null;
+  dismissRemoteChange: (dateKey: string) => void;
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+export function useSync() {
+  const context = useContext(SyncContext);
+  if (!context) {
+    throw new Error("useSync must be used within a SyncProvider");
+  }
+  return context;
+}
+
+function isOnline(state: Network.NetworkState): boolean {
+  return state.isConnected !== false && state.isInternetReachable !== false;
+}
+
+interface SyncProviderProps {
+  children: ReactNode;
+}
+
+export function SyncProvider({ children }: SyncProviderProps) {
+  const { scope } = usePlantWorkspace();
+  const plantId = scope?.plantId ?? null;
+  const userId = scope?.userId ?? null;
+  const [outbox, setOutbox] = useState<Outbox>({});
+  const [online, setOnline] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [progress, setProgress] = useState<SyncProgress | null>(null);
+  const [lastFullSync, setLastFullSync] = useState<FullSyncResult | null>(null);
+  const [remoteChanges, setRemoteChanges] = useState<
+    Record<string, RemoteDayChange>
+  >({});
+  const [lastRemoteChange, setLastRemoteChange] =
+    useState<RemoteDayChange | null>(null);
+  // The user and plant last fully synced, so that it runs once per sign-in.
+  const fullySyncedRef = useRef<string | null>(null);
+  // Results that arrive after switching plants belong to the previous one.
+  const plantRef = useRef(plantId);
+  plantRef.current = plantId;
+
+  const syncScope = useMemo(
+    () => (plantId && userId ? { plantId, userId } : null),
+    [plantId, userId],
+  );
+
+  const apply = useCallback((forPlant: string, next: Outbox) => {
+    if (plantRef.current === forPlant) setOutbox(next);
+  }, []);
+
+  const flush = useCallback(
+    async (force = false) => {
+      if (!syncScope) return {};
+      const forPlant = syncScope.plantId;
+      setSyncing(true);
+      try {
+        const remaining = await flushOutbox(syncScope, force, (next) => {
+          if (plantRef.current === forPlant) setProgress(next);
+        });
+        apply(forPlant, remaining);
+        return remaining;
+      } finally {
+        setSyncing(false);
+        setProgress(null);
+      }
+    },
+    [syncScope, apply],
+  );
+
+  const runFullSync = useCallback(async () => {
+    if (!syncScope) return null;
+    const forPlant = syncScope.plantId;
+    setSyncing(true);
+    try {
+      const result = await pullAndMerge(syncScope, (next) => {
+        if (plantRef.current === forPlant) setProgress(next);
+      });
+      apply(forPlant, await getOutbox(forPlant));
+      if (result && plantRef.current === forPlant) setLastFullSync(result);
+      return result;
+    } finally {
+      setSyncing(false);
+      setProgress(null);
+    }
+  }, [syncScope, apply]);
+
+  useEffect(() => {
+    Network.getNetworkStateAsync()
+      .then((state) => setOnline(isOnline(state)))
+      .catch((error) => console.error("Error reading network state:", error));
+    const subscription = Network.addNetworkStateListener((state) =>
+      setOnline(isOnline(state)),
+    );
+    return () => subscription.remove();
+  }, []);
+
+  useEffect(() => {
+    setOutbox({});
+    setLastFullSync(null);
+    setRemoteChanges({});
+    setLastRemoteChange(null);
+    if (!syncScope) return;
+    getOutbox(syncScope.plantId).then((stored) =>
+      apply(syncScope.plantId, stored),
+    );
+  }, [syncScope, apply]);
+
+  // A new device starts out with the plant's days; the first time the user
+  // and plant are online together in a session, everything is pulled.
+  useEffect(() => {
+    if (!online || !syncScope) return;
+    const key = `${syncScope.userId}:${syncScope.plantId}`;
+    if (fullySyncedRef.current === key) return;
+    fullySyncedRef.current = key;
+    runFullSync().catch((error) =>
+      console.error("Error running full sync:", error),
+    );
+  }, [online, syncScope, runFullSync]);
+
+  // Days changed by others are saved here as they change while online.
+  useEffect(() => {
+    if (!online || !syncScope) return;
+    const forPlant = syncScope.plantId;
+    return watchPlantDays(syncScope, (change) => {
+      if (plantRef.current !== forPlant) return;
+      setRemoteChanges((current) => ({ ...current, [change.dateKey]: change }));
+      setLastRemoteChange(change);
+    });
+  }, [online, syncScope]);
+
+  const dismissRemoteChange = useCallback((dateKey: string) => {
+    setRemoteChanges((current) => {
+      const next = { ...current };
+      delete next[dateKey];
+      return next;
+    });
+  }, []);
+
+  // Pushes queued days as soon as they are due: on reconnecting, on
+  // switching plants, and when a failed day's backoff runs out.
+  const dueAt = nextAttemptAt(outbox);
+  useEffect(() => {
+    if (!online || dueAt === null) return;
+    const timer = setTimeout(
+      () => {
+        flush().catch((error) => console.error("Error syncing days:", error));
+      },
+      Math.max(0, dueAt - Date.now()),
+    );
+    return () => clearTimeout(timer);
+  }, [online, dueAt, flush]);
+
+  const queueDay = useCallback(
+    async (dateKey: string, revision: DayRevision | null) => {
+      if (!syncScope) return;
+      apply(
+        syncScope.plantId,
+        await enqueueDaySync(syncScope, dateKey, revision),
+      );
+    },
+    [syncScope, apply],
+  );
+
+  const syncNow = useCallback(async () => {
+    if (!online) {
+      throw new OfflineError();
+    }
+    return Object.keys(await flush(true)).length;
+  }, [online, flush]);
+
+  const fullSync = useCallback(async () => {
+    if (!online) {
+      throw new OfflineError();
+    }
+    return runFullSync();
+  }, [online, runFullSync]);
+
+  const statusOf = useCallback(
+    (dateKey: string) => (syncScope ? daySyncStatus(outbox, dateKey) : null),
+    [syncScope, outbox],
+  );
+
+  const value = useMemo(
+    () => ({
+      online,
+      syncing,
+      progress,
+      outbox,
+      pendingCount: Object.keys(outbox).length,
+      statusOf,
+      queueDay,
+      syncNow,
+      fullSync,
+      lastFullSync,
+      remoteChanges,
+      lastRemoteChange,
+      dismissRemoteChange,
+    }),
+    [
+      online,
+      syncing,
+      progress,
+      outbox,
+      statusOf,
+      queueDay,
+      syncNow,
+      fullSync,
+      lastFullSync,
+      remoteChanges,
+      lastRemoteChange,
+      dismissRemoteChange,
+    ],
+  );
+
+  return <SyncContext.Provider value={value}>{children}</SyncContext.Provider>;
+}
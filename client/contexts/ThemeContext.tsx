@@ -44,7 +44,12 @@ export function ThemeProvider({ children }: ThemeProviderProps) {
     const loadTheme = async () => {
       try {
         const savedMode = await AsyncStorage.getItem(THEME_STORAGE_KEY);
-        if (savedMode && (savedMode === "system" || savedMode === "light" || savedMode === "dark")) {
+        if (
+          savedMode &&
+          (savedMode === "system" ||
+            savedMode === "light" ||
+            savedMode === "dark")
+        ) {
           setModeState(savedMode as ThemeMode);
         }
       } catch (error) {
@@ -83,7 +88,7 @@ export function ThemeProvider({ children }: ThemeProviderProps) {
       theme,
       setMode,
     }),
-    [mode, isDark, theme]
+    [mode, isDark, theme],
   );
 
   if (!isLoaded) {
@@ -91,8 +96,6 @@ export function ThemeProvider({ children }: ThemeProviderProps) {
   }
 
   return (
-    <ThemeContext.Provider value={value}>
-      {children}
-    </ThemeContext.Provider>
+    <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>
   );
 }
@@ -0,0 +1,48 @@
+import { useCallback } from "react";
+import * as Haptics from "expo-haptics";
+
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useSync } from "@/contexts/SyncContext";
+import { FullSyncResult } from "@/lib/fullSync";
+import { OfflineError } from "@/lib/syncOutbox";
+import { showSuccess, showError } from "@/utils/notify";
+
+type Translate = ReturnType<typeof useLanguage>["t"];
+
+// e.g. "Downloaded: 12 days · Uploaded: 3 days", followed by the days left
+// in conflict when there are any.
+export function fullSyncSummary(result: FullSyncResult, t: Translate): string {
+  const days = t("days_plural");
+  const summary = `${t("downloaded")}: ${result.downloaded} ${days} · ${t("uploaded")}: ${result.uploaded} ${days}`;
+  return result.conflicts > 0
+    ? `${summary} · ${t("sync_status_conflict")}: ${result.conflicts} ${days}`
+    : summary;
+}
+
+// The "sync all days" action, reporting how many days went each way.
+export function useFullSync() {
+  const { t } = useLanguage();
+  const { fullSync, syncing } = useSync();
+
+  const run = useCallback(async () => {
+    if (syncing) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    try {
+      const result = await fullSync();
+      if (result) {
+        showSuccess(fullSyncSummary(result, t));
+      } else {
+        showError(t("msg_error_generic"));
+      }
+    } catch (error) {
+      if (error instanceof OfflineError) {
+        showError(t("sync_offline"));
+      } else {
+        console.error("Error running full sync:", error);
+        showError(t("msg_error_generic"));
+      }
+    }
+  }, [syncing, fullSync, t]);
+
+  return { fullSync: run, syncing };
+}
@@ -10,7 +10,7 @@ export interface RTLStyles {
 
 export function useRTL(): RTLStyles {
   const { isRTL } = useLanguage();
-  
+
   return {
     isRTL,
     rtlText: {
@@ -54,7 +54,7 @@ function getResponsiveLayout(dimensions: ScaledSize): ResponsiveLayout {
 
 export function useResponsiveLayout(): ResponsiveLayout {
   const [layout, setLayout] = useState<ResponsiveLayout>(() =>
-    getResponsiveLayout(Dimensions.get("window"))
+    getResponsiveLayout(Dimensions.get("window")),
   );
 
   useEffect(() => {
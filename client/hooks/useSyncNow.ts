@@ -0,0 +1,37 @@
+import { useCallback } from "react";
+import * as Haptics from "expo-haptics";
+
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useSync } from "@/contexts/SyncContext";
+import { OfflineError } from "@/lib/syncOutbox";
+import { showSuccess, showError } from "@/utils/notify";
+
+// The "sync now" action, reporting how the push went.
+export function useSyncNow() {
+  const { t } = useLanguage();
+  const { syncNow, syncing } = useSync();
+
+  const run = useCallback(async () => {
+    if (syncing) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    try {
+      const remaining = await syncNow();
+      if (remaining === 0) {
+        showSuccess(t("msg_sync_complete"));
+      } else {
+        showError(
+          `${remaining} ${t("days_plural")} ${t("msg_sync_incomplete")}`,
+        );
+      }
+    } catch (error) {
+      if (error instanceof OfflineError) {
+        showError(t("sync_offline"));
+      } else {
+        console.error("Error syncing days:", error);
+        showError(t("msg_error_generic"));
+      }
+    }
+  }, [syncing, syncNow, t]);
+
+  return { syncNow: run, syncing };
+}
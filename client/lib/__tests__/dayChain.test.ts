@@ -0,0 +1,132 @@
+import { findChainMismatches, planChainCorrections } from "../dayChain";
+import { DEFAULT_PLANT_CONFIG, PlantConfig } from "../plantConfig";
+import { DayData } from "../storage";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  jest.requireActual(
+    "@react-native-async-storage/async-storage/jest/async-storage-mock",
+  ),
+);
+
+const config: PlantConfig = {
+  ...DEFAULT_PLANT_CONFIG,
+  feeders: [],
+  turbines: [{ id: "A", name: "A" }],
+};
+
+function turbineDay(
+  dateKey: string,
+  previous: string,
+  present: string,
+): DayData {
+  return {
+    dateKey,
+    feeders: {},
+    turbines: { A: { previous, present, hours: "24" } },
+  };
+}
+
+describe("findChainMismatches", () => {
+  it("reports an opening reading that differs from the day before", () => {
+    const days = [
+      turbineDay("2024-03-02", "90", "150"),
+      turbineDay("2024-03-01", "0", "100"),
+    ];
+
+    expect(findChainMismatches(days, config)).toEqual([
+      {
+        dateKey: "2024-03-02",
+        kind: "turbine",
+        meterId: "A",
+        expected: "100",
+        actual: "90",
+      },
+    ]);
+  });
+
+  it("skips days after a gap and readings left blank", () => {
+    const days = [
+      turbineDay("2024-03-01", "0", "100"),
+      turbineDay("2024-03-02", "", "150"),
+      turbineDay("2024-03-04", "140", "200"),
+    ];
+
+    expect(findChainMismatches(days, config)).toEqual([]);
+  });
+
+  it("compares readings as numbers and continues from a replaced meter", () => {
+    const days = [
+      turbineDay("2024-03-01", "0", "100.0"),
+      {
+        dateKey: "2024-03-02",
+        feeders: {},
+        turbines: {
+          A: {
+            previous: "100",
+            present: "",
+            hours: "24",
+            replacement: { oldFinal: "120", newInitial: "5" },
+          },
+        },
+      },
+      turbineDay("2024-03-03", "5", "40"),
+    ];
+
+    expect(findChainMismatches(days, config)).toEqual([]);
+  });
+});
+
+describe("planChainCorrections", () => {
+  const days = [
+    turbineDay("2024-03-01", "0", "100"),
+    turbineDay("2024-03-02", "90", "90"),
+    turbineDay("2024-03-03", "90", "130"),
+    turbineDay("2024-03-04", "130", "170"),
+  ];
+
+  it("carries the correction through idle days to the next movement", () => {
+    const corrections = planChainCorrections(
+      days,
+      findChainMismatches(days, config),
+      config,
+    );
+
+    expect(corrections.map((c) => c.after.dateKey)).toEqual([
+      "2024-03-02",
+      "2024-03-03",
+    ]);
+    const [idle, moved] = corrections;
+    expect(idle.after.turbines.A).toMatchObject({
+      previous: "100",
+      present: "100",
+      flags: {
+        previous: { quality: "corrected" },
+        present: { quality: "corrected" },
+      },
+    });
+    expect(moved.changes).toEqual([
+      { field: "turbines.A.previous", oldValue: "90", newValue: "100" },
+    ]);
+    expect(moved.after.turbines.A.flags).toEqual({
+      previous: { quality: "corrected" },
+    });
+    expect(moved.productionBefore).toBe(40);
+    expect(moved.productionAfter).toBe(30);
+  });
+
+  it("stops before an approved day", () => {
+    const frozen = days.map((day) =>
+      day.dateKey === "2024-03-03"
+        ? { ...day, status: "approved" as const }
+        : day,
+    );
+
+    const corrections = planChainCorrections(
+      frozen,
+      findChainMismatches(frozen, config),
+      config,
+    );
+
+    expect(corrections.map((c) => c.after.dateKey)).toEqual(["2024-03-02"]);
+  });
+});
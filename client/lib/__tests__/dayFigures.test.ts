@@ -0,0 +1,121 @@
+import { calculationDefinition, dayFigures } from "../dayFigures";
+import { computeMonthlyStats } from "../excelExport";
+import { DEFAULT_GAS_CURVE, GasCurve, gasRate } from "../gasCurves";
+import { DEFAULT_PLANT_CONFIG, PlantConfig } from "../plantConfig";
+import { DayData, registerDelta } from "../storage";
+import figures from "./fixtures/day-figures.json";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  jest.requireActual(
+    "@react-native-async-storage/async-storage/jest/async-storage-mock",
+  ),
+);
+
+// The fixture holds days with rollover, replaced meters, CT/PT scaling and
+// meters out of service, together with the rows day_figures and
+// month_figures in supabase-schema.sql return for them when called with its
+// definition.
+const config: PlantConfig = {
+  ...DEFAULT_PLANT_CONFIG,
+  ...figures.config,
+  gasCurves: figures.config.gasCurves as GasCurve[],
+};
+const days = figures.days as DayData[];
+
+describe("calculationDefinition", () => {
+  it("describes the configuration as the SQL functions take it", () => {
+    expect(calculationDefinition(config)).toEqual(figures.definition);
+  });
+});
+
+describe("dayFigures", () => {
+  it.each(figures.day_figures)("matches day_figures for $date_key", (row) => {
+    const day = days.find((d) => d.dateKey === row.date_key)!;
+    const result = dayFigures(day, config);
+
+    expect(result.productionMwh).toBeCloseTo(row.production_mwh, 6);
+    expect(result.exportMwh).toBeCloseTo(row.export_mwh, 6);
+    expect(result.consumptionMwh).toBeCloseTo(row.consumption_mwh, 6);
+    expect(result.gasM3).toBeCloseTo(row.gas_m3, 6);
+  });
+});
+
+describe("computeMonthlyStats", () => {
+  it.each(figures.month_figures)(
+    "matches month_figures for $month_key",
+    (row) => {
+      const stats = computeMonthlyStats(days, config).find(
+        (m) => m.month === row.month_key,
+      )!;
+
+      expect(stats.daysCount).toBe(row.days);
+      expect(stats.estimatedCount).toBe(row.estimated_days);
+      expect(stats.production).toBeCloseTo(row.production_mwh, 6);
+      expect(stats.exportTotal).toBeCloseTo(row.export_mwh, 6);
+      expect(stats.withdrawalTotal).toBeCloseTo(row.withdrawal_mwh, 6);
+      expect(stats.consumption).toBeCloseTo(row.consumption_mwh, 6);
+      expect(stats.gasConsumed).toBeCloseTo(row.gas_m3, 6);
+    },
+  );
+});
+
+describe("registerDelta", () => {
+  it("takes the plain difference without register digits", () => {
+    expect(registerDelta(9990, 20)).toBe(-9970);
+    expect(registerDelta(9990, 20, 0)).toBe(-9970);
+  });
+
+  it("corrects a wrap past the last digit", () => {
+    expect(registerDelta(9990, 20, 4)).toBe(30);
+  });
+
+  it("corrects a register running back past zero", () => {
+    expect(registerDelta(20, 9990, 4)).toBe(-30);
+  });
+
+  it("treats a jump of exactly half the register as movement", () => {
+    expect(registerDelta(9000, 4000, 4)).toBe(-5000);
+    expect(registerDelta(4000, 9000, 4)).toBe(5000);
+  });
+});
+
+describe("gasRate", () => {
+  const linear = {
+    kind: "linear" as const,
+    points: [
+      { mwPerHr: 6, m3PerMwh: 400 },
+      { mwPerHr: 2, m3PerMwh: 600 },
+    ],
+  };
+
+  it("applies a step rate only above its lower limit", () => {
+    expect(gasRate(DEFAULT_GAS_CURVE, 0)).toBe(1000);
+    expect(gasRate(DEFAULT_GAS_CURVE, 3)).toBe(1000);
+    expect(gasRate(DEFAULT_GAS_CURVE, 3.01)).toBe(700);
+    expect(gasRate(DEFAULT_GAS_CURVE, 8.5)).toBe(420);
+  });
+
+  it("interpolates a linear curve and holds its end values", () => {
+    expect(gasRate(linear, 4)).toBe(500);
+    expect(gasRate(linear, 1)).toBe(600);
+    expect(gasRate(linear, 10)).toBe(400);
+  });
+
+  it("continues from the last of points at the same MW/hr", () => {
+    const curve = {
+      kind: "linear" as const,
+      points: [
+        { mwPerHr: 2, m3PerMwh: 600 },
+        { mwPerHr: 4, m3PerMwh: 500 },
+        { mwPerHr: 4, m3PerMwh: 450 },
+        { mwPerHr: 6, m3PerMwh: 400 },
+      ],
+    };
+
+    expect(gasRate(curve, 5)).toBe(425);
+  });
+
+  it("is zero without points", () => {
+    expect(gasRate({ kind: "step", points: [] }, 5)).toBe(0);
+  });
+});
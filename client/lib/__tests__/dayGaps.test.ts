@@ -0,0 +1,98 @@
+import { addDays, findGaps, interpolateDay } from "../dayGaps";
+import { DEFAULT_PLANT_CONFIG, PlantConfig } from "../plantConfig";
+import { DayData } from "../storage";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  jest.requireActual(
+    "@react-native-async-storage/async-storage/jest/async-storage-mock",
+  ),
+);
+
+const config: PlantConfig = {
+  ...DEFAULT_PLANT_CONFIG,
+  feeders: [{ id: "F1", name: "F1" }],
+  turbines: [{ id: "A", name: "A", registerDigits: 4 }],
+};
+
+describe("addDays", () => {
+  it("crosses month and year ends", () => {
+    expect(addDays("2024-02-28", 1)).toBe("2024-02-29");
+    expect(addDays("2024-12-31", 1)).toBe("2025-01-01");
+    expect(addDays("2024-03-01", -1)).toBe("2024-02-29");
+  });
+});
+
+describe("findGaps", () => {
+  it("groups consecutive missing dates, including at either end", () => {
+    const gaps = findGaps(
+      ["2024-02-28", "2024-03-02"],
+      "2024-02-27",
+      "2024-03-03",
+    );
+
+    expect(gaps).toEqual([
+      { from: "2024-02-27", to: "2024-02-27", dateKeys: ["2024-02-27"] },
+      {
+        from: "2024-02-29",
+        to: "2024-03-01",
+        dateKeys: ["2024-02-29", "2024-03-01"],
+      },
+      { from: "2024-03-03", to: "2024-03-03", dateKeys: ["2024-03-03"] },
+    ]);
+  });
+
+  it("finds nothing when every date is saved", () => {
+    expect(
+      findGaps(["2024-03-01", "2024-03-02"], "2024-03-01", "2024-03-02"),
+    ).toEqual([]);
+  });
+});
+
+describe("interpolateDay", () => {
+  const before: DayData = {
+    dateKey: "2024-03-01",
+    feeders: { F1: { start: "500", end: "480" } },
+    turbines: { A: { previous: "9900", present: "9990", hours: "24" } },
+  };
+  const after: DayData = {
+    dateKey: "2024-03-05",
+    feeders: {},
+    turbines: { A: { previous: "50", present: "140", hours: "24" } },
+  };
+
+  it("spreads the advance evenly and wraps the register", () => {
+    const days = ["2024-03-02", "2024-03-03", "2024-03-04"].map((dateKey) =>
+      interpolateDay(dateKey, { before, after }, config),
+    );
+
+    expect(days.map((day) => day?.turbines.A)).toEqual([
+      expect.objectContaining({ previous: "9990", present: "10" }),
+      expect.objectContaining({ previous: "10", present: "30" }),
+      expect.objectContaining({ previous: "30", present: "50" }),
+    ]);
+    expect(days[0]).toMatchObject({
+      estimated: true,
+      turbines: {
+        A: {
+          hours: "24",
+          flags: {
+            previous: { quality: "estimated" },
+            present: { quality: "estimated" },
+          },
+        },
+      },
+    });
+  });
+
+  it("leaves meters blank without a reading on both sides", () => {
+    const day = interpolateDay("2024-03-02", { before, after }, config);
+
+    expect(day?.feeders.F1).toEqual({ start: "", end: "" });
+  });
+
+  it("needs a saved day on both sides", () => {
+    expect(
+      interpolateDay("2024-03-02", { before, after: null }, config),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,194 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { fullSync } from "../fullSync";
+import type { DayRevision } from "../dayHistory";
+import type { DayData } from "../storage";
+import {
+  RemoteDayStamp,
+  fetchAllDaysFromSupabase,
+  fetchDaysFromSupabase,
+} from "../supabaseSync";
+import { enqueueDaySync, getOutbox } from "../syncOutbox";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  jest.requireActual(
+    "@react-native-async-storage/async-storage/jest/async-storage-mock",
+  ),
+);
+
+// The plant's saved days and recycle bin, kept in memory.
+const mockSaved = new Map<string, DayData>();
+const mockDeleted = new Map<string, DayData>();
+
+jest.mock("../storage", () => ({
+  getAllDaysData: async () => [...mockSaved.values()],
+  getDeletedDays: async () => [...mockDeleted.values()],
+  saveDayData: async (day: DayData) => {
+    mockDeleted.delete(day.dateKey);
+    mockSaved.set(day.dateKey, day);
+  },
+  saveDeletedDayData: async (day: DayData) => {
+    mockSaved.delete(day.dateKey);
+    mockDeleted.set(day.dateKey, day);
+  },
+}));
+
+jest.mock("../supabaseSync", () => ({
+  SYNC_BATCH_SIZE: 50,
+  fetchAllDaysFromSupabase: jest.fn(),
+  fetchDaysFromSupabase: jest.fn(),
+}));
+
+const fetchStamps = jest.mocked(fetchAllDaysFromSupabase);
+const fetchDays = jest.mocked(fetchDaysFromSupabase);
+
+const scope = { userId: "user-1", plantId: "plant-1" };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function day(
+  dateKey: string,
+  present: string,
+  extra: Partial<DayData> = {},
+): DayData {
+  return {
+    dateKey,
+    feeders: {},
+    turbines: { A: { previous: "0", present, hours: "24" } },
+    ...extra,
+  };
+}
+
+function stamp(
+  dateKey: string,
+  revision: number,
+  deletedAt?: string,
+): RemoteDayStamp {
+  return {
+    dateKey,
+    revision,
+    updatedAt: "2024-03-02T08:00:00.000Z",
+    ...(deletedAt ? { deletedAt } : {}),
+  };
+}
+
+function revision(id: string, dateKey: string): DayRevision {
+  return {
+    id,
+    dateKey,
+    changes: [],
+    snapshot: day(dateKey, "10"),
+    userId: scope.userId,
+    deviceId: "device-1",
+    createdAt: "2024-03-01T08:00:00.000Z",
+  };
+}
+
+// Supabase returns its version of each requested day.
+function serveRemote(days: DayData[]) {
+  fetchDays.mockImplementation(async (_plantId, dateKeys) =>
+    days.filter((d) => dateKeys.includes(d.dateKey)),
+  );
+}
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  mockSaved.clear();
+  mockDeleted.clear();
+  jest.clearAllMocks();
+});
+
+describe("fullSync", () => {
+  it("downloads days only in Supabase and days changed there", async () => {
+    mockSaved.set("2024-03-02", day("2024-03-02", "10", { remoteRevision: 4 }));
+    const remote = [
+      day("2024-03-01", "20", { remoteRevision: 2 }),
+      day("2024-03-02", "15", { remoteRevision: 5 }),
+    ];
+    fetchStamps.mockResolvedValue([
+      stamp("2024-03-01", 2),
+      stamp("2024-03-02", 5),
+    ]);
+    serveRemote(remote);
+
+    const result = await fullSync(scope);
+
+    expect(result).toMatchObject({ downloaded: 2, uploaded: 0, conflicts: 0 });
+    expect(mockSaved.get("2024-03-01")).toEqual(remote[0]);
+    expect(mockSaved.get("2024-03-02")).toEqual(remote[1]);
+    expect(await getOutbox(scope.plantId)).toEqual({});
+  });
+
+  it("sends a queued day changed in Supabase to conflict review", async () => {
+    const local = day("2024-03-01", "12", { remoteRevision: 4 });
+    mockSaved.set("2024-03-01", local);
+    await enqueueDaySync(scope, "2024-03-01", revision("r1", "2024-03-01"));
+    fetchStamps.mockResolvedValue([stamp("2024-03-01", 5)]);
+    serveRemote([day("2024-03-01", "15", { remoteRevision: 5 })]);
+
+    const result = await fullSync(scope);
+
+    expect(result).toMatchObject({ downloaded: 0, conflicts: 1 });
+    expect(mockSaved.get("2024-03-01")).toEqual(local);
+    const outbox = await getOutbox(scope.plantId);
+    expect(outbox["2024-03-01"]).toMatchObject({ conflict: true });
+    expect(outbox["2024-03-01"].revisions.map((r) => r.id)).toEqual(["r1"]);
+  });
+
+  it("leaves a queued day based on the current revision to the outbox", async () => {
+    mockSaved.set("2024-03-01", day("2024-03-01", "12", { remoteRevision: 4 }));
+    await enqueueDaySync(scope, "2024-03-01", revision("r1", "2024-03-01"));
+    fetchStamps.mockResolvedValue([stamp("2024-03-01", 4)]);
+
+    const result = await fullSync(scope);
+
+    expect(result).toMatchObject({ downloaded: 0, uploaded: 0, conflicts: 0 });
+    expect(fetchDays).not.toHaveBeenCalled();
+    const outbox = await getOutbox(scope.plantId);
+    expect(outbox["2024-03-01"].conflict).toBeUndefined();
+  });
+
+  it("queues days never pushed and leaves days gone from Supabase", async () => {
+    mockSaved.set("2024-03-01", day("2024-03-01", "10"));
+    mockSaved.set("2024-03-02", day("2024-03-02", "10"));
+    mockSaved.set("2024-03-03", day("2024-03-03", "10", { remoteRevision: 2 }));
+    fetchStamps.mockResolvedValue([stamp("2024-03-01", 1)]);
+
+    const result = await fullSync(scope);
+
+    expect(result).toMatchObject({ downloaded: 0, uploaded: 2 });
+    expect(Object.keys(await getOutbox(scope.plantId)).sort()).toEqual([
+      "2024-03-01",
+      "2024-03-02",
+    ]);
+  });
+
+  it("lists recent deletions in the recycle bin and skips expired ones", async () => {
+    const recent = new Date(Date.now() - DAY_MS).toISOString();
+    const expired = new Date(Date.now() - 60 * DAY_MS).toISOString();
+    const deleted = day("2024-03-01", "10", {
+      remoteRevision: 3,
+      deletedAt: recent,
+    });
+    fetchStamps.mockResolvedValue([
+      stamp("2024-03-01", 3, recent),
+      stamp("2024-03-02", 3, expired),
+    ]);
+    serveRemote([deleted]);
+
+    const result = await fullSync(scope);
+
+    expect(fetchDays).toHaveBeenCalledWith(
+      scope.plantId,
+      ["2024-03-01"],
+      expect.anything(),
+    );
+    expect(result).toMatchObject({ downloaded: 1 });
+    expect(mockDeleted.get("2024-03-01")).toEqual(deleted);
+  });
+
+  it("resolves with null when Supabase cannot be read", async () => {
+    fetchStamps.mockResolvedValue(null);
+
+    expect(await fullSync(scope)).toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+import { feederSegments, turbineSegments } from "../intraday";
+import { MeterConfig } from "../plantConfig";
+import { DayData, feederRowComputed, turbineRowComputed } from "../storage";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  jest.requireActual(
+    "@react-native-async-storage/async-storage/jest/async-storage-mock",
+  ),
+);
+
+const feeder: MeterConfig = { id: "F2", name: "F2", ctRatio: 2 };
+const turbine: MeterConfig = { id: "A", name: "A", registerDigits: 4 };
+
+const day: DayData = {
+  dateKey: "2024-03-01",
+  feeders: {
+    F2: {
+      start: "1000",
+      end: "940",
+      readings: [{ time: "12:00", value: "970" }],
+    },
+  },
+  turbines: {
+    A: {
+      previous: "9990",
+      present: "30",
+      hours: "24",
+      readings: [{ time: "06:00", value: "9999" }],
+    },
+  },
+};
+
+const total = (segments: { energyMwh: number }[]) =>
+  segments.reduce((acc, s) => acc + s.energyMwh, 0);
+
+describe("feederSegments", () => {
+  it("exports with the same sign and scaling as the daily figure", () => {
+    const segments = feederSegments(day, feeder);
+
+    expect(segments.map((s) => s.energyMwh)).toEqual([60, 60]);
+    expect(total(segments)).toBe(feederRowComputed(day, feeder).diff);
+  });
+});
+
+describe("turbineSegments", () => {
+  it("corrects rollover in the segment where the register wraps", () => {
+    const segments = turbineSegments(day, turbine);
+
+    expect(segments.map((s) => s.energyMwh)).toEqual([9, 31]);
+    expect(total(segments)).toBe(turbineRowComputed(day, turbine).diff);
+  });
+});
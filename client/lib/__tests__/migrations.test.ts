@@ -0,0 +1,253 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import {
+  CURRENT_SCHEMA_VERSION,
+  SCHEMA_VERSION_KEY,
+  getSchemaVersion,
+  normalizeDayRecord,
+  runMigrations,
+} from "../migrations";
+import v2Storage from "./fixtures/v2-storage.json";
+import v4Storage from "./fixtures/v4-storage.json";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  jest.requireActual(
+    "@react-native-async-storage/async-storage/jest/async-storage-mock",
+  ),
+);
+
+const CONFIG_KEY = "pp-app:v2:plant-config";
+const INDEX_KEY = "pp-app:v2:days:index";
+
+// Migrations warn about the records they move aside or skip.
+beforeEach(() => {
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+async function load(fixture: Record<string, string>) {
+  await AsyncStorage.clear();
+  await AsyncStorage.multiSet(Object.entries(fixture));
+}
+
+async function read(key: string) {
+  const raw = await AsyncStorage.getItem(key);
+  return raw === null ? null : JSON.parse(raw);
+}
+
+describe("runMigrations", () => {
+  beforeEach(() => load(v2Storage));
+
+  it("brings unversioned v2 data up to the current schema", async () => {
+    const result = await runMigrations();
+
+    expect(result).toEqual({
+      from: 2,
+      to: CURRENT_SCHEMA_VERSION,
+      applied: [3, 4, 5],
+    });
+    expect(await getSchemaVersion()).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it("does nothing once current", async () => {
+    await runMigrations();
+    const before = await AsyncStorage.multiGet(await AsyncStorage.getAllKeys());
+
+    const result = await runMigrations();
+
+    expect(result.applied).toEqual([]);
+    expect(
+      await AsyncStorage.multiGet(await AsyncStorage.getAllKeys()),
+    ).toEqual(before);
+  });
+
+  it("starts fresh installs at the current schema", async () => {
+    await AsyncStorage.clear();
+
+    const result = await runMigrations();
+
+    expect(result.applied).toEqual([]);
+    expect(await getSchemaVersion()).toBe(CURRENT_SCHEMA_VERSION);
+  });
+});
+
+describe("v3 normalizeDays", () => {
+  beforeEach(() => load(v2Storage));
+
+  it("coerces readings to strings and defaults turbine hours", async () => {
+    await runMigrations();
+
+    expect(await read("pp-app:v2:day:2024-03-01")).toEqual({
+      dateKey: "2024-03-01",
+      feeders: {
+        F2: { start: "1200.5", end: "1300" },
+        F3: { start: "50", end: "60" },
+      },
+      turbines: { A: { previous: "900", present: "950", hours: "24" } },
+      crew: "B",
+    });
+  });
+
+  it("keeps meter replacements and drops unknown fields", async () => {
+    await runMigrations();
+
+    const day = await read("pp-app:v2:day:2024-03-02");
+    expect(day.feeders.F2.replacement).toEqual({
+      oldFinal: "1350",
+      newInitial: "0",
+      time: "10:30",
+    });
+    expect(day.turbines.A.hours).toBe("12");
+    expect(day).not.toHaveProperty("notes");
+  });
+
+  it("drops meter entries that are not objects", async () => {
+    await runMigrations();
+
+    expect((await read("pp-app:v2:day:2024-03-05")).feeders).toEqual({
+      F9: { start: "7", end: "9" },
+    });
+  });
+
+  it("moves unreadable records aside instead of deleting them", async () => {
+    await runMigrations();
+
+    expect(await AsyncStorage.getItem("pp-app:v2:day:2024-03-03")).toBeNull();
+    expect(await AsyncStorage.getItem("pp-app:v2:day:2024-03-04")).toBeNull();
+    expect(
+      await AsyncStorage.getItem(
+        "pp-app:v2:quarantine:pp-app:v2:day:2024-03-03",
+      ),
+    ).toBe("{not json");
+    expect(await read("pp-app:v2:quarantine:pp-app:v2:day:2024-03-04")).toEqual(
+      ["not", "a", "day"],
+    );
+  });
+
+  it("rebuilds the day index from the records present", async () => {
+    await runMigrations();
+
+    expect(await read(INDEX_KEY)).toEqual([
+      "2024-03-01",
+      "2024-03-02",
+      "2024-03-05",
+    ]);
+  });
+});
+
+describe("v4 registerOrphanMeters", () => {
+  it("adds meters found only in days as retired after their last day", async () => {
+    await load(v2Storage);
+
+    await runMigrations();
+
+    const config = await read(CONFIG_KEY);
+    expect(config.feeders).toEqual([
+      { id: "F2", name: "F2" },
+      { id: "F3", name: "F3" },
+      {
+        id: "F9",
+        name: "F9",
+        commissionedOn: "2024-03-02",
+        retiredOn: "2024-03-06",
+      },
+    ]);
+    expect(config.turbines).toEqual([{ id: "A", name: "A" }]);
+  });
+
+  it("leaves the configuration alone when nothing is missing", async () => {
+    await load({
+      ...v2Storage,
+      "pp-app:v2:day:2024-03-02": JSON.stringify({ feeders: {}, turbines: {} }),
+      "pp-app:v2:day:2024-03-05": JSON.stringify({ feeders: {}, turbines: {} }),
+    });
+
+    await runMigrations();
+
+    expect(await AsyncStorage.getItem(CONFIG_KEY)).toBe(v2Storage[CONFIG_KEY]);
+  });
+
+  it("skips an unreadable configuration and finishes migrating", async () => {
+    await load({ ...v2Storage, [CONFIG_KEY]: "{oops" });
+
+    const result = await runMigrations();
+
+    expect(result.applied).toEqual([3, 4, 5]);
+    expect(await AsyncStorage.getItem(CONFIG_KEY)).toBe("{oops");
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining("plant config is unreadable"),
+    );
+  });
+});
+
+describe("v5 normalizeLaterDayFields", () => {
+  beforeEach(() => load(v4Storage));
+
+  it("runs on devices that already ran v3", async () => {
+    const result = await runMigrations();
+
+    expect(result).toEqual({
+      from: 4,
+      to: CURRENT_SCHEMA_VERSION,
+      applied: [5],
+    });
+    expect(await AsyncStorage.getItem(SCHEMA_VERSION_KEY)).toBe(
+      String(CURRENT_SCHEMA_VERSION),
+    );
+  });
+
+  it("drops malformed flags, statuses and sync fields", async () => {
+    await runMigrations();
+
+    expect(await read("pp-app:v2:day:2024-05-01")).toEqual({
+      dateKey: "2024-05-01",
+      feeders: {
+        F2: {
+          start: "1",
+          end: "2",
+          flags: { start: { quality: "estimated", reason: "meter fogged" } },
+        },
+      },
+      turbines: { A: { previous: "1", present: "2", hours: "24" } },
+    });
+  });
+
+  it("keeps well-formed fields on days of signed-in plants", async () => {
+    await runMigrations();
+
+    expect(await read("pp-app:v2:plant:p1:day:2024-05-02")).toEqual(
+      JSON.parse(v4Storage["pp-app:v2:plant:p1:day:2024-05-02"]),
+    );
+  });
+});
+
+describe("normalizeDayRecord", () => {
+  it("brings a v2 backup record to the current shape", () => {
+    const raw = JSON.parse(v2Storage["pp-app:v2:day:2024-03-01"]);
+
+    expect(
+      normalizeDayRecord(
+        { ...raw, status: "approved", approval: { userId: null, at: "x" } },
+        "2024-03-01",
+      ),
+    ).toEqual({
+      dateKey: "2024-03-01",
+      feeders: {
+        F2: { start: "1200.5", end: "1300" },
+        F3: { start: "50", end: "60" },
+      },
+      turbines: { A: { previous: "900", present: "950", hours: "24" } },
+      crew: "B",
+      status: "approved",
+      approval: { userId: null, at: "x" },
+    });
+  });
+
+  it("rejects records that are not objects", () => {
+    expect(normalizeDayRecord(["x"], "2024-03-01")).toBeNull();
+    expect(normalizeDayRecord(null, "2024-03-01")).toBeNull();
+  });
+});
@@ -0,0 +1,291 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import type { DayRevision } from "../dayHistory";
+import type { DayData } from "../storage";
+import {
+  fetchDayFromSupabase,
+  insertDayRevisionsToSupabase,
+  syncDaysToSupabase,
+} from "../supabaseSync";
+import {
+  Outbox,
+  OutboxEntry,
+  daySyncStatus,
+  enqueueDaySync,
+  flushOutbox,
+  markOutboxConflicts,
+  nextAttemptAt,
+  retryDelay,
+} from "../syncOutbox";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  jest.requireActual(
+    "@react-native-async-storage/async-storage/jest/async-storage-mock",
+  ),
+);
+
+// The plant's saved days and recycle bin, kept in memory.
+const mockSaved = new Map<string, DayData>();
+const mockDeleted = new Map<string, DayData>();
+
+jest.mock("../storage", () => ({
+  getSavedDayData: async (dateKey: string) => mockSaved.get(dateKey) ?? null,
+  getDeletedDayData: async (dateKey: string) =>
+    mockDeleted.get(dateKey) ?? null,
+  saveDayData: async (day: DayData) => {
+    mockDeleted.delete(day.dateKey);
+    mockSaved.set(day.dateKey, day);
+  },
+  saveDeletedDayData: async (day: DayData) => {
+    mockSaved.delete(day.dateKey);
+    mockDeleted.set(day.dateKey, day);
+  },
+}));
+
+jest.mock("../supabaseSync", () => ({
+  SYNC_BATCH_SIZE: 50,
+  fetchDayFromSupabase: jest.fn(),
+  insertDayRevisionsToSupabase: jest.fn(),
+  syncDaysToSupabase: jest.fn(),
+}));
+
+const fetchDay = jest.mocked(fetchDayFromSupabase);
+const insertRevisions = jest.mocked(insertDayRevisionsToSupabase);
+const syncDays = jest.mocked(syncDaysToSupabase);
+
+const scope = { userId: "user-1", plantId: "plant-1" };
+const DATE = "2024-03-01";
+
+function day(present: string, extra: Partial<DayData> = {}): DayData {
+  return {
+    dateKey: DATE,
+    feeders: {},
+    turbines: { A: { previous: "0", present, hours: "24" } },
+    ...extra,
+  };
+}
+
+function revision(id: string): DayRevision {
+  return {
+    id,
+    dateKey: DATE,
+    changes: [],
+    snapshot: day("10"),
+    userId: scope.userId,
+    deviceId: "device-1",
+    createdAt: "2024-03-01T08:00:00.000Z",
+  };
+}
+
+function entry(extra: Partial<OutboxEntry> = {}): OutboxEntry {
+  return {
+    dateKey: DATE,
+    revisions: [],
+    queuedAt: "2024-03-01T08:00:00.000Z",
+    attempts: 0,
+    nextAttemptAt: "2024-03-01T08:00:00.000Z",
+    ...extra,
+  };
+}
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  mockSaved.clear();
+  mockDeleted.clear();
+  jest.clearAllMocks();
+  insertRevisions.mockResolvedValue(true);
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("retryDelay", () => {
+  it("doubles from 30 seconds up to 30 minutes", () => {
+    expect([1, 2, 3, 4].map(retryDelay)).toEqual([
+      30_000, 60_000, 120_000, 240_000,
+    ]);
+    expect(retryDelay(7)).toBe(30 * 60 * 1000);
+    expect(retryDelay(20)).toBe(30 * 60 * 1000);
+  });
+});
+
+describe("daySyncStatus", () => {
+  it("tells queued, failed and conflicting days apart", () => {
+    const outbox: Outbox = {
+      "2024-03-01": entry(),
+      "2024-03-02": entry({ dateKey: "2024-03-02", attempts: 2 }),
+      "2024-03-03": entry({ dateKey: "2024-03-03", conflict: true }),
+    };
+
+    expect(
+      ["2024-03-01", "2024-03-02", "2024-03-03", "2024-03-04"].map((dateKey) =>
+        daySyncStatus(outbox, dateKey),
+      ),
+    ).toEqual(["pending", "failed", "conflict", "synced"]);
+  });
+});
+
+describe("nextAttemptAt", () => {
+  it("is the earliest attempt of days not in conflict", () => {
+    const outbox: Outbox = {
+      "2024-03-01": entry({ nextAttemptAt: "2024-03-01T09:00:00.000Z" }),
+      "2024-03-02": entry({
+        dateKey: "2024-03-02",
+        nextAttemptAt: "2024-03-01T10:00:00.000Z",
+      }),
+      "2024-03-03": entry({
+        dateKey: "2024-03-03",
+        nextAttemptAt: "2024-03-01T08:00:00.000Z",
+        conflict: true,
+      }),
+    };
+
+    expect(nextAttemptAt(outbox)).toBe(Date.parse("2024-03-01T09:00:00.000Z"));
+    expect(nextAttemptAt({ "2024-03-03": outbox["2024-03-03"] })).toBeNull();
+  });
+});
+
+describe("enqueueDaySync", () => {
+  it("collects the day's history and starts over after a conflict", async () => {
+    await enqueueDaySync(scope, DATE, revision("r1"));
+    await markOutboxConflicts(scope.plantId, [DATE]);
+    const outbox = await enqueueDaySync(scope, DATE, revision("r2"));
+
+    expect(outbox[DATE]).toMatchObject({ attempts: 0 });
+    expect(outbox[DATE].conflict).toBeUndefined();
+    expect(outbox[DATE].revisions.map((r) => r.id)).toEqual(["r1", "r2"]);
+  });
+});
+
+describe("markOutboxConflicts", () => {
+  it("keeps the history of queued days and skips days not queued", async () => {
+    await enqueueDaySync(scope, DATE, revision("r1"));
+
+    const outbox = await markOutboxConflicts(scope.plantId, [
+      DATE,
+      "2024-03-02",
+    ]);
+
+    expect(Object.keys(outbox)).toEqual([DATE]);
+    expect(outbox[DATE]).toMatchObject({ conflict: true });
+    expect(outbox[DATE].revisions.map((r) => r.id)).toEqual(["r1"]);
+  });
+});
+
+describe("flushOutbox", () => {
+  beforeEach(async () => {
+    mockSaved.set(DATE, day("10", { remoteRevision: 3 }));
+    await enqueueDaySync(scope, DATE, revision("r1"));
+  });
+
+  it("pushes a queued day and records the revision it reached", async () => {
+    syncDays.mockResolvedValue([{ status: "synced", revision: 4 }]);
+
+    const outbox = await flushOutbox(scope);
+
+    expect(outbox).toEqual({});
+    expect(mockSaved.get(DATE)?.remoteRevision).toBe(4);
+    expect(insertRevisions).toHaveBeenCalledWith(scope, [revision("r1")]);
+  });
+
+  it("backs off after a failed push and only retries when due", async () => {
+    syncDays.mockResolvedValue([{ status: "failed" }]);
+    const before = Date.now();
+
+    const outbox = await flushOutbox(scope);
+
+    expect(outbox[DATE]).toMatchObject({ attempts: 1 });
+    expect(outbox[DATE].revisions.map((r) => r.id)).toEqual(["r1"]);
+    expect(Date.parse(outbox[DATE].nextAttemptAt)).toBeGreaterThanOrEqual(
+      before + retryDelay(1),
+    );
+
+    await flushOutbox(scope);
+    expect(syncDays).toHaveBeenCalledTimes(1);
+    await flushOutbox(scope, true);
+    expect(syncDays).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries a day whose history did not reach Supabase", async () => {
+    syncDays.mockResolvedValue([{ status: "synced", revision: 4 }]);
+    insertRevisions.mockResolvedValue(false);
+
+    const outbox = await flushOutbox(scope);
+
+    expect(outbox[DATE]).toMatchObject({ attempts: 1 });
+    expect(outbox[DATE].revisions.map((r) => r.id)).toEqual(["r1"]);
+    expect(mockSaved.get(DATE)?.remoteRevision).toBe(4);
+  });
+
+  it("holds a day changed in Supabase for conflict review", async () => {
+    syncDays.mockResolvedValue([{ status: "conflict" }]);
+    fetchDay.mockResolvedValue(day("12", { remoteRevision: 5 }));
+
+    const outbox = await flushOutbox(scope);
+
+    expect(outbox[DATE]).toMatchObject({ conflict: true, attempts: 0 });
+    expect(outbox[DATE].revisions.map((r) => r.id)).toEqual(["r1"]);
+    expect(mockSaved.get(DATE)?.remoteRevision).toBe(3);
+
+    await flushOutbox(scope, true);
+    expect(syncDays).toHaveBeenCalledTimes(1);
+  });
+
+  it("takes a conflict with an identical day in Supabase as pushed", async () => {
+    syncDays.mockResolvedValue([{ status: "conflict" }]);
+    fetchDay.mockResolvedValue(day("10", { remoteRevision: 5 }));
+
+    const outbox = await flushOutbox(scope);
+
+    expect(outbox).toEqual({});
+    expect(mockSaved.get(DATE)?.remoteRevision).toBe(5);
+  });
+
+  it("keeps a day saved again while it was being pushed queued", async () => {
+    syncDays.mockImplementation(async () => {
+      // Saved a moment later, so it is queued at a different time.
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await enqueueDaySync(scope, DATE, revision("r2"));
+      return [{ status: "synced", revision: 4 }];
+    });
+
+    const outbox = await flushOutbox(scope);
+
+    expect(outbox[DATE].revisions.map((r) => r.id)).toEqual(["r2"]);
+  });
+
+  describe("of a deleted day", () => {
+    beforeEach(() => {
+      mockSaved.clear();
+      mockDeleted.set(
+        DATE,
+        day("10", { remoteRevision: 3, deletedAt: "2024-03-02T08:00:00Z" }),
+      );
+      syncDays.mockResolvedValue([{ status: "conflict" }]);
+    });
+
+    it("holds a deletion that meets a newer edit for conflict review", async () => {
+      fetchDay.mockResolvedValue(day("12", { remoteRevision: 4 }));
+
+      const outbox = await flushOutbox(scope);
+
+      expect(outbox[DATE]).toMatchObject({ conflict: true });
+      expect(mockDeleted.get(DATE)?.remoteRevision).toBe(3);
+    });
+
+    it("keeps the deletion when the day was deleted there too", async () => {
+      const remote = day("10", {
+        remoteRevision: 4,
+        deletedAt: "2024-03-02T09:00:00Z",
+      });
+      fetchDay.mockResolvedValue(remote);
+
+      const outbox = await flushOutbox(scope);
+
+      expect(outbox).toEqual({});
+      expect(mockDeleted.get(DATE)).toEqual(remote);
+    });
+  });
+});
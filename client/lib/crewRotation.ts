@@ -0,0 +1,182 @@
+import * as Crypto from "expo-crypto";
+import type { PlantConfig, ShiftDefinition } from "./plantConfig";
+
+// A one-off assignment that overrides the rotation for a single shift, e.g.
+// when two crews swap a day.
+export interface CrewException {
+  id: string;
+  dateKey: string;
+  shiftId: string;
+  crew: string;
+  note?: string;
+}
+
+// The pattern lists the crew for each consecutive shift starting with the
+// first shift of the anchor date, and repeats indefinitely in both
+// directions.
+export interface CrewRotation {
+  crews: string[];
+  pattern: string[];
+  anchorDate: string;
+  exceptions: CrewException[];
+}
+
+// Reproduces the original fixed B, D, A, C daily cycle.
+export const DEFAULT_CREW_ROTATION: CrewRotation = {
+  crews: ["A", "B", "C", "D"],
+  pattern: ["B", "D", "A", "C"],
+  anchorDate: "2026-01-18",
+  exceptions: [],
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function dayNumber(dateKey: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateKey);
+  if (!match) return null;
+  const utc = Date.UTC(
+    Number(match[1]),
+    Number(match[2]) - 1,
+    Number(match[3]),
+  );
+  return Math.floor(utc / MS_PER_DAY);
+}
+
+export function scheduledCrew(
+  rotation: CrewRotation,
+  shiftsPerDay: number,
+  dateKey: string,
+  shiftIndex: number,
+): string | null {
+  const day = dayNumber(dateKey);
+  const anchor = dayNumber(rotation.anchorDate);
+  if (day === null || anchor === null || rotation.pattern.length === 0) {
+    return null;
+  }
+  const slot = (day - anchor) * Math.max(1, shiftsPerDay) + shiftIndex;
+  const length = rotation.pattern.length;
+  return rotation.pattern[((slot % length) + length) % length];
+}
+
+export interface ShiftCrew {
+  shift: ShiftDefinition;
+  crew: string | null;
+  exception?: CrewException;
+}
+
+export function crewsForDay(config: PlantConfig, dateKey: string): ShiftCrew[] {
+  const shifts = [...config.shifts].sort((a, b) =>
+    a.start.localeCompare(b.start),
+  );
+  return shifts.map((shift, index) => {
+    const exception = config.rotation.exceptions.find(
+      (e) => e.dateKey === dateKey && e.shiftId === shift.id,
+    );
+    return {
+      shift,
+      crew:
+        exception?.crew ??
+        scheduledCrew(config.rotation, shifts.length, dateKey, index),
+      exception,
+    };
+  });
+}
+
+// Crews on duty during the day in shift order, e.g. "B" or "A/C".
+export function dayCrewLabel(config: PlantConfig, dateKey: string): string {
+  const crews: string[] = [];
+  for (const { crew } of crewsForDay(config, dateKey)) {
+    if (crew && !crews.includes(crew)) crews.push(crew);
+  }
+  return crews.length > 0 ? crews.join("/") : "—";
+}
+
+// The crew stored with a saved day, or the scheduled crew for days saved
+// before rotations were recorded.
+export function recordedCrew(
+  day: { dateKey: string; crew?: string },
+  config: PlantConfig,
+): string {
+  return day.crew || dayCrewLabel(config, day.dateKey);
+}
+
+// Splits a comma- or space-separated pattern; returns null if any entry is not
+// a known crew.
+export function parsePattern(text: string, crews: string[]): string[] | null {
+  const entries = text
+    .split(/[\s,]+/)
+    .map((e) => e.trim())
+    .filter(Boolean);
+  if (entries.length === 0) return null;
+  return entries.every((e) => crews.includes(e)) ? entries : null;
+}
+
+export function updateRotation(
+  config: PlantConfig,
+  changes: Partial<Omit<CrewRotation, "exceptions">>,
+): PlantConfig {
+  return { ...config, rotation: { ...config.rotation, ...changes } };
+}
+
+export function addCrew(config: PlantConfig, name: string): PlantConfig {
+  const trimmed = name.trim();
+  if (!trimmed || config.rotation.crews.includes(trimmed)) return config;
+  return updateRotation(config, {
+    crews: [...config.rotation.crews, trimmed],
+  });
+}
+
+// Removing a crew also drops it from the pattern and any exceptions.
+export function removeCrew(config: PlantConfig, name: string): PlantConfig {
+  const { rotation } = config;
+  return {
+    ...config,
+    rotation: {
+      ...rotation,
+      crews: rotation.crews.filter((c) => c !== name),
+      pattern: rotation.pattern.filter((c) => c !== name),
+      exceptions: rotation.exceptions.filter((e) => e.crew !== name),
+    },
+  };
+}
+
+export function setCrewException(
+  config: PlantConfig,
+  dateKey: string,
+  shiftId: string,
+  crew: string,
+  note?: string,
+): PlantConfig {
+  const others = config.rotation.exceptions.filter(
+    (e) => !(e.dateKey === dateKey && e.shiftId === shiftId),
+  );
+  const exception: CrewException = {
+    id: Crypto.randomUUID(),
+    dateKey,
+    shiftId,
+    crew,
+    note,
+  };
+  return {
+    ...config,
+    rotation: {
+      ...config.rotation,
+      exceptions: [...others, exception].sort((a, b) =>
+        a.dateKey.localeCompare(b.dateKey),
+      ),
+    },
+  };
+}
+
+export function removeCrewException(
+  config: PlantConfig,
+  id: string,
+): PlantConfig {
+  return {
+    ...config,
+    rotation: {
+      ...config.rotation,
+      exceptions: config.rotation.exceptions.filter((e) => e.id !== id),
+    },
+  };
+}
@@ -0,0 +1,63 @@
+import type { DayData } from "./storage";
+import type { RevisionAuthor } from "./dayHistory";
+import type { TranslationKey } from "./i18n";
+
+// A day starts as a draft, is submitted by the operator who entered it and
+// is approved by a supervisor. Approved days are read-only until unlocked.
+export type DayStatus = "draft" | "submitted" | "approved";
+
+export const STATUS_LABELS: Record<DayStatus, TranslationKey> = {
+  draft: "status_draft",
+  submitted: "status_submitted",
+  approved: "status_approved",
+};
+
+export function isDayStatus(value: unknown): value is DayStatus {
+  return typeof value === "string" && value in STATUS_LABELS;
+}
+
+export interface DayApproval {
+  userId: string | null;
+  name?: string;
+  at: string;
+}
+
+export class DayLockedError extends Error {
+  dateKey: string;
+
+  constructor(dateKey: string) {
+    super(`Day ${dateKey} is approved and cannot be changed`);
+    this.name = "DayLockedError";
+    this.dateKey = dateKey;
+  }
+}
+
+export function dayStatus(day: DayData): DayStatus {
+  return day.status ?? "draft";
+}
+
+export function isDayLocked(day: DayData): boolean {
+  return dayStatus(day) === "approved";
+}
+
+export function submitDay(day: DayData): DayData {
+  return { ...day, status: "submitted" };
+}
+
+export function approveDay(day: DayData, approver: RevisionAuthor): DayData {
+  return {
+    ...day,
+    status: "approved",
+    approval: {
+      userId: approver.userId,
+      name: approver.name,
+      at: new Date().toISOString(),
+    },
+  };
+}
+
+// Back to draft so the day can be edited again. The reason is recorded
+// with the revision that saves the unlocked day.
+export function unlockDay(day: DayData): DayData {
+  return { ...day, status: "draft", approval: undefined };
+}
@@ -0,0 +1,270 @@
+import {
+  DayData,
+  MeterReplacement,
+  closingReading,
+  feederExport,
+  getPreviousDateKey,
+  num,
+  turbineProductionMwh,
+} from "./storage";
+import {
+  MeterKind,
+  PlantConfig,
+  activeFeeders,
+  activeTurbines,
+} from "./plantConfig";
+import type { FieldChange } from "./dayHistory";
+import { withReadingFlag } from "./readingFlags";
+import { isDayLocked } from "./dayApproval";
+
+const CORRECTED = { quality: "corrected" } as const;
+
+// A day whose opening reading for a meter differs from the previous day's
+// closing reading, e.g. because yesterday's end was corrected after today
+// had already been saved.
+export interface ChainMismatch {
+  dateKey: string;
+  kind: MeterKind;
+  meterId: string;
+  // The previous day's closing reading and the stored opening reading.
+  expected: string;
+  actual: string;
+}
+
+// One day rewritten by a correction, with the day totals before and after.
+export interface ChainCorrection {
+  before: DayData;
+  after: DayData;
+  changes: FieldChange[];
+  productionBefore: number;
+  productionAfter: number;
+  exportBefore: number;
+  exportAfter: number;
+}
+
+interface MeterReadings {
+  first: string;
+  last: string;
+  replacement?: MeterReplacement;
+}
+
+// Field names of the opening and closing reading for each kind of meter.
+const FIELDS = {
+  feeder: { group: "feeders", first: "start", last: "end" },
+  turbine: { group: "turbines", first: "previous", last: "present" },
+} as const;
+
+function readingsOf(
+  day: DayData,
+  kind: MeterKind,
+  meterId: string,
+): MeterReadings | null {
+  if (kind === "feeder") {
+    const data = day.feeders[meterId];
+    return data
+      ? { first: data.start, last: data.end, replacement: data.replacement }
+      : null;
+  }
+  const data = day.turbines[meterId];
+  return data
+    ? {
+        first: data.previous,
+        last: data.present,
+        replacement: data.replacement,
+      }
+    : null;
+}
+
+// Rewritten readings are flagged as corrected.
+function withReadings(
+  day: DayData,
+  kind: MeterKind,
+  meterId: string,
+  first: string,
+  last: string,
+): DayData {
+  if (kind === "feeder") {
+    const data = day.feeders[meterId];
+    let flags = data.flags;
+    if (data.start !== first)
+      flags = withReadingFlag(flags, "start", CORRECTED);
+    if (data.end !== last) flags = withReadingFlag(flags, "end", CORRECTED);
+    return {
+      ...day,
+      feeders: {
+        ...day.feeders,
+        [meterId]: { ...data, start: first, end: last, flags },
+      },
+    };
+  }
+  const data = day.turbines[meterId];
+  let flags = data.flags;
+  if (data.previous !== first) {
+    flags = withReadingFlag(flags, "previous", CORRECTED);
+  }
+  if (data.present !== last) {
+    flags = withReadingFlag(flags, "present", CORRECTED);
+  }
+  return {
+    ...day,
+    turbines: {
+      ...day.turbines,
+      [meterId]: { ...data, previous: first, present: last, flags },
+    },
+  };
+}
+
+function metersOn(config: PlantConfig, dateKey: string) {
+  return [
+    ...activeFeeders(config, dateKey).map((m) => ({
+      kind: "feeder" as const,
+      meter: m,
+    })),
+    ...activeTurbines(config, dateKey).map((m) => ({
+      kind: "turbine" as const,
+      meter: m,
+    })),
+  ];
+}
+
+// Compares each saved day with the saved day before it. Days with a gap
+// before them and readings left blank are not reported.
+export function findChainMismatches(
+  days: DayData[],
+  config: PlantConfig,
+): ChainMismatch[] {
+  const sorted = [...days].sort((a, b) => a.dateKey.localeCompare(b.dateKey));
+  const mismatches: ChainMismatch[] = [];
+
+  for (let i = 1; i < sorted.length; i++) {
+    const prev = sorted[i - 1];
+    const day = sorted[i];
+    if (getPreviousDateKey(day.dateKey) !== prev.dateKey) continue;
+
+    for (const { kind, meter } of metersOn(config, day.dateKey)) {
+      const previous = readingsOf(prev, kind, meter.id);
+      const current = readingsOf(day, kind, meter.id);
+      const expected = closingReading(previous?.last, previous?.replacement);
+      const actual = current?.first ?? "";
+      if (expected && actual && num(expected) !== num(actual)) {
+        mismatches.push({
+          dateKey: day.dateKey,
+          kind,
+          meterId: meter.id,
+          expected,
+          actual,
+        });
+      }
+    }
+  }
+  return mismatches;
+}
+
+// Sets the day's opening reading to the previous day's closing reading. A
+// meter that did not move that day (closing equal to the old opening, no
+// replacement) carries the corrected reading through to its closing reading
+// and on into the following day, until a day where the meter moved.
+// Frozen days, approved ones by default, are never rewritten; the
+// correction stops before them.
+function propagate(
+  days: Map<string, DayData>,
+  mismatch: ChainMismatch,
+  isFrozen: (day: DayData) => boolean,
+): string[] {
+  const touched: string[] = [];
+  let dateKey = mismatch.dateKey;
+  const value = mismatch.expected;
+  let stale = mismatch.actual;
+
+  for (;;) {
+    const day = days.get(dateKey);
+    const readings = day && readingsOf(day, mismatch.kind, mismatch.meterId);
+    if (!day || isFrozen(day)) break;
+    if (!readings || num(readings.first) !== num(stale)) break;
+
+    const idle =
+      !readings.replacement &&
+      !!readings.last &&
+      num(readings.last) === num(readings.first);
+    days.set(
+      dateKey,
+      withReadings(
+        day,
+        mismatch.kind,
+        mismatch.meterId,
+        value,
+        idle ? value : readings.last,
+      ),
+    );
+    touched.push(dateKey);
+    if (!idle) break;
+
+    stale = readings.last;
+    const next = [...days.keys()].find(
+      (k) => getPreviousDateKey(k) === dateKey,
+    );
+    if (!next) break;
+    dateKey = next;
+  }
+  return touched;
+}
+
+function changedFields(before: DayData, after: DayData): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const kind of ["feeder", "turbine"] as const) {
+    const { group, first, last } = FIELDS[kind];
+    const ids = Object.keys(kind === "feeder" ? after.feeders : after.turbines);
+    for (const id of ids) {
+      const old = readingsOf(before, kind, id);
+      const next = readingsOf(after, kind, id);
+      if (!next) continue;
+      if (old?.first !== next.first) {
+        changes.push({
+          field: `${group}.${id}.${first}`,
+          oldValue: old?.first ?? "",
+          newValue: next.first,
+        });
+      }
+      if (old?.last !== next.last) {
+        changes.push({
+          field: `${group}.${id}.${last}`,
+          oldValue: old?.last ?? "",
+          newValue: next.last,
+        });
+      }
+    }
+  }
+  return changes;
+}
+
+// Works out every day the given mismatches would rewrite, without saving
+// anything, so the result can be previewed and then applied as is.
+export function planChainCorrections(
+  days: DayData[],
+  mismatches: ChainMismatch[],
+  config: PlantConfig,
+  isFrozen: (day: DayData) => boolean = isDayLocked,
+): ChainCorrection[] {
+  const original = new Map(days.map((d) => [d.dateKey, d]));
+  const working = new Map(original);
+  const touched = new Set<string>();
+
+  for (const mismatch of mismatches) {
+    for (const dateKey of propagate(working, mismatch, isFrozen))
+      touched.add(dateKey);
+  }
+
+  return [...touched].sort().map((dateKey) => {
+    const before = original.get(dateKey)!;
+    const after = working.get(dateKey)!;
+    return {
+      before,
+      after,
+      changes: changedFields(before, after),
+      productionBefore: turbineProductionMwh(before, config),
+      productionAfter: turbineProductionMwh(after, config),
+      exportBefore: feederExport(before, config),
+      exportAfter: feederExport(after, config),
+    };
+  });
+}
@@ -0,0 +1,125 @@
+import type { DayData, IntervalReading } from "./storage";
+import { diffDays } from "./dayHistory";
+
+export type ConflictChoice = "mine" | "theirs" | "merge";
+
+// A field that differs between this device's version of a day and the one in
+// Supabase, addressed as in the day's history, e.g. "feeders.F2.end".
+export interface FieldConflict {
+  field: string;
+  mine: string;
+  theirs: string;
+}
+
+// The merged value is only given for a field typed in by hand.
+export interface FieldResolution {
+  choice: ConflictChoice;
+  value?: string;
+}
+
+// Intra-day readings are merged by taking the readings of both versions;
+// readings and replacement values can be typed in. Day-level fields and
+// quality flags only take one side.
+export function mergeKind(field: string): "list" | "text" | null {
+  const [group, , ...rest] = field.split(".");
+  if (group !== "feeders" && group !== "turbines") return null;
+  if (rest[0] === "readings") return "list";
+  return rest[0] === "flags" ? null : "text";
+}
+
+export function findFieldConflicts(
+  mine: DayData,
+  theirs: DayData,
+): FieldConflict[] {
+  return diffDays(theirs, mine).map(({ field, oldValue, newValue }) => ({
+    field,
+    mine: newValue,
+    theirs: oldValue,
+  }));
+}
+
+// Both versions' readings, one per time; where both have a reading at the
+// same time this device's is kept.
+export function mergeReadings(
+  mine: IntervalReading[] = [],
+  theirs: IntervalReading[] = [],
+): IntervalReading[] {
+  const byTime = new Map(theirs.map((reading) => [reading.time, reading]));
+  for (const reading of mine) byTime.set(reading.time, reading);
+  return [...byTime.values()].sort((a, b) => a.time.localeCompare(b.time));
+}
+
+function valueAt(day: DayData, path: string[]): unknown {
+  let value: unknown = day;
+  for (const key of path) {
+    if (!value || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+// Sets a nested value, or removes it along with any object left empty.
+function setAt(day: DayData, path: string[], value: unknown) {
+  const parents: Record<string, unknown>[] = [];
+  let node = day as unknown as Record<string, unknown>;
+  for (const key of path.slice(0, -1)) {
+    if (!node[key] || typeof node[key] !== "object") {
+      if (value === undefined) return;
+      node[key] = {};
+    }
+    parents.push(node);
+    node = node[key] as Record<string, unknown>;
+  }
+
+  const last = path[path.length - 1];
+  if (value !== undefined) {
+    node[last] = value;
+    return;
+  }
+  delete node[last];
+  for (let i = parents.length - 1; i >= 0; i--) {
+    if (Object.keys(node).length > 0) break;
+    const parent = parents[i];
+    delete parent[path[i]];
+    node = parent;
+  }
+}
+
+function structuredValue(value: unknown): unknown {
+  return value && typeof value === "object"
+    ? JSON.parse(JSON.stringify(value))
+    : value;
+}
+
+// This device's version with each conflicting field resolved, based on the
+// revision in Supabase so that it can be pushed over it. Fields without a
+// resolution keep this device's value.
+export function resolveDay(
+  mine: DayData,
+  theirs: DayData,
+  conflicts: FieldConflict[],
+  resolutions: Record<string, FieldResolution>,
+): DayData {
+  const resolved: DayData = JSON.parse(JSON.stringify(mine));
+  for (const { field } of conflicts) {
+    const resolution = resolutions[field];
+    if (!resolution || resolution.choice === "mine") continue;
+    const path = field.split(".");
+    if (resolution.choice === "theirs") {
+      const value = valueAt(theirs, path);
+      setAt(resolved, path, structuredValue(value));
+    } else if (mergeKind(field) === "list") {
+      setAt(
+        resolved,
+        path,
+        mergeReadings(
+          valueAt(mine, path) as IntervalReading[] | undefined,
+          valueAt(theirs, path) as IntervalReading[] | undefined,
+        ),
+      );
+    } else {
+      setAt(resolved, path, resolution.value ?? "");
+    }
+  }
+  return { ...resolved, remoteRevision: theirs.remoteRevision };
+}
@@ -0,0 +1,134 @@
+import {
+  DayData,
+  feederExport,
+  gasForTurbine,
+  turbineProductionMwh,
+  turbineRowComputed,
+} from "./storage";
+import {
+  METER_DIRECTION,
+  MeterConfig,
+  MeterKind,
+  PlantConfig,
+  activeTurbines,
+  meterScaleToMwh,
+} from "./plantConfig";
+import {
+  DEFAULT_GAS_CURVE,
+  GasCurveShape,
+  curveForTurbine,
+  sortedPoints,
+} from "./gasCurves";
+
+// A day's figures in MWh and m³ of gas. Export is negative on a day the
+// plant drew more from the grid than it sent.
+export interface DayFigures {
+  productionMwh: number;
+  exportMwh: number;
+  consumptionMwh: number;
+  gasM3: number;
+}
+
+// A month's figures, with export and withdrawal summed over the days of
+// each, as on the monthly sheet.
+export interface MonthFigures {
+  monthKey: string;
+  days: number;
+  estimatedDays: number;
+  productionMwh: number;
+  exportMwh: number;
+  withdrawalMwh: number;
+  consumptionMwh: number;
+  gasM3: number;
+}
+
+export function dayGasM3(day: DayData, config: PlantConfig): number {
+  return activeTurbines(config, day.dateKey).reduce((acc, turbine) => {
+    const row = turbineRowComputed(day, turbine);
+    return (
+      acc +
+      gasForTurbine(
+        row.diff,
+        row.mwPerHr,
+        curveForTurbine(config, turbine.id, day.dateKey),
+      )
+    );
+  }, 0);
+}
+
+export function dayFigures(day: DayData, config: PlantConfig): DayFigures {
+  const productionMwh = turbineProductionMwh(day, config);
+  const exportMwh = feederExport(day, config);
+  return {
+    productionMwh,
+    exportMwh,
+    consumptionMwh: productionMwh - exportMwh,
+    gasM3: dayGasM3(day, config),
+  };
+}
+
+interface MeterDefinition {
+  kind: MeterKind;
+  id: string;
+  direction: 1 | -1;
+  scale_to_mwh: number;
+  register_digits: number | null;
+  commissioned_on: string | null;
+  retired_on: string | null;
+}
+
+interface GasCurveDefinition {
+  kind: GasCurveShape["kind"];
+  points: { mw_per_hr: number; m3_per_mwh: number }[];
+}
+
+// The plant configuration as the day_figures and month_figures functions in
+// Supabase take it, so that they compute what dayFigures does on the device.
+// Curve points are sorted by MW/hr.
+export interface CalculationDefinition {
+  meters: MeterDefinition[];
+  gas_curves: (GasCurveDefinition & {
+    turbine_id: string;
+    effective_from: string;
+  })[];
+  default_gas_curve: GasCurveDefinition;
+}
+
+function meterDefinition(kind: MeterKind, meter: MeterConfig): MeterDefinition {
+  return {
+    kind,
+    id: meter.id,
+    direction: METER_DIRECTION[kind],
+    scale_to_mwh: meterScaleToMwh(meter),
+    register_digits: meter.registerDigits ?? null,
+    commissioned_on: meter.commissionedOn || null,
+    retired_on: meter.retiredOn || null,
+  };
+}
+
+function gasCurveDefinition(curve: GasCurveShape): GasCurveDefinition {
+  return {
+    kind: curve.kind,
+    points: sortedPoints(curve).map((point) => ({
+      mw_per_hr: point.mwPerHr,
+      m3_per_mwh: point.m3PerMwh,
+    })),
+  };
+}
+
+export function calculationDefinition(
+  config: PlantConfig,
+): CalculationDefinition {
+  return {
+    meters: [
+      ...config.feeders.map((meter) => meterDefinition("feeder", meter)),
+      ...config.turbines.map((meter) => meterDefinition("turbine", meter)),
+    ],
+    gas_curves: config.gasCurves.map((curve) => ({
+      turbine_id: curve.turbineId,
+      effective_from: curve.effectiveFrom,
+      ...gasCurveDefinition(curve),
+    })),
+    default_gas_curve: gasCurveDefinition(DEFAULT_GAS_CURVE),
+  };
+}
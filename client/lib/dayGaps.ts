@@ -0,0 +1,158 @@
+import {
+  DayData,
+  closingReading,
+  defaultDay,
+  getDayIndex,
+  getSavedDayData,
+  num,
+  registerDelta,
+} from "./storage";
+import {
+  MeterConfig,
+  PlantConfig,
+  activeFeeders,
+  activeTurbines,
+} from "./plantConfig";
+import { flagReadings } from "./readingFlags";
+
+// A run of consecutive dates with no saved day.
+export interface DayGap {
+  from: string;
+  to: string;
+  dateKeys: string[];
+}
+
+// The saved days either side of a missing date, used for interpolation.
+export interface GapNeighbours {
+  before: DayData | null;
+  after: DayData | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toUtc(dateKey: string): number {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  return Date.UTC(y, m - 1, d);
+}
+
+function fromUtc(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+export function addDays(dateKey: string, days: number): string {
+  return fromUtc(toUtc(dateKey) + days * DAY_MS);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((toUtc(to) - toUtc(from)) / DAY_MS);
+}
+
+export function findGaps(
+  savedDateKeys: string[],
+  from: string,
+  to: string,
+): DayGap[] {
+  const saved = new Set(savedDateKeys);
+  const gaps: DayGap[] = [];
+  let current: string[] = [];
+
+  const close = () => {
+    if (current.length === 0) return;
+    gaps.push({
+      from: current[0],
+      to: current[current.length - 1],
+      dateKeys: current,
+    });
+    current = [];
+  };
+
+  for (let d = from; d <= to; d = addDays(d, 1)) {
+    if (saved.has(d)) close();
+    else current.push(d);
+  }
+  close();
+  return gaps;
+}
+
+export async function detectGaps(from: string, to: string): Promise<DayGap[]> {
+  return findGaps(await getDayIndex(), from, to);
+}
+
+// The closest saved days before and after dateKey, however far away.
+export async function loadGapNeighbours(
+  dateKey: string,
+  config: PlantConfig,
+): Promise<GapNeighbours> {
+  const index = (await getDayIndex()).sort();
+  const before = [...index].reverse().find((d) => d < dateKey);
+  const after = index.find((d) => d > dateKey);
+  return {
+    before: before ? await getSavedDayData(before, config) : null,
+    after: after ? await getSavedDayData(after, config) : null,
+  };
+}
+
+function roundReading(value: number): string {
+  return String(Number(value.toFixed(3)));
+}
+
+// Counter position a fraction of the way from one reading to another, going
+// round a register that wraps to zero the same way registerDelta does.
+function interpolateReading(
+  from: string,
+  to: string,
+  fraction: number,
+  meter: MeterConfig,
+): string {
+  const start = num(from);
+  const position =
+    start + registerDelta(start, num(to), meter.registerDigits) * fraction;
+  if (!meter.registerDigits || meter.registerDigits <= 0) {
+    return roundReading(position);
+  }
+  const size = Math.pow(10, meter.registerDigits);
+  return roundReading(((position % size) + size) % size);
+}
+
+// Spreads each meter's advance between the neighbouring saved days evenly
+// over the days in between. Returns null when either neighbour is missing;
+// meters without a reading on both sides are left blank.
+export function interpolateDay(
+  dateKey: string,
+  { before, after }: GapNeighbours,
+  config: PlantConfig,
+): DayData | null {
+  if (!before || !after) return null;
+  // The day before ends at `before`'s closing reading and the day after
+  // starts at `after`'s opening one, so N missing days share N parts.
+  const span = daysBetween(before.dateKey, after.dateKey) - 1;
+  const offset = daysBetween(before.dateKey, dateKey);
+  const startFraction = (offset - 1) / span;
+  const endFraction = offset / span;
+
+  const day = defaultDay(dateKey, config);
+  for (const feeder of activeFeeders(config, dateKey)) {
+    const prev = before.feeders[feeder.id];
+    const from = closingReading(prev?.end, prev?.replacement);
+    const to = after.feeders[feeder.id]?.start;
+    if (!from || !to) continue;
+    day.feeders[feeder.id] = {
+      start: interpolateReading(from, to, startFraction, feeder),
+      end: interpolateReading(from, to, endFraction, feeder),
+      flags: flagReadings(["start", "end"], { quality: "estimated" }),
+    };
+  }
+  for (const turbine of activeTurbines(config, dateKey)) {
+    const prev = before.turbines[turbine.id];
+    const from = closingReading(prev?.present, prev?.replacement);
+    const to = after.turbines[turbine.id]?.previous;
+    if (!from || !to) continue;
+    day.turbines[turbine.id] = {
+      previous: interpolateReading(from, to, startFraction, turbine),
+      present: interpolateReading(from, to, endFraction, turbine),
+      hours: "24",
+      flags: flagReadings(["previous", "present"], { quality: "estimated" }),
+    };
+  }
+  return { ...day, estimated: true };
+}
@@ -0,0 +1,228 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Crypto from "expo-crypto";
+import { Platform } from "react-native";
+import { DayData, appendDayRevision, getDayRevisions } from "./storage";
+import { PlantConfig } from "./plantConfig";
+import type { TranslationKey } from "./i18n";
+import {
+  SyncScope,
+  fetchDayRevisionsFromSupabase,
+  insertDayRevisionsToSupabase,
+} from "./supabaseSync";
+
+// One field of a day, addressed by its path in DayData, e.g.
+// "feeders.F2.end" or "turbines.A.replacement.oldFinal".
+export interface FieldChange {
+  field: string;
+  oldValue: string;
+  newValue: string;
+}
+
+// An entry in a day's append-only history, written on every save. The
+// snapshot is the day exactly as saved so any version can be restored.
+export interface DayRevision {
+  id: string;
+  dateKey: string;
+  changes: FieldChange[];
+  snapshot: DayData;
+  userId: string | null;
+  authorName?: string;
+  deviceId: string;
+  // Set when the save restored an earlier revision.
+  revertOf?: string;
+  // Why the change was made, where one is required, e.g. unlocking an
+  // approved day.
+  note?: string;
+  createdAt: string;
+}
+
+export interface RevisionMeta {
+  revertOf?: string;
+  note?: string;
+}
+
+export interface RevisionAuthor {
+  userId: string | null;
+  name?: string;
+}
+
+const DEVICE_ID_KEY = "pp-app:v2:device-id";
+
+let deviceIdPromise: Promise<string> | null = null;
+
+// A random ID generated on first use, prefixed with the platform so the
+// history shows where an edit was made.
+export function getDeviceId(): Promise<string> {
+  if (!deviceIdPromise) {
+    deviceIdPromise = (async () => {
+      const stored = await AsyncStorage.getItem(DEVICE_ID_KEY);
+      if (stored) return stored;
+      const id = `${Platform.OS}-${Crypto.randomUUID().slice(0, 8)}`;
+      await AsyncStorage.setItem(DEVICE_ID_KEY, id);
+      return id;
+    })().catch((error) => {
+      deviceIdPromise = null;
+      throw error;
+    });
+  }
+  return deviceIdPromise;
+}
+
+// Arrays such as intra-day readings are compared as a whole.
+function flatten(
+  value: unknown,
+  prefix: string,
+  out: Record<string, string>,
+): Record<string, string> {
+  if (value === undefined || value === null) return out;
+  if (Array.isArray(value)) {
+    if (value.length > 0) out[prefix] = JSON.stringify(value);
+  } else if (typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child, prefix ? `${prefix}.${key}` : key, out);
+    }
+  } else {
+    out[prefix] = String(value);
+  }
+  return out;
+}
+
+export function diffDays(
+  before: DayData | null,
+  after: DayData,
+): FieldChange[] {
+  // The remote revision, save time and deletion time are sync bookkeeping
+  // rather than part of the day.
+  const oldValues = flatten(
+    {
+      ...before,
+      dateKey: undefined,
+      remoteRevision: undefined,
+      updatedAt: undefined,
+      deletedAt: undefined,
+    },
+    "",
+    {},
+  );
+  const newValues = flatten(
+    {
+      ...after,
+      dateKey: undefined,
+      remoteRevision: undefined,
+      updatedAt: undefined,
+      deletedAt: undefined,
+    },
+    "",
+    {},
+  );
+
+  const fields = new Set([
+    ...Object.keys(oldValues),
+    ...Object.keys(newValues),
+  ]);
+  const changes: FieldChange[] = [];
+  for (const field of [...fields].sort()) {
+    const oldValue = oldValues[field] ?? "";
+    const newValue = newValues[field] ?? "";
+    if (oldValue !== newValue) changes.push({ field, oldValue, newValue });
+  }
+  return changes;
+}
+
+// Appends a revision for a save and returns it, or null when nothing changed.
+// A revert or a save with a note is always recorded so the history shows it
+// happened.
+export async function recordDayRevision(
+  before: DayData | null,
+  after: DayData,
+  author: RevisionAuthor,
+  { revertOf, note }: RevisionMeta = {},
+): Promise<DayRevision | null> {
+  const changes = diffDays(before, after);
+  if (changes.length === 0 && !revertOf && !note) return null;
+
+  const revision: DayRevision = {
+    id: Crypto.randomUUID(),
+    dateKey: after.dateKey,
+    changes,
+    snapshot: after,
+    userId: author.userId,
+    authorName: author.name,
+    deviceId: await getDeviceId(),
+    revertOf,
+    note,
+    createdAt: new Date().toISOString(),
+  };
+  await appendDayRevision(revision);
+  return revision;
+}
+
+// Local revisions merged with those saved by other members of the plant or
+// from other devices, newest first. Revisions fetched from the cloud are
+// kept locally for offline viewing.
+export async function loadDayHistory(
+  plantId: string | null,
+  dateKey: string,
+): Promise<DayRevision[]> {
+  const local = await getDayRevisions(dateKey);
+  const byId = new Map(local.map((r) => [r.id, r]));
+
+  if (plantId) {
+    const remote = await fetchDayRevisionsFromSupabase(plantId, dateKey);
+    for (const revision of remote) {
+      if (byId.has(revision.id)) continue;
+      byId.set(revision.id, revision);
+      await appendDayRevision(revision);
+    }
+  }
+
+  return [...byId.values()].sort((a, b) =>
+    b.createdAt.localeCompare(a.createdAt),
+  );
+}
+
+export async function syncDayRevisions(
+  scope: SyncScope,
+  revisions: DayRevision[],
+): Promise<boolean> {
+  return insertDayRevisionsToSupabase(scope, revisions);
+}
+
+const FIELD_LABELS: Record<string, TranslationKey> = {
+  start: "start_of_day",
+  end: "end_of_day",
+  previous: "previous",
+  present: "present",
+  hours: "hours",
+  readings: "intraday_readings",
+  "replacement.oldFinal": "old_meter_final",
+  "replacement.newInitial": "new_meter_initial",
+  "replacement.time": "reading_time",
+};
+
+// "feeders.F2.end" → "F2 · End of Day", using the configured meter name.
+export function fieldLabel(
+  field: string,
+  config: PlantConfig,
+  t: (key: TranslationKey) => string,
+): string {
+  const [group, id, ...rest] = field.split(".");
+  if (group !== "feeders" && group !== "turbines") {
+    if (group === "crew") return t("crew");
+    if (group === "status") return t("day_status");
+    if (group === "approval") {
+      return t(id === "at" ? "approved_at" : "approved_by");
+    }
+    return group === "estimated" ? t("estimated") : field;
+  }
+  const meters = group === "feeders" ? config.feeders : config.turbines;
+  const name = meters.find((m) => m.id === id)?.name ?? id;
+  // "flags.end.reason" → "End of Day · Quality reason"
+  if (rest[0] === "flags" && FIELD_LABELS[rest[1]]) {
+    const part = rest[2] === "reason" ? "quality_reason" : "reading_quality";
+    return `${name} · ${t(FIELD_LABELS[rest[1]])} · ${t(part)}`;
+  }
+  const key = rest.join(".");
+  const label = FIELD_LABELS[key] ? t(FIELD_LABELS[key]) : key;
+  return `${name} · ${label}`;
+}
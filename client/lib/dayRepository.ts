@@ -0,0 +1,236 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { DayData } from "./storage";
+import type { DayRevision } from "./dayHistory";
+
+const STORAGE_PREFIX = "pp-app:v2";
+
+// Every day belongs to a plant and each plant's days are stored apart. Days
+// saved while signed out belong to the local plant, which keeps the keys
+// used before days belonged to plants.
+export const LOCAL_PLANT_ID = "local";
+
+export function plantStoragePrefix(plantId: string): string {
+  return plantId === LOCAL_PLANT_ID
+    ? STORAGE_PREFIX
+    : `${STORAGE_PREFIX}:plant:${plantId}`;
+}
+
+export function dayStorageKey(
+  dateKey: string,
+  plantId: string = LOCAL_PLANT_ID,
+): string {
+  return `${plantStoragePrefix(plantId)}:day:${dateKey}`;
+}
+
+export function dayIndexKey(plantId: string = LOCAL_PLANT_ID): string {
+  return `${plantStoragePrefix(plantId)}:days:index`;
+}
+
+export const DAY_INDEX_KEY = dayIndexKey();
+
+function historyKey(dateKey: string, plantId: string): string {
+  return `${plantStoragePrefix(plantId)}:history:${dateKey}`;
+}
+
+function recycleBinKey(plantId: string): string {
+  return `${plantStoragePrefix(plantId)}:deleted`;
+}
+
+export interface DayTotals {
+  productionMwh: number;
+  exportMwh: number;
+}
+
+export interface MonthTotals extends DayTotals {
+  monthKey: string;
+  days: number;
+  // Days filled in by interpolation rather than read from the meters.
+  estimatedDays: number;
+}
+
+// Narrows the days a query covers, e.g. to report on approved days only.
+export interface DayFilter {
+  approvedOnly?: boolean;
+}
+
+export function matchesFilter(data: unknown, filter: DayFilter): boolean {
+  if (!filter.approvedOnly) return true;
+  return (data as Partial<DayData> | null)?.status === "approved";
+}
+
+// Stored day records are returned as parsed JSON; storage.ts merges them with
+// the plant configuration to produce DayData.
+export interface StoredDay {
+  dateKey: string;
+  data: unknown;
+}
+
+export interface DayRepository {
+  dateKeys(): Promise<string[]>;
+  get(dateKey: string): Promise<unknown | null>;
+  // Inclusive range, oldest first.
+  range(from: string, to: string): Promise<StoredDay[]>;
+  // The most recently dated days, oldest first.
+  latest(limit: number, filter?: DayFilter): Promise<StoredDay[]>;
+  // Saving a day takes it out of the recycle bin.
+  save(day: DayData): Promise<void>;
+  remove(dateKey: string): Promise<void>;
+  // The recycle bin: deleted days (with deletedAt set), kept apart from the
+  // plant's days until purged. Listed most recently deleted first.
+  deleted(): Promise<StoredDay[]>;
+  getDeleted(dateKey: string): Promise<unknown | null>;
+  // Moves a day to the recycle bin, or replaces the copy already there.
+  saveDeleted(day: DayData): Promise<void>;
+  purge(dateKey: string): Promise<void>;
+  // A day's revisions, oldest first. History is append-only and is kept when
+  // the day itself is deleted; appending an already stored ID does nothing.
+  revisions(dateKey: string): Promise<DayRevision[]>;
+  appendRevision(revision: DayRevision): Promise<void>;
+  // Repositories that can aggregate natively implement these; otherwise
+  // storage.ts totals the days itself. Totals depend on the plant
+  // configuration, so they are cached per day and recomputed on demand.
+  monthlyTotals?(
+    computeTotals: (day: StoredDay) => DayTotals,
+    filter?: DayFilter,
+  ): Promise<MonthTotals[]>;
+  invalidateTotals?(): Promise<void>;
+}
+
+function parse(raw: string | null): unknown | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+// One key per day plus a sorted index of date keys, under the plant's
+// prefix. Used on web, where SQLite is not available.
+export function createAsyncStorageDayRepository(
+  plantId: string,
+): DayRepository {
+  const indexKey = dayIndexKey(plantId);
+
+  async function readIndex(): Promise<string[]> {
+    try {
+      const raw = await AsyncStorage.getItem(indexKey);
+      return raw ? JSON.parse(raw) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async function readDays(dateKeys: string[]): Promise<StoredDay[]> {
+    const entries = await AsyncStorage.multiGet(
+      dateKeys.map((d) => dayStorageKey(d, plantId)),
+    );
+    return entries
+      .map(([, raw], i) => ({ dateKey: dateKeys[i], data: parse(raw) }))
+      .filter((d) => d.data !== null);
+  }
+
+  async function readRecycleBin(): Promise<Record<string, DayData>> {
+    const stored = parse(await AsyncStorage.getItem(recycleBinKey(plantId)));
+    return stored && typeof stored === "object"
+      ? (stored as Record<string, DayData>)
+      : {};
+  }
+
+  async function writeRecycleBin(bin: Record<string, DayData>) {
+    await AsyncStorage.setItem(recycleBinKey(plantId), JSON.stringify(bin));
+  }
+
+  return {
+    dateKeys: readIndex,
+
+    async get(dateKey) {
+      return parse(await AsyncStorage.getItem(dayStorageKey(dateKey, plantId)));
+    },
+
+    async range(from, to) {
+      const index = await readIndex();
+      return readDays(index.filter((d) => d >= from && d <= to));
+    },
+
+    async latest(limit, filter = {}) {
+      const index = await readIndex();
+      if (!filter.approvedOnly) return readDays(index.slice(-limit));
+      const days = await readDays(index);
+      return days.filter((d) => matchesFilter(d.data, filter)).slice(-limit);
+    },
+
+    async save(day) {
+      await AsyncStorage.setItem(
+        dayStorageKey(day.dateKey, plantId),
+        JSON.stringify(day),
+      );
+      try {
+        const index = await readIndex();
+        if (!index.includes(day.dateKey)) {
+          index.push(day.dateKey);
+          index.sort();
+          await AsyncStorage.setItem(indexKey, JSON.stringify(index));
+        }
+      } catch (error) {
+        console.error("Error updating day index:", error);
+      }
+      const bin = await readRecycleBin();
+      if (bin[day.dateKey]) {
+        delete bin[day.dateKey];
+        await writeRecycleBin(bin);
+      }
+    },
+
+    async remove(dateKey) {
+      await AsyncStorage.removeItem(dayStorageKey(dateKey, plantId));
+      const index = await readIndex();
+      await AsyncStorage.setItem(
+        indexKey,
+        JSON.stringify(index.filter((d) => d !== dateKey)),
+      );
+    },
+
+    async deleted() {
+      return Object.values(await readRecycleBin())
+        .sort((a, b) => (b.deletedAt ?? "").localeCompare(a.deletedAt ?? ""))
+        .map((day) => ({ dateKey: day.dateKey, data: day }));
+    },
+
+    async getDeleted(dateKey) {
+      return (await readRecycleBin())[dateKey] ?? null;
+    },
+
+    async saveDeleted(day) {
+      const bin = await readRecycleBin();
+      await writeRecycleBin({ ...bin, [day.dateKey]: day });
+      await this.remove(day.dateKey);
+    },
+
+    async purge(dateKey) {
+      const bin = await readRecycleBin();
+      if (!bin[dateKey]) return;
+      delete bin[dateKey];
+      await writeRecycleBin(bin);
+    },
+
+    async revisions(dateKey) {
+      const stored = parse(
+        await AsyncStorage.getItem(historyKey(dateKey, plantId)),
+      );
+      return Array.isArray(stored) ? (stored as DayRevision[]) : [];
+    },
+
+    async appendRevision(revision) {
+      const existing = await this.revisions(revision.dateKey);
+      if (existing.some((r) => r.id === revision.id)) return;
+      const next = [...existing, revision].sort((a, b) =>
+        a.createdAt.localeCompare(b.createdAt),
+      );
+      await AsyncStorage.setItem(
+        historyKey(revision.dateKey, plantId),
+        JSON.stringify(next),
+      );
+    },
+  };
+}
@@ -4,31 +4,80 @@ import * as Sharing from "expo-sharing";
 import { Alert, Platform } from "react-native";
 import {
   DayData,
-  FEEDERS,
-  TURBINES,
-  num,
-  feederExport,
-  turbineProductionMwh,
+  ReadingFlag,
+  feederRowComputed,
   turbineRowComputed,
-  gasForTurbine,
   monthKey,
 } from "./storage";
+import { PlantConfig, activeFeeders, activeTurbines } from "./plantConfig";
+import { dayFigures } from "./dayFigures";
+import { crewsForDay, recordedCrew } from "./crewRotation";
+import { formatReadingFlag } from "./readingFlags";
+import { STATUS_LABELS, dayStatus } from "./dayApproval";
 
 type TranslateFunc = (key: string) => string;
 
-function computeDayStats(day: DayData) {
-  const production = turbineProductionMwh(day);
-  const exportVal = feederExport(day);
-  const consumption = production - exportVal;
-  const isExport = exportVal >= 0;
+// The plant a report covers, named in the report and in its file name.
+export interface ReportPlant {
+  id: string;
+  name: string;
+}
 
-  let totalGas = 0;
-  for (const t of TURBINES) {
-    const row = turbineRowComputed(day, t);
-    totalGas += gasForTurbine(row.diff, row.mwPerHr);
-  }
+function reportFileName(
+  dateKey: string,
+  plant: ReportPlant | undefined,
+  extension: string,
+): string {
+  const site = plant
+    ? `${plant.name.trim().replace(/[\\/:*?"<>|\s]+/g, "_")}_`
+    : "";
+  return `PowerPlant_Report_${site}${dateKey}.${extension}`;
+}
+
+// "End of Day: Estimated (meter fogged)" for each flagged reading, joined
+// into one cell or line. Empty when every reading was measured.
+function describeFlags(
+  flags: Partial<Record<string, ReadingFlag>> | undefined,
+  labels: Record<string, string>,
+  t: TranslateFunc,
+): string {
+  return Object.entries(flags ?? {})
+    .filter((entry): entry is [string, ReadingFlag] => !!entry[1])
+    .map(
+      ([field, flag]) =>
+        `${labels[field] ?? field}: ${formatReadingFlag(flag, t)}`,
+    )
+    .join("; ");
+}
+
+function flaggedReadingCount(day: DayData): number {
+  const meters = [
+    ...Object.values(day.feeders),
+    ...Object.values(day.turbines),
+  ];
+  return meters.reduce(
+    (n, m) => n + Object.values(m.flags ?? {}).filter(Boolean).length,
+    0,
+  );
+}
+
+function feederFlagLabels(t: TranslateFunc): Record<string, string> {
+  return { start: t("start_of_day"), end: t("end_of_day") };
+}
+
+function turbineFlagLabels(t: TranslateFunc): Record<string, string> {
+  return { previous: t("previous"), present: t("present") };
+}
 
-  return { production, consumption, exportVal, isExport, gasConsumed: totalGas };
+function computeDayStats(day: DayData, config: PlantConfig) {
+  const figures = dayFigures(day, config);
+  return {
+    production: figures.productionMwh,
+    consumption: figures.consumptionMwh,
+    exportVal: figures.exportMwh,
+    isExport: figures.exportMwh >= 0,
+    gasConsumed: figures.gasM3,
+  };
 }
 
 function formatDate(dateKey: string, language: string): string {
@@ -42,7 +91,11 @@ function formatDate(dateKey: string, language: string): string {
     return `${year}/${month}/${day}`;
   }
 
-  const options: Intl.DateTimeFormatOptions = { year: "numeric", month: "short", day: "numeric" };
+  const options: Intl.DateTimeFormatOptions = {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  };
   return date.toLocaleDateString("en-US", options);
 }
 
@@ -51,11 +104,24 @@ function formatMonth(monthStr: string, language: string): string {
     return monthStr;
   }
   const [year, month] = monthStr.split("-");
-  const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+  const monthNames = [
+    "Jan",
+    "Feb",
+    "Mar",
+    "Apr",
+    "May",
+    "Jun",
+    "Jul",
+    "Aug",
+    "Sep",
+    "Oct",
+    "Nov",
+    "Dec",
+  ];
   return `${monthNames[parseInt(month, 10) - 1]} ${year}`;
 }
 
-interface MonthlyStats {
+export interface MonthlyStats {
   month: string;
   production: number;
   exportTotal: number;
@@ -65,11 +131,58 @@ interface MonthlyStats {
   consumption: number;
   gasConsumed: number;
   daysCount: number;
+  estimatedCount: number;
+}
+
+// Totals per month, oldest first, as listed in the monthly sheet. Month
+// closing snapshots the same figures so they can be checked against it.
+export function computeMonthlyStats(
+  days: DayData[],
+  config: PlantConfig,
+): MonthlyStats[] {
+  const monthlyMap = new Map<string, MonthlyStats>();
+  for (const day of days) {
+    const mk = monthKey(day.dateKey);
+    const stats = computeDayStats(day, config);
+
+    if (!monthlyMap.has(mk)) {
+      monthlyMap.set(mk, {
+        month: mk,
+        production: 0,
+        exportTotal: 0,
+        withdrawalTotal: 0,
+        hasExport: false,
+        hasWithdrawal: false,
+        consumption: 0,
+        gasConsumed: 0,
+        daysCount: 0,
+        estimatedCount: 0,
+      });
+    }
+
+    const m = monthlyMap.get(mk)!;
+    m.production += stats.production;
+    m.consumption += stats.consumption;
+    m.gasConsumed += stats.gasConsumed;
+    m.daysCount++;
+    if (day.estimated) m.estimatedCount++;
+
+    if (stats.isExport) {
+      m.exportTotal += stats.exportVal;
+      m.hasExport = true;
+    } else {
+      m.withdrawalTotal += Math.abs(stats.exportVal);
+      m.hasWithdrawal = true;
+    }
+  }
+  return Array.from(monthlyMap.values()).sort((a, b) =>
+    a.month.localeCompare(b.month),
+  );
 }
 
 export async function exportExcel(
   data: Record<string, unknown>[],
-  filename: string
+  filename: string,
 ): Promise<boolean> {
   try {
     const workbook = XLSX.utils.book_new();
@@ -81,7 +194,10 @@ export async function exportExcel(
     const cacheDir = FileSystem.cacheDirectory;
     if (!cacheDir) {
       console.error("Excel export failed: cacheDirectory is null");
-      Alert.alert("Export Failed", "Could not access app storage. Please try again.");
+      Alert.alert(
+        "Export Failed",
+        "Could not access app storage. Please try again.",
+      );
       return false;
     }
 
@@ -98,20 +214,24 @@ export async function exportExcel(
         "Sharing Not Available",
         Platform.OS === "web"
           ? "File sharing is not supported in web browsers. The file was saved but cannot be shared."
-          : "File sharing is not available on this device."
+          : "File sharing is not available on this device.",
       );
       return false;
     }
 
     await Sharing.shareAsync(filePath, {
-      mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      mimeType:
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
       dialogTitle: "Export Excel",
     });
 
     return true;
   } catch (error) {
     console.error("Excel export failed:", error);
-    Alert.alert("Export Failed", "Could not create the Excel file. Please try again.");
+    Alert.alert(
+      "Export Failed",
+      "Could not create the Excel file. Please try again.",
+    );
     return false;
   }
 }
@@ -119,37 +239,63 @@ export async function exportExcel(
 export async function generateExcelReport(
   currentDay: DayData,
   allDays: DayData[],
+  config: PlantConfig,
   t: TranslateFunc,
-  language: string
+  language: string,
+  plant?: ReportPlant,
 ): Promise<void> {
   try {
     const workbook = XLSX.utils.book_new();
 
     const feedersData: (string | number)[][] = [
-      [t("feeder_name"), t("end_of_day"), t("difference")]
+      [
+        t("feeder_name"),
+        t("end_of_day"),
+        t("difference"),
+        t("reading_quality"),
+      ],
     ];
-    for (const f of FEEDERS) {
-      const start = num(currentDay.feeders[f]?.start);
-      const end = num(currentDay.feeders[f]?.end);
-      const diff = end - start;
-      feedersData.push([f, end, diff]);
+    for (const feeder of activeFeeders(config, currentDay.dateKey)) {
+      const computed = feederRowComputed(currentDay, feeder);
+      const flags = describeFlags(
+        currentDay.feeders[feeder.id]?.flags,
+        feederFlagLabels(t),
+        t,
+      );
+      feedersData.push([feeder.name, computed.end, -computed.diff, flags]);
     }
     const feedersSheet = XLSX.utils.aoa_to_sheet(feedersData);
-    setColumnWidths(feedersSheet, [15, 15, 15]);
+    setColumnWidths(feedersSheet, [15, 15, 15, 40]);
     XLSX.utils.book_append_sheet(workbook, feedersSheet, t("feeders"));
 
     const turbinesData: (string | number)[][] = [
-      [t("turbine_name"), t("end_of_day"), t("difference")]
+      [
+        t("turbine_name"),
+        t("end_of_day"),
+        t("difference"),
+        t("reading_quality"),
+      ],
     ];
-    for (const tb of TURBINES) {
-      const computed = turbineRowComputed(currentDay, tb);
-      turbinesData.push([t("turbine") + " " + tb, computed.pres, computed.diff]);
+    for (const turbine of activeTurbines(config, currentDay.dateKey)) {
+      const { name } = turbine;
+      const computed = turbineRowComputed(currentDay, turbine);
+      const flags = describeFlags(
+        currentDay.turbines[turbine.id]?.flags,
+        turbineFlagLabels(t),
+        t,
+      );
+      turbinesData.push([
+        t("turbine") + " " + name,
+        computed.pres,
+        computed.diff,
+        flags,
+      ]);
     }
     const turbinesSheet = XLSX.utils.aoa_to_sheet(turbinesData);
-    setColumnWidths(turbinesSheet, [15, 15, 15]);
+    setColumnWidths(turbinesSheet, [15, 15, 15, 40]);
     XLSX.utils.book_append_sheet(workbook, turbinesSheet, t("turbines"));
 
-    const currentStats = computeDayStats(currentDay);
+    const currentStats = computeDayStats(currentDay, config);
     const flowLabel = currentStats.isExport ? t("export") : t("withdrawal");
     const summaryData: (string | number)[][] = [
       [t("metric"), t("value"), t("unit")],
@@ -157,7 +303,14 @@ export async function generateExcelReport(
       [flowLabel, round2(Math.abs(currentStats.exportVal)), t("mwh")],
       [t("consumption"), round2(currentStats.consumption), t("mwh")],
       [t("gas_consumed"), round2(currentStats.gasConsumed), "m³"],
+      [t("crew"), recordedCrew(currentDay, config), ""],
     ];
+    if (currentDay.estimated) {
+      summaryData.push([t("estimated"), t("estimated_banner"), ""]);
+    }
+    if (plant) {
+      summaryData.push([t("plant_name"), plant.name, plant.id]);
+    }
     const summarySheet = XLSX.utils.aoa_to_sheet(summaryData);
     setColumnWidths(summarySheet, [20, 15, 10]);
     XLSX.utils.book_append_sheet(workbook, summarySheet, t("summary"));
@@ -167,67 +320,62 @@ export async function generateExcelReport(
       .slice(-31);
 
     const dailyData: (string | number)[][] = [
-      [t("date"), t("production") + " (MWh)", t("export") + "/" + t("withdrawal") + " (MWh)", t("consumption") + " (MWh)", t("gas_consumed") + " (m³)"]
+      [
+        t("date"),
+        t("production") + " (MWh)",
+        t("export") + "/" + t("withdrawal") + " (MWh)",
+        t("consumption") + " (MWh)",
+        t("gas_consumed") + " (m³)",
+        t("crew"),
+        t("estimated"),
+        t("quality_flagged_readings"),
+        t("day_status"),
+      ],
     ];
     for (const day of sortedDays) {
-      const stats = computeDayStats(day);
-      const flowValue = stats.isExport ? stats.exportVal : -Math.abs(stats.exportVal);
+      const stats = computeDayStats(day, config);
+      const flowValue = stats.isExport
+        ? stats.exportVal
+        : -Math.abs(stats.exportVal);
       dailyData.push([
         formatDate(day.dateKey, language),
         round2(stats.production),
         round2(flowValue),
         round2(stats.consumption),
         round2(stats.gasConsumed),
+        recordedCrew(day, config),
+        day.estimated ? t("estimated") : "",
+        flaggedReadingCount(day),
+        t(STATUS_LABELS[dayStatus(day)]),
       ]);
     }
     const dailySheet = XLSX.utils.aoa_to_sheet(dailyData);
-    setColumnWidths(dailySheet, [18, 18, 25, 18, 20]);
-    XLSX.utils.book_append_sheet(workbook, dailySheet, t("daily_summary_sheet"));
-
-    const monthlyMap = new Map<string, MonthlyStats>();
-    for (const day of allDays) {
-      const mk = monthKey(day.dateKey);
-      const stats = computeDayStats(day);
-
-      if (!monthlyMap.has(mk)) {
-        monthlyMap.set(mk, {
-          month: mk,
-          production: 0,
-          exportTotal: 0,
-          withdrawalTotal: 0,
-          hasExport: false,
-          hasWithdrawal: false,
-          consumption: 0,
-          gasConsumed: 0,
-          daysCount: 0,
-        });
-      }
+    setColumnWidths(dailySheet, [18, 18, 25, 18, 20, 10, 10, 16, 12]);
+    XLSX.utils.book_append_sheet(
+      workbook,
+      dailySheet,
+      t("daily_summary_sheet"),
+    );
 
-      const m = monthlyMap.get(mk)!;
-      m.production += stats.production;
-      m.consumption += stats.consumption;
-      m.gasConsumed += stats.gasConsumed;
-      m.daysCount++;
-
-      if (stats.isExport) {
-        m.exportTotal += stats.exportVal;
-        m.hasExport = true;
-      } else {
-        m.withdrawalTotal += Math.abs(stats.exportVal);
-        m.hasWithdrawal = true;
-      }
-    }
-
-    const monthlyList = Array.from(monthlyMap.values())
-      .sort((a, b) => a.month.localeCompare(b.month))
-      .slice(-12);
+    const monthlyList = computeMonthlyStats(allDays, config).slice(-12);
 
-    const hasMixedModes = monthlyList.some(m => m.hasExport && m.hasWithdrawal);
+    const hasMixedModes = monthlyList.some(
+      (m) => m.hasExport && m.hasWithdrawal,
+    );
 
     let monthlyData: (string | number)[][];
     if (hasMixedModes) {
       monthlyData = [
-        [t("month"), t("production") + " (MWh)", t("export") + " (MWh)", t("withdrawal") + " (MWh)", t("consumption") + " (MWh)", t("gas_consumed") + " (m³)", t("days_count")]
+        [
+          t("month"),
+          t("production") + " (MWh)",
+          t("export") + " (MWh)",
+          t("withdrawal") + " (MWh)",
+          t("consumption") + " (MWh)",
+          t("gas_consumed") + " (m³)",
+          t("days_count"),
+          t("estimated_days"),
+        ],
       ];
       for (const m of monthlyList) {
         monthlyData.push([
@@ -238,13 +386,24 @@ export async function generateExcelReport(
           round2(m.consumption),
           round2(m.gasConsumed),
           m.daysCount,
+          m.estimatedCount,
         ]);
       }
     } else {
-      const allExport = monthlyList.every(m => m.hasExport && !m.hasWithdrawal);
+      const allExport = monthlyList.every(
+        (m) => m.hasExport && !m.hasWithdrawal,
+      );
       const flowHeader = allExport ? t("export") : t("withdrawal");
       monthlyData = [
-        [t("month"), t("production") + " (MWh)", flowHeader + " (MWh)", t("consumption") + " (MWh)", t("gas_consumed") + " (m³)", t("days_count")]
+        [
+          t("month"),
+          t("production") + " (MWh)",
+          flowHeader + " (MWh)",
+          t("consumption") + " (MWh)",
+          t("gas_consumed") + " (m³)",
+          t("days_count"),
+          t("estimated_days"),
+        ],
       ];
       for (const m of monthlyList) {
         const flowVal = allExport ? m.exportTotal : m.withdrawalTotal;
@@ -255,12 +414,22 @@ export async function generateExcelReport(
           round2(m.consumption),
           round2(m.gasConsumed),
           m.daysCount,
+          m.estimatedCount,
         ]);
       }
     }
     const monthlySheet = XLSX.utils.aoa_to_sheet(monthlyData);
-    setColumnWidths(monthlySheet, hasMixedModes ? [15, 18, 15, 18, 18, 20, 12] : [15, 18, 18, 18, 20, 12]);
-    XLSX.utils.book_append_sheet(workbook, monthlySheet, t("monthly_summary_sheet"));
+    setColumnWidths(
+      monthlySheet,
+      hasMixedModes
+        ? [15, 18, 15, 18, 18, 20, 12, 15]
+        : [15, 18, 18, 18, 20, 12, 15],
+    );
+    XLSX.utils.book_append_sheet(
+      workbook,
+      monthlySheet,
+      t("monthly_summary_sheet"),
+    );
 
     const wbout = XLSX.write(workbook, { type: "base64", bookType: "xlsx" });
 
@@ -271,7 +440,7 @@ export async function generateExcelReport(
       return;
     }
 
-    const fileName = `PowerPlant_Report_${currentDay.dateKey}.xlsx`;
+    const fileName = reportFileName(currentDay.dateKey, plant, "xlsx");
     const filePath = cacheDir + fileName;
 
     await FileSystem.writeAsStringAsync(filePath, wbout, {
@@ -285,13 +454,14 @@ export async function generateExcelReport(
         t("export_excel"),
         Platform.OS === "web"
           ? "File sharing is not supported in web browsers."
-          : "File sharing is not available on this device."
+          : "File sharing is not available on this device.",
       );
       return;
     }
 
     await Sharing.shareAsync(filePath, {
-      mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      mimeType:
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
       dialogTitle: t("export_excel"),
     });
   } catch (error) {
@@ -305,16 +475,18 @@ function round2(v: number): number {
 }
 
 function setColumnWidths(sheet: XLSX.WorkSheet, widths: number[]): void {
-  sheet["!cols"] = widths.map(w => ({ wch: w }));
+  sheet["!cols"] = widths.map((w) => ({ wch: w }));
 }
 
 export async function generateTextReport(
   currentDay: DayData,
+  config: PlantConfig,
   t: TranslateFunc,
-  language: string
+  language: string,
+  plant?: ReportPlant,
 ): Promise<void> {
   try {
-    const stats = computeDayStats(currentDay);
+    const stats = computeDayStats(currentDay, config);
     const flowLabel = stats.isExport ? t("export") : t("withdrawal");
     const separator = "═".repeat(40);
     const lines: string[] = [];
@@ -322,25 +494,70 @@ export async function generateTextReport(
     const dateStr = formatDateForText(currentDay.dateKey, language);
     lines.push(separator);
     lines.push(`  ${t("daily_report")} - ${dateStr}`);
+    if (plant) {
+      lines.push(`  ${t("plant_name")}: ${plant.name}`);
+    }
+    lines.push(`  ${t("crew")}: ${recordedCrew(currentDay, config)}`);
+    if (currentDay.estimated) {
+      lines.push(`  ⚠ ${t("estimated_banner")}`);
+    }
+    const shiftCrews = crewsForDay(config, currentDay.dateKey);
+    if (shiftCrews.length > 1) {
+      for (const { shift, crew } of shiftCrews) {
+        lines.push(`    ${shift.name} (${shift.start}): ${crew ?? "—"}`);
+      }
+    }
     lines.push(separator);
     lines.push("");
 
     lines.push(`▶ ${t("feeders")}`);
     lines.push("─".repeat(40));
-    for (const f of FEEDERS) {
-      const start = num(currentDay.feeders[f]?.start);
-      const end = num(currentDay.feeders[f]?.end);
-      const diff = end - start;
-      lines.push(`  ${f}: ${t("start")}: ${start} → ${t("end")}: ${end} (${t("difference")}: ${round2(diff)})`);
+    for (const feeder of activeFeeders(config, currentDay.dateKey)) {
+      const { start, end, diff } = feederRowComputed(currentDay, feeder);
+      lines.push(
+        `  ${feeder.name}: ${t("start")}: ${start} → ${t("end")}: ${end} (${t("difference")}: ${round2(-diff)})`,
+      );
+      const replacement = currentDay.feeders[feeder.id]?.replacement;
+      if (replacement) {
+        lines.push(
+          `       ${t("meter_replaced")}: ${t("old_meter_final")} ${replacement.oldFinal} → ${t("new_meter_initial")} ${replacement.newInitial}`,
+        );
+      }
+      const flags = describeFlags(
+        currentDay.feeders[feeder.id]?.flags,
+        feederFlagLabels(t),
+        t,
+      );
+      if (flags) {
+        lines.push(`       ${t("reading_quality")}: ${flags}`);
+      }
     }
     lines.push("");
 
     lines.push(`▶ ${t("turbines")}`);
     lines.push("─".repeat(40));
-    for (const tb of TURBINES) {
-      const computed = turbineRowComputed(currentDay, tb);
-      lines.push(`  ${t("turbine")} ${tb}: ${t("previous")}: ${computed.prev} → ${t("present")}: ${computed.pres}`);
-      lines.push(`       ${t("hours")}: ${computed.hours}h | ${t("difference")}: ${round2(computed.diff)} MWh | ${round2(computed.mwPerHr)} MW/h`);
+    for (const turbine of activeTurbines(config, currentDay.dateKey)) {
+      const computed = turbineRowComputed(currentDay, turbine);
+      lines.push(
+        `  ${t("turbine")} ${turbine.name}: ${t("previous")}: ${computed.prev} → ${t("present")}: ${computed.pres}`,
+      );
+      const replacement = currentDay.turbines[turbine.id]?.replacement;
+      if (replacement) {
+        lines.push(
+          `       ${t("meter_replaced")}: ${t("old_meter_final")} ${replacement.oldFinal} → ${t("new_meter_initial")} ${replacement.newInitial}`,
+        );
+      }
+      const flags = describeFlags(
+        currentDay.turbines[turbine.id]?.flags,
+        turbineFlagLabels(t),
+        t,
+      );
+      if (flags) {
+        lines.push(`       ${t("reading_quality")}: ${flags}`);
+      }
+      lines.push(
+        `       ${t("hours")}: ${computed.hours}h | ${t("difference")}: ${round2(computed.diff)} MWh | ${round2(computed.mwPerHr)} MW/h`,
+      );
     }
     lines.push("");
 
@@ -362,7 +579,7 @@ export async function generateTextReport(
       return;
     }
 
-    const fileName = `PowerPlant_Report_${currentDay.dateKey}.txt`;
+    const fileName = reportFileName(currentDay.dateKey, plant, "txt");
     const filePath = cacheDir + fileName;
 
     await FileSystem.writeAsStringAsync(filePath, textContent, {
@@ -376,7 +593,7 @@ export async function generateTextReport(
         t("export_data"),
         Platform.OS === "web"
           ? "File sharing is not supported in web browsers."
-          : "File sharing is not available on this device."
+          : "File sharing is not available on this device.",
       );
       return;
     }
@@ -402,11 +619,11 @@ function formatDateForText(dateKey: string, language: string): string {
     return `${year}/${month}/${day}`;
   }
 
-  const options: Intl.DateTimeFormatOptions = { 
-    weekday: "long", 
-    year: "numeric", 
-    month: "long", 
-    day: "numeric" 
+  const options: Intl.DateTimeFormatOptions = {
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
   };
   return date.toLocaleDateString("en-US", options);
 }
@@ -7,7 +7,7 @@ export interface FlowLabelStyle {
 export function getFlowLabelAndStyle(
   isExport: boolean,
   t: (key: string) => string,
-  theme: { success: string; error: string }
+  theme: { success: string; error: string },
 ): FlowLabelStyle {
   if (isExport) {
     return {
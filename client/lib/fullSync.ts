@@ -0,0 +1,130 @@
+import {
+  DayData,
+  getAllDaysData,
+  getDeletedDays,
+  saveDayData,
+  saveDeletedDayData,
+} from "./storage";
+import { getPlantConfig } from "./plantConfig";
+import { isExpired } from "./recycleBin";
+import {
+  SyncProgress,
+  enqueueDaySync,
+  getOutbox,
+  markOutboxConflicts,
+} from "./syncOutbox";
+import {
+  SYNC_BATCH_SIZE,
+  SyncScope,
+  fetchAllDaysFromSupabase,
+  fetchDaysFromSupabase,
+} from "./supabaseSync";
+
+export interface FullSyncResult {
+  // Days saved on this device from Supabase.
+  downloaded: number;
+  // Days queued to be pushed, because Supabase does not have them or they
+  // were saved here without ever being pushed.
+  uploaded: number;
+  // Queued days that changed in Supabase since the version they are based
+  // on, left for the user to resolve.
+  conflicts: number;
+  finishedAt: string;
+}
+
+function saveDay(day: DayData, plantId: string): Promise<void> {
+  return day.deletedAt
+    ? saveDeletedDayData(day, plantId)
+    : saveDayData(day, plantId);
+}
+
+// Brings this device and Supabase level for a plant. Which side has the
+// newer version of a day is told by revision, not by clock: days only in
+// Supabase, and days changed there since the revision this device last had,
+// are saved here unless they were changed here too. A day changed on both
+// sides (queued here and based on an older revision) is marked as a
+// conflict for the user to resolve; its queued history is kept. Days only
+// on this device, and days saved here that were never pushed, are queued
+// for the outbox to push, which reports a conflict if Supabase has a
+// different version. A day that was pushed before but is no longer in
+// Supabase is left as is. Deletions travel the same way: a day deleted on
+// one side goes to the recycle bin on the other, and days deleted elsewhere
+// that this device never had are listed in its recycle bin while they can
+// still be restored. Resolves with null when Supabase could not be read;
+// days downloaded by then are kept.
+export async function fullSync(
+  scope: SyncScope,
+  onProgress?: (progress: SyncProgress) => void,
+): Promise<FullSyncResult | null> {
+  const { plantId } = scope;
+  const stamps = await fetchAllDaysFromSupabase(plantId);
+  if (!stamps) return null;
+
+  const config = await getPlantConfig(plantId);
+  const local = new Map(
+    (await getAllDaysData(config, plantId)).map((day) => [day.dateKey, day]),
+  );
+  const deleted = new Map(
+    (await getDeletedDays(config, plantId)).map((day) => [day.dateKey, day]),
+  );
+  const outbox = await getOutbox(plantId);
+
+  const now = Date.now();
+  const toDownload: string[] = [];
+  const toUpload: string[] = [];
+  const conflicts: string[] = [];
+  for (const stamp of stamps) {
+    const day = local.get(stamp.dateKey) ?? deleted.get(stamp.dateKey);
+    const queued = outbox[stamp.dateKey];
+    if (!day) {
+      if (!stamp.deletedAt || !isExpired(stamp.deletedAt, now)) {
+        toDownload.push(stamp.dateKey);
+      }
+    } else if (queued?.conflict || day.remoteRevision === stamp.revision) {
+      continue;
+    } else if (queued) {
+      conflicts.push(stamp.dateKey);
+    } else if (day.remoteRevision === undefined) {
+      toUpload.push(stamp.dateKey);
+    } else {
+      toDownload.push(stamp.dateKey);
+    }
+  }
+
+  const remoteKeys = new Set(stamps.map((stamp) => stamp.dateKey));
+  for (const day of local.values()) {
+    if (
+      !remoteKeys.has(day.dateKey) &&
+      day.remoteRevision === undefined &&
+      !outbox[day.dateKey]
+    ) {
+      toUpload.push(day.dateKey);
+    }
+  }
+
+  let downloaded = 0;
+  onProgress?.({ done: 0, total: toDownload.length });
+  for (let i = 0; i < toDownload.length; i += SYNC_BATCH_SIZE) {
+    const batch = toDownload.slice(i, i + SYNC_BATCH_SIZE);
+    const days = await fetchDaysFromSupabase(plantId, batch, config);
+    if (!days) return null;
+
+    for (const day of days) {
+      await saveDay(day, plantId);
+      downloaded++;
+    }
+    onProgress?.({ done: i + batch.length, total: toDownload.length });
+  }
+
+  await markOutboxConflicts(plantId, conflicts);
+  for (const dateKey of toUpload) {
+    await enqueueDaySync(scope, dateKey, null);
+  }
+
+  return {
+    downloaded,
+    uploaded: toUpload.length,
+    conflicts: conflicts.length,
+    finishedAt: new Date().toISOString(),
+  };
+}
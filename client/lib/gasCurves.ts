@@ -0,0 +1,122 @@
+import * as Crypto from "expo-crypto";
+import type { PlantConfig } from "./plantConfig";
+
+export type GasCurveKind = "step" | "linear";
+
+export interface GasCurvePoint {
+  mwPerHr: number;
+  m3PerMwh: number;
+}
+
+export interface GasCurveShape {
+  kind: GasCurveKind;
+  points: GasCurvePoint[];
+}
+
+export interface GasCurve extends GasCurveShape {
+  id: string;
+  turbineId: string;
+  effectiveFrom: string;
+}
+
+// Step points are lower band limits: a rate applies above its MW/hr value and
+// the first rate also covers everything below. This reproduces the original
+// table of ≤3 → 1000, ≤5 → 700, ≤8 → 500 and >8 → 420 m³ per MWh.
+export const DEFAULT_GAS_CURVE: GasCurveShape = {
+  kind: "step",
+  points: [
+    { mwPerHr: 0, m3PerMwh: 1000 },
+    { mwPerHr: 3, m3PerMwh: 700 },
+    { mwPerHr: 5, m3PerMwh: 500 },
+    { mwPerHr: 8, m3PerMwh: 420 },
+  ],
+};
+
+export function sortedPoints(curve: GasCurveShape): GasCurvePoint[] {
+  return [...curve.points].sort((a, b) => a.mwPerHr - b.mwPerHr);
+}
+
+export function gasRate(curve: GasCurveShape, mwPerHr: number): number {
+  const points = sortedPoints(curve);
+  if (points.length === 0) return 0;
+
+  if (curve.kind === "step") {
+    let rate = points[0].m3PerMwh;
+    for (const p of points) {
+      if (mwPerHr > p.mwPerHr) rate = p.m3PerMwh;
+    }
+    return rate;
+  }
+
+  if (mwPerHr <= points[0].mwPerHr) return points[0].m3PerMwh;
+  const last = points[points.length - 1];
+  if (mwPerHr >= last.mwPerHr) return last.m3PerMwh;
+
+  for (let i = 1; i < points.length; i++) {
+    const lo = points[i - 1];
+    const hi = points[i];
+    if (mwPerHr <= hi.mwPerHr) {
+      const span = hi.mwPerHr - lo.mwPerHr;
+      if (span <= 0) return hi.m3PerMwh;
+      const ratio = (mwPerHr - lo.mwPerHr) / span;
+      return lo.m3PerMwh + ratio * (hi.m3PerMwh - lo.m3PerMwh);
+    }
+  }
+  return last.m3PerMwh;
+}
+
+export function curvesForTurbine(
+  config: PlantConfig,
+  turbineId: string,
+): GasCurve[] {
+  return config.gasCurves
+    .filter((c) => c.turbineId === turbineId)
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom));
+}
+
+export function curveForTurbine(
+  config: PlantConfig,
+  turbineId: string,
+  dateKey: string,
+): GasCurveShape {
+  const valid = curvesForTurbine(config, turbineId).find(
+    (c) => c.effectiveFrom <= dateKey,
+  );
+  return valid ?? DEFAULT_GAS_CURVE;
+}
+
+export function addGasCurve(
+  config: PlantConfig,
+  turbineId: string,
+  effectiveFrom: string,
+): PlantConfig {
+  const base = curveForTurbine(config, turbineId, effectiveFrom);
+  const curve: GasCurve = {
+    id: Crypto.randomUUID(),
+    turbineId,
+    effectiveFrom,
+    kind: base.kind,
+    points: sortedPoints(base),
+  };
+  return { ...config, gasCurves: [...config.gasCurves, curve] };
+}
+
+export function updateGasCurve(
+  config: PlantConfig,
+  id: string,
+  changes: Partial<Omit<GasCurve, "id" | "turbineId">>,
+): PlantConfig {
+  return {
+    ...config,
+    gasCurves: config.gasCurves.map((c) =>
+      c.id === id ? { ...c, ...changes } : c,
+    ),
+  };
+}
+
+export function removeGasCurve(config: PlantConfig, id: string): PlantConfig {
+  return {
+    ...config,
+    gasCurves: config.gasCurves.filter((c) => c.id !== id),
+  };
+}
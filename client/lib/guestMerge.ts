@@ -0,0 +1,169 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  DayData,
+  LOCAL_PLANT_ID,
+  getAllDaysData,
+  removePlantDays,
+} from "./storage";
+import { PlantConfig, getPlantConfig } from "./plantConfig";
+import { diffDays } from "./dayHistory";
+import { getCachedPlants } from "./plantWorkspace";
+import { fetchDaysFromSupabase } from "./supabaseSync";
+import { getOutbox } from "./syncOutbox";
+
+const PENDING_GUEST_MERGE_KEY = "pp-app:v2:pending-guest-merge";
+
+// A guest session left by signing into an existing account. Its days stay
+// on this device, in the guest's plants, until they are merged into the
+// account or discarded; either way they are then removed. Days saved while
+// signed out, including those saved before days belonged to plants, are
+// offered the same way, as a session of the local plant with no user.
+export interface GuestSession {
+  userId: string | null;
+  plantIds: string[];
+  signedOutAt: string;
+}
+
+// A guest day offered for the account, next to the account's own version
+// of the date when it has one.
+export interface MergeCandidate {
+  dateKey: string;
+  guest: DayData;
+  account: DayData | null;
+  // Fields that differ between the two versions of a collision.
+  differences: number;
+}
+
+async function guestDays(session: GuestSession): Promise<Map<string, DayData>> {
+  const days = new Map<string, DayData>();
+  for (const plantId of session.plantIds) {
+    const config = await getPlantConfig(plantId);
+    for (const day of await getAllDaysData(config, plantId)) {
+      // A date saved in more than one guest plant keeps the latest version.
+      const kept = days.get(day.dateKey);
+      if (!kept || (day.updatedAt ?? "") > (kept.updatedAt ?? "")) {
+        days.set(day.dateKey, day);
+      }
+    }
+  }
+  return days;
+}
+
+// Records the guest about to sign into an account, when it has days to
+// merge, and resolves with the record. Called before signing in, while the
+// guest's plants are still known.
+export async function rememberGuestSession(
+  userId: string,
+): Promise<GuestSession | null> {
+  const plants = (await getCachedPlants(userId)) ?? [];
+  const session: GuestSession = {
+    userId,
+    plantIds: plants.map((plant) => plant.id),
+    signedOutAt: new Date().toISOString(),
+  };
+  if ((await guestDays(session)).size === 0) return null;
+  await AsyncStorage.setItem(PENDING_GUEST_MERGE_KEY, JSON.stringify(session));
+  return session;
+}
+
+async function localDaysSession(): Promise<GuestSession | null> {
+  const session: GuestSession = {
+    userId: null,
+    plantIds: [LOCAL_PLANT_ID],
+    signedOutAt: new Date().toISOString(),
+  };
+  return (await guestDays(session)).size > 0 ? session : null;
+}
+
+// The guest session waiting to be merged, or else the days saved while
+// signed out, if any.
+export async function getPendingGuestSession(): Promise<GuestSession | null> {
+  try {
+    const raw = await AsyncStorage.getItem(PENDING_GUEST_MERGE_KEY);
+    if (raw) return JSON.parse(raw);
+    return await localDaysSession();
+  } catch {
+    return null;
+  }
+}
+
+// Whether two pending sessions offer the days of the same plants.
+export function isSameGuestSession(
+  a: GuestSession | null,
+  b: GuestSession | null,
+): boolean {
+  if (!a || !b) return a === b;
+  return a.userId === b.userId && a.plantIds.join(",") === b.plantIds.join(",");
+}
+
+// Called once the guest's days were merged or discarded, so that they are
+// neither offered again nor left behind in the guest's plants. A plant the
+// account is a member of too keeps its days, which are the account's as
+// well, and so does any day still waiting in a plant's outbox.
+export async function removeGuestDays(
+  session: GuestSession,
+  accountUserId: string | null,
+): Promise<void> {
+  const accountPlants = accountUserId
+    ? ((await getCachedPlants(accountUserId)) ?? [])
+    : [];
+  for (const plantId of session.plantIds) {
+    if (accountPlants.some((plant) => plant.id === plantId)) continue;
+    await removePlantDays(plantId, Object.keys(await getOutbox(plantId)));
+  }
+}
+
+export async function clearPendingGuestSession(): Promise<void> {
+  await AsyncStorage.removeItem(PENDING_GUEST_MERGE_KEY);
+}
+
+// Lists the guest's days against the account plant's, newest first. The
+// account's versions come from this device, or from Supabase for dates not
+// pulled yet when online. Dates the account already has unchanged are left
+// out, as are deleted days on either side.
+export async function loadMergeCandidates(
+  session: GuestSession,
+  accountPlantId: string,
+  config: PlantConfig,
+  online: boolean,
+): Promise<MergeCandidate[]> {
+  const guest = await guestDays(session);
+  const account = new Map<string, DayData>();
+  for (const day of await getAllDaysData(config, accountPlantId)) {
+    account.set(day.dateKey, day);
+  }
+  const missing = [...guest.keys()].filter((dateKey) => !account.has(dateKey));
+  if (online && missing.length > 0) {
+    const remote = await fetchDaysFromSupabase(accountPlantId, missing, config);
+    for (const day of remote ?? []) {
+      if (!day.deletedAt) account.set(day.dateKey, day);
+    }
+  }
+
+  const candidates: MergeCandidate[] = [];
+  for (const day of guest.values()) {
+    const existing = account.get(day.dateKey) ?? null;
+    const differences = existing ? diffDays(existing, day).length : 0;
+    if (existing && differences === 0) continue;
+    candidates.push({
+      dateKey: day.dateKey,
+      guest: day,
+      account: existing,
+      differences,
+    });
+  }
+  return candidates.sort((a, b) => b.dateKey.localeCompare(a.dateKey));
+}
+
+// The guest's version as a draft of the account's day. It is based on the
+// account's revision in Supabase, so pushing it replaces that version
+// rather than being reported as a conflict.
+export function mergedDay(candidate: MergeCandidate): DayData {
+  return {
+    ...candidate.guest,
+    status: undefined,
+    approval: undefined,
+    remoteRevision: candidate.account?.remoteRevision,
+    deletedAt: undefined,
+  };
+}
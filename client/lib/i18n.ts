@@ -9,14 +9,14 @@ export const translations = {
     done: "Done",
     clear: "Clear",
     today: "Today",
-    
+
     // Tabs
     tab_feeders: "Feeders",
     tab_turbines: "Turbines",
     tab_calculations: "Calculations",
     tab_reports: "Reports",
     tab_settings: "Settings",
-    
+
     // Feeders Screen
     feeders_title: "Feeders",
     feeder: "Feeder",
@@ -32,7 +32,7 @@ export const translations = {
     end: "End",
     diff: "Diff",
     mw_unit: "MW",
-    
+
     // Turbines Screen
     turbines_title: "Turbines",
     turbine: "Turbine",
@@ -42,11 +42,10 @@ export const translations = {
     pres_short: "Pres",
     hours: "Hours",
     mw_per_hr: "MW/Hr",
-    turbine_error: "Error: Present value is less than Previous",
     total_generation: "Total Generation",
     avg_mw_per_hr: "Average MW/Hr",
     turbines_summary: "Turbines Summary",
-    
+
     // Calculations Screen
     calculations_title: "Calculations",
     calculations_for: "Calculations for",
@@ -73,7 +72,7 @@ export const translations = {
     formula_turbine_feeder: "Turbine - Feeder",
     formula_station_service: "(Feeder × 1000) ÷ Turbine × 100",
     day_type: "Day Type",
-    
+
     // Reports Screen
     reports_title: "Reports",
     generate_report: "Generate Report",
@@ -115,16 +114,16 @@ export const translations = {
     failed_export: "Failed to export data",
     failed_copy: "Failed to copy data",
     version: "Power Plant Calculations v1.2.0",
-    
+
     // Feedback messages
     msg_saved_success: "Saved successfully",
     msg_reset_done: "Reset completed",
     msg_clear_all_done: "All data cleared",
     msg_error_generic: "An error occurred",
-    
+
     // Calendar
     select_date: "Select Date",
-    
+
     // Settings
     settings: "Settings",
     language: "Language",
@@ -145,13 +144,14 @@ export const translations = {
     developer_name: "Ali Marwad",
     copyright: "Copyright",
     copyright_text: "© 2026 All Rights Reserved",
-    
+
     // Account / Guest
     account: "Account",
     email: "Email",
     sign_out: "Sign Out",
     guest_mode: "Guest Mode",
-    guest_mode_desc: "Your data is stored locally. Create an account to sync across devices.",
+    guest_mode_desc:
+      "Your data is stored locally. Create an account to sync across devices.",
     create_account: "Create Account",
     sign_in: "Sign In",
     upgrade_account: "Upgrade Account",
@@ -169,17 +169,349 @@ export const translations = {
     reset_password: "Reset Password",
     reset_email_sent: "Password reset email sent",
     optional: "Optional",
-    
+
     // Month Days Modal
     month_days_title: "Days in",
     delete_day: "Delete Day",
-    delete_day_confirm: "Delete this day? This cannot be undone.",
-    day_deleted: "Day deleted successfully",
+    delete_day_confirm:
+      "Move this day to the recycle bin? It can be restored for 30 days.",
+    day_deleted: "Day moved to the recycle bin",
     delete_failed: "Failed to delete day",
     loading_days: "Loading days...",
     no_days_in_month: "No saved days in this month",
     tap_to_view: "Tap to view days",
     deleting: "Deleting...",
+
+    // Plant Configuration
+    plant_configuration: "Plant Configuration",
+    plant_configuration_desc: "Feeders, turbines and commissioning dates",
+    feeders_list: "Feeders",
+    turbines_list: "Turbines",
+    add_feeder: "Add Feeder",
+    add_turbine: "Add Turbine",
+    meter_name: "Name",
+    commissioned_on: "Commissioned",
+    retired_on: "Retired",
+    not_set: "Not set",
+    retire_meter: "Retire",
+    restore_meter: "Restore",
+    retire_meter_confirm:
+      "Retire this meter from today? Its past readings are kept.",
+    meter_name_required: "Please enter a name",
+    plant_config_hint:
+      "Meters only appear on dates between their commissioning and retirement dates.",
+
+    // Gas Curves
+    gas_curves: "Gas Curves",
+    gas_curves_desc: "Heat-rate curves per turbine with effective dates",
+    gas_curves_hint:
+      "Each day uses the latest curve whose effective date is on or before that day. Step tables apply a rate above each MW/h value; linear curves interpolate between points.",
+    gas_curve_step: "Step",
+    gas_curve_linear: "Linear",
+    effective_from: "Effective from",
+    add_gas_curve: "Add Curve",
+    add_point: "Add Point",
+    default_gas_curve: "Using the default curve",
+    gas_curve_rate: "m³/MWh",
+    delete_gas_curve: "Delete Curve",
+    delete_gas_curve_confirm:
+      "Delete this curve? Days from its effective date will fall back to the previous curve.",
+    gas_curve_invalid: "Each point needs a valid MW/h and rate",
+    gas_curve_saved: "Curve saved",
+
+    // Meter Rollover & Replacement
+    meter_replaced: "Meter replaced",
+    record_meter_replacement: "Record meter replacement",
+    remove_meter_replacement: "Remove replacement",
+    old_meter_final: "Old meter final",
+    new_meter_initial: "New meter initial",
+    register_digits: "Register digits",
+    register_digits_hint:
+      "Readings wrap to zero past this many digits. Leave empty to disable rollover correction.",
+
+    // Meter Scaling
+    ct_ratio: "CT ratio",
+    pt_ratio: "PT ratio",
+    register_constant: "Constant",
+    meter_unit: "Reading unit",
+    meter_scaling_hint:
+      "Energy is the reading difference × CT × PT × constant, converted from the reading unit to MWh.",
+
+    // Intra-day Readings & Shifts
+    intraday_readings: "Intra-day readings",
+    intraday_readings_hint:
+      "Readings taken during the day split the energy between the start and end readings. Daily totals are unchanged.",
+    add_reading: "Add reading",
+    reading_time: "Time",
+    reading_value: "Reading",
+    invalid_time: "Enter a time as HH:MM",
+    load_profile: "Load Profile",
+    load_profile_no_readings:
+      "No intra-day readings yet; energy is spread evenly across the day.",
+    peak_mw: "Peak MW",
+    shift: "Shift",
+    shifts: "Shifts",
+    shifts_hint:
+      "Each shift runs until the next one starts; the last shift continues past midnight.",
+    add_shift: "Add shift",
+    shift_name: "Shift name",
+    shift_start: "Starts at",
+
+    // Crew Rotation
+    crew: "Crew",
+    crew_on_duty: "Crew on duty",
+    crew_rotation: "Crew Rotation",
+    crew_rotation_desc: "Crews, rotation pattern and swaps",
+    crews: "Crews",
+    crew_name_required: "Enter a crew name",
+    add_crew: "Add crew",
+    rotation_pattern: "Rotation pattern",
+    rotation_pattern_hint:
+      "Crew for each consecutive shift, starting with the first shift of the anchor date, e.g. B, D, A, C.",
+    invalid_pattern: "The pattern may only contain the crews listed above",
+    anchor_date: "Anchor date",
+    crew_exceptions: "Exceptions",
+    crew_exceptions_hint:
+      "Overrides the rotation for a single shift, e.g. when two crews swap.",
+    exception_date: "Date",
+    add_exception: "Add exception",
+    no_exceptions: "No exceptions",
+    note: "Note",
+    upcoming_crews: "Next 7 days",
+    rotation_saved: "Rotation saved",
+
+    // Day History
+    day_history: "History",
+    no_history: "No saved versions of this day yet",
+    current_version: "Current",
+    restore_version: "Restore",
+    restore_version_confirm:
+      "Restore the day to this version? It is saved as a new draft version, so the change can be undone and an approved version needs approving again.",
+    version_restored: "Version restored",
+    restore_version_invalid:
+      "This version fails the validation rules and cannot be restored",
+    restored_from: "Restored version from",
+    history_unknown_user: "Unknown user",
+
+    // Validation
+    validation_rules: "Validation Rules",
+    validation_rules_desc: "Checks run on readings before saving",
+    validation_rules_hint:
+      "Warnings are shown next to the reading. Rules set to block saving must be fixed before the day can be saved.",
+    rule_negative_difference: "Negative difference",
+    rule_hours_range: "Hours outside 0–24",
+    rule_rating_exceeded: "MW/hr above turbine rating",
+    rule_deviation: "Deviation from rolling average",
+    rule_continuity: "Start differs from previous day's end",
+    severity_warning: "Warn",
+    severity_error: "Block saving",
+    deviation_percent: "Allowed deviation (%)",
+    rolling_days: "Average over (days)",
+    turbine_rating: "Rating (MW)",
+    validation_negative_difference:
+      "Present reading is below previous ({value} MWh)",
+    validation_hours_range: "Hours must be more than 0 and at most 24",
+    validation_rating_exceeded: "{value} MW/hr is above the {limit} MW rating",
+    validation_deviation:
+      "{value} MWh is {percent}% off the {days}-day average of {average} MWh",
+    validation_continuity:
+      "Does not match the previous day's closing reading ({value})",
+    validation_blocked: "Fix the highlighted readings before saving",
+    msg_saved_with_warnings: "Saved with warnings",
+
+    // Reading Chain
+    chain_review: "Reading Chain",
+    chain_review_desc: "Days that do not start where the previous day ended",
+    chain_consistent: "Every saved day starts where the previous day ended",
+    chain_stored_opening: "Stored opening",
+    chain_previous_closing: "Previous day's closing",
+    chain_preview_fix: "Preview fix",
+    chain_fix_all: "Fix all",
+    chain_preview: "Preview correction",
+    chain_preview_hint:
+      "The opening reading is set to the previous day's closing reading. Days on which the meter did not move carry the corrected reading forward.",
+    chain_apply: "Apply",
+    chain_applied: "Corrections saved",
+
+    // Backfill
+    backfill: "Missing Days",
+    backfill_desc: "Find gaps in the daily log and fill them in",
+    recycle_bin: "Recycle Bin",
+    recycle_bin_desc: "Restore deleted days or delete them for good",
+    recycle_bin_hint: "Deleted days are kept for 30 days",
+    recycle_bin_empty: "No deleted days",
+    recycle_deleted_on: "Deleted",
+    recycle_kept_for: "Kept for",
+    recycle_restore: "Restore",
+    recycle_restored: "Day restored",
+    recycle_purge: "Delete for Good",
+    recycle_purge_confirm: "Delete this day for good? This cannot be undone.",
+    recycle_purged: "Day deleted for good",
+    recycle_purge_pending:
+      "The deletion has not synced yet. Try again once it has.",
+    recycle_purge_offline:
+      "Connect to the internet to delete this day for good",
+    backfill_from: "From",
+    backfill_to: "To",
+    backfill_no_gaps: "No missing days in this range",
+    backfill_fill: "Fill",
+    backfill_fill_all: "Fill all",
+    backfill_interpolate: "Use interpolation",
+    backfill_interpolate_hint:
+      "Readings are spread evenly between the nearest saved days on either side, and the day is marked as estimated.",
+    backfill_no_neighbours:
+      "Interpolation needs a saved day on both sides of the gap",
+    backfill_skip: "Skip",
+    backfill_save_next: "Save & next",
+    backfill_done: "Every selected day has been handled",
+    estimated: "Estimated",
+    estimated_days: "Estimated days",
+    estimated_banner: "These readings were estimated by interpolation",
+    estimated_clear: "Mark as measured",
+    estimated_clear_confirm:
+      "Remove the estimated mark from this day? Only do this once the readings have been checked against the meters.",
+
+    // Reading Quality
+    reading_quality: "Reading quality",
+    quality_measured: "Measured",
+    quality_estimated: "Estimated",
+    quality_corrected: "Corrected",
+    quality_override: "Manual override",
+    quality_reason: "Reason (optional)",
+    quality_flagged_readings: "Flagged readings",
+
+    // Approval
+    day_status: "Status",
+    status_draft: "Draft",
+    status_submitted: "Submitted",
+    status_approved: "Approved",
+    submit_day: "Submit",
+    approve_day: "Approve",
+    unlock_day: "Unlock",
+    unlock_reason: "Reason for unlocking",
+    unlock_reason_required: "Enter a reason to unlock this day",
+    approved_by: "Approved by",
+    approved_at: "Approved at",
+    day_locked:
+      "This day is approved and read-only. Unlock it to make changes.",
+    msg_day_submitted: "Day submitted for approval",
+    msg_day_approved: "Day approved",
+    msg_day_unlocked: "Day unlocked",
+    approved_only: "Approved days only",
+
+    // Month Closing
+    close_month: "Close month",
+    reopen_month: "Reopen month",
+    close_month_confirm:
+      "Freeze every day of this month and record its totals as sent? Days cannot be changed until the month is reopened.",
+    reopen_month_confirm:
+      "Reopen this month? Its days can be changed again and the recorded totals are discarded.",
+    month_closed: "Closed",
+    month_closed_locked:
+      "This month is closed. Reopen it from Reports to make changes.",
+    closed_month_changed: "Changed since closing",
+    msg_month_closed: "Month closed",
+    msg_month_reopened: "Month reopened",
+    msg_month_closure_failed:
+      "Could not save the change to the server. Check your connection and try again",
+
+    // Plant Workspace
+    plant_workspace: "Plant Workspace",
+    plant_workspace_desc: "Share readings with your team",
+    default_plant_name: "My Plant",
+    select_plant: "Select Plant",
+    create_plant: "Create Plant",
+    plant_name: "Plant name",
+    join_plant: "Join Plant",
+    join_code: "Join code",
+    join_code_invalid: "No plant matches this join code",
+    team_members: "Team Members",
+    your_role: "Your role",
+    role_operator: "Operator",
+    role_supervisor: "Supervisor",
+    role_viewer: "Viewer",
+    read_only_role: "Your role can view readings but not change them",
+    msg_plant_created: "Plant created",
+    msg_plant_joined: "Joined plant",
+    msg_role_updated: "Role updated",
+
+    // Sites
+    switch_plant: "Switch Plant",
+    consolidated_report: "All Sites",
+    site: "Site",
+    all_sites: "Total",
+    no_sites_selected: "Select at least one site",
+
+    // Sync
+    sync_status_synced: "Synced",
+    sync_status_pending: "Waiting to sync",
+    sync_status_failed: "Sync failed, will retry",
+    sync_now: "Sync Now",
+    sync_offline:
+      "No connection. Saved days will sync when you are back online",
+    msg_sync_complete: "All days synced",
+    msg_sync_incomplete: "could not be synced and will be retried",
+    sync_status_conflict: "Changed elsewhere, needs review",
+    resolve_conflict: "Resolve Conflict",
+    conflict_desc:
+      "This day was changed on another device before your changes were synced. Choose which value to keep for each reading.",
+    conflict_mine: "This device",
+    conflict_theirs: "Server",
+    conflict_merge: "Merge",
+    conflict_keep_all_mine: "Keep all mine",
+    conflict_take_all_theirs: "Take all from server",
+    conflict_apply: "Save Resolved Day",
+    conflict_none: "Both versions now match",
+    conflict_load_failed:
+      "Could not load the server's version. Check your connection and try again.",
+    msg_conflict_resolved: "Conflict resolved",
+    conflict_deleted_desc:
+      "You deleted this day on this device, but it was changed on another device before the deletion was synced.",
+    conflict_keep_deleted: "Keep Deleted",
+    conflict_restore_theirs: "Restore Server Version",
+    full_sync: "Sync All Days",
+    full_sync_desc:
+      "Download every day from the cloud and upload days only on this device",
+    downloaded: "Downloaded",
+    uploaded: "Uploaded",
+    remote_changed: "updated this day",
+    remote_deleted: "deleted this day",
+    guest_merge: "Merge Guest Days",
+    guest_merge_desc:
+      "Days you saved as a guest on this device. Choose which to copy into your account; the rest are removed from this device.",
+    guest_merge_pending: "Guest days waiting to be merged",
+    guest_merge_new: "New",
+    guest_merge_collision: "Also in account",
+    guest_merge_account: "Account",
+    guest_merge_guest: "Guest",
+    guest_merge_fields_differ: "fields differ",
+    guest_merge_keep_account: "Keeping the account's version",
+    guest_merge_use_guest: "Using the guest version",
+    guest_merge_locked: "Approved or closed in the account",
+    guest_merge_selected: "selected",
+    guest_merge_button: "Merge Selected Days",
+    guest_merge_done: "Guest days merged into your account",
+    guest_merge_empty: "Your account already has all the guest days",
+    guest_merge_finish: "Done",
+    guest_merge_discard: "Discard Guest Days",
+    guest_merge_discard_confirm:
+      "Days not merged will be removed from this device. Continue?",
+    guest_merge_read_only:
+      "Your role in this plant cannot add days. Switch to a plant you can edit to merge.",
+    local_merge: "Merge Days Saved Signed Out",
+    local_merge_desc:
+      "Days saved on this device while signed out. Choose which to copy into this plant; the rest are removed from this device.",
+    local_merge_pending: "Days saved signed out waiting to be merged",
+    local_merge_device: "This device",
+    local_merge_use_device: "Using this device's version",
+    local_merge_done: "Days merged into the plant",
+    local_merge_empty: "The plant already has all these days",
+    local_merge_discard: "Discard These Days",
+    remote_someone: "Someone",
+    remote_overtaken:
+      "Your unsaved edits are kept; saving them will ask which version to keep.",
+    remote_load: "Load their version",
+    remote_dismiss: "Dismiss",
   },
   ar: {
     // Common
@@ -189,14 +521,14 @@ export const translations = {
     done: "تم",
     clear: "مسح",
     today: "اليوم",
-    
+
     // Tabs
     tab_feeders: "المغذيات",
     tab_turbines: "التوربينات",
     tab_calculations: "الحسابات",
     tab_reports: "التقارير",
     tab_settings: "الإعدادات",
-    
+
     // Feeders Screen
     feeders_title: "المغذيات",
     feeder: "مغذي",
@@ -212,7 +544,7 @@ export const translations = {
     end: "النهاية",
     diff: "الفرق",
     mw_unit: "م.و",
-    
+
     // Turbines Screen
     turbines_title: "التوربينات",
     turbine: "توربين",
@@ -222,11 +554,10 @@ export const translations = {
     pres_short: "الحالي",
     hours: "الساعات",
     mw_per_hr: "م.و/س",
-    turbine_error: "خطأ: القيمة الحالية أقل من السابقة",
     total_generation: "إجمالي التوليد",
     avg_mw_per_hr: "متوسط م.و/س",
     turbines_summary: "ملخص التوربينات",
-    
+
     // Calculations Screen
     calculations_title: "الحسابات",
     calculations_for: "الحسابات لـ",
@@ -253,7 +584,7 @@ export const translations = {
     formula_turbine_feeder: "التوربين - المغذي",
     formula_station_service: "(المغذي × 1000) ÷ التوربين × 100",
     day_type: "نوع اليوم",
-    
+
     // Reports Screen
     reports_title: "التقارير",
     generate_report: "إنشاء تقرير",
@@ -295,16 +626,16 @@ export const translations = {
     failed_export: "فشل تصدير البيانات",
     failed_copy: "فشل نسخ البيانات",
     version: "حسابات محطة الطاقة الإصدار 1.2.0",
-    
+
     // Feedback messages
     msg_saved_success: "تم الحفظ بنجاح",
     msg_reset_done: "تمت إعادة التعيين",
     msg_clear_all_done: "تم مسح جميع البيانات",
     msg_error_generic: "حدث خطأ",
-    
+
     // Calendar
     select_date: "اختر التاريخ",
-    
+
     // Settings
     settings: "الإعدادات",
     language: "اللغة",
@@ -325,7 +656,7 @@ export const translations = {
     developer_name: "علي مرود",
     copyright: "حقوق النشر",
     copyright_text: "© 2026 جميع الحقوق محفوظة",
-    
+
     // Account / Guest
     account: "الحساب",
     email: "البريد الإلكتروني",
@@ -349,17 +680,345 @@ export const translations = {
     reset_password: "إعادة تعيين كلمة المرور",
     reset_email_sent: "تم إرسال بريد إعادة تعيين كلمة المرور",
     optional: "اختياري",
-    
+
     // Month Days Modal
     month_days_title: "أيام شهر",
     delete_day: "حذف اليوم",
-    delete_day_confirm: "حذف هذا اليوم؟ لا يمكن التراجع عن هذا الإجراء.",
-    day_deleted: "تم حذف اليوم بنجاح",
+    delete_day_confirm:
+      "نقل هذا اليوم إلى سلة المحذوفات؟ يمكن استعادته خلال 30 يومًا.",
+    day_deleted: "تم نقل اليوم إلى سلة المحذوفات",
     delete_failed: "فشل حذف اليوم",
     loading_days: "جارٍ تحميل الأيام...",
     no_days_in_month: "لا توجد أيام محفوظة في هذا الشهر",
     tap_to_view: "انقر لعرض الأيام",
     deleting: "جارٍ الحذف...",
+
+    // Plant Configuration
+    plant_configuration: "إعدادات المحطة",
+    plant_configuration_desc: "المغذيات والتوربينات وتواريخ التشغيل",
+    feeders_list: "المغذيات",
+    turbines_list: "التوربينات",
+    add_feeder: "إضافة مغذي",
+    add_turbine: "إضافة توربين",
+    meter_name: "الاسم",
+    commissioned_on: "تاريخ التشغيل",
+    retired_on: "تاريخ الإيقاف",
+    not_set: "غير محدد",
+    retire_meter: "إيقاف",
+    restore_meter: "استعادة",
+    retire_meter_confirm:
+      "إيقاف هذا العداد اعتباراً من اليوم؟ سيتم الاحتفاظ بالقراءات السابقة.",
+    meter_name_required: "يرجى إدخال اسم",
+    plant_config_hint:
+      "تظهر العدادات فقط في التواريخ الواقعة بين تاريخ تشغيلها وتاريخ إيقافها.",
+
+    // Gas Curves
+    gas_curves: "منحنيات الغاز",
+    gas_curves_desc: "منحنيات معدل الحرارة لكل توربين مع تواريخ السريان",
+    gas_curves_hint:
+      "يستخدم كل يوم أحدث منحنى يكون تاريخ سريانه في ذلك اليوم أو قبله. الجداول المتدرجة تطبق المعدل فوق كل قيمة ميغاواط/ساعة، والمنحنيات الخطية تستكمل القيم بين النقاط.",
+    gas_curve_step: "متدرج",
+    gas_curve_linear: "خطي",
+    effective_from: "ساري من",
+    add_gas_curve: "إضافة منحنى",
+    add_point: "إضافة نقطة",
+    default_gas_curve: "يتم استخدام المنحنى الافتراضي",
+    gas_curve_rate: "م³/ميغاواط ساعة",
+    delete_gas_curve: "حذف المنحنى",
+    delete_gas_curve_confirm:
+      "حذف هذا المنحنى؟ ستعود الأيام من تاريخ سريانه إلى المنحنى السابق.",
+    gas_curve_invalid: "كل نقطة تحتاج إلى قيمة ميغاواط/ساعة ومعدل صالحين",
+    gas_curve_saved: "تم حفظ المنحنى",
+
+    // Meter Rollover & Replacement
+    meter_replaced: "تم استبدال العداد",
+    record_meter_replacement: "تسجيل استبدال العداد",
+    remove_meter_replacement: "إزالة الاستبدال",
+    old_meter_final: "القراءة الأخيرة للعداد القديم",
+    new_meter_initial: "القراءة الأولى للعداد الجديد",
+    register_digits: "عدد خانات العداد",
+    register_digits_hint:
+      "تعود القراءات إلى الصفر بعد هذا العدد من الخانات. اتركه فارغاً لتعطيل تصحيح الالتفاف.",
+
+    // Meter Scaling
+    ct_ratio: "نسبة محول التيار",
+    pt_ratio: "نسبة محول الجهد",
+    register_constant: "الثابت",
+    meter_unit: "وحدة القراءة",
+    meter_scaling_hint:
+      "الطاقة = فرق القراءة × نسبة محول التيار × نسبة محول الجهد × الثابت، محولة من وحدة القراءة إلى ميجاواط ساعة.",
+
+    // Intra-day Readings & Shifts
+    intraday_readings: "قراءات خلال اليوم",
+    intraday_readings_hint:
+      "القراءات المأخوذة خلال اليوم توزع الطاقة بين قراءتي البداية والنهاية. لا تتغير الإجماليات اليومية.",
+    add_reading: "إضافة قراءة",
+    reading_time: "الوقت",
+    reading_value: "القراءة",
+    invalid_time: "أدخل الوقت بصيغة HH:MM",
+    load_profile: "منحنى الحمل",
+    load_profile_no_readings:
+      "لا توجد قراءات خلال اليوم بعد؛ يتم توزيع الطاقة بالتساوي على اليوم.",
+    peak_mw: "ذروة الميجاواط",
+    shift: "الوردية",
+    shifts: "الورديات",
+    shifts_hint:
+      "تستمر كل وردية حتى بدء الوردية التالية؛ وتمتد الوردية الأخيرة بعد منتصف الليل.",
+    add_shift: "إضافة وردية",
+    shift_name: "اسم الوردية",
+    shift_start: "تبدأ في",
+
+    // Crew Rotation
+    crew: "الطاقم",
+    crew_on_duty: "الطاقم المناوب",
+    crew_rotation: "تناوب الطواقم",
+    crew_rotation_desc: "الطواقم ونمط التناوب والتبديلات",
+    crews: "الطواقم",
+    crew_name_required: "أدخل اسم الطاقم",
+    add_crew: "إضافة طاقم",
+    rotation_pattern: "نمط التناوب",
+    rotation_pattern_hint:
+      "الطاقم لكل وردية متتالية بدءاً من أول وردية في التاريخ المرجعي، مثل B, D, A, C.",
+    invalid_pattern: "يجب أن يحتوي النمط على الطواقم المذكورة أعلاه فقط",
+    anchor_date: "التاريخ المرجعي",
+    crew_exceptions: "الاستثناءات",
+    crew_exceptions_hint: "تجاوز التناوب لوردية واحدة، مثلاً عند تبديل طاقمين.",
+    exception_date: "التاريخ",
+    add_exception: "إضافة استثناء",
+    no_exceptions: "لا توجد استثناءات",
+    note: "ملاحظة",
+    upcoming_crews: "الأيام السبعة القادمة",
+    rotation_saved: "تم حفظ التناوب",
+
+    // Day History
+    day_history: "السجل",
+    no_history: "لا توجد نسخ محفوظة لهذا اليوم بعد",
+    current_version: "الحالية",
+    restore_version: "استعادة",
+    restore_version_confirm:
+      "استعادة اليوم إلى هذه النسخة؟ سيتم حفظها كمسودة جديدة، لذا يمكن التراجع عن التغيير، وتحتاج النسخة المعتمدة إلى اعتماد جديد.",
+    version_restored: "تمت استعادة النسخة",
+    restore_version_invalid:
+      "هذه النسخة لا تجتاز قواعد التحقق ولا يمكن استعادتها",
+    restored_from: "نسخة مستعادة من",
+    history_unknown_user: "مستخدم غير معروف",
+
+    // Validation
+    validation_rules: "قواعد التحقق",
+    validation_rules_desc: "فحوصات القراءات قبل الحفظ",
+    validation_rules_hint:
+      "تظهر التحذيرات بجانب القراءة. يجب تصحيح القواعد المضبوطة على منع الحفظ قبل حفظ اليوم.",
+    rule_negative_difference: "فرق سالب",
+    rule_hours_range: "ساعات خارج ٠–٢٤",
+    rule_rating_exceeded: "ميجاواط/ساعة أعلى من قدرة التوربين",
+    rule_deviation: "انحراف عن المتوسط المتحرك",
+    rule_continuity: "البداية تختلف عن نهاية اليوم السابق",
+    severity_warning: "تحذير",
+    severity_error: "منع الحفظ",
+    deviation_percent: "الانحراف المسموح (%)",
+    rolling_days: "المتوسط خلال (أيام)",
+    turbine_rating: "القدرة (ميجاواط)",
+    validation_negative_difference:
+      "القراءة الحالية أقل من السابقة ({value} ميجاواط ساعة)",
+    validation_hours_range: "يجب أن تكون الساعات أكثر من ٠ وبحد أقصى ٢٤",
+    validation_rating_exceeded:
+      "{value} ميجاواط/ساعة أعلى من القدرة المقننة {limit} ميجاواط",
+    validation_deviation:
+      "{value} ميجاواط ساعة تختلف بنسبة {percent}% عن متوسط {days} أيام البالغ {average} ميجاواط ساعة",
+    validation_continuity: "لا تطابق قراءة إغلاق اليوم السابق ({value})",
+    validation_blocked: "صحّح القراءات المحددة قبل الحفظ",
+    msg_saved_with_warnings: "تم الحفظ مع تحذيرات",
+
+    // Reading Chain
+    chain_review: "تسلسل القراءات",
+    chain_review_desc: "أيام لا تبدأ من حيث انتهى اليوم السابق",
+    chain_consistent: "كل يوم محفوظ يبدأ من حيث انتهى اليوم السابق",
+    chain_stored_opening: "قراءة البداية المحفوظة",
+    chain_previous_closing: "قراءة إغلاق اليوم السابق",
+    chain_preview_fix: "معاينة التصحيح",
+    chain_fix_all: "تصحيح الكل",
+    chain_preview: "معاينة التصحيح",
+    chain_preview_hint:
+      "تُضبط قراءة البداية على قراءة إغلاق اليوم السابق. الأيام التي لم يتحرك فيها العداد تنقل القراءة المصححة إلى الأيام التالية.",
+    chain_apply: "تطبيق",
+    chain_applied: "تم حفظ التصحيحات",
+
+    // Backfill
+    backfill: "الأيام الناقصة",
+    backfill_desc: "البحث عن الفجوات في السجل اليومي وتعبئتها",
+    recycle_bin: "سلة المحذوفات",
+    recycle_bin_desc: "استعادة الأيام المحذوفة أو حذفها نهائيًا",
+    recycle_bin_hint: "يُحتفظ بالأيام المحذوفة لمدة 30 يومًا",
+    recycle_bin_empty: "لا توجد أيام محذوفة",
+    recycle_deleted_on: "حُذف في",
+    recycle_kept_for: "يُحتفظ به لمدة",
+    recycle_restore: "استعادة",
+    recycle_restored: "تمت استعادة اليوم",
+    recycle_purge: "حذف نهائي",
+    recycle_purge_confirm:
+      "حذف هذا اليوم نهائيًا؟ لا يمكن التراجع عن هذا الإجراء.",
+    recycle_purged: "تم حذف اليوم نهائيًا",
+    recycle_purge_pending:
+      "لم تتم مزامنة الحذف بعد. حاول مرة أخرى بعد المزامنة.",
+    recycle_purge_offline: "اتصل بالإنترنت لحذف هذا اليوم نهائيًا",
+    backfill_from: "من",
+    backfill_to: "إلى",
+    backfill_no_gaps: "لا توجد أيام ناقصة في هذه الفترة",
+    backfill_fill: "تعبئة",
+    backfill_fill_all: "تعبئة الكل",
+    backfill_interpolate: "استخدام الاستيفاء",
+    backfill_interpolate_hint:
+      "توزع القراءات بالتساوي بين أقرب يومين محفوظين على جانبي الفجوة، ويعلَّم اليوم كتقديري.",
+    backfill_no_neighbours: "يتطلب الاستيفاء يوماً محفوظاً على جانبي الفجوة",
+    backfill_skip: "تخطي",
+    backfill_save_next: "حفظ والتالي",
+    backfill_done: "تمت معالجة جميع الأيام المحددة",
+    estimated: "تقديري",
+    estimated_days: "أيام تقديرية",
+    estimated_banner: "هذه القراءات مقدّرة بالاستيفاء",
+    estimated_clear: "تعليم كمقاسة",
+    estimated_clear_confirm:
+      "إزالة علامة التقدير عن هذا اليوم؟ افعل ذلك فقط بعد مطابقة القراءات مع العدادات.",
+
+    // Reading Quality
+    reading_quality: "جودة القراءة",
+    quality_measured: "مقاسة",
+    quality_estimated: "تقديرية",
+    quality_corrected: "مصححة",
+    quality_override: "إدخال يدوي",
+    quality_reason: "السبب (اختياري)",
+    quality_flagged_readings: "القراءات المعلَّمة",
+
+    // Approval
+    day_status: "الحالة",
+    status_draft: "مسودة",
+    status_submitted: "مُرسَل",
+    status_approved: "معتمد",
+    submit_day: "إرسال",
+    approve_day: "اعتماد",
+    unlock_day: "فتح القفل",
+    unlock_reason: "سبب فتح القفل",
+    unlock_reason_required: "أدخل سببًا لفتح قفل هذا اليوم",
+    approved_by: "اعتمده",
+    approved_at: "تاريخ الاعتماد",
+    day_locked: "هذا اليوم معتمد وللقراءة فقط. افتح القفل لإجراء تغييرات.",
+    msg_day_submitted: "تم إرسال اليوم للاعتماد",
+    msg_day_approved: "تم اعتماد اليوم",
+    msg_day_unlocked: "تم فتح قفل اليوم",
+    approved_only: "الأيام المعتمدة فقط",
+
+    // Month Closing
+    close_month: "إقفال الشهر",
+    reopen_month: "إعادة فتح الشهر",
+    close_month_confirm:
+      "تجميد جميع أيام هذا الشهر وتسجيل إجمالياته كما أُرسلت؟ لا يمكن تعديل الأيام حتى يُعاد فتح الشهر.",
+    reopen_month_confirm:
+      "إعادة فتح هذا الشهر؟ يمكن تعديل أيامه مجددًا وستُحذف الإجماليات المسجلة.",
+    month_closed: "مُقفل",
+    month_closed_locked:
+      "هذا الشهر مُقفل. أعد فتحه من التقارير لإجراء تغييرات.",
+    closed_month_changed: "تغيّر منذ الإقفال",
+    msg_month_closed: "تم إقفال الشهر",
+    msg_month_reopened: "تمت إعادة فتح الشهر",
+    msg_month_closure_failed:
+      "تعذّر حفظ التغيير على الخادم. تحقق من الاتصال وحاول مرة أخرى",
+
+    // Plant Workspace
+    plant_workspace: "مساحة عمل المحطة",
+    plant_workspace_desc: "مشاركة القراءات مع فريقك",
+    default_plant_name: "محطتي",
+    select_plant: "اختر المحطة",
+    create_plant: "إنشاء محطة",
+    plant_name: "اسم المحطة",
+    join_plant: "الانضمام إلى محطة",
+    join_code: "رمز الانضمام",
+    join_code_invalid: "لا توجد محطة بهذا الرمز",
+    team_members: "أعضاء الفريق",
+    your_role: "دورك",
+    role_operator: "مشغل",
+    role_supervisor: "مشرف",
+    role_viewer: "مشاهد",
+    read_only_role: "يمكن لدورك عرض القراءات دون تعديلها",
+    msg_plant_created: "تم إنشاء المحطة",
+    msg_plant_joined: "تم الانضمام إلى المحطة",
+    msg_role_updated: "تم تحديث الدور",
+
+    // Sites
+    switch_plant: "تبديل المحطة",
+    consolidated_report: "جميع المحطات",
+    site: "المحطة",
+    all_sites: "الإجمالي",
+    no_sites_selected: "اختر محطة واحدة على الأقل",
+
+    // Sync
+    sync_status_synced: "تمت المزامنة",
+    sync_status_pending: "بانتظار المزامنة",
+    sync_status_failed: "فشلت المزامنة، ستتم إعادة المحاولة",
+    sync_now: "مزامنة الآن",
+    sync_offline: "لا يوجد اتصال. ستتم مزامنة الأيام المحفوظة عند عودة الاتصال",
+    msg_sync_complete: "تمت مزامنة جميع الأيام",
+    msg_sync_incomplete: "تعذرت مزامنتها وستتم إعادة المحاولة",
+    sync_status_conflict: "تم تعديله في مكان آخر، يحتاج إلى مراجعة",
+    resolve_conflict: "حل التعارض",
+    conflict_desc:
+      "تم تعديل هذا اليوم على جهاز آخر قبل مزامنة تغييراتك. اختر القيمة التي تريد الاحتفاظ بها لكل قراءة.",
+    conflict_mine: "هذا الجهاز",
+    conflict_theirs: "الخادم",
+    conflict_merge: "دمج",
+    conflict_keep_all_mine: "الاحتفاظ بكل قيمي",
+    conflict_take_all_theirs: "أخذ الكل من الخادم",
+    conflict_apply: "حفظ اليوم بعد الحل",
+    conflict_none: "النسختان متطابقتان الآن",
+    conflict_load_failed:
+      "تعذر تحميل نسخة الخادم. تحقق من الاتصال وحاول مرة أخرى.",
+    msg_conflict_resolved: "تم حل التعارض",
+    conflict_deleted_desc:
+      "حذفت هذا اليوم على هذا الجهاز، لكنه عُدّل على جهاز آخر قبل مزامنة الحذف.",
+    conflict_keep_deleted: "إبقاؤه محذوفاً",
+    conflict_restore_theirs: "استعادة نسخة الخادم",
+    full_sync: "مزامنة جميع الأيام",
+    full_sync_desc:
+      "تنزيل جميع الأيام من السحابة ورفع الأيام الموجودة على هذا الجهاز فقط",
+    downloaded: "تم التنزيل",
+    uploaded: "تم الرفع",
+    remote_changed: "حدّث هذا اليوم",
+    remote_deleted: "حذف هذا اليوم",
+    guest_merge: "دمج أيام الضيف",
+    guest_merge_desc:
+      "أيام حفظتها كضيف على هذا الجهاز. اختر ما تريد نسخه إلى حسابك، وتُحذف البقية من هذا الجهاز.",
+    guest_merge_pending: "أيام ضيف بانتظار الدمج",
+    guest_merge_new: "جديد",
+    guest_merge_collision: "موجود في الحساب",
+    guest_merge_account: "الحساب",
+    guest_merge_guest: "الضيف",
+    guest_merge_fields_differ: "حقول مختلفة",
+    guest_merge_keep_account: "الإبقاء على نسخة الحساب",
+    guest_merge_use_guest: "استخدام نسخة الضيف",
+    guest_merge_locked: "معتمد أو مغلق في الحساب",
+    guest_merge_selected: "محدد",
+    guest_merge_button: "دمج الأيام المحددة",
+    guest_merge_done: "تم دمج أيام الضيف في حسابك",
+    guest_merge_empty: "حسابك يحتوي على كل أيام الضيف",
+    guest_merge_finish: "تم",
+    guest_merge_discard: "تجاهل أيام الضيف",
+    guest_merge_discard_confirm:
+      "ستُحذف الأيام غير المدموجة من هذا الجهاز. متابعة؟",
+    guest_merge_read_only:
+      "دورك في هذه المحطة لا يسمح بإضافة أيام. انتقل إلى محطة يمكنك تعديلها للدمج.",
+    local_merge: "دمج الأيام المحفوظة دون تسجيل الدخول",
+    local_merge_desc:
+      "أيام حفظتها على هذا الجهاز دون تسجيل الدخول. اختر ما تريد نسخه إلى هذه المحطة، وتُحذف البقية من هذا الجهاز.",
+    local_merge_pending: "أيام محفوظة دون تسجيل الدخول بانتظار الدمج",
+    local_merge_device: "هذا الجهاز",
+    local_merge_use_device: "استخدام نسخة هذا الجهاز",
+    local_merge_done: "تم دمج الأيام في المحطة",
+    local_merge_empty: "المحطة لديها كل هذه الأيام",
+    local_merge_discard: "تجاهل هذه الأيام",
+    remote_someone: "شخص ما",
+    remote_overtaken:
+      "تم الاحتفاظ بتعديلاتك غير المحفوظة؛ سيُطلب منك عند الحفظ اختيار النسخة التي تريد الاحتفاظ بها.",
+    remote_load: "تحميل نسختهم",
+    remote_dismiss: "إخفاء",
   },
 } as const;
 
@@ -0,0 +1,257 @@
+import {
+  DayData,
+  IntervalReading,
+  MeterReplacement,
+  counterAdvance,
+} from "./storage";
+import {
+  METER_DIRECTION,
+  MeterConfig,
+  MeterKind,
+  PlantConfig,
+  ShiftDefinition,
+  activeFeeders,
+  activeTurbines,
+  meterScaleToMwh,
+  sortedShifts,
+} from "./plantConfig";
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export function parseTime(time: string | undefined): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec((time ?? "").trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 24 || minutes > 59) return null;
+  const total = hours * 60 + minutes;
+  return total <= MINUTES_PER_DAY ? total : null;
+}
+
+export function formatTime(minutes: number): string {
+  const hh = String(Math.floor(minutes / 60)).padStart(2, "0");
+  const mm = String(minutes % 60).padStart(2, "0");
+  return `${hh}:${mm}`;
+}
+
+export function currentTime(): string {
+  const now = new Date();
+  return formatTime(now.getHours() * 60 + now.getMinutes());
+}
+
+export function sortReadings(readings: IntervalReading[]): IntervalReading[] {
+  return [...readings].sort(
+    (a, b) => (parseTime(a.time) ?? 0) - (parseTime(b.time) ?? 0),
+  );
+}
+
+// Energy (MWh) between two consecutive readings of one meter.
+export interface EnergySegment {
+  from: number;
+  to: number;
+  energyMwh: number;
+}
+
+// Splits the day into segments between the opening reading (00:00), each
+// intermediate reading and the closing reading (24:00), with the same sign
+// and scaling as the daily figures. Rollover is corrected per segment, so
+// a day whose counter moved more than half the register between two
+// readings can sum to a different total than the daily start/end
+// difference, which sees a wrap there. A replacement with no time is
+// assumed to have happened after the last intermediate reading.
+export function meterSegments(
+  kind: MeterKind,
+  first: string | undefined,
+  last: string | undefined,
+  readings: IntervalReading[] | undefined,
+  meter: MeterConfig,
+  replacement?: MeterReplacement,
+): EnergySegment[] {
+  const points = [{ minutes: 0, value: first }];
+  for (const reading of sortReadings(readings ?? [])) {
+    const minutes = parseTime(reading.time);
+    if (minutes === null || minutes <= 0 || minutes >= MINUTES_PER_DAY)
+      continue;
+    if (reading.value === "") continue;
+    points.push({ minutes, value: reading.value });
+  }
+  points.push({ minutes: MINUTES_PER_DAY, value: last });
+
+  const swapAt = replacement
+    ? (parseTime(replacement.time) ?? MINUTES_PER_DAY)
+    : null;
+  const scale = METER_DIRECTION[kind] * meterScaleToMwh(meter);
+
+  const segments: EnergySegment[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    const containsSwap =
+      replacement &&
+      swapAt !== null &&
+      swapAt > from.minutes &&
+      swapAt <= to.minutes;
+    const advance = counterAdvance(
+      from.value,
+      to.value,
+      meter,
+      containsSwap ? replacement : undefined,
+    );
+    segments.push({
+      from: from.minutes,
+      to: to.minutes,
+      energyMwh: advance * scale,
+    });
+  }
+  return segments;
+}
+
+export function feederSegments(
+  day: DayData,
+  feeder: MeterConfig,
+): EnergySegment[] {
+  const data = day.feeders[feeder.id];
+  return meterSegments(
+    "feeder",
+    data?.start,
+    data?.end,
+    data?.readings,
+    feeder,
+    data?.replacement,
+  );
+}
+
+export function turbineSegments(
+  day: DayData,
+  turbine: MeterConfig,
+): EnergySegment[] {
+  const data = day.turbines[turbine.id];
+  return meterSegments(
+    "turbine",
+    data?.previous,
+    data?.present,
+    data?.readings,
+    turbine,
+    data?.replacement,
+  );
+}
+
+// Highest average MW over any single segment.
+export function peakMw(segments: EnergySegment[]): number {
+  let peak = 0;
+  for (const s of segments) {
+    const hours = (s.to - s.from) / 60;
+    if (hours <= 0) continue;
+    const mw = s.energyMwh / hours;
+    if (Math.abs(mw) > Math.abs(peak)) peak = mw;
+  }
+  return peak;
+}
+
+// Energy falling inside [start, end), assuming it accrued evenly over each
+// segment.
+function energyWithin(
+  segments: EnergySegment[],
+  start: number,
+  end: number,
+): number {
+  let total = 0;
+  for (const s of segments) {
+    const overlap = Math.min(s.to, end) - Math.max(s.from, start);
+    if (overlap <= 0 || s.to <= s.from) continue;
+    total += (s.energyMwh * overlap) / (s.to - s.from);
+  }
+  return total;
+}
+
+// Hourly energy in MWh, which is also the average MW for that hour.
+export function hourlyProfile(segments: EnergySegment[]): number[] {
+  return Array.from({ length: 24 }, (_, h) =>
+    energyWithin(segments, h * 60, (h + 1) * 60),
+  );
+}
+
+export interface ShiftWindow {
+  shift: ShiftDefinition;
+  ranges: [number, number][];
+}
+
+export function shiftWindows(config: PlantConfig): ShiftWindow[] {
+  const shifts = sortedShifts(config).filter(
+    (s) => parseTime(s.start) !== null,
+  );
+  if (shifts.length === 0) return [];
+
+  return shifts.map((shift, i) => {
+    const start = parseTime(shift.start) ?? 0;
+    const isLast = i === shifts.length - 1;
+    const end = isLast
+      ? MINUTES_PER_DAY
+      : (parseTime(shifts[i + 1].start) ?? MINUTES_PER_DAY);
+    const ranges: [number, number][] = [[start, end]];
+    if (isLast) {
+      const firstStart = parseTime(shifts[0].start) ?? 0;
+      if (firstStart > 0) ranges.push([0, firstStart]);
+    }
+    return { shift, ranges };
+  });
+}
+
+export interface ShiftEnergy {
+  shift: ShiftDefinition;
+  energyMwh: number;
+}
+
+export function shiftEnergy(
+  segments: EnergySegment[],
+  config: PlantConfig,
+): ShiftEnergy[] {
+  return shiftWindows(config).map(({ shift, ranges }) => ({
+    shift,
+    energyMwh: ranges.reduce(
+      (acc, [start, end]) => acc + energyWithin(segments, start, end),
+      0,
+    ),
+  }));
+}
+
+export interface DayLoadProfile {
+  production: number[];
+  exportVal: number[];
+  shifts: { shift: ShiftDefinition; production: number; exportVal: number }[];
+  peakProductionMw: number;
+  hasIntervalReadings: boolean;
+}
+
+export function dayLoadProfile(
+  day: DayData,
+  config: PlantConfig,
+): DayLoadProfile {
+  const productionSegments = activeTurbines(config, day.dateKey).flatMap((t) =>
+    turbineSegments(day, t),
+  );
+  const exportSegments = activeFeeders(config, day.dateKey).flatMap((f) =>
+    feederSegments(day, f),
+  );
+
+  const production = hourlyProfile(productionSegments);
+  const exportVal = hourlyProfile(exportSegments);
+  const productionShifts = shiftEnergy(productionSegments, config);
+  const exportShifts = shiftEnergy(exportSegments, config);
+
+  const hasIntervalReadings =
+    Object.values(day.feeders).some((f) => (f?.readings?.length ?? 0) > 0) ||
+    Object.values(day.turbines).some((t) => (t?.readings?.length ?? 0) > 0);
+
+  return {
+    production,
+    exportVal,
+    shifts: productionShifts.map((p, i) => ({
+      shift: p.shift,
+      production: p.energyMwh,
+      exportVal: exportShifts[i]?.energyMwh ?? 0,
+    })),
+    peakProductionMw: Math.max(0, ...production),
+    hasIntervalReadings,
+  };
+}
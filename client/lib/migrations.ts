@@ -0,0 +1,398 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { DEFAULT_PLANT_CONFIG, type MeterConfig } from "./plantConfig";
+
+// Keys are written out here rather than shared with storage.ts so that each
+// migration keeps operating on the layout it was written against. The
+// "pp-app:v2" prefix predates schema versioning and stays as is.
+const PREFIX = "pp-app:v2";
+const DAY_PREFIX = `${PREFIX}:day:`;
+// Days of signed-in plants are stored under pp-app:v2:plant:<id>:day: where
+// SQLite is not available.
+const ANY_DAY_KEY = /^pp-app:v2(:plant:[^:]+)?:day:\d{4}-\d{2}-\d{2}$/;
+const INDEX_KEY = `${PREFIX}:days:index`;
+const PLANT_CONFIG_KEY = `${PREFIX}:plant-config`;
+const QUARANTINE_PREFIX = `${PREFIX}:quarantine:`;
+export const SCHEMA_VERSION_KEY = `${PREFIX}:schema-version`;
+
+// Data written before versioning existed is treated as version 2.
+export const LEGACY_SCHEMA_VERSION = 2;
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: () => Promise<void>;
+}
+
+export interface MigrationResult {
+  from: number;
+  to: number;
+  applied: number[];
+}
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asReading(value: unknown): string {
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  return typeof value === "string" ? value : "";
+}
+
+function parseObject(raw: string): JsonObject | null {
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return isObject(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+async function dayKeys(): Promise<string[]> {
+  const keys = await AsyncStorage.getAllKeys();
+  return keys.filter(
+    (k) =>
+      k.startsWith(DAY_PREFIX) && DATE_KEY.test(k.slice(DAY_PREFIX.length)),
+  );
+}
+
+function nextDateKey(dateKey: string): string {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d + 1)).toISOString().slice(0, 10);
+}
+
+function normalizeReplacement(raw: unknown) {
+  if (!isObject(raw)) return undefined;
+  const time = typeof raw.time === "string" ? raw.time : undefined;
+  return {
+    oldFinal: asReading(raw.oldFinal),
+    newInitial: asReading(raw.newInitial),
+    ...(time ? { time } : {}),
+  };
+}
+
+function normalizeReadings(raw: unknown) {
+  if (!Array.isArray(raw)) return undefined;
+  return raw
+    .filter((r) => isObject(r) && typeof r.time === "string")
+    .map((r) => ({ time: r.time as string, value: asReading(r.value) }));
+}
+
+const FLAGGED_QUALITIES = ["estimated", "corrected", "override"];
+
+// Keeps flags on the meter's own reading fields with a known quality.
+function normalizeFlags(raw: unknown, fields: string[]) {
+  if (!isObject(raw)) return undefined;
+  const flags: JsonObject = {};
+  for (const field of fields) {
+    const flag = raw[field];
+    if (
+      !isObject(flag) ||
+      !FLAGGED_QUALITIES.includes(flag.quality as string)
+    ) {
+      continue;
+    }
+    const reason = typeof flag.reason === "string" ? flag.reason : "";
+    flags[field] = { quality: flag.quality, ...(reason ? { reason } : {}) };
+  }
+  return Object.keys(flags).length > 0 ? flags : undefined;
+}
+
+function withDetail(target: JsonObject, raw: JsonObject): JsonObject {
+  const replacement = normalizeReplacement(raw.replacement);
+  const readings = normalizeReadings(raw.readings);
+  if (replacement) target.replacement = replacement;
+  if (readings && readings.length > 0) target.readings = readings;
+  return target;
+}
+
+function normalizeMeterRecords(
+  raw: unknown,
+  normalize: (meter: JsonObject) => JsonObject,
+): JsonObject {
+  if (!isObject(raw)) return {};
+  return Object.fromEntries(
+    Object.entries(raw)
+      .filter(([, meter]) => isObject(meter))
+      .map(([id, meter]) => [id, normalize(meter as JsonObject)]),
+  );
+}
+
+// A day record as v3 shaped it. Fields added to day records since are left
+// to normalizeLaterFields, so that v3 keeps doing what it did when it
+// shipped.
+function normalizeV3Day(raw: unknown, dateKey: string): JsonObject | null {
+  if (!isObject(raw)) return null;
+  const day: JsonObject = {
+    dateKey,
+    feeders: normalizeMeterRecords(raw.feeders, (f) =>
+      withDetail({ start: asReading(f.start), end: asReading(f.end) }, f),
+    ),
+    turbines: normalizeMeterRecords(raw.turbines, (t) =>
+      withDetail(
+        {
+          previous: asReading(t.previous),
+          present: asReading(t.present),
+          hours: t.hours === undefined ? "24" : asReading(t.hours),
+        },
+        t,
+      ),
+    ),
+  };
+  if (typeof raw.crew === "string" && raw.crew) day.crew = raw.crew;
+  return day;
+}
+
+const LATER_DAY_FIELDS = [
+  "estimated",
+  "status",
+  "approval",
+  "remoteRevision",
+  "updatedAt",
+  "deletedAt",
+];
+
+const READING_FIELDS = {
+  feeders: ["start", "end"],
+  turbines: ["previous", "present"],
+};
+
+// Reading flags, the estimated mark, approval, and the sync bookkeeping were
+// added to day records after v3. Keeps those that are well formed on a day
+// otherwise already in shape, taking them from the raw record.
+function normalizeLaterFields(day: JsonObject, raw: JsonObject): JsonObject {
+  const next: JsonObject = Object.fromEntries(
+    Object.entries(day).filter(([field]) => !LATER_DAY_FIELDS.includes(field)),
+  );
+  for (const kind of ["feeders", "turbines"] as const) {
+    const meters = isObject(day[kind]) ? day[kind] : {};
+    const rawMeters = isObject(raw[kind]) ? raw[kind] : {};
+    next[kind] = Object.fromEntries(
+      Object.entries(meters).map(([id, meter]) => {
+        const rest: JsonObject = isObject(meter) ? { ...meter } : {};
+        delete rest.flags;
+        const rawMeter = rawMeters[id];
+        const flags = isObject(rawMeter)
+          ? normalizeFlags(rawMeter.flags, READING_FIELDS[kind])
+          : undefined;
+        return [id, flags ? { ...rest, flags } : rest];
+      }),
+    );
+  }
+  if (raw.estimated === true) next.estimated = true;
+  if (raw.status === "submitted" || raw.status === "approved") {
+    next.status = raw.status;
+  }
+  if (raw.status === "approved" && isObject(raw.approval)) {
+    next.approval = raw.approval;
+  }
+  if (typeof raw.remoteRevision === "number") {
+    next.remoteRevision = raw.remoteRevision;
+  }
+  if (typeof raw.updatedAt === "string") next.updatedAt = raw.updatedAt;
+  if (typeof raw.deletedAt === "string") next.deletedAt = raw.deletedAt;
+  return next;
+}
+
+// A day record in the current shape, or null when it is not a day at all.
+// Used by importData for backups taken before the current schema.
+export function normalizeDayRecord(
+  raw: unknown,
+  dateKey: string,
+): JsonObject | null {
+  const day = normalizeV3Day(raw, dateKey);
+  return day && isObject(raw) ? normalizeLaterFields(day, raw) : null;
+}
+
+// v3: day records were stored as whatever JSON the screens produced. Coerce
+// every record to the current shape, move anything unreadable aside instead
+// of deleting it, and rebuild the day index from the keys actually present.
+async function normalizeDays(): Promise<void> {
+  const keys = await dayKeys();
+  const entries = await AsyncStorage.multiGet(keys);
+  const writes: [string, string][] = [];
+  const quarantined: string[] = [];
+  const dateKeys: string[] = [];
+
+  for (const [key, raw] of entries) {
+    const dateKey = key.slice(DAY_PREFIX.length);
+    let parsed: unknown = null;
+    try {
+      parsed = raw ? JSON.parse(raw) : null;
+    } catch {
+      parsed = null;
+    }
+    const day = normalizeV3Day(parsed, dateKey);
+    if (!day) {
+      if (raw) writes.push([`${QUARANTINE_PREFIX}${key}`, raw]);
+      quarantined.push(key);
+      continue;
+    }
+    writes.push([key, JSON.stringify(day)]);
+    dateKeys.push(dateKey);
+  }
+
+  dateKeys.sort();
+  writes.push([INDEX_KEY, JSON.stringify(dateKeys)]);
+  await AsyncStorage.multiSet(writes);
+  if (quarantined.length > 0) {
+    await AsyncStorage.multiRemove(quarantined);
+    console.warn(
+      `Moved ${quarantined.length} unreadable day record(s) to ${QUARANTINE_PREFIX}`,
+    );
+  }
+}
+
+// v4: a day only shows the meters listed in the plant configuration, so
+// readings for an ID the configuration does not know about were silently
+// hidden. Add such meters back as retired after the last day they appear.
+async function registerOrphanMeters(): Promise<void> {
+  const keys = await dayKeys();
+  const entries = await AsyncStorage.multiGet(keys);
+  const rawConfig = await AsyncStorage.getItem(PLANT_CONFIG_KEY);
+  const config = rawConfig ? parseObject(rawConfig) : {};
+  // An unreadable configuration is left as it is rather than replaced.
+  if (!config) {
+    console.warn("Skipped registering meters: the plant config is unreadable");
+    return;
+  }
+
+  const feeders: MeterConfig[] = Array.isArray(config.feeders)
+    ? config.feeders
+    : DEFAULT_PLANT_CONFIG.feeders;
+  const turbines: MeterConfig[] = Array.isArray(config.turbines)
+    ? config.turbines
+    : DEFAULT_PLANT_CONFIG.turbines;
+
+  const seen = {
+    feeders: new Map<string, { first: string; last: string }>(),
+    turbines: new Map<string, { first: string; last: string }>(),
+  };
+  for (const [key, raw] of entries) {
+    const day = raw ? parseObject(raw) : null;
+    if (!day) continue;
+    const dateKey = key.slice(DAY_PREFIX.length);
+    for (const kind of ["feeders", "turbines"] as const) {
+      for (const id of Object.keys(isObject(day[kind]) ? day[kind] : {})) {
+        const range = seen[kind].get(id);
+        seen[kind].set(id, {
+          first: range && range.first < dateKey ? range.first : dateKey,
+          last: range && range.last > dateKey ? range.last : dateKey,
+        });
+      }
+    }
+  }
+
+  const orphans = (known: MeterConfig[], kind: "feeders" | "turbines") =>
+    [...seen[kind].entries()]
+      .filter(([id]) => !known.some((m) => m.id === id))
+      .map(([id, { first, last }]) => ({
+        id,
+        name: id,
+        commissionedOn: first,
+        retiredOn: nextDateKey(last),
+      }));
+
+  const orphanFeeders = orphans(feeders, "feeders");
+  const orphanTurbines = orphans(turbines, "turbines");
+  if (orphanFeeders.length === 0 && orphanTurbines.length === 0) return;
+
+  await AsyncStorage.setItem(
+    PLANT_CONFIG_KEY,
+    JSON.stringify({
+      ...config,
+      feeders: [...feeders, ...orphanFeeders],
+      turbines: [...turbines, ...orphanTurbines],
+    }),
+  );
+}
+
+// v5: the fields added to day records since v3 (reading flags, the estimated
+// mark, approval, and the sync bookkeeping) were never normalized on devices
+// that had already run v3. Normalize them on every day record still in
+// AsyncStorage, whichever plant it belongs to. Days in SQLite were all
+// written by versions that knew these fields.
+async function normalizeLaterDayFields(): Promise<void> {
+  const keys = (await AsyncStorage.getAllKeys()).filter((k) =>
+    ANY_DAY_KEY.test(k),
+  );
+  const entries = await AsyncStorage.multiGet(keys);
+  const writes: [string, string][] = [];
+  for (const [key, raw] of entries) {
+    const day = raw ? parseObject(raw) : null;
+    if (!day) continue;
+    const normalized = JSON.stringify(normalizeLaterFields(day, day));
+    if (normalized !== raw) writes.push([key, normalized]);
+  }
+  if (writes.length > 0) await AsyncStorage.multiSet(writes);
+}
+
+// Append new migrations here; versions must be consecutive. Since v4, day
+// records on device are moved into SQLite (see sqliteDayRepository.ts) the
+// first time they are read, so later day migrations must handle both stores.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 3,
+    description: "Normalize day records and rebuild the day index",
+    migrate: normalizeDays,
+  },
+  {
+    version: 4,
+    description: "Register meters found in saved days but missing from config",
+    migrate: registerOrphanMeters,
+  },
+  {
+    version: 5,
+    description: "Normalize day fields added since v3",
+    migrate: normalizeLaterDayFields,
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION =
+  MIGRATIONS[MIGRATIONS.length - 1]?.version ?? LEGACY_SCHEMA_VERSION;
+
+export async function getSchemaVersion(): Promise<number | null> {
+  const raw = await AsyncStorage.getItem(SCHEMA_VERSION_KEY);
+  const version = raw === null ? NaN : Number(raw);
+  return Number.isInteger(version) ? version : null;
+}
+
+async function hasLocalData(): Promise<boolean> {
+  const keys = await AsyncStorage.getAllKeys();
+  return keys.some((k) => k.startsWith(`${PREFIX}:`));
+}
+
+// Brings local storage up to CURRENT_SCHEMA_VERSION. The version is recorded
+// after each step, so an interrupted run resumes where it stopped. Passing
+// fromVersion re-applies later migrations, e.g. after importing an old backup.
+export async function runMigrations(
+  fromVersion?: number,
+): Promise<MigrationResult> {
+  const stored = await getSchemaVersion();
+  let from = fromVersion ?? stored;
+  if (from === null) {
+    from = (await hasLocalData())
+      ? LEGACY_SCHEMA_VERSION
+      : CURRENT_SCHEMA_VERSION;
+  }
+
+  const applied: number[] = [];
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= from) continue;
+    await migration.migrate();
+    await AsyncStorage.setItem(SCHEMA_VERSION_KEY, String(migration.version));
+    applied.push(migration.version);
+  }
+
+  if (applied.length === 0 && stored !== CURRENT_SCHEMA_VERSION) {
+    await AsyncStorage.setItem(
+      SCHEMA_VERSION_KEY,
+      String(Math.max(from, CURRENT_SCHEMA_VERSION)),
+    );
+  }
+
+  return { from, to: Math.max(from, CURRENT_SCHEMA_VERSION), applied };
+}
@@ -0,0 +1,204 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { DayData, LOCAL_PLANT_ID, getDaysInRange, monthKey } from "./storage";
+import { plantStoragePrefix } from "./dayRepository";
+import type { PlantConfig } from "./plantConfig";
+import type { RevisionAuthor } from "./dayHistory";
+import { DayLockedError } from "./dayApproval";
+import { MonthlyStats, computeMonthlyStats } from "./excelExport";
+import {
+  deleteMonthClosureFromSupabase,
+  fetchMonthClosuresFromSupabase,
+  upsertMonthClosureToSupabase,
+} from "./supabaseSync";
+
+function monthClosuresKey(plantId: string | null): string {
+  return `${plantStoragePrefix(plantId ?? LOCAL_PLANT_ID)}:month-closures`;
+}
+
+// The monthly sheet figures as sent to the utility, rounded as exported.
+export type MonthSnapshot = Pick<
+  MonthlyStats,
+  | "production"
+  | "exportTotal"
+  | "withdrawalTotal"
+  | "consumption"
+  | "gasConsumed"
+  | "daysCount"
+  | "estimatedCount"
+>;
+
+const SNAPSHOT_FIELDS: (keyof MonthSnapshot)[] = [
+  "production",
+  "exportTotal",
+  "withdrawalTotal",
+  "consumption",
+  "gasConsumed",
+  "daysCount",
+  "estimatedCount",
+];
+
+// A closed month freezes every day in it until the month is reopened.
+export interface MonthClosure {
+  monthKey: string;
+  closedAt: string;
+  closedBy: RevisionAuthor;
+  snapshot: MonthSnapshot;
+}
+
+export type MonthClosures = Record<string, MonthClosure>;
+
+// A closed month whose saved days no longer add up to its snapshot.
+export interface ClosureMismatch {
+  monthKey: string;
+  fields: (keyof MonthSnapshot)[];
+  snapshot: MonthSnapshot;
+  live: MonthSnapshot;
+}
+
+export class MonthClosedError extends DayLockedError {
+  monthKey: string;
+
+  constructor(dateKey: string) {
+    super(dateKey);
+    this.message = `Month ${monthKey(dateKey)} is closed and cannot be changed`;
+    this.name = "MonthClosedError";
+    this.monthKey = monthKey(dateKey);
+  }
+}
+
+// A plant's closures are loaded from Supabase, so closing or reopening one of
+// its months only counts once Supabase has it; nothing is changed locally
+// until then.
+export class MonthClosureSyncError extends Error {
+  monthKey: string;
+
+  constructor(month: string) {
+    super(`Could not save the closure of ${month} in Supabase`);
+    this.name = "MonthClosureSyncError";
+    this.monthKey = month;
+  }
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function isMonthClosed(
+  closures: MonthClosures,
+  dateKey: string,
+): boolean {
+  return !!closures[monthKey(dateKey)];
+}
+
+export function monthDays(
+  month: string,
+  config: PlantConfig,
+): Promise<DayData[]> {
+  return getDaysInRange(`${month}-01`, `${month}-31`, config);
+}
+
+// Totals of the given days, which should all fall in one month.
+export function snapshotMonth(
+  days: DayData[],
+  config: PlantConfig,
+): MonthSnapshot {
+  const [stats] = computeMonthlyStats(days, config);
+  const snapshot = {} as MonthSnapshot;
+  for (const field of SNAPSHOT_FIELDS) {
+    snapshot[field] = round2(stats?.[field] ?? 0);
+  }
+  return snapshot;
+}
+
+export async function getMonthClosures(
+  plantId: string | null,
+): Promise<MonthClosures> {
+  try {
+    const raw = await AsyncStorage.getItem(monthClosuresKey(plantId));
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+async function saveMonthClosures(
+  plantId: string | null,
+  closures: MonthClosures,
+): Promise<void> {
+  await AsyncStorage.setItem(
+    monthClosuresKey(plantId),
+    JSON.stringify(closures),
+  );
+}
+
+// The cloud holds the closures made by every member of the plant, so when
+// signed in it replaces the local copy; offline the local copy is used as is.
+export async function loadMonthClosures(
+  plantId: string | null,
+): Promise<MonthClosures> {
+  if (!plantId) return getMonthClosures(plantId);
+  const remote = await fetchMonthClosuresFromSupabase(plantId);
+  if (!remote) return getMonthClosures(plantId);
+  const closures = Object.fromEntries(remote.map((c) => [c.monthKey, c]));
+  await saveMonthClosures(plantId, closures);
+  return closures;
+}
+
+export async function closeMonth(
+  month: string,
+  config: PlantConfig,
+  author: RevisionAuthor,
+  plantId: string | null,
+): Promise<MonthClosure> {
+  const closure: MonthClosure = {
+    monthKey: month,
+    closedAt: new Date().toISOString(),
+    closedBy: author,
+    snapshot: snapshotMonth(await monthDays(month, config), config),
+  };
+  if (plantId && !(await upsertMonthClosureToSupabase(plantId, closure))) {
+    throw new MonthClosureSyncError(month);
+  }
+  const closures = await getMonthClosures(plantId);
+  await saveMonthClosures(plantId, { ...closures, [month]: closure });
+  return closure;
+}
+
+export async function reopenMonth(
+  month: string,
+  plantId: string | null,
+): Promise<void> {
+  if (plantId && !(await deleteMonthClosureFromSupabase(plantId, month))) {
+    throw new MonthClosureSyncError(month);
+  }
+  const closures = await getMonthClosures(plantId);
+  delete closures[month];
+  await saveMonthClosures(plantId, closures);
+}
+
+// Recomputes each closed month from the saved days and reports those that
+// no longer match what was sent.
+export async function findClosureMismatches(
+  closures: MonthClosures,
+  config: PlantConfig,
+): Promise<ClosureMismatch[]> {
+  const mismatches: ClosureMismatch[] = [];
+  for (const closure of Object.values(closures)) {
+    const live = snapshotMonth(
+      await monthDays(closure.monthKey, config),
+      config,
+    );
+    const fields = SNAPSHOT_FIELDS.filter(
+      (field) => live[field] !== closure.snapshot[field],
+    );
+    if (fields.length > 0) {
+      mismatches.push({
+        monthKey: closure.monthKey,
+        fields,
+        snapshot: closure.snapshot,
+        live,
+      });
+    }
+  }
+  return mismatches.sort((a, b) => a.monthKey.localeCompare(b.monthKey));
+}
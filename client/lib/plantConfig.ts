@@ -0,0 +1,252 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Crypto from "expo-crypto";
+import type { GasCurve } from "./gasCurves";
+import { type CrewRotation, DEFAULT_CREW_ROTATION } from "./crewRotation";
+import {
+  type ValidationSettings,
+  DEFAULT_VALIDATION_SETTINGS,
+  normalizeValidationSettings,
+} from "./validationRules";
+import { LOCAL_PLANT_ID, plantStoragePrefix } from "./dayRepository";
+
+export type MeterKind = "feeder" | "turbine";
+
+export type EnergyUnit = "kWh" | "MWh";
+
+export interface MeterConfig {
+  id: string;
+  name: string;
+  commissionedOn?: string;
+  retiredOn?: string;
+  // Number of digits on the energy register; readings wrap to zero past it.
+  registerDigits?: number;
+  ctRatio?: number;
+  ptRatio?: number;
+  registerConstant?: number;
+  // Unit shown on the meter face; energy is always reported in MWh.
+  unit?: EnergyUnit;
+  // Nameplate output of a turbine, checked against the day's MW/hr.
+  ratingMw?: number;
+}
+
+// A shift runs from its start time (HH:MM) until the next shift starts; the
+// last shift of the day continues past midnight into the first.
+export interface ShiftDefinition {
+  id: string;
+  name: string;
+  start: string;
+}
+
+export interface PlantConfig {
+  feeders: MeterConfig[];
+  turbines: MeterConfig[];
+  gasCurves: GasCurve[];
+  shifts: ShiftDefinition[];
+  rotation: CrewRotation;
+  validation: ValidationSettings;
+}
+
+// Each plant has its own meters, curves and rotation.
+function plantConfigKey(plantId: string): string {
+  return `${plantStoragePrefix(plantId)}:plant-config`;
+}
+
+// The original hard-coded meters keep their names as IDs so that day records
+// saved before the configuration existed continue to resolve.
+export const DEFAULT_PLANT_CONFIG: PlantConfig = {
+  feeders: ["F2", "F3", "F4", "F5"].map((id) => ({ id, name: id })),
+  turbines: ["A", "B", "C", "S"].map((id) => ({ id, name: id })),
+  gasCurves: [],
+  shifts: [{ id: "day", name: "Day", start: "00:00" }],
+  rotation: DEFAULT_CREW_ROTATION,
+  validation: DEFAULT_VALIDATION_SETTINGS,
+};
+
+function metersOf(config: PlantConfig, kind: MeterKind): MeterConfig[] {
+  return kind === "feeder" ? config.feeders : config.turbines;
+}
+
+function withMeters(
+  config: PlantConfig,
+  kind: MeterKind,
+  meters: MeterConfig[],
+): PlantConfig {
+  return kind === "feeder"
+    ? { ...config, feeders: meters }
+    : { ...config, turbines: meters };
+}
+
+export function isMeterActive(meter: MeterConfig, dateKey: string): boolean {
+  if (meter.commissionedOn && dateKey < meter.commissionedOn) return false;
+  if (meter.retiredOn && dateKey >= meter.retiredOn) return false;
+  return true;
+}
+
+export function activeFeeders(
+  config: PlantConfig,
+  dateKey: string,
+): MeterConfig[] {
+  return config.feeders.filter((m) => isMeterActive(m, dateKey));
+}
+
+export function activeTurbines(
+  config: PlantConfig,
+  dateKey: string,
+): MeterConfig[] {
+  return config.turbines.filter((m) => isMeterActive(m, dateKey));
+}
+
+export function meterMultiplier(meter: MeterConfig): number {
+  return (
+    (meter.ctRatio ?? 1) * (meter.ptRatio ?? 1) * (meter.registerConstant ?? 1)
+  );
+}
+
+// Turbine counters advance with the energy produced. Feeder counters advance
+// with the energy drawn from the grid, so export is their negative advance.
+export const METER_DIRECTION: Record<MeterKind, 1 | -1> = {
+  turbine: 1,
+  feeder: -1,
+};
+
+// Factor that turns a difference of face readings into MWh.
+export function meterScaleToMwh(meter: MeterConfig): number {
+  const unitScale = meter.unit === "kWh" ? 1 / 1000 : 1;
+  return meterMultiplier(meter) * unitScale;
+}
+
+export function meterName(
+  config: PlantConfig,
+  kind: MeterKind,
+  id: string,
+): string {
+  return metersOf(config, kind).find((m) => m.id === id)?.name ?? id;
+}
+
+export function addMeter(
+  config: PlantConfig,
+  kind: MeterKind,
+  name: string,
+  commissionedOn?: string,
+): PlantConfig {
+  const meter: MeterConfig = {
+    id: Crypto.randomUUID(),
+    name: name.trim(),
+    commissionedOn,
+  };
+  return withMeters(config, kind, [...metersOf(config, kind), meter]);
+}
+
+export function updateMeter(
+  config: PlantConfig,
+  kind: MeterKind,
+  id: string,
+  changes: Partial<Omit<MeterConfig, "id">>,
+): PlantConfig {
+  return withMeters(
+    config,
+    kind,
+    metersOf(config, kind).map((m) => (m.id === id ? { ...m, ...changes } : m)),
+  );
+}
+
+export function moveMeter(
+  config: PlantConfig,
+  kind: MeterKind,
+  id: string,
+  offset: number,
+): PlantConfig {
+  const meters = [...metersOf(config, kind)];
+  const from = meters.findIndex((m) => m.id === id);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= meters.length) return config;
+  const [meter] = meters.splice(from, 1);
+  meters.splice(to, 0, meter);
+  return withMeters(config, kind, meters);
+}
+
+export function sortedShifts(config: PlantConfig): ShiftDefinition[] {
+  return [...config.shifts].sort((a, b) => a.start.localeCompare(b.start));
+}
+
+export function addShift(
+  config: PlantConfig,
+  name: string,
+  start: string,
+): PlantConfig {
+  const shift: ShiftDefinition = {
+    id: Crypto.randomUUID(),
+    name: name.trim(),
+    start,
+  };
+  return { ...config, shifts: [...config.shifts, shift] };
+}
+
+export function updateShift(
+  config: PlantConfig,
+  id: string,
+  changes: Partial<Omit<ShiftDefinition, "id">>,
+): PlantConfig {
+  return {
+    ...config,
+    shifts: config.shifts.map((s) => (s.id === id ? { ...s, ...changes } : s)),
+  };
+}
+
+export function removeShift(config: PlantConfig, id: string): PlantConfig {
+  return { ...config, shifts: config.shifts.filter((s) => s.id !== id) };
+}
+
+function normalizeMeters(raw: unknown, fallback: MeterConfig[]): MeterConfig[] {
+  if (!Array.isArray(raw)) return fallback;
+  return raw
+    .filter((m) => m && typeof m.id === "string")
+    .map((m) => ({ ...m, name: String(m.name ?? m.id) }));
+}
+
+// A plant that has not been configured on this device starts from the
+// local plant's configuration.
+export async function getPlantConfig(
+  plantId: string = LOCAL_PLANT_ID,
+): Promise<PlantConfig> {
+  try {
+    const raw =
+      (await AsyncStorage.getItem(plantConfigKey(plantId))) ??
+      (await AsyncStorage.getItem(plantConfigKey(LOCAL_PLANT_ID)));
+    if (!raw) return DEFAULT_PLANT_CONFIG;
+    const parsed = JSON.parse(raw);
+    return {
+      ...DEFAULT_PLANT_CONFIG,
+      ...parsed,
+      feeders: normalizeMeters(parsed.feeders, DEFAULT_PLANT_CONFIG.feeders),
+      turbines: normalizeMeters(parsed.turbines, DEFAULT_PLANT_CONFIG.turbines),
+      gasCurves: Array.isArray(parsed.gasCurves) ? parsed.gasCurves : [],
+      shifts:
+        Array.isArray(parsed.shifts) && parsed.shifts.length > 0
+          ? parsed.shifts
+          : DEFAULT_PLANT_CONFIG.shifts,
+      rotation: {
+        ...DEFAULT_CREW_ROTATION,
+        ...parsed.rotation,
+        exceptions: Array.isArray(parsed.rotation?.exceptions)
+          ? parsed.rotation.exceptions
+          : [],
+      },
+      validation: normalizeValidationSettings(parsed.validation),
+    };
+  } catch {
+    return DEFAULT_PLANT_CONFIG;
+  }
+}
+
+export async function savePlantConfig(
+  config: PlantConfig,
+  plantId: string = LOCAL_PLANT_ID,
+): Promise<void> {
+  try {
+    await AsyncStorage.setItem(plantConfigKey(plantId), JSON.stringify(config));
+  } catch (error) {
+    console.error("Error saving plant config:", error);
+    throw error;
+  }
+}
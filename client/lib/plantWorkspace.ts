@@ -0,0 +1,103 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { TranslationKey } from "./i18n";
+import { createPlantInSupabase, fetchPlantsFromSupabase } from "./supabaseSync";
+
+// Operators enter and submit days, supervisors also approve, unlock and
+// close months and manage the team, viewers only read.
+export type PlantRole = "operator" | "supervisor" | "viewer";
+
+export const PLANT_ROLES: PlantRole[] = ["operator", "supervisor", "viewer"];
+
+export function isPlantRole(value: unknown): value is PlantRole {
+  return PLANT_ROLES.some((role) => role === value);
+}
+
+export const ROLE_LABELS: Record<PlantRole, TranslationKey> = {
+  operator: "role_operator",
+  supervisor: "role_supervisor",
+  viewer: "role_viewer",
+};
+
+// A plant shared by its members in Supabase. The join code lets another
+// user become a member.
+export interface Plant {
+  id: string;
+  name: string;
+  joinCode: string;
+  role: PlantRole;
+}
+
+export interface PlantMember {
+  userId: string;
+  name?: string;
+  role: PlantRole;
+}
+
+export class PlantPermissionError extends Error {
+  constructor(action: string) {
+    super(`Your role does not allow you to ${action}`);
+    this.name = "PlantPermissionError";
+  }
+}
+
+const SELECTED_PLANT_KEY = "pp-app:v2:selected-plant";
+
+function plantsKey(userId: string): string {
+  return `pp-app:v2:plants:${userId}`;
+}
+
+// Without a plant (signed out) the data is local and every action allowed.
+export function canEditDays(role: PlantRole | null): boolean {
+  return role !== "viewer";
+}
+
+export function canApproveDays(role: PlantRole | null): boolean {
+  return role === null || role === "supervisor";
+}
+
+export async function getSelectedPlantId(): Promise<string | null> {
+  try {
+    return await AsyncStorage.getItem(SELECTED_PLANT_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export async function saveSelectedPlantId(plantId: string): Promise<void> {
+  await AsyncStorage.setItem(SELECTED_PLANT_KEY, plantId);
+}
+
+// The user's plants as last loaded, so the app opens on the right plant
+// before the network answers, or without it.
+export async function getCachedPlants(userId: string): Promise<Plant[] | null> {
+  try {
+    const raw = await AsyncStorage.getItem(plantsKey(userId));
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+// A user who belongs to no plant yet, e.g. on first sign-in, gets a plant
+// of their own so their days have somewhere to sync to.
+export async function loadPlants(
+  userId: string,
+  defaultName: string,
+): Promise<Plant[] | null> {
+  let plants = await fetchPlantsFromSupabase(userId);
+  if (plants && plants.length === 0) {
+    const created = await createPlantInSupabase(userId, defaultName);
+    plants = created ? [created] : null;
+  }
+  if (plants) {
+    await AsyncStorage.setItem(plantsKey(userId), JSON.stringify(plants));
+  }
+  return plants;
+}
+
+export function pickPlant(
+  plants: Plant[],
+  selectedId: string | null,
+): Plant | null {
+  return plants.find((p) => p.id === selectedId) ?? plants[0] ?? null;
+}
@@ -0,0 +1,68 @@
+import type {
+  FeederReadingField,
+  ReadingFlag,
+  ReadingQuality,
+  TurbineReadingField,
+} from "./storage";
+import type { TranslationKey } from "./i18n";
+
+export type ReadingField = FeederReadingField | TurbineReadingField;
+
+export const READING_QUALITIES: ReadingQuality[] = [
+  "measured",
+  "estimated",
+  "corrected",
+  "override",
+];
+
+export const QUALITY_LABELS: Record<ReadingQuality, TranslationKey> = {
+  measured: "quality_measured",
+  estimated: "quality_estimated",
+  corrected: "quality_corrected",
+  override: "quality_override",
+};
+
+type Flags<F extends string> = Partial<Record<F, ReadingFlag>>;
+
+export function isReadingQuality(value: unknown): value is ReadingQuality {
+  return READING_QUALITIES.includes(value as ReadingQuality);
+}
+
+// Returns the meter's flags with one reading's flag replaced. Marking a
+// reading as measured removes its flag, and undefined is returned once no
+// reading is flagged so measured meters keep their original shape.
+export function withReadingFlag<F extends string>(
+  flags: Flags<F> | undefined,
+  field: F,
+  flag: ReadingFlag | null,
+): Flags<F> | undefined {
+  const next: Flags<F> = { ...flags };
+  if (!flag || flag.quality === "measured") {
+    delete next[field];
+  } else {
+    const reason = flag.reason?.trim();
+    next[field] = { quality: flag.quality, ...(reason ? { reason } : {}) };
+  }
+  return Object.keys(next).length > 0 ? next : undefined;
+}
+
+// Flags every listed reading with the same quality, e.g. all readings of an
+// interpolated day.
+export function flagReadings<F extends string>(
+  fields: F[],
+  flag: ReadingFlag,
+): Flags<F> | undefined {
+  return fields.reduce<Flags<F> | undefined>(
+    (flags, field) => withReadingFlag(flags, field, flag),
+    undefined,
+  );
+}
+
+// "Estimated (meter inaccessible)", or just "Estimated" without a reason.
+export function formatReadingFlag(
+  flag: ReadingFlag,
+  t: (key: TranslationKey) => string,
+): string {
+  const label = t(QUALITY_LABELS[flag.quality]);
+  return flag.reason ? `${label} (${flag.reason})` : label;
+}
@@ -0,0 +1,140 @@
+import {
+  getDeletedDayData,
+  getSavedDayData,
+  saveDayData,
+  saveDeletedDayData,
+} from "./storage";
+import { getPlantConfig } from "./plantConfig";
+import { diffDays } from "./dayHistory";
+import { getOutbox } from "./syncOutbox";
+import {
+  SyncScope,
+  fetchDayFromSupabase,
+  fetchPlantMembersFromSupabase,
+  subscribeToPlantDays,
+} from "./supabaseSync";
+
+// A day saved on this device from a change someone made in Supabase.
+export interface RemoteDayChange {
+  dateKey: string;
+  authorId: string | null;
+  // Unknown when the author is no longer a member of the plant.
+  authorName?: string;
+  // Fields that changed, addressed as in the day's history. A deleted day
+  // lists none; a restored one lists all its fields.
+  fields: string[];
+  deleted: boolean;
+  // The day's revision in Supabase after the change.
+  revision: number;
+  receivedAt: string;
+}
+
+// Changes to the same day that arrive in quick succession, such as a batch
+// of edits pushed from one device, are pulled once they stop arriving.
+const SETTLE_MS = 750;
+
+// "feeders.F2.end" → "F2 end"; day-level fields are shown as they are.
+export function changedFieldLabel(field: string): string {
+  const [group, ...rest] = field.split(".");
+  return group === "feeders" || group === "turbines" ? rest.join(" ") : field;
+}
+
+// Saves the version of the day in Supabase here if it is newer than this
+// device's and the day has no edits waiting to be pushed; those go through
+// conflict review when they are pushed instead. A day deleted there goes to
+// the recycle bin.
+async function pullChangedDay(
+  scope: SyncScope,
+  dateKey: string,
+  authorId: string | null,
+  authorNames: Map<string, string | undefined>,
+): Promise<RemoteDayChange | null> {
+  if ((await getOutbox(scope.plantId))[dateKey]) return null;
+
+  const config = await getPlantConfig(scope.plantId);
+  const remote = await fetchDayFromSupabase(scope.plantId, dateKey, config);
+  if (!remote?.remoteRevision) return null;
+  const local =
+    (await getSavedDayData(dateKey, config, scope.plantId)) ??
+    (await getDeletedDayData(dateKey, config, scope.plantId));
+  if (local && (local.remoteRevision ?? 0) >= remote.remoteRevision) {
+    return null;
+  }
+
+  // The outbox may have taken the day while it was being fetched.
+  if ((await getOutbox(scope.plantId))[dateKey]) return null;
+  const wasDeleted = !local || !!local.deletedAt;
+  let fields: string[] = [];
+  if (remote.deletedAt) {
+    await saveDeletedDayData(remote, scope.plantId);
+    if (wasDeleted) return null;
+  } else {
+    await saveDayData(remote, scope.plantId);
+    fields = diffDays(local?.deletedAt ? null : local, remote).map(
+      (change) => change.field,
+    );
+    if (fields.length === 0) return null;
+  }
+  return {
+    dateKey,
+    authorId,
+    authorName: authorId ? authorNames.get(authorId) : undefined,
+    fields,
+    deleted: !!remote.deletedAt,
+    revision: remote.remoteRevision,
+    receivedAt: new Date().toISOString(),
+  };
+}
+
+// Keeps this device's copy of the plant's days current while signed in:
+// days changed in Supabase by other users or devices are saved here as they
+// change, and reported through onChange. Returns a function that stops
+// watching.
+export function watchPlantDays(
+  scope: SyncScope,
+  onChange: (change: RemoteDayChange) => void,
+): () => void {
+  let stopped = false;
+  const authors = new Map<string, string>();
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+  const authorNames = new Map<string, string | undefined>();
+
+  fetchPlantMembersFromSupabase(scope.plantId).then((members) => {
+    for (const member of members) authorNames.set(member.userId, member.name);
+  });
+
+  const settle = (dateKey: string) => {
+    clearTimeout(timers.get(dateKey));
+    timers.set(
+      dateKey,
+      setTimeout(() => {
+        timers.delete(dateKey);
+        pullChangedDay(
+          scope,
+          dateKey,
+          authors.get(dateKey) ?? null,
+          authorNames,
+        )
+          .then((change) => {
+            if (change && !stopped) onChange(change);
+          })
+          .catch((error) =>
+            console.error("Error applying remote day change:", error),
+          );
+      }, SETTLE_MS),
+    );
+  };
+
+  const unsubscribe = subscribeToPlantDays(scope.plantId, (event) => {
+    if (event.deleted || stopped) return;
+    if (event.userId) authors.set(event.dateKey, event.userId);
+    settle(event.dateKey);
+  });
+
+  return () => {
+    stopped = true;
+    unsubscribe();
+    timers.forEach((timer) => clearTimeout(timer));
+    timers.clear();
+  };
+}
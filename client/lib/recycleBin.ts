@@ -0,0 +1,87 @@
+import { DayData, getDeletedDays, purgeDeletedDayData } from "./storage";
+import type { PlantConfig } from "./plantConfig";
+import { getOutbox } from "./syncOutbox";
+import {
+  SyncScope,
+  purgeDaysDeletedBeforeFromSupabase,
+  purgeDaysFromSupabase,
+} from "./supabaseSync";
+
+// Deleted days can be restored for this long, after which they are purged.
+export const RECYCLE_BIN_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isExpired(deletedAt: string, now = Date.now()): boolean {
+  return now - Date.parse(deletedAt) > RECYCLE_BIN_DAYS * DAY_MS;
+}
+
+// Whole days left before a deleted day is purged, at least 0.
+export function daysUntilPurge(deletedAt: string, now = Date.now()): number {
+  const left = Date.parse(deletedAt) + RECYCLE_BIN_DAYS * DAY_MS - now;
+  return Math.max(0, Math.ceil(left / DAY_MS));
+}
+
+// A day cannot be purged while its deletion waits to reach Supabase, where
+// it would otherwise stay.
+export class DeletionPendingError extends Error {
+  constructor(public dateKey: string) {
+    super(`The deletion of ${dateKey} has not been synced yet`);
+    this.name = "DeletionPendingError";
+  }
+}
+
+export class PurgeFailedError extends Error {
+  constructor(public dateKey: string) {
+    super(`Could not purge ${dateKey} in Supabase`);
+    this.name = "PurgeFailedError";
+  }
+}
+
+// Purges the days deleted more than RECYCLE_BIN_DAYS ago from this device's
+// recycle bin, except those whose deletion is still queued. With a scope the
+// plant's expired days are purged in Supabase too, which only a supervisor
+// may do. Resolves with the days left in the bin.
+export async function purgeExpiredDays(
+  plantId: string,
+  config: PlantConfig,
+  scope: SyncScope | null,
+): Promise<DayData[]> {
+  const now = Date.now();
+  const outbox = await getOutbox(plantId);
+  const kept: DayData[] = [];
+  for (const day of await getDeletedDays(config, plantId)) {
+    if (
+      day.deletedAt &&
+      isExpired(day.deletedAt, now) &&
+      !outbox[day.dateKey]
+    ) {
+      await purgeDeletedDayData(day.dateKey, plantId);
+    } else {
+      kept.push(day);
+    }
+  }
+  if (scope) {
+    const cutoff = new Date(now - RECYCLE_BIN_DAYS * DAY_MS).toISOString();
+    await purgeDaysDeletedBeforeFromSupabase(scope.plantId, cutoff);
+  }
+  return kept;
+}
+
+// Deletes a day in the recycle bin for good: in Supabase first, when signed
+// in and the day ever reached it, then on this device.
+export async function purgeDay(
+  plantId: string,
+  day: DayData,
+  scope: SyncScope | null,
+): Promise<void> {
+  if (scope && day.remoteRevision !== undefined) {
+    if ((await getOutbox(plantId))[day.dateKey]) {
+      throw new DeletionPendingError(day.dateKey);
+    }
+    if (!(await purgeDaysFromSupabase(scope.plantId, [day.dateKey]))) {
+      throw new PurgeFailedError(day.dateKey);
+    }
+  }
+  await purgeDeletedDayData(day.dateKey, plantId);
+}
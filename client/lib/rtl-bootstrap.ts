@@ -79,7 +79,10 @@ async function removeStorageItem(key: string): Promise<boolean> {
   }
 }
 
-async function persistLanguageAndDirection(lang: Language, dir: Direction): Promise<boolean> {
+async function persistLanguageAndDirection(
+  lang: Language,
+  dir: Direction,
+): Promise<boolean> {
   const langSaved = await setStorageItem(LANGUAGE_KEY, lang);
   const dirSaved = await setStorageItem(DIRECTION_KEY, dir);
   return langSaved && dirSaved;
@@ -138,7 +141,7 @@ export async function initializeRTL(): Promise<RTLBootstrapResult> {
     }
 
     applyI18nManagerSettings(shouldBeRTL);
-    
+
     const persisted = await persistLanguageAndDirection(language, targetDir);
     if (!persisted) {
       return {
@@ -151,7 +154,7 @@ export async function initializeRTL(): Promise<RTLBootstrapResult> {
 
     await setStorageItem(RELOAD_ATTEMPT_KEY, "true");
     await reloadApp();
-    
+
     return {
       language,
       direction: targetDir,
@@ -183,16 +186,17 @@ export async function switchLanguage(newLang: Language): Promise<boolean> {
       console.error("Failed to persist language and direction");
       return false;
     }
-    
-    const alertMessage = newLang === "ar" 
-      ? "سيتم إعادة تشغيل التطبيق لتطبيق اتجاه اللغة"
-      : "App will restart to apply language direction";
+
+    const alertMessage =
+      newLang === "ar"
+        ? "سيتم إعادة تشغيل التطبيق لتطبيق اتجاه اللغة"
+        : "App will restart to apply language direction";
 
     if (Platform.OS !== "web") {
       Alert.alert(
         newLang === "ar" ? "تغيير اللغة" : "Language Change",
         alertMessage,
-        [{ text: newLang === "ar" ? "حسناً" : "OK" }]
+        [{ text: newLang === "ar" ? "حسناً" : "OK" }],
       );
     }
 
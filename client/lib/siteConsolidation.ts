@@ -0,0 +1,95 @@
+import { getDaysInRange } from "./storage";
+import { getPlantConfig } from "./plantConfig";
+import { MonthlyStats, computeMonthlyStats } from "./excelExport";
+import { fetchMonthFiguresFromSupabase } from "./supabaseSync";
+
+export type SiteTotals = Pick<
+  MonthlyStats,
+  "production" | "exportTotal" | "gasConsumed" | "daysCount"
+>;
+
+export interface SiteReport {
+  plantId: string;
+  name: string;
+  totals: SiteTotals;
+}
+
+export interface ConsolidatedReport {
+  monthKey: string;
+  sites: SiteReport[];
+  total: SiteTotals;
+}
+
+const EMPTY_TOTALS: SiteTotals = {
+  production: 0,
+  exportTotal: 0,
+  gasConsumed: 0,
+  daysCount: 0,
+};
+
+// When signed in a site's figures are computed in Supabase, so days entered
+// on other devices count; otherwise, or when the fetch fails, from the days
+// on this device. Either way each site is totalled with its own
+// configuration, as on its monthly sheet.
+async function siteMonthTotals(
+  plantId: string,
+  month: string,
+  online: boolean,
+): Promise<SiteTotals> {
+  const config = await getPlantConfig(plantId);
+  const remote = online
+    ? await fetchMonthFiguresFromSupabase(plantId, month, config)
+    : null;
+  if (remote) {
+    return {
+      production: remote.productionMwh,
+      exportTotal: remote.exportMwh,
+      gasConsumed: remote.gasM3,
+      daysCount: remote.days,
+    };
+  }
+
+  const days = await getDaysInRange(
+    `${month}-01`,
+    `${month}-31`,
+    config,
+    plantId,
+  );
+  const [stats] = computeMonthlyStats(days, config);
+  return stats
+    ? {
+        production: stats.production,
+        exportTotal: stats.exportTotal,
+        gasConsumed: stats.gasConsumed,
+        daysCount: stats.daysCount,
+      }
+    : EMPTY_TOTALS;
+}
+
+export async function consolidateSites(
+  plants: { id: string; name: string }[],
+  month: string,
+  online: boolean,
+): Promise<ConsolidatedReport> {
+  const sites = await Promise.all(
+    plants.map(
+      async (plant): Promise<SiteReport> => ({
+        plantId: plant.id,
+        name: plant.name,
+        totals: await siteMonthTotals(plant.id, month, online),
+      }),
+    ),
+  );
+
+  const total = sites.reduce<SiteTotals>(
+    (sum, { totals }) => ({
+      production: sum.production + totals.production,
+      exportTotal: sum.exportTotal + totals.exportTotal,
+      gasConsumed: sum.gasConsumed + totals.gasConsumed,
+      daysCount: sum.daysCount + totals.daysCount,
+    }),
+    EMPTY_TOTALS,
+  );
+
+  return { monthKey: month, sites, total };
+}
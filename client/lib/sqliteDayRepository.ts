@@ -0,0 +1,326 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as SQLite from "expo-sqlite";
+import {
+  DAY_INDEX_KEY,
+  DayFilter,
+  DayRepository,
+  DayTotals,
+  LOCAL_PLANT_ID,
+  MonthTotals,
+  StoredDay,
+  dayStorageKey,
+} from "./dayRepository";
+import type { DayRevision } from "./dayHistory";
+
+function filterClause(filter: DayFilter): string {
+  return filter.approvedOnly
+    ? "WHERE json_extract(data, '$.status') = 'approved'"
+    : "";
+}
+
+// The local plant keeps the original database; every other plant gets a
+// database of its own.
+function databaseName(plantId: string): string {
+  return plantId === LOCAL_PLANT_ID ? "pp-app.db" : `pp-app-${plantId}.db`;
+}
+const IMPORT_FLAG = "asyncstorage_import";
+
+interface DayRow {
+  date_key: string;
+  data: string;
+}
+
+interface MonthRow {
+  month_key: string;
+  days: number;
+  estimated_days: number;
+  production_mwh: number | null;
+  export_mwh: number | null;
+}
+
+// production_mwh and export_mwh cache the day totals for the monthly
+// aggregates. They are NULL until first needed and reset whenever the day is
+// saved or the plant configuration changes.
+const SCHEMA = `
+PRAGMA journal_mode = WAL;
+CREATE TABLE IF NOT EXISTS meta (
+  key TEXT PRIMARY KEY NOT NULL,
+  value TEXT
+);
+CREATE TABLE IF NOT EXISTS days (
+  date_key TEXT PRIMARY KEY NOT NULL,
+  month_key TEXT NOT NULL,
+  data TEXT NOT NULL,
+  production_mwh REAL,
+  export_mwh REAL,
+  updated_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS days_month_key ON days (month_key);
+CREATE TABLE IF NOT EXISTS day_revisions (
+  id TEXT PRIMARY KEY NOT NULL,
+  date_key TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS day_revisions_date_key
+  ON day_revisions (date_key, created_at);
+CREATE TABLE IF NOT EXISTS deleted_days (
+  date_key TEXT PRIMARY KEY NOT NULL,
+  deleted_at TEXT NOT NULL,
+  data TEXT NOT NULL
+);
+`;
+
+function toStoredDay(row: DayRow): StoredDay | null {
+  try {
+    return { dateKey: row.date_key, data: JSON.parse(row.data) };
+  } catch {
+    return null;
+  }
+}
+
+function toStoredDays(rows: DayRow[]): StoredDay[] {
+  return rows.map(toStoredDay).filter((d): d is StoredDay => d !== null);
+}
+
+// Moves the day records written by earlier versions out of AsyncStorage.
+// Runs once, inside a transaction, after the AsyncStorage migrations have
+// normalized the records; the old keys are removed only once it commits.
+async function importFromAsyncStorage(db: SQLite.SQLiteDatabase) {
+  const done = await db.getFirstAsync<{ value: string }>(
+    "SELECT value FROM meta WHERE key = ?",
+    IMPORT_FLAG,
+  );
+  if (done) return;
+
+  const rawIndex = await AsyncStorage.getItem(DAY_INDEX_KEY);
+  const dateKeys: string[] = rawIndex ? JSON.parse(rawIndex) : [];
+  const keys = dateKeys.map((dateKey) => dayStorageKey(dateKey));
+  const entries = await AsyncStorage.multiGet(keys);
+  const now = new Date().toISOString();
+
+  await db.withTransactionAsync(async () => {
+    for (const [i, [, raw]] of entries.entries()) {
+      if (!raw) continue;
+      const dateKey = dateKeys[i];
+      await db.runAsync(
+        `INSERT OR IGNORE INTO days (date_key, month_key, data, updated_at)
+         VALUES (?, ?, ?, ?)`,
+        dateKey,
+        dateKey.slice(0, 7),
+        raw,
+        now,
+      );
+    }
+    await db.runAsync(
+      "INSERT INTO meta (key, value) VALUES (?, ?)",
+      IMPORT_FLAG,
+      now,
+    );
+  });
+
+  await AsyncStorage.multiRemove([...keys, DAY_INDEX_KEY]);
+}
+
+const databases = new Map<string, Promise<SQLite.SQLiteDatabase>>();
+
+function openDatabase(plantId: string): Promise<SQLite.SQLiteDatabase> {
+  let database = databases.get(plantId);
+  if (!database) {
+    database = (async () => {
+      const db = await SQLite.openDatabaseAsync(databaseName(plantId));
+      await db.execAsync(SCHEMA);
+      // Only the local plant has records from before SQLite to import.
+      if (plantId === LOCAL_PLANT_ID) {
+        await importFromAsyncStorage(db);
+      }
+      return db;
+    })().catch((error) => {
+      databases.delete(plantId);
+      throw error;
+    });
+    databases.set(plantId, database);
+  }
+  return database;
+}
+
+async function fillMissingTotals(
+  db: SQLite.SQLiteDatabase,
+  computeTotals: (day: StoredDay) => DayTotals,
+) {
+  const rows = await db.getAllAsync<DayRow>(
+    "SELECT date_key, data FROM days WHERE production_mwh IS NULL OR export_mwh IS NULL",
+  );
+  if (rows.length === 0) return;
+
+  await db.withTransactionAsync(async () => {
+    for (const day of toStoredDays(rows)) {
+      const { productionMwh, exportMwh } = computeTotals(day);
+      await db.runAsync(
+        "UPDATE days SET production_mwh = ?, export_mwh = ? WHERE date_key = ?",
+        productionMwh,
+        exportMwh,
+        day.dateKey,
+      );
+    }
+  });
+}
+
+export function createSqliteDayRepository(plantId: string): DayRepository {
+  const open = () => openDatabase(plantId);
+
+  return {
+    async dateKeys() {
+      const db = await open();
+      const rows = await db.getAllAsync<{ date_key: string }>(
+        "SELECT date_key FROM days ORDER BY date_key",
+      );
+      return rows.map((r) => r.date_key);
+    },
+
+    async get(dateKey) {
+      const db = await open();
+      const row = await db.getFirstAsync<DayRow>(
+        "SELECT date_key, data FROM days WHERE date_key = ?",
+        dateKey,
+      );
+      return row ? (toStoredDay(row)?.data ?? null) : null;
+    },
+
+    async range(from, to) {
+      const db = await open();
+      const rows = await db.getAllAsync<DayRow>(
+        "SELECT date_key, data FROM days WHERE date_key BETWEEN ? AND ? ORDER BY date_key",
+        from,
+        to,
+      );
+      return toStoredDays(rows);
+    },
+
+    async latest(limit, filter = {}) {
+      const db = await open();
+      const rows = await db.getAllAsync<DayRow>(
+        `SELECT date_key, data FROM days ${filterClause(filter)}
+         ORDER BY date_key DESC LIMIT ?`,
+        limit,
+      );
+      return toStoredDays(rows).reverse();
+    },
+
+    async save(day) {
+      const db = await open();
+      await db.withTransactionAsync(async () => {
+        await db.runAsync(
+          `INSERT INTO days (date_key, month_key, data, updated_at)
+           VALUES (?, ?, ?, ?)
+           ON CONFLICT (date_key) DO UPDATE SET
+             data = excluded.data,
+             production_mwh = NULL,
+             export_mwh = NULL,
+             updated_at = excluded.updated_at`,
+          day.dateKey,
+          day.dateKey.slice(0, 7),
+          JSON.stringify(day),
+          new Date().toISOString(),
+        );
+        await db.runAsync(
+          "DELETE FROM deleted_days WHERE date_key = ?",
+          day.dateKey,
+        );
+      });
+    },
+
+    async remove(dateKey) {
+      const db = await open();
+      await db.runAsync("DELETE FROM days WHERE date_key = ?", dateKey);
+    },
+
+    async deleted() {
+      const db = await open();
+      const rows = await db.getAllAsync<DayRow>(
+        "SELECT date_key, data FROM deleted_days ORDER BY deleted_at DESC",
+      );
+      return toStoredDays(rows);
+    },
+
+    async getDeleted(dateKey) {
+      const db = await open();
+      const row = await db.getFirstAsync<DayRow>(
+        "SELECT date_key, data FROM deleted_days WHERE date_key = ?",
+        dateKey,
+      );
+      return row ? (toStoredDay(row)?.data ?? null) : null;
+    },
+
+    async saveDeleted(day) {
+      const db = await open();
+      await db.withTransactionAsync(async () => {
+        await db.runAsync(
+          `INSERT OR REPLACE INTO deleted_days (date_key, deleted_at, data)
+           VALUES (?, ?, ?)`,
+          day.dateKey,
+          day.deletedAt ?? new Date().toISOString(),
+          JSON.stringify(day),
+        );
+        await db.runAsync("DELETE FROM days WHERE date_key = ?", day.dateKey);
+      });
+    },
+
+    async purge(dateKey) {
+      const db = await open();
+      await db.runAsync("DELETE FROM deleted_days WHERE date_key = ?", dateKey);
+    },
+
+    async revisions(dateKey) {
+      const db = await open();
+      const rows = await db.getAllAsync<{ data: string }>(
+        "SELECT data FROM day_revisions WHERE date_key = ? ORDER BY created_at",
+        dateKey,
+      );
+      return rows.map((r) => JSON.parse(r.data) as DayRevision);
+    },
+
+    async appendRevision(revision) {
+      const db = await open();
+      await db.runAsync(
+        `INSERT OR IGNORE INTO day_revisions (id, date_key, created_at, data)
+         VALUES (?, ?, ?, ?)`,
+        revision.id,
+        revision.dateKey,
+        revision.createdAt,
+        JSON.stringify(revision),
+      );
+    },
+
+    async monthlyTotals(computeTotals, filter = {}) {
+      const db = await open();
+      await fillMissingTotals(db, computeTotals);
+      const rows = await db.getAllAsync<MonthRow>(
+        `SELECT month_key, COUNT(*) AS days,
+                SUM(json_extract(data, '$.estimated') IS 1) AS estimated_days,
+                SUM(production_mwh) AS production_mwh,
+                SUM(export_mwh) AS export_mwh
+         FROM days
+         ${filterClause(filter)}
+         GROUP BY month_key
+         ORDER BY month_key DESC`,
+      );
+      return rows.map(
+        (r): MonthTotals => ({
+          monthKey: r.month_key,
+          days: r.days,
+          estimatedDays: r.estimated_days,
+          productionMwh: r.production_mwh ?? 0,
+          exportMwh: r.export_mwh ?? 0,
+        }),
+      );
+    },
+
+    async invalidateTotals() {
+      const db = await open();
+      await db.runAsync(
+        "UPDATE days SET production_mwh = NULL, export_mwh = NULL",
+      );
+    },
+  };
+}
@@ -1,4 +1,30 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Platform } from "react-native";
+import {
+  PlantConfig,
+  MeterConfig,
+  METER_DIRECTION,
+  activeFeeders,
+  meterScaleToMwh,
+  activeTurbines,
+  getPlantConfig,
+  savePlantConfig,
+} from "./plantConfig";
+import { GasCurveShape, gasRate } from "./gasCurves";
+import { CURRENT_SCHEMA_VERSION, normalizeDayRecord } from "./migrations";
+import {
+  DayFilter,
+  DayRepository,
+  DayTotals,
+  LOCAL_PLANT_ID,
+  MonthTotals,
+  StoredDay,
+  createAsyncStorageDayRepository,
+  matchesFilter,
+} from "./dayRepository";
+import { createSqliteDayRepository } from "./sqliteDayRepository";
+import type { DayRevision } from "./dayHistory";
+import type { DayApproval, DayStatus } from "./dayApproval";
 
 export {
   formatNumber,
@@ -12,10 +38,39 @@ export {
   numberTextStyle,
 } from "@/utils/numberFormat";
 
-export const FEEDERS = ["F2", "F3", "F4", "F5"];
-export const TURBINES = ["A", "B", "C", "S"];
+export type { DayFilter, MonthTotals } from "./dayRepository";
+export { LOCAL_PLANT_ID } from "./dayRepository";
 
-const STORAGE_PREFIX = "pp-app:v2";
+// Days live in SQLite on device. Web keeps the original AsyncStorage layout,
+// since SQLite there needs a WebAssembly worker and cross-origin isolation.
+const createDayRepository =
+  Platform.OS === "web"
+    ? createAsyncStorageDayRepository
+    : createSqliteDayRepository;
+
+const dayRepositories = new Map<string, DayRepository>();
+
+// The plant whose days the app works on. PlantWorkspaceProvider switches it
+// before publishing the new plant, so screens reloading in response already
+// read that plant's days.
+let activePlantId = LOCAL_PLANT_ID;
+
+export function getActivePlantId(): string {
+  return activePlantId;
+}
+
+export function setActivePlantId(plantId: string): void {
+  activePlantId = plantId;
+}
+
+function dayRepository(plantId: string = activePlantId): DayRepository {
+  let repository = dayRepositories.get(plantId);
+  if (!repository) {
+    repository = createDayRepository(plantId);
+    dayRepositories.set(plantId, repository);
+  }
+  return repository;
+}
 
 export function formatDateKey(d: Date): string {
   const yyyy = d.getFullYear();
@@ -32,27 +87,75 @@ export function monthKey(dateKey: string): string {
   return dateKey.slice(0, 7);
 }
 
-function storageKey(dateKey: string): string {
-  return `${STORAGE_PREFIX}:day:${dateKey}`;
+// Recorded when a meter is swapped during the day: the last reading taken on
+// the outgoing meter and the first reading on its replacement. The optional
+// time (HH:MM) places the swap among the intra-day readings.
+export interface MeterReplacement {
+  oldFinal: string;
+  newInitial: string;
+  time?: string;
+}
+
+// A reading taken between the start and end of the day, e.g. at shift change.
+export interface IntervalReading {
+  time: string;
+  value: string;
 }
 
-function listKey(): string {
-  return `${STORAGE_PREFIX}:days:index`;
+// How a reading was obtained. Readings without a flag were read from the
+// meter; "measured" is never stored.
+export type ReadingQuality =
+  | "measured"
+  | "estimated"
+  | "corrected"
+  | "override";
+
+export interface ReadingFlag {
+  quality: ReadingQuality;
+  reason?: string;
 }
 
+export type FeederReadingField = "start" | "end";
+export type TurbineReadingField = "previous" | "present";
+
 export interface FeederData {
   start: string;
   end: string;
+  replacement?: MeterReplacement;
+  readings?: IntervalReading[];
+  flags?: Partial<Record<FeederReadingField, ReadingFlag>>;
 }
 
 export interface TurbineData {
   previous: string;
   present: string;
   hours: string;
+  replacement?: MeterReplacement;
+  readings?: IntervalReading[];
+  flags?: Partial<Record<TurbineReadingField, ReadingFlag>>;
 }
 
 export interface DayData {
   dateKey: string;
+  // Crew(s) on duty according to the rotation when the day was saved.
+  crew?: string;
+  // Set when the readings were interpolated across a gap by the backfill
+  // wizard rather than read from the meters.
+  estimated?: boolean;
+  // Draft when absent. Approved days are read-only until unlocked.
+  status?: DayStatus;
+  approval?: DayApproval;
+  // The day's revision in Supabase this version was based on, when it was
+  // loaded from or last pushed to Supabase. Pushing a day that has since
+  // changed there is a conflict.
+  remoteRevision?: number;
+  // When this version was saved on a device, or written to Supabase for a
+  // day pulled from there. A full sync keeps the newer version of a day
+  // changed on both sides.
+  updatedAt?: string;
+  // Set on a deleted day, which is kept in the recycle bin until restored or
+  // purged. Pushing it deletes the day in Supabase.
+  deletedAt?: string;
   feeders: Record<string, FeederData>;
   turbines: Record<string, TurbineData>;
 }
@@ -64,14 +167,17 @@ export interface UserSettings {
 
 const SETTINGS_KEY = "@power_plant_settings";
 
-export function defaultDay(dateKey: string): DayData {
+export function defaultDay(dateKey: string, config: PlantConfig): DayData {
   return {
     dateKey,
     feeders: Object.fromEntries(
-      FEEDERS.map((f) => [f, { start: "", end: "" }])
+      activeFeeders(config, dateKey).map((f) => [f.id, { start: "", end: "" }]),
     ),
     turbines: Object.fromEntries(
-      TURBINES.map((t) => [t, { previous: "", present: "", hours: "24" }])
+      activeTurbines(config, dateKey).map((t) => [
+        t.id,
+        { previous: "", present: "", hours: "24" },
+      ]),
     ),
   };
 }
@@ -97,130 +203,371 @@ export function getPreviousDateKey(dateKey: string): string {
 
 export async function getDayIndex(): Promise<string[]> {
   try {
-    const raw = await AsyncStorage.getItem(listKey());
-    return raw ? JSON.parse(raw) : [];
+    return await dayRepository().dateKeys();
   } catch {
     return [];
   }
 }
 
-async function upsertDayIndex(dateKey: string): Promise<void> {
+function dayFromStored(
+  dateKey: string,
+  parsed: unknown,
+  config: PlantConfig,
+): DayData {
+  const base = defaultDay(dateKey, config);
+  if (!parsed || typeof parsed !== "object") return base;
+  const stored = parsed as Partial<DayData>;
+  return {
+    ...base,
+    ...stored,
+    dateKey,
+    feeders: { ...base.feeders, ...stored.feeders },
+    turbines: { ...base.turbines, ...stored.turbines },
+  };
+}
+
+export async function getDayData(
+  dateKey: string,
+  config: PlantConfig,
+): Promise<DayData> {
   try {
-    const arr = await getDayIndex();
-    if (!arr.includes(dateKey)) {
-      arr.push(dateKey);
-      arr.sort();
-      await AsyncStorage.setItem(listKey(), JSON.stringify(arr));
-    }
-  } catch (error) {
-    console.error("Error updating day index:", error);
+    return dayFromStored(dateKey, await dayRepository().get(dateKey), config);
+  } catch {
+    return defaultDay(dateKey, config);
   }
 }
 
-export async function getDayData(dateKey: string): Promise<DayData> {
-  try {
-    const raw = await AsyncStorage.getItem(storageKey(dateKey));
-    if (raw) {
-      const parsed = JSON.parse(raw);
-      return { ...defaultDay(dateKey), ...parsed };
+// The reading a meter closed the day on. When the meter was replaced and no
+// closing reading was entered, the new meter's initial reading is the best
+// known position.
+export function closingReading(
+  last: string | undefined,
+  replacement?: MeterReplacement,
+): string {
+  return last || replacement?.newInitial || "";
+}
+
+export function linkFromPreviousDay(
+  currentDay: DayData,
+  prevDay: DayData,
+  config: PlantConfig,
+): DayData {
+  const linkedFeeders = { ...currentDay.feeders };
+  for (const { id: f } of activeFeeders(config, currentDay.dateKey)) {
+    const prevFeeder = prevDay.feeders?.[f];
+    const prevEnd = closingReading(prevFeeder?.end, prevFeeder?.replacement);
+    if (prevEnd && !currentDay.feeders[f]?.start) {
+      linkedFeeders[f] = {
+        ...linkedFeeders[f],
+        start: prevEnd,
+      };
     }
-    return defaultDay(dateKey);
-  } catch {
-    return defaultDay(dateKey);
   }
+
+  const linkedTurbines = { ...currentDay.turbines };
+  for (const { id: t } of activeTurbines(config, currentDay.dateKey)) {
+    const prevTurbine = prevDay.turbines?.[t];
+    const prevPresent = closingReading(
+      prevTurbine?.present,
+      prevTurbine?.replacement,
+    );
+    if (prevPresent && !currentDay.turbines[t]?.previous) {
+      linkedTurbines[t] = {
+        ...linkedTurbines[t],
+        previous: prevPresent,
+      };
+    }
+  }
+
+  return {
+    ...currentDay,
+    feeders: linkedFeeders,
+    turbines: linkedTurbines,
+  };
 }
 
-export async function getDayDataWithLinkedValues(dateKey: string): Promise<DayData> {
-  const currentDay = await getDayData(dateKey);
+export async function getDayDataWithLinkedValues(
+  dateKey: string,
+  config: PlantConfig,
+): Promise<DayData> {
+  const currentDay = await getDayData(dateKey, config);
   const prevDateKey = getPreviousDateKey(dateKey);
-  
+
   if (!prevDateKey) return currentDay;
-  
+
   try {
-    const prevRaw = await AsyncStorage.getItem(storageKey(prevDateKey));
-    if (!prevRaw) return currentDay;
-    
-    const prevDay = JSON.parse(prevRaw) as DayData;
-    
-    const linkedFeeders = { ...currentDay.feeders };
-    for (const f of FEEDERS) {
-      const prevEnd = prevDay.feeders?.[f]?.end;
-      if (prevEnd && !currentDay.feeders[f]?.start) {
-        linkedFeeders[f] = {
-          ...linkedFeeders[f],
-          start: prevEnd,
-        };
-      }
-    }
-    
-    const linkedTurbines = { ...currentDay.turbines };
-    for (const t of TURBINES) {
-      const prevPresent = prevDay.turbines?.[t]?.present;
-      if (prevPresent && !currentDay.turbines[t]?.previous) {
-        linkedTurbines[t] = {
-          ...linkedTurbines[t],
-          previous: prevPresent,
-        };
-      }
-    }
-    
-    return {
-      ...currentDay,
-      feeders: linkedFeeders,
-      turbines: linkedTurbines,
-    };
+    const stored = await dayRepository().get(prevDateKey);
+    if (!stored) return currentDay;
+
+    return linkFromPreviousDay(
+      currentDay,
+      dayFromStored(prevDateKey, stored, config),
+      config,
+    );
   } catch {
     return currentDay;
   }
 }
 
-export async function saveDayData(day: DayData): Promise<void> {
+export async function saveDayData(
+  day: DayData,
+  plantId?: string,
+): Promise<void> {
   try {
-    await AsyncStorage.setItem(storageKey(day.dateKey), JSON.stringify(day));
-    await upsertDayIndex(day.dateKey);
+    await dayRepository(plantId).save(day);
   } catch (error) {
     console.error("Error saving day data:", error);
     throw error;
   }
 }
 
-export async function deleteDayData(dateKey: string): Promise<void> {
+// Deleting a day moves it to the recycle bin, from which it can be restored
+// by saving it again. Resolves with the deleted day, or null if the day was
+// never saved.
+export async function deleteDayData(
+  dateKey: string,
+  config: PlantConfig,
+  plantId?: string,
+): Promise<DayData | null> {
   try {
-    await AsyncStorage.removeItem(storageKey(dateKey));
-    const arr = await getDayIndex();
-    const newArr = arr.filter((d) => d !== dateKey);
-    await AsyncStorage.setItem(listKey(), JSON.stringify(newArr));
+    const day = await getSavedDayData(dateKey, config, plantId);
+    if (!day) return null;
+    const deleted = { ...day, deletedAt: new Date().toISOString() };
+    await dayRepository(plantId).saveDeleted(deleted);
+    return deleted;
   } catch (error) {
     console.error("Error deleting day data:", error);
     throw error;
   }
 }
 
-export async function getAllDaysData(): Promise<DayData[]> {
+// Puts a deleted day in the recycle bin as given, e.g. one deleted in
+// Supabase, replacing the day or its copy already there.
+export async function saveDeletedDayData(
+  day: DayData,
+  plantId?: string,
+): Promise<void> {
   try {
-    const index = await getDayIndex();
-    const days: DayData[] = [];
-    for (const dateKey of index) {
-      const data = await getDayData(dateKey);
-      days.push(data);
-    }
-    return days;
+    await dayRepository(plantId).saveDeleted(day);
+  } catch (error) {
+    console.error("Error saving deleted day:", error);
+    throw error;
+  }
+}
+
+// The recycle bin, most recently deleted first.
+export async function getDeletedDays(
+  config: PlantConfig,
+  plantId?: string,
+): Promise<DayData[]> {
+  try {
+    const stored = await dayRepository(plantId).deleted();
+    return stored.map((d) => dayFromStored(d.dateKey, d.data, config));
   } catch {
     return [];
   }
 }
 
+export async function getDeletedDayData(
+  dateKey: string,
+  config: PlantConfig,
+  plantId?: string,
+): Promise<DayData | null> {
+  try {
+    const stored = await dayRepository(plantId).getDeleted(dateKey);
+    return stored ? dayFromStored(dateKey, stored, config) : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function purgeDeletedDayData(
+  dateKey: string,
+  plantId?: string,
+): Promise<void> {
+  try {
+    await dayRepository(plantId).purge(dateKey);
+  } catch (error) {
+    console.error("Error purging deleted day:", error);
+    throw error;
+  }
+}
+
+// The day as last saved, or null if it has never been saved.
+export async function getSavedDayData(
+  dateKey: string,
+  config: PlantConfig,
+  plantId?: string,
+): Promise<DayData | null> {
+  try {
+    const stored = await dayRepository(plantId).get(dateKey);
+    return stored ? dayFromStored(dateKey, stored, config) : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function getDayRevisions(dateKey: string): Promise<DayRevision[]> {
+  try {
+    return await dayRepository().revisions(dateKey);
+  } catch (error) {
+    console.error("Error loading day history:", error);
+    return [];
+  }
+}
+
+export async function appendDayRevision(revision: DayRevision): Promise<void> {
+  try {
+    await dayRepository().appendRevision(revision);
+  } catch (error) {
+    console.error("Error saving day history:", error);
+  }
+}
+
+export async function getAllDaysData(
+  config: PlantConfig,
+  plantId?: string,
+): Promise<DayData[]> {
+  try {
+    const index = await dayRepository(plantId).dateKeys();
+    if (index.length === 0) return [];
+    return await getDaysInRange(
+      index[0],
+      index[index.length - 1],
+      config,
+      plantId,
+    );
+  } catch {
+    return [];
+  }
+}
+
+// Saved days between two date keys (inclusive), oldest first. Reads the
+// active plant unless another is given.
+export async function getDaysInRange(
+  from: string,
+  to: string,
+  config: PlantConfig,
+  plantId?: string,
+): Promise<DayData[]> {
+  try {
+    const stored = await dayRepository(plantId).range(from, to);
+    return stored.map((d) => dayFromStored(d.dateKey, d.data, config));
+  } catch {
+    return [];
+  }
+}
+
+// The most recent saved days, oldest first.
+export async function getLatestDays(
+  limit: number,
+  config: PlantConfig,
+  filter: DayFilter = {},
+): Promise<DayData[]> {
+  try {
+    const stored = await dayRepository().latest(limit, filter);
+    return stored.map((d) => dayFromStored(d.dateKey, d.data, config));
+  } catch {
+    return [];
+  }
+}
+
+function dayTotals(stored: StoredDay, config: PlantConfig): DayTotals {
+  const day = dayFromStored(stored.dateKey, stored.data, config);
+  return {
+    productionMwh: turbineProductionMwh(day, config),
+    exportMwh: feederExport(day, config),
+  };
+}
+
+// Production and export per month, newest first.
+export async function getMonthlyTotals(
+  config: PlantConfig,
+  filter: DayFilter = {},
+): Promise<MonthTotals[]> {
+  try {
+    const repository = dayRepository();
+    if (repository.monthlyTotals) {
+      return await repository.monthlyTotals(
+        (d) => dayTotals(d, config),
+        filter,
+      );
+    }
+    const index = await repository.dateKeys();
+    const stored =
+      index.length > 0
+        ? await repository.range(index[0], index[index.length - 1])
+        : [];
+    const months = new Map<string, MonthTotals>();
+    for (const d of stored) {
+      if (!matchesFilter(d.data, filter)) continue;
+      const month = monthKey(d.dateKey);
+      const totals = dayTotals(d, config);
+      const entry = months.get(month) ?? {
+        monthKey: month,
+        days: 0,
+        estimatedDays: 0,
+        productionMwh: 0,
+        exportMwh: 0,
+      };
+      entry.days += 1;
+      if (dayFromStored(d.dateKey, d.data, config).estimated) {
+        entry.estimatedDays += 1;
+      }
+      entry.productionMwh += totals.productionMwh;
+      entry.exportMwh += totals.exportMwh;
+      months.set(month, entry);
+    }
+    return [...months.values()].sort((a, b) =>
+      b.monthKey.localeCompare(a.monthKey),
+    );
+  } catch (error) {
+    console.error("Error loading monthly totals:", error);
+    return [];
+  }
+}
+
+// Cached totals are derived from the plant configuration (meter scaling,
+// commissioning dates) and must be recomputed when it changes.
+export async function invalidateDayTotals(): Promise<void> {
+  try {
+    await dayRepository().invalidateTotals?.();
+  } catch (error) {
+    console.error("Error invalidating day totals:", error);
+  }
+}
+
+// Removes a plant's days from this device, recycle bin included, other than
+// the dates kept. Their history is kept, as it is when a day is deleted.
+export async function removePlantDays(
+  plantId: string,
+  keep: string[] = [],
+): Promise<void> {
+  const repository = dayRepository(plantId);
+  for (const dateKey of await repository.dateKeys()) {
+    if (!keep.includes(dateKey)) await repository.remove(dateKey);
+  }
+  for (const { dateKey } of await repository.deleted()) {
+    if (!keep.includes(dateKey)) await repository.purge(dateKey);
+  }
+}
+
 export async function getSettings(): Promise<UserSettings> {
   try {
     const raw = await AsyncStorage.getItem(SETTINGS_KEY);
-    const defaults: UserSettings = { displayName: "Engineer", decimalPrecision: 2 };
+    const defaults: UserSettings = {
+      displayName: "Engineer",
+      decimalPrecision: 2,
+    };
     return raw ? { ...defaults, ...JSON.parse(raw) } : defaults;
   } catch {
     return { displayName: "Engineer", decimalPrecision: 2 };
   }
 }
 
-export async function saveSettings(settings: Partial<UserSettings>): Promise<UserSettings> {
+export async function saveSettings(
+  settings: Partial<UserSettings>,
+): Promise<UserSettings> {
   try {
     const current = await getSettings();
     const updated = { ...current, ...settings };
@@ -232,22 +579,75 @@ export async function saveSettings(settings: Partial<UserSettings>): Promise<Use
   }
 }
 
-export function feederExport(day: DayData): number {
-  const total = FEEDERS.reduce((acc, f) => {
-    const start = num(day.feeders[f]?.start);
-    const end = num(day.feeders[f]?.end);
-    const diff = start - end;
-    return acc + diff;
-  }, 0);
-  return total;
+// A register of N digits wraps back to zero after 10^N - 1. A jump of more
+// than half the register between two readings is taken to be a wrap rather
+// than genuine movement, and is corrected by one full register span.
+export function registerDelta(
+  from: number,
+  to: number,
+  registerDigits?: number,
+): number {
+  const diff = to - from;
+  if (!registerDigits || registerDigits <= 0) return diff;
+  const span = Math.pow(10, registerDigits);
+  if (diff < -span / 2) return diff + span;
+  if (diff > span / 2) return diff - span;
+  return diff;
 }
 
-export function turbineProductionMwh(day: DayData): number {
-  return TURBINES.reduce((acc, t) => {
-    const prev = num(day.turbines[t]?.previous);
-    const pres = num(day.turbines[t]?.present);
-    return acc + (pres - prev);
-  }, 0);
+// Counter movement between the first and last reading of the day, split at
+// the replacement when the meter was swapped.
+export function counterAdvance(
+  first: string | undefined,
+  last: string | undefined,
+  meter: MeterConfig,
+  replacement?: MeterReplacement,
+): number {
+  const digits = meter.registerDigits;
+  if (!replacement) return registerDelta(num(first), num(last), digits);
+  return (
+    registerDelta(num(first), num(replacement.oldFinal), digits) +
+    registerDelta(num(replacement.newInitial), num(last), digits)
+  );
+}
+
+// Readings are kept as shown on the meter face; diff is the energy in MWh after
+// rollover, replacement and CT/PT scaling are applied.
+export interface FeederComputed {
+  start: number;
+  end: number;
+  diff: number;
+}
+
+export function feederRowComputed(
+  day: DayData,
+  feeder: MeterConfig,
+): FeederComputed {
+  const data = day.feeders[feeder.id];
+  const start = num(data?.start);
+  const end = num(data?.end);
+  const diff =
+    METER_DIRECTION.feeder *
+    counterAdvance(data?.start, data?.end, feeder, data?.replacement) *
+    meterScaleToMwh(feeder);
+  return { start, end, diff };
+}
+
+export function feederExport(day: DayData, config: PlantConfig): number {
+  return activeFeeders(config, day.dateKey).reduce(
+    (acc, feeder) => acc + feederRowComputed(day, feeder).diff,
+    0,
+  );
+}
+
+export function turbineProductionMwh(
+  day: DayData,
+  config: PlantConfig,
+): number {
+  return activeTurbines(config, day.dateKey).reduce(
+    (acc, turbine) => acc + turbineRowComputed(day, turbine).diff,
+    0,
+  );
 }
 
 export interface TurbineComputed {
@@ -258,34 +658,53 @@ export interface TurbineComputed {
   mwPerHr: number;
 }
 
-export function turbineRowComputed(day: DayData, t: string): TurbineComputed {
-  const prev = num(day.turbines[t]?.previous);
-  const pres = num(day.turbines[t]?.present);
-  const hours = Math.max(0.000001, num(day.turbines[t]?.hours || "24"));
-  const diff = pres - prev;
+export function turbineRowComputed(
+  day: DayData,
+  turbine: MeterConfig,
+): TurbineComputed {
+  const data = day.turbines[turbine.id];
+  const prev = num(data?.previous);
+  const pres = num(data?.present);
+  const hours = Math.max(0.000001, num(data?.hours || "24"));
+  const diff =
+    METER_DIRECTION.turbine *
+    counterAdvance(data?.previous, data?.present, turbine, data?.replacement) *
+    meterScaleToMwh(turbine);
   const mwPerHr = diff / hours;
   return { prev, pres, hours, diff, mwPerHr };
 }
 
-export function gasForTurbine(diffMwh: number, mwPerHr: number): number {
-  const p = diffMwh;
-  const r = mwPerHr;
-
-  if (r <= 3) return p * 1000;
-  if (r <= 5) return p * 700;
-  if (r <= 8) return p * 500;
-  return p * 420;
+export function gasForTurbine(
+  diffMwh: number,
+  mwPerHr: number,
+  curve: GasCurveShape,
+): number {
+  return diffMwh * gasRate(curve, mwPerHr);
 }
 
 export function m3ToMMscf(m3: number): number {
   return (m3 * 35.3146667) / 1_000_000;
 }
 
+// Exports and imports cover the active plant. The plant ID is recorded in
+// the export so a file can be traced back to its site.
 export async function exportAllData(): Promise<string> {
   try {
-    const days = await getAllDaysData();
+    const plantConfig = await getPlantConfig(activePlantId);
+    const days = await getAllDaysData(plantConfig);
     const settings = await getSettings();
-    return JSON.stringify({ days, settings, exportedAt: new Date().toISOString() }, null, 2);
+    return JSON.stringify(
+      {
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        plantId: activePlantId,
+        days,
+        settings,
+        plantConfig,
+        exportedAt: new Date().toISOString(),
+      },
+      null,
+      2,
+    );
   } catch {
     return "{}";
   }
@@ -294,9 +713,19 @@ export async function exportAllData(): Promise<string> {
 export async function importData(jsonString: string): Promise<boolean> {
   try {
     const data = JSON.parse(jsonString);
+    if (data.plantConfig) {
+      await savePlantConfig(data.plantConfig, activePlantId);
+    }
     if (data.days && Array.isArray(data.days)) {
+      // Backups may predate the current schema; normalize each record the
+      // same way the storage migrations do.
+      const config = await getPlantConfig(activePlantId);
       for (const day of data.days) {
-        await saveDayData(day);
+        if (typeof day?.dateKey !== "string") continue;
+        const normalized = normalizeDayRecord(day, day.dateKey);
+        if (normalized) {
+          await saveDayData(dayFromStored(day.dateKey, normalized, config));
+        }
       }
     }
     if (data.settings) {
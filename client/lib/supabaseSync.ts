@@ -1,106 +1,367 @@
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
 import { supabase } from "./supabase";
 import {
   DayData,
   FeederData,
   TurbineData,
+  MeterReplacement,
+  IntervalReading,
+  ReadingFlag,
   UserSettings,
-  FEEDERS,
-  TURBINES,
   defaultDay,
 } from "./storage";
+import { PlantConfig, activeFeeders, activeTurbines } from "./plantConfig";
+import { MonthFigures, calculationDefinition } from "./dayFigures";
+import { isReadingQuality, withReadingFlag } from "./readingFlags";
+import type { DayRevision, FieldChange } from "./dayHistory";
+import type { DayStatus } from "./dayApproval";
+import type { MonthClosure, MonthSnapshot } from "./monthClosing";
+import {
+  type Plant,
+  type PlantMember,
+  type PlantRole,
+  isPlantRole,
+} from "./plantWorkspace";
 
-export async function syncDayToSupabase(
-  userId: string,
-  day: DayData
-): Promise<boolean> {
-  try {
-    const { data: existingDay, error: fetchError } = await supabase
-      .from("daily_data")
-      .select("id")
-      .eq("user_id", userId)
-      .eq("date_key", day.dateKey)
-      .single();
+// Plant data is shared by the plant's members; userId records who wrote it.
+export interface SyncScope {
+  userId: string;
+  plantId: string;
+}
 
-    let dailyDataId: string;
+// Day-level columns of daily_data beyond the owner and the date.
+const DAY_COLUMNS =
+  "crew, estimated, status, approved_by, approved_by_name, approved_at, revision, updated_at, deleted_at";
 
-    if (fetchError && fetchError.code === "PGRST116") {
-      const { data: newDay, error: insertError } = await supabase
-        .from("daily_data")
-        .insert({ user_id: userId, date_key: day.dateKey })
-        .select("id")
-        .single();
+interface DayColumns {
+  crew: string | null;
+  estimated: boolean | null;
+  status: DayStatus | null;
+  approved_by: string | null;
+  approved_by_name: string | null;
+  approved_at: string | null;
+}
 
-      if (insertError || !newDay) {
-        console.error("Error creating daily_data:", insertError);
-        return false;
-      }
-      dailyDataId = newDay.id;
-    } else if (fetchError) {
-      console.error("Error fetching daily_data:", fetchError);
-      return false;
-    } else {
-      dailyDataId = existingDay.id;
-    }
+function dayToColumns(day: DayData): DayColumns {
+  return {
+    crew: day.crew ?? null,
+    estimated: day.estimated ?? false,
+    status: day.status ?? "draft",
+    approved_by: day.approval?.userId ?? null,
+    approved_by_name: day.approval?.name ?? null,
+    approved_at: day.approval?.at ?? null,
+  };
+}
 
-    for (const feederName of FEEDERS) {
-      const feeder = day.feeders[feederName] || { start: "", end: "" };
-      const { error } = await supabase
-        .from("feeders")
-        .upsert(
-          {
-            daily_data_id: dailyDataId,
-            feeder_name: feederName,
-            start_reading: feeder.start,
-            end_reading: feeder.end,
-          },
-          { onConflict: "daily_data_id,feeder_name" }
-        );
-
-      if (error) {
-        console.error(`Error upserting feeder ${feederName}:`, error);
-      }
-    }
+// revision and updated_at are set by the database on every update, never
+// written; deleted_at is written by sync_days.
+function dayFromColumns(
+  row: DayColumns & {
+    revision?: number | null;
+    updated_at?: string | null;
+    deleted_at?: string | null;
+  },
+): Pick<
+  DayData,
+  | "crew"
+  | "estimated"
+  | "status"
+  | "approval"
+  | "remoteRevision"
+  | "updatedAt"
+  | "deletedAt"
+> {
+  const status = row.status && row.status !== "draft" ? row.status : undefined;
+  return {
+    remoteRevision: row.revision ?? undefined,
+    updatedAt: row.updated_at
+      ? new Date(row.updated_at).toISOString()
+      : undefined,
+    deletedAt: row.deleted_at
+      ? new Date(row.deleted_at).toISOString()
+      : undefined,
+    crew: row.crew || undefined,
+    estimated: row.estimated || undefined,
+    status,
+    approval:
+      status === "approved" && row.approved_at
+        ? {
+            userId: row.approved_by,
+            name: row.approved_by_name ?? undefined,
+            at: new Date(row.approved_at).toISOString(),
+          }
+        : undefined,
+  };
+}
 
-    for (const turbineName of TURBINES) {
-      const turbine = day.turbines[turbineName] || {
-        previous: "",
-        present: "",
-        hours: "24",
-      };
-      const { error } = await supabase
-        .from("turbines")
-        .upsert(
-          {
-            daily_data_id: dailyDataId,
-            turbine_name: turbineName,
-            previous_reading: turbine.previous,
-            present_reading: turbine.present,
-            hours: turbine.hours,
-          },
-          { onConflict: "daily_data_id,turbine_name" }
-        );
-
-      if (error) {
-        console.error(`Error upserting turbine ${turbineName}:`, error);
-      }
+// Columns shared by the feeders and turbines tables beyond the two readings.
+interface MeterDetailColumns {
+  replacement_old_final: string | null;
+  replacement_new_initial: string | null;
+  replacement_time: string | null;
+  readings: IntervalReading[] | null;
+}
+
+function detailToColumns(data: {
+  replacement?: MeterReplacement;
+  readings?: IntervalReading[];
+}): MeterDetailColumns {
+  return {
+    replacement_old_final: data.replacement?.oldFinal ?? null,
+    replacement_new_initial: data.replacement?.newInitial ?? null,
+    replacement_time: data.replacement?.time ?? null,
+    readings: data.readings ?? [],
+  };
+}
+
+function detailFromColumns(row?: MeterDetailColumns | null): {
+  replacement?: MeterReplacement;
+  readings?: IntervalReading[];
+} {
+  if (!row) return {};
+  const readings =
+    Array.isArray(row.readings) && row.readings.length > 0
+      ? row.readings
+      : undefined;
+  if (row.replacement_old_final == null) return { readings };
+  return {
+    replacement: {
+      oldFinal: row.replacement_old_final,
+      newInitial: row.replacement_new_initial || "",
+      time: row.replacement_time || undefined,
+    },
+    readings,
+  };
+}
+
+// Each reading has a <field>_quality and <field>_quality_reason column pair,
+// both NULL for a reading taken from the meter.
+function flagToColumns(
+  field: string,
+  flag?: ReadingFlag,
+): Record<string, string | null> {
+  return {
+    [`${field}_quality`]: flag?.quality ?? null,
+    [`${field}_quality_reason`]: flag?.reason ?? null,
+  };
+}
+
+function flagFromColumns(
+  quality: string | null | undefined,
+  reason: string | null | undefined,
+): ReadingFlag | undefined {
+  if (!isReadingQuality(quality) || quality === "measured") return undefined;
+  return reason ? { quality, reason } : { quality };
+}
+
+function flagsFromColumns<F extends string>(
+  entries: [F, ReadingFlag | undefined][],
+): Partial<Record<F, ReadingFlag>> | undefined {
+  return entries.reduce<Partial<Record<F, ReadingFlag>> | undefined>(
+    (flags, [field, flag]) =>
+      flag ? withReadingFlag(flags, field, flag) : flags,
+    undefined,
+  );
+}
+
+const DETAIL_COLUMNS =
+  "replacement_old_final, replacement_new_initial, replacement_time, readings";
+const FEEDER_COLUMNS = `feeder_name, start_reading, end_reading, start_quality, start_quality_reason, end_quality, end_quality_reason, ${DETAIL_COLUMNS}`;
+const TURBINE_COLUMNS = `turbine_name, previous_reading, present_reading, hours, previous_quality, previous_quality_reason, present_quality, present_quality_reason, ${DETAIL_COLUMNS}`;
+
+interface FeederRow extends MeterDetailColumns {
+  feeder_name: string;
+  start_reading: string | null;
+  end_reading: string | null;
+  start_quality: string | null;
+  start_quality_reason: string | null;
+  end_quality: string | null;
+  end_quality_reason: string | null;
+}
+
+interface TurbineRow extends MeterDetailColumns {
+  turbine_name: string;
+  previous_reading: string | null;
+  present_reading: string | null;
+  hours: string | null;
+  previous_quality: string | null;
+  previous_quality_reason: string | null;
+  present_quality: string | null;
+  present_quality_reason: string | null;
+}
+
+function dayFromRows(
+  dateKey: string,
+  feedersData: FeederRow[] | null,
+  turbinesData: TurbineRow[] | null,
+  config: PlantConfig,
+): DayData {
+  const feeders: Record<string, FeederData> = {};
+  for (const { id: f } of activeFeeders(config, dateKey)) {
+    const found = feedersData?.find((fd) => fd.feeder_name === f);
+    const flags = flagsFromColumns([
+      [
+        "start",
+        flagFromColumns(found?.start_quality, found?.start_quality_reason),
+      ],
+      ["end", flagFromColumns(found?.end_quality, found?.end_quality_reason)],
+    ]);
+    feeders[f] = {
+      start: found?.start_reading || "",
+      end: found?.end_reading || "",
+      ...detailFromColumns(found),
+      ...(flags ? { flags } : {}),
+    };
+  }
+
+  const turbines: Record<string, TurbineData> = {};
+  for (const { id: t } of activeTurbines(config, dateKey)) {
+    const found = turbinesData?.find((td) => td.turbine_name === t);
+    const flags = flagsFromColumns([
+      [
+        "previous",
+        flagFromColumns(
+          found?.previous_quality,
+          found?.previous_quality_reason,
+        ),
+      ],
+      [
+        "present",
+        flagFromColumns(found?.present_quality, found?.present_quality_reason),
+      ],
+    ]);
+    turbines[t] = {
+      previous: found?.previous_reading || "",
+      present: found?.present_reading || "",
+      hours: found?.hours || "24",
+      ...detailFromColumns(found),
+      ...(flags ? { flags } : {}),
+    };
+  }
+
+  return {
+    dateKey,
+    feeders,
+    turbines,
+  };
+}
+
+// How a push went. The revision is the day's revision in Supabase after the
+// push.
+export type DaySyncResult =
+  | { status: "synced"; revision: number }
+  | { status: "conflict" }
+  | { status: "failed" };
+
+// Days pushed per call of sync_days.
+export const SYNC_BATCH_SIZE = 50;
+
+function feederToColumns(feederName: string, feeder: FeederData) {
+  return {
+    feeder_name: feederName,
+    start_reading: feeder.start,
+    end_reading: feeder.end,
+    ...flagToColumns("start", feeder.flags?.start),
+    ...flagToColumns("end", feeder.flags?.end),
+    ...detailToColumns(feeder),
+  };
+}
+
+function turbineToColumns(turbineName: string, turbine: TurbineData) {
+  return {
+    turbine_name: turbineName,
+    previous_reading: turbine.previous,
+    present_reading: turbine.present,
+    hours: turbine.hours,
+    ...flagToColumns("previous", turbine.flags?.previous),
+    ...flagToColumns("present", turbine.flags?.present),
+    ...detailToColumns(turbine),
+  };
+}
+
+// A day as sync_days takes it: the daily_data columns, the revision the day
+// is based on, and its feeders and turbines rows. A deleted day carries when
+// it was deleted.
+function dayToPayload(day: DayData, config: PlantConfig) {
+  return {
+    date_key: day.dateKey,
+    base_revision: day.remoteRevision ?? null,
+    deleted_at: day.deletedAt ?? null,
+    ...dayToColumns(day),
+    feeders: activeFeeders(config, day.dateKey).map(({ id }) =>
+      feederToColumns(id, day.feeders[id] || { start: "", end: "" }),
+    ),
+    turbines: activeTurbines(config, day.dateKey).map(({ id }) =>
+      turbineToColumns(
+        id,
+        day.turbines[id] || { previous: "", present: "", hours: "24" },
+      ),
+    ),
+  };
+}
+
+interface SyncDaysRow {
+  date_key: string;
+  status: "synced" | "conflict" | "failed";
+  revision?: number;
+  error?: string;
+}
+
+// Pushes days with one sync_days call, which writes each day in full or not
+// at all. A day is not written if someone else changed it in Supabase since
+// the revision it is based on (day.remoteRevision); it is reported as a
+// conflict instead. A day never pushed conflicts with any existing row for
+// its date that is not deleted. Deleted days (with deletedAt set) are
+// deleted in Supabase. Results are in the order of the days.
+export async function syncDaysToSupabase(
+  scope: SyncScope,
+  days: DayData[],
+  config: PlantConfig,
+): Promise<DaySyncResult[]> {
+  const failed = days.map((): DaySyncResult => ({ status: "failed" }));
+  if (days.length === 0) return [];
+  try {
+    const { data, error } = await supabase.rpc("sync_days", {
+      target_plant: scope.plantId,
+      days: days.map((day) => dayToPayload(day, config)),
+    });
+
+    if (error || !Array.isArray(data)) {
+      console.error("Error syncing days:", error);
+      return failed;
     }
 
-    return true;
+    const rows = new Map(
+      (data as SyncDaysRow[]).map((row) => [row.date_key, row]),
+    );
+    return days.map((day): DaySyncResult => {
+      const row = rows.get(day.dateKey);
+      if (row?.status === "synced" && row.revision !== undefined) {
+        return { status: "synced", revision: row.revision };
+      }
+      if (row?.status === "conflict") return { status: "conflict" };
+      console.error(`Error syncing day ${day.dateKey}:`, row?.error);
+      return { status: "failed" };
+    });
   } catch (error) {
-    console.error("Error syncing day to Supabase:", error);
-    return false;
+    console.error("Error syncing days to Supabase:", error);
+    return failed;
   }
 }
 
+// The day as in Supabase, with deletedAt set if it was deleted there, or null
+// if Supabase does not have it or could not be read, including when only its
+// feeders or turbines could not: blank readings would pass for real ones.
 export async function fetchDayFromSupabase(
-  userId: string,
-  dateKey: string
+  plantId: string,
+  dateKey: string,
+  config: PlantConfig,
 ): Promise<DayData | null> {
   try {
     const { data: dailyData, error: dayError } = await supabase
       .from("daily_data")
-      .select("id")
-      .eq("user_id", userId)
+      .select(`id, ${DAY_COLUMNS}`)
+      .eq("plant_id", plantId)
       .eq("date_key", dateKey)
       .single();
 
@@ -114,45 +375,27 @@ export async function fetchDayFromSupabase(
 
     const { data: feedersData, error: feedersError } = await supabase
       .from("feeders")
-      .select("feeder_name, start_reading, end_reading")
+      .select(FEEDER_COLUMNS)
       .eq("daily_data_id", dailyData.id);
 
     if (feedersError) {
       console.error("Error fetching feeders:", feedersError);
+      return null;
     }
 
     const { data: turbinesData, error: turbinesError } = await supabase
       .from("turbines")
-      .select("turbine_name, previous_reading, present_reading, hours")
+      .select(TURBINE_COLUMNS)
       .eq("daily_data_id", dailyData.id);
 
     if (turbinesError) {
       console.error("Error fetching turbines:", turbinesError);
-    }
-
-    const feeders: Record<string, FeederData> = {};
-    for (const f of FEEDERS) {
-      const found = feedersData?.find((fd) => fd.feeder_name === f);
-      feeders[f] = {
-        start: found?.start_reading || "",
-        end: found?.end_reading || "",
-      };
-    }
-
-    const turbines: Record<string, TurbineData> = {};
-    for (const t of TURBINES) {
-      const found = turbinesData?.find((td) => td.turbine_name === t);
-      turbines[t] = {
-        previous: found?.previous_reading || "",
-        present: found?.present_reading || "",
-        hours: found?.hours || "24",
-      };
+      return null;
     }
 
     return {
-      dateKey,
-      feeders,
-      turbines,
+      ...dayFromRows(dateKey, feedersData, turbinesData, config),
+      ...dayFromColumns(dailyData),
     };
   } catch (error) {
     console.error("Error fetching day from Supabase:", error);
@@ -160,30 +403,218 @@ export async function fetchDayFromSupabase(
   }
 }
 
+// A day in Supabase as listed by fetchAllDaysFromSupabase, without its
+// readings.
+export interface RemoteDayStamp {
+  dateKey: string;
+  revision: number;
+  updatedAt: string;
+  deletedAt?: string;
+}
+
+// Rows per request; PostgREST caps responses at 1000 rows by default.
+const PAGE_SIZE = 1000;
+
+// Every day of the plant in Supabase, deleted ones included, oldest first,
+// or null when they could not be listed.
 export async function fetchAllDaysFromSupabase(
-  userId: string
-): Promise<string[]> {
+  plantId: string,
+): Promise<RemoteDayStamp[] | null> {
   try {
-    const { data, error } = await supabase
+    const stamps: RemoteDayStamp[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("daily_data")
+        .select("date_key, revision, updated_at, deleted_at")
+        .eq("plant_id", plantId)
+        .order("date_key", { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error || !data) {
+        console.error("Error fetching all days:", error);
+        return null;
+      }
+
+      for (const d of data) {
+        stamps.push({
+          dateKey: d.date_key,
+          revision: d.revision,
+          updatedAt: new Date(d.updated_at).toISOString(),
+          deletedAt: d.deleted_at
+            ? new Date(d.deleted_at).toISOString()
+            : undefined,
+        });
+      }
+      if (data.length < PAGE_SIZE) return stamps;
+    }
+  } catch (error) {
+    console.error("Error fetching all days from Supabase:", error);
+    return null;
+  }
+}
+
+type DailyDataRow = DayColumns & {
+  id: string;
+  date_key: string;
+  revision: number;
+  updated_at: string;
+  deleted_at: string | null;
+};
+
+// The days of the given daily_data rows with their readings, fetched with one
+// query per table.
+async function daysWithMeters(
+  dailyData: DailyDataRow[],
+  config: PlantConfig,
+): Promise<DayData[] | null> {
+  if (dailyData.length === 0) return [];
+
+  const ids = dailyData.map((d) => d.id);
+  const [feedersResult, turbinesResult] = await Promise.all([
+    supabase
+      .from("feeders")
+      .select(`daily_data_id, ${FEEDER_COLUMNS}`)
+      .in("daily_data_id", ids),
+    supabase
+      .from("turbines")
+      .select(`daily_data_id, ${TURBINE_COLUMNS}`)
+      .in("daily_data_id", ids),
+  ]);
+
+  if (feedersResult.error || turbinesResult.error) {
+    console.error(
+      "Error fetching meters:",
+      feedersResult.error ?? turbinesResult.error,
+    );
+    return null;
+  }
+
+  const feeders = (feedersResult.data ?? []) as (FeederRow & {
+    daily_data_id: string;
+  })[];
+  const turbines = (turbinesResult.data ?? []) as (TurbineRow & {
+    daily_data_id: string;
+  })[];
+
+  return dailyData.map((day) => ({
+    ...dayFromRows(
+      day.date_key,
+      feeders.filter((f) => f.daily_data_id === day.id),
+      turbines.filter((t) => t.daily_data_id === day.id),
+      config,
+    ),
+    ...dayFromColumns(day),
+  }));
+}
+
+// A plant's days between two date keys (inclusive), oldest first, leaving
+// out deleted days. Null when they could not be fetched.
+export async function fetchDaysInRangeFromSupabase(
+  plantId: string,
+  from: string,
+  to: string,
+  config: PlantConfig,
+): Promise<DayData[] | null> {
+  try {
+    const { data: dailyData, error } = await supabase
       .from("daily_data")
-      .select("date_key")
-      .eq("user_id", userId)
+      .select(`id, date_key, ${DAY_COLUMNS}`)
+      .eq("plant_id", plantId)
+      .gte("date_key", from)
+      .lte("date_key", to)
+      .is("deleted_at", null)
       .order("date_key", { ascending: true });
 
-    if (error) {
-      console.error("Error fetching all days:", error);
-      return [];
+    if (error || !dailyData) {
+      console.error("Error fetching days:", error);
+      return null;
     }
+    return await daysWithMeters(dailyData, config);
+  } catch (error) {
+    console.error("Error fetching days from Supabase:", error);
+    return null;
+  }
+}
 
-    return data.map((d) => d.date_key);
+// The plant's days with the given date keys that are in Supabase, oldest
+// first, with deletedAt set on deleted ones. Null when they could not be
+// fetched.
+export async function fetchDaysFromSupabase(
+  plantId: string,
+  dateKeys: string[],
+  config: PlantConfig,
+): Promise<DayData[] | null> {
+  if (dateKeys.length === 0) return [];
+  try {
+    const { data: dailyData, error } = await supabase
+      .from("daily_data")
+      .select(`id, date_key, ${DAY_COLUMNS}`)
+      .eq("plant_id", plantId)
+      .in("date_key", dateKeys)
+      .order("date_key", { ascending: true });
+
+    if (error || !dailyData) {
+      console.error("Error fetching days:", error);
+      return null;
+    }
+    return await daysWithMeters(dailyData, config);
   } catch (error) {
-    console.error("Error fetching all days from Supabase:", error);
-    return [];
+    console.error("Error fetching days from Supabase:", error);
+    return null;
   }
 }
 
+// A change to one of a plant's days reported by Supabase Realtime.
+export interface RemoteDayEvent {
+  dateKey: string;
+  userId?: string;
+  deleted: boolean;
+}
+
+interface DayEventRow {
+  date_key?: string;
+  user_id?: string;
+}
+
+// Listens for changes to the plant's daily_data rows. sync_days writes a
+// day's readings in the same transaction as its row, so a change to the row
+// stands for the whole day and the readings are fetched with it. Returns a
+// function that stops listening.
+export function subscribeToPlantDays(
+  plantId: string,
+  onEvent: (event: RemoteDayEvent) => void,
+): () => void {
+  const channel = supabase
+    .channel(`plant-days:${plantId}`)
+    .on(
+      "postgres_changes",
+      {
+        event: "*",
+        schema: "public",
+        table: "daily_data",
+        filter: `plant_id=eq.${plantId}`,
+      },
+      (payload: RealtimePostgresChangesPayload<DayEventRow>) => {
+        const row = (
+          payload.eventType === "DELETE" ? payload.old : payload.new
+        ) as DayEventRow;
+        if (!row.date_key) return;
+        onEvent({
+          dateKey: row.date_key,
+          userId: row.user_id,
+          deleted: payload.eventType === "DELETE",
+        });
+      },
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
 export async function fetchUserProfile(
-  userId: string
+  userId: string,
 ): Promise<UserSettings | null> {
   try {
     const { data, error } = await supabase
@@ -209,7 +640,7 @@ export async function fetchUserProfile(
 
 export async function updateUserProfile(
   userId: string,
-  settings: Partial<UserSettings>
+  settings: Partial<UserSettings>,
 ): Promise<boolean> {
   try {
     const updates: Record<string, unknown> = {};
@@ -237,14 +668,20 @@ export async function updateUserProfile(
   }
 }
 
+// Pushes days in batches, reporting how many have been pushed so far after
+// each batch, and resolves with the number synced.
 export async function syncLocalDataToSupabase(
-  userId: string,
-  localDays: DayData[]
+  scope: SyncScope,
+  localDays: DayData[],
+  config: PlantConfig,
+  onProgress?: (done: number, total: number) => void,
 ): Promise<number> {
   let synced = 0;
-  for (const day of localDays) {
-    const success = await syncDayToSupabase(userId, day);
-    if (success) synced++;
+  for (let i = 0; i < localDays.length; i += SYNC_BATCH_SIZE) {
+    const batch = localDays.slice(i, i + SYNC_BATCH_SIZE);
+    const results = await syncDaysToSupabase(scope, batch, config);
+    synced += results.filter((r) => r.status === "synced").length;
+    onProgress?.(i + batch.length, localDays.length);
   }
   return synced;
 }
@@ -255,115 +692,487 @@ export interface DaySummary {
   production: number;
   exportVal: number;
   consumption: number;
+  crew?: string;
+  estimated?: boolean;
+  status?: DayStatus;
 }
 
+interface DayFiguresRow extends DayColumns {
+  id: string;
+  date_key: string;
+  production_mwh: number;
+  export_mwh: number;
+  consumption_mwh: number;
+}
+
+// The month's days with their figures, newest first, computed in Supabase by
+// day_figures with one call.
 export async function fetchMonthDaysFromSupabase(
-  userId: string,
-  monthKey: string
+  plantId: string,
+  monthKey: string,
+  config: PlantConfig,
 ): Promise<DaySummary[]> {
   try {
-    const [year, month] = monthKey.split("-").map(Number);
-    const monthStart = `${year}-${String(month).padStart(2, "0")}-01`;
-    const nextMonth = month === 12 ? 1 : month + 1;
-    const nextYear = month === 12 ? year + 1 : year;
-    const nextMonthStart = `${nextYear}-${String(nextMonth).padStart(2, "0")}-01`;
+    const { data, error } = await supabase.rpc("day_figures", {
+      target_plant: plantId,
+      from_key: `${monthKey}-01`,
+      to_key: `${monthKey}-31`,
+      definition: calculationDefinition(config),
+    });
 
-    const { data: dailyData, error } = await supabase
-      .from("daily_data")
-      .select("id, date_key")
-      .eq("user_id", userId)
-      .gte("date_key", monthStart)
-      .lt("date_key", nextMonthStart)
-      .order("date_key", { ascending: false });
-
-    if (error || !dailyData) {
+    if (error || !data) {
       console.error("Error fetching month days:", error);
       return [];
     }
 
-    const summaries: DaySummary[] = [];
+    return (data as DayFiguresRow[]).map((row) => {
+      const { crew, estimated, status } = dayFromColumns(row);
+      return {
+        id: row.id,
+        dateKey: row.date_key,
+        production: row.production_mwh,
+        exportVal: row.export_mwh,
+        consumption: row.consumption_mwh,
+        crew,
+        estimated,
+        status,
+      };
+    });
+  } catch (error) {
+    console.error("Error fetching month days:", error);
+    return [];
+  }
+}
 
-    for (const day of dailyData) {
-      const { data: feedersData } = await supabase
-        .from("feeders")
-        .select("start_reading, end_reading")
-        .eq("daily_data_id", day.id);
+interface MonthFiguresRow {
+  month_key: string;
+  days: number;
+  estimated_days: number;
+  production_mwh: number;
+  export_mwh: number;
+  withdrawal_mwh: number;
+  consumption_mwh: number;
+  gas_m3: number;
+}
 
-      const { data: turbinesData } = await supabase
-        .from("turbines")
-        .select("previous_reading, present_reading")
-        .eq("daily_data_id", day.id);
+// A month's figures computed in Supabase by month_figures, or null when they
+// could not be fetched. A month without days has zero figures.
+export async function fetchMonthFiguresFromSupabase(
+  plantId: string,
+  monthKey: string,
+  config: PlantConfig,
+): Promise<MonthFigures | null> {
+  try {
+    const { data, error } = await supabase.rpc("month_figures", {
+      target_plant: plantId,
+      from_key: `${monthKey}-01`,
+      to_key: `${monthKey}-31`,
+      definition: calculationDefinition(config),
+    });
 
-      let production = 0;
-      let exportVal = 0;
+    if (error || !data) {
+      console.error("Error fetching month figures:", error);
+      return null;
+    }
 
-      if (turbinesData) {
-        for (const t of turbinesData) {
-          const prev = parseFloat(t.previous_reading) || 0;
-          const pres = parseFloat(t.present_reading) || 0;
-          production += (pres - prev) / 1000;
-        }
-      }
+    const row = (data as MonthFiguresRow[]).find(
+      (m) => m.month_key === monthKey,
+    );
+    return {
+      monthKey,
+      days: row?.days ?? 0,
+      estimatedDays: row?.estimated_days ?? 0,
+      productionMwh: row?.production_mwh ?? 0,
+      exportMwh: row?.export_mwh ?? 0,
+      withdrawalMwh: row?.withdrawal_mwh ?? 0,
+      consumptionMwh: row?.consumption_mwh ?? 0,
+      gasM3: row?.gas_m3 ?? 0,
+    };
+  } catch (error) {
+    console.error("Error fetching month figures:", error);
+    return null;
+  }
+}
 
-      if (feedersData) {
-        for (const f of feedersData) {
-          const start = parseFloat(f.start_reading) || 0;
-          const end = parseFloat(f.end_reading) || 0;
-          exportVal += (end - start) / 1000;
-        }
-      }
+// Deletes deleted days of the plant for good, with their readings. Days not
+// deleted in Supabase are left alone. Only supervisors may purge days.
+export async function purgeDaysFromSupabase(
+  plantId: string,
+  dateKeys: string[],
+): Promise<boolean> {
+  if (dateKeys.length === 0) return true;
+  try {
+    const { error } = await supabase
+      .from("daily_data")
+      .delete()
+      .eq("plant_id", plantId)
+      .in("date_key", dateKeys)
+      .not("deleted_at", "is", null);
 
-      summaries.push({
-        id: day.id,
-        dateKey: day.date_key,
-        production,
-        exportVal,
-        consumption: production - exportVal,
-      });
+    if (error) {
+      console.error("Error purging days:", error);
+      return false;
     }
-
-    return summaries;
+    return true;
   } catch (error) {
-    console.error("Error fetching month days:", error);
-    return [];
+    console.error("Error purging days:", error);
+    return false;
   }
 }
 
-export async function deleteDayFromSupabase(dayId: string): Promise<boolean> {
+// Deletes for good the plant's days deleted before the given time.
+export async function purgeDaysDeletedBeforeFromSupabase(
+  plantId: string,
+  before: string,
+): Promise<boolean> {
   try {
-    const { error: feedersError } = await supabase
-      .from("feeders")
+    const { error } = await supabase
+      .from("daily_data")
       .delete()
-      .eq("daily_data_id", dayId);
+      .eq("plant_id", plantId)
+      .lt("deleted_at", before);
 
-    if (feedersError) {
-      console.error("Error deleting feeders:", feedersError);
+    if (error) {
+      console.error("Error purging expired days:", error);
       return false;
     }
+    return true;
+  } catch (error) {
+    console.error("Error purging expired days:", error);
+    return false;
+  }
+}
 
-    const { error: turbinesError } = await supabase
-      .from("turbines")
-      .delete()
-      .eq("daily_data_id", dayId);
+interface DayRevisionRow {
+  id: string;
+  user_id: string;
+  date_key: string;
+  changes: FieldChange[];
+  snapshot: DayData;
+  author_name: string | null;
+  device_id: string;
+  revert_of: string | null;
+  note: string | null;
+  created_at: string;
+}
 
-    if (turbinesError) {
-      console.error("Error deleting turbines:", turbinesError);
+// Inserts revisions in one call. Revisions already in Supabase, e.g. from an
+// earlier attempt whose response was lost, are skipped.
+export async function insertDayRevisionsToSupabase(
+  scope: SyncScope,
+  revisions: DayRevision[],
+): Promise<boolean> {
+  if (revisions.length === 0) return true;
+  try {
+    const { error } = await supabase.from("day_revisions").upsert(
+      revisions.map((revision) => ({
+        id: revision.id,
+        plant_id: scope.plantId,
+        user_id: scope.userId,
+        date_key: revision.dateKey,
+        changes: revision.changes,
+        snapshot: revision.snapshot,
+        author_name: revision.authorName ?? null,
+        device_id: revision.deviceId,
+        revert_of: revision.revertOf ?? null,
+        note: revision.note ?? null,
+        created_at: revision.createdAt,
+      })),
+      { onConflict: "id", ignoreDuplicates: true },
+    );
+
+    if (error) {
+      console.error("Error inserting day revisions:", error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error("Error inserting day revisions:", error);
+    return false;
+  }
+}
+
+export async function fetchDayRevisionsFromSupabase(
+  plantId: string,
+  dateKey: string,
+): Promise<DayRevision[]> {
+  try {
+    const { data, error } = await supabase
+      .from("day_revisions")
+      .select(
+        "id, user_id, date_key, changes, snapshot, author_name, device_id, revert_of, note, created_at",
+      )
+      .eq("plant_id", plantId)
+      .eq("date_key", dateKey)
+      .order("created_at", { ascending: true });
+
+    if (error || !data) {
+      if (error) console.error("Error fetching day revisions:", error);
+      return [];
+    }
+
+    return (data as DayRevisionRow[]).map((row) => ({
+      id: row.id,
+      dateKey: row.date_key,
+      changes: row.changes ?? [],
+      snapshot: row.snapshot,
+      userId: row.user_id,
+      authorName: row.author_name ?? undefined,
+      deviceId: row.device_id,
+      revertOf: row.revert_of ?? undefined,
+      note: row.note ?? undefined,
+      createdAt: new Date(row.created_at).toISOString(),
+    }));
+  } catch (error) {
+    console.error("Error fetching day revisions:", error);
+    return [];
+  }
+}
+
+interface MonthClosureRow {
+  month_key: string;
+  closed_at: string;
+  closed_by: string | null;
+  closed_by_name: string | null;
+  snapshot: MonthSnapshot;
+}
+
+export async function upsertMonthClosureToSupabase(
+  plantId: string,
+  closure: MonthClosure,
+): Promise<boolean> {
+  try {
+    const { error } = await supabase.from("month_closures").upsert(
+      {
+        plant_id: plantId,
+        month_key: closure.monthKey,
+        closed_at: closure.closedAt,
+        closed_by: closure.closedBy.userId,
+        closed_by_name: closure.closedBy.name ?? null,
+        snapshot: closure.snapshot,
+      },
+      { onConflict: "plant_id,month_key" },
+    );
+
+    if (error) {
+      console.error("Error saving month closure:", error);
       return false;
     }
+    return true;
+  } catch (error) {
+    console.error("Error saving month closure:", error);
+    return false;
+  }
+}
 
-    const { error: dayError } = await supabase
-      .from("daily_data")
+// Null when the closures could not be fetched, as opposed to none existing.
+export async function fetchMonthClosuresFromSupabase(
+  plantId: string,
+): Promise<MonthClosure[] | null> {
+  try {
+    const { data, error } = await supabase
+      .from("month_closures")
+      .select("month_key, closed_at, closed_by, closed_by_name, snapshot")
+      .eq("plant_id", plantId);
+
+    if (error || !data) {
+      if (error) console.error("Error fetching month closures:", error);
+      return null;
+    }
+
+    return (data as MonthClosureRow[]).map((row) => ({
+      monthKey: row.month_key,
+      closedAt: new Date(row.closed_at).toISOString(),
+      closedBy: {
+        userId: row.closed_by,
+        name: row.closed_by_name ?? undefined,
+      },
+      snapshot: row.snapshot,
+    }));
+  } catch (error) {
+    console.error("Error fetching month closures:", error);
+    return null;
+  }
+}
+
+export async function deleteMonthClosureFromSupabase(
+  plantId: string,
+  monthKey: string,
+): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from("month_closures")
       .delete()
-      .eq("id", dayId);
+      .eq("plant_id", plantId)
+      .eq("month_key", monthKey);
 
-    if (dayError) {
-      console.error("Error deleting daily_data:", dayError);
+    if (error) {
+      console.error("Error reopening month:", error);
       return false;
     }
+    return true;
+  } catch (error) {
+    console.error("Error reopening month:", error);
+    return false;
+  }
+}
+
+interface PlantRow {
+  id: string;
+  name: string;
+  join_code: string;
+}
+
+function isPlantRow(value: unknown): value is PlantRow {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "id" in value &&
+    typeof value.id === "string" &&
+    "name" in value &&
+    typeof value.name === "string" &&
+    "join_code" in value &&
+    typeof value.join_code === "string"
+  );
+}
+
+// The plants the user is a member of, with their role in each. Null when
+// the plants could not be fetched.
+export async function fetchPlantsFromSupabase(
+  userId: string,
+): Promise<Plant[] | null> {
+  try {
+    const { data, error } = await supabase
+      .from("plant_members")
+      .select("role, plants(id, name, join_code)")
+      .eq("user_id", userId);
+
+    if (error || !data) {
+      if (error) console.error("Error fetching plants:", error);
+      return null;
+    }
 
+    // The plant is embedded as a single row, though typed as a list.
+    return data.flatMap((row): Plant[] => {
+      const plant: unknown = Array.isArray(row.plants)
+        ? row.plants[0]
+        : row.plants;
+      if (!isPlantRole(row.role) || !isPlantRow(plant)) return [];
+      return [
+        {
+          id: plant.id,
+          name: plant.name,
+          joinCode: plant.join_code,
+          role: row.role,
+        },
+      ];
+    });
+  } catch (error) {
+    console.error("Error fetching plants:", error);
+    return null;
+  }
+}
+
+// The creator becomes the plant's first supervisor (see the
+// add_plant_creator trigger).
+export async function createPlantInSupabase(
+  userId: string,
+  name: string,
+): Promise<Plant | null> {
+  try {
+    const { data, error } = await supabase
+      .from("plants")
+      .insert({ name, created_by: userId })
+      .select("id, name, join_code")
+      .single();
+
+    if (error || !data) {
+      console.error("Error creating plant:", error);
+      return null;
+    }
+    return {
+      id: data.id,
+      name: data.name,
+      joinCode: data.join_code,
+      role: "supervisor",
+    };
+  } catch (error) {
+    console.error("Error creating plant:", error);
+    return null;
+  }
+}
+
+// Returns the joined plant's ID, or null when the code matches no plant.
+export async function joinPlantInSupabase(
+  joinCode: string,
+): Promise<string | null> {
+  try {
+    const { data, error } = await supabase.rpc("join_plant", {
+      code: joinCode,
+    });
+
+    if (error) {
+      console.error("Error joining plant:", error);
+      return null;
+    }
+    return (data as string | null) ?? null;
+  } catch (error) {
+    console.error("Error joining plant:", error);
+    return null;
+  }
+}
+
+interface PlantMemberRow {
+  user_id: string;
+  display_name: string | null;
+  role: PlantRole;
+}
+
+export async function fetchPlantMembersFromSupabase(
+  plantId: string,
+): Promise<PlantMember[]> {
+  try {
+    const { data, error } = await supabase
+      .from("plant_members")
+      .select("user_id, display_name, role")
+      .eq("plant_id", plantId)
+      .order("display_name", { ascending: true });
+
+    if (error || !data) {
+      if (error) console.error("Error fetching plant members:", error);
+      return [];
+    }
+
+    return (data as PlantMemberRow[]).map((row) => ({
+      userId: row.user_id,
+      name: row.display_name ?? undefined,
+      role: row.role,
+    }));
+  } catch (error) {
+    console.error("Error fetching plant members:", error);
+    return [];
+  }
+}
+
+export async function updatePlantMemberRole(
+  plantId: string,
+  userId: string,
+  role: PlantRole,
+): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from("plant_members")
+      .update({ role })
+      .eq("plant_id", plantId)
+      .eq("user_id", userId);
+
+    if (error) {
+      console.error("Error updating member role:", error);
+      return false;
+    }
     return true;
   } catch (error) {
-    console.error("Error deleting day:", error);
+    console.error("Error updating member role:", error);
     return false;
   }
 }
@@ -0,0 +1,355 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  DayData,
+  getDeletedDayData,
+  getSavedDayData,
+  saveDayData,
+  saveDeletedDayData,
+} from "./storage";
+import { plantStoragePrefix } from "./dayRepository";
+import { PlantConfig, getPlantConfig } from "./plantConfig";
+import { DayRevision, diffDays, syncDayRevisions } from "./dayHistory";
+import type { TranslationKey } from "./i18n";
+import {
+  SYNC_BATCH_SIZE,
+  SyncScope,
+  fetchDayFromSupabase,
+  syncDaysToSupabase,
+} from "./supabaseSync";
+
+export type DaySyncStatus = "synced" | "pending" | "failed" | "conflict";
+
+export const SYNC_STATUS_LABELS: Record<DaySyncStatus, TranslationKey> = {
+  synced: "sync_status_synced",
+  pending: "sync_status_pending",
+  failed: "sync_status_failed",
+  conflict: "sync_status_conflict",
+};
+
+// A day saved or deleted on this device whose latest version has not reached
+// Supabase yet. The day itself is read from local storage, or from the
+// recycle bin, when it is pushed, so saves made while offline collapse into
+// one entry.
+export interface OutboxEntry {
+  dateKey: string;
+  // History entries recorded since the day was last pushed, oldest first.
+  revisions: DayRevision[];
+  queuedAt: string;
+  // Failed pushes since the day was last saved; 0 until the first attempt.
+  attempts: number;
+  nextAttemptAt: string;
+  // Set when the day changed in Supabase since the version it is based on.
+  // It is not pushed again until the conflict is resolved and the day saved.
+  conflict?: boolean;
+}
+
+export type Outbox = Record<string, OutboxEntry>;
+
+export class OfflineError extends Error {
+  constructor() {
+    super("No network connection");
+    this.name = "OfflineError";
+  }
+}
+
+const FIRST_RETRY_MS = 30 * 1000;
+const MAX_RETRY_MS = 30 * 60 * 1000;
+
+function outboxKey(plantId: string): string {
+  return `${plantStoragePrefix(plantId)}:outbox`;
+}
+
+// 30s, 1m, 2m, 4m … up to 30 minutes between attempts.
+export function retryDelay(attempts: number): number {
+  return Math.min(FIRST_RETRY_MS * 2 ** (attempts - 1), MAX_RETRY_MS);
+}
+
+export async function getOutbox(plantId: string): Promise<Outbox> {
+  try {
+    const raw = await AsyncStorage.getItem(outboxKey(plantId));
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+const writes = new Map<string, Promise<unknown>>();
+
+// Read-modify-writes of a plant's outbox run one at a time, so a save queued
+// while a push is in flight is not lost when the push records its result.
+function updateOutbox(
+  plantId: string,
+  update: (outbox: Outbox) => Outbox,
+): Promise<Outbox> {
+  const previous = writes.get(plantId) ?? Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const outbox = update(await getOutbox(plantId));
+      await AsyncStorage.setItem(outboxKey(plantId), JSON.stringify(outbox));
+      return outbox;
+    });
+  writes.set(plantId, next);
+  return next;
+}
+
+export function enqueueDaySync(
+  scope: SyncScope,
+  dateKey: string,
+  revision: DayRevision | null,
+): Promise<Outbox> {
+  const now = new Date().toISOString();
+  return updateOutbox(scope.plantId, (outbox) => {
+    const queued = outbox[dateKey];
+    return {
+      ...outbox,
+      [dateKey]: {
+        dateKey,
+        revisions: [
+          ...(queued?.revisions ?? []),
+          ...(revision ? [revision] : []),
+        ],
+        queuedAt: now,
+        attempts: 0,
+        nextAttemptAt: now,
+      },
+    };
+  });
+}
+
+// Marks queued days as changed in Supabase since the version they are
+// based on. They keep their history and wait for the user to resolve them.
+export function markOutboxConflicts(
+  plantId: string,
+  dateKeys: string[],
+): Promise<Outbox> {
+  return updateOutbox(plantId, (outbox) => {
+    const next = { ...outbox };
+    for (const dateKey of dateKeys) {
+      const entry = next[dateKey];
+      if (entry) next[dateKey] = { ...entry, conflict: true };
+    }
+    return next;
+  });
+}
+
+export function daySyncStatus(outbox: Outbox, dateKey: string): DaySyncStatus {
+  const entry = outbox[dateKey];
+  if (!entry) return "synced";
+  if (entry.conflict) return "conflict";
+  return entry.attempts > 0 ? "failed" : "pending";
+}
+
+// When the next queued day is due for another attempt, or null if none is
+// waiting.
+export function nextAttemptAt(outbox: Outbox): number | null {
+  const times = Object.values(outbox)
+    .filter((entry) => !entry.conflict)
+    .map((entry) => Date.parse(entry.nextAttemptAt));
+  return times.length > 0 ? Math.min(...times) : null;
+}
+
+interface PushResult {
+  entry: OutboxEntry;
+  outcome: "pushed" | "failed" | "conflict";
+  // Revisions that reached Supabase, removed from the entry even if the day
+  // itself has to be retried.
+  sentRevisions: string[];
+}
+
+// How far a flush has got, in days.
+export interface SyncProgress {
+  done: number;
+  total: number;
+}
+
+// Later pushes of the day, including of versions saved while this one was
+// being pushed, are based on the revision it reached in Supabase. So is
+// restoring a deleted day.
+async function recordRemoteRevision(
+  plantId: string,
+  dateKey: string,
+  revision: number,
+  config: PlantConfig,
+) {
+  const current = await getSavedDayData(dateKey, config, plantId);
+  if (current) {
+    if ((current.remoteRevision ?? 0) < revision) {
+      await saveDayData({ ...current, remoteRevision: revision }, plantId);
+    }
+    return;
+  }
+  const deleted = await getDeletedDayData(dateKey, config, plantId);
+  if (deleted && (deleted.remoteRevision ?? 0) < revision) {
+    await saveDeletedDayData({ ...deleted, remoteRevision: revision }, plantId);
+  }
+}
+
+// Supabase may already hold exactly this day, e.g. one pushed before its
+// revision was recorded here; that is not a conflict. Resolves with the
+// remote revision in that case.
+async function identicalRemoteRevision(
+  plantId: string,
+  day: DayData,
+  config: PlantConfig,
+): Promise<number | undefined> {
+  const remote = await fetchDayFromSupabase(plantId, day.dateKey, config);
+  if (!remote || remote.deletedAt || diffDays(remote, day).length > 0) {
+    return undefined;
+  }
+  return remote.remoteRevision;
+}
+
+// A deletion that conflicts with the day being deleted elsewhere too is
+// settled: that deletion is kept. One that conflicts with a newer edit is a
+// conflict like any other, for the user to resolve by keeping the day
+// deleted or restoring that edit.
+async function settleDeletion(
+  plantId: string,
+  day: DayData,
+  config: PlantConfig,
+): Promise<PushResult["outcome"]> {
+  const remote = await fetchDayFromSupabase(plantId, day.dateKey, config);
+  if (!remote) return "failed";
+  if (!remote.deletedAt) return "conflict";
+  await saveDeletedDayData(remote, plantId);
+  return "pushed";
+}
+
+// Pushes a batch of days with one sync_days call, then the history of the
+// days that reached Supabase with one more.
+async function pushBatch(
+  scope: SyncScope,
+  batch: { entry: OutboxEntry; day: DayData }[],
+  config: PlantConfig,
+): Promise<PushResult[]> {
+  const results = await syncDaysToSupabase(
+    scope,
+    batch.map(({ day }) => day),
+    config,
+  );
+
+  const outcomes = await Promise.all(
+    batch.map(async ({ entry, day }, i): Promise<PushResult["outcome"]> => {
+      const result = results[i];
+      if (result.status === "failed") return "failed";
+      if (result.status === "conflict" && day.deletedAt) {
+        return settleDeletion(scope.plantId, day, config);
+      }
+      const revision =
+        result.status === "synced"
+          ? result.revision
+          : await identicalRemoteRevision(scope.plantId, day, config);
+      if (revision === undefined) return "conflict";
+      await recordRemoteRevision(
+        scope.plantId,
+        entry.dateKey,
+        revision,
+        config,
+      );
+      return "pushed";
+    }),
+  );
+
+  const pushed = batch.filter((_, i) => outcomes[i] === "pushed");
+  const revisionsSent = await syncDayRevisions(
+    scope,
+    pushed.flatMap(({ entry }) => entry.revisions),
+  );
+  return batch.map(({ entry }, i) => {
+    const outcome = outcomes[i];
+    if (outcome !== "pushed") return { entry, outcome, sentRevisions: [] };
+    if (!revisionsSent) return { entry, outcome: "failed", sentRevisions: [] };
+    return {
+      entry,
+      outcome,
+      sentRevisions: entry.revisions.map((revision) => revision.id),
+    };
+  });
+}
+
+const flushes = new Map<string, Promise<Outbox>>();
+
+// Pushes every queued day that is due, or every queued day when forced, in
+// batches of SYNC_BATCH_SIZE, and resolves with what is left in the outbox.
+// Progress is reported after each batch. A day that fails is retried with
+// exponential backoff; one saved again while it was being pushed stays
+// queued for its newer version. Days in conflict are skipped.
+export function flushOutbox(
+  scope: SyncScope,
+  force = false,
+  onProgress?: (progress: SyncProgress) => void,
+): Promise<Outbox> {
+  const running = flushes.get(scope.plantId);
+  if (running) return running;
+
+  const flush = (async () => {
+    const now = Date.now();
+    const due = Object.values(await getOutbox(scope.plantId)).filter(
+      (entry) =>
+        !entry.conflict && (force || Date.parse(entry.nextAttemptAt) <= now),
+    );
+
+    const config = await getPlantConfig(scope.plantId);
+    const results: PushResult[] = [];
+    const batch: { entry: OutboxEntry; day: DayData }[] = [];
+    for (const entry of due) {
+      const day =
+        (await getSavedDayData(entry.dateKey, config, scope.plantId)) ??
+        (await getDeletedDayData(entry.dateKey, config, scope.plantId));
+      // A deleted day that never reached Supabase, or one since purged, has
+      // nothing left to push.
+      if (day && !(day.deletedAt && day.remoteRevision === undefined)) {
+        batch.push({ entry, day });
+      } else {
+        results.push({ entry, outcome: "pushed", sentRevisions: [] });
+      }
+    }
+
+    onProgress?.({ done: 0, total: batch.length });
+    for (let i = 0; i < batch.length; i += SYNC_BATCH_SIZE) {
+      const chunk = batch.slice(i, i + SYNC_BATCH_SIZE);
+      try {
+        results.push(...(await pushBatch(scope, chunk, config)));
+      } catch (error) {
+        console.error("Error pushing queued days:", error);
+        for (const { entry } of chunk) {
+          results.push({ entry, outcome: "failed", sentRevisions: [] });
+        }
+      }
+      onProgress?.({ done: i + chunk.length, total: batch.length });
+    }
+
+    return updateOutbox(scope.plantId, (outbox) => {
+      const next = { ...outbox };
+      for (const { entry, outcome, sentRevisions } of results) {
+        const current = next[entry.dateKey];
+        if (!current) continue;
+        const revisions = current.revisions.filter(
+          (revision) => !sentRevisions.includes(revision.id),
+        );
+        if (current.queuedAt !== entry.queuedAt) {
+          next[entry.dateKey] = { ...current, revisions };
+        } else if (outcome === "pushed") {
+          delete next[entry.dateKey];
+        } else if (outcome === "conflict") {
+          next[entry.dateKey] = { ...current, revisions, conflict: true };
+        } else {
+          const attempts = current.attempts + 1;
+          next[entry.dateKey] = {
+            ...current,
+            revisions,
+            attempts,
+            nextAttemptAt: new Date(
+              Date.now() + retryDelay(attempts),
+            ).toISOString(),
+          };
+        }
+      }
+      return next;
+    });
+  })();
+
+  flushes.set(scope.plantId, flush);
+  return flush.finally(() => flushes.delete(scope.plantId));
+}
@@ -0,0 +1,231 @@
+import {
+  DayData,
+  closingReading,
+  feederRowComputed,
+  format2,
+  getDaysInRange,
+  getPreviousDateKey,
+  getSavedDayData,
+  num,
+  turbineRowComputed,
+} from "./storage";
+import {
+  MeterConfig,
+  MeterKind,
+  PlantConfig,
+  activeFeeders,
+  activeTurbines,
+} from "./plantConfig";
+import type { ValidationRuleId, ValidationSeverity } from "./validationRules";
+import type { TranslationKey } from "./i18n";
+
+// A rule that failed for one field of a day. field is the path of the field
+// in DayData, e.g. "turbines.A.hours", as used by the day history.
+export interface ValidationIssue {
+  ruleId: ValidationRuleId;
+  severity: ValidationSeverity;
+  field: string;
+  kind: MeterKind;
+  meterId: string;
+  params: Record<string, string>;
+}
+
+// Saved days the rules compare against. Loaded separately so the rules can
+// be re-evaluated on every edit without touching storage.
+export interface ValidationContext {
+  previousDay: DayData | null;
+  // Saved days in the rolling window before the day, oldest first.
+  recentDays: DayData[];
+}
+
+// Thrown by saveDay when a rule set to "error" fails.
+export class ValidationError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(`${issues.length} reading(s) failed validation`);
+    this.name = "ValidationError";
+    this.issues = issues;
+  }
+}
+
+const MIN_DEVIATION_SAMPLES = 3;
+
+function daysBefore(dateKey: string, days: number): string {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d - days)).toISOString().slice(0, 10);
+}
+
+export async function loadValidationContext(
+  dateKey: string,
+  config: PlantConfig,
+): Promise<ValidationContext> {
+  const prevDateKey = getPreviousDateKey(dateKey);
+  if (!prevDateKey) return { previousDay: null, recentDays: [] };
+  const [previousDay, recentDays] = await Promise.all([
+    getSavedDayData(prevDateKey, config),
+    getDaysInRange(
+      daysBefore(dateKey, config.validation.rollingDays),
+      prevDateKey,
+      config,
+    ),
+  ]);
+  return { previousDay, recentDays };
+}
+
+function hasReadings(first: string | undefined, last: string | undefined) {
+  return !!first && !!last;
+}
+
+function deviationParams(
+  diff: number,
+  history: number[],
+  config: PlantConfig,
+): Record<string, string> | null {
+  const { deviationPercent, rollingDays } = config.validation;
+  if (history.length < Math.min(MIN_DEVIATION_SAMPLES, rollingDays)) {
+    return null;
+  }
+  const average = history.reduce((a, v) => a + v, 0) / history.length;
+  if (Math.abs(average) < 0.000001) return null;
+  const percent = (Math.abs(diff - average) / Math.abs(average)) * 100;
+  if (percent <= deviationPercent) return null;
+  return {
+    value: format2(diff),
+    average: format2(average),
+    percent: String(Math.round(percent)),
+    days: String(rollingDays),
+  };
+}
+
+export function validateDay(
+  day: DayData,
+  context: ValidationContext,
+  config: PlantConfig,
+): ValidationIssue[] {
+  const { rules } = config.validation;
+  const issues: ValidationIssue[] = [];
+
+  const report = (
+    ruleId: ValidationRuleId,
+    kind: MeterKind,
+    meter: MeterConfig,
+    field: string,
+    params: Record<string, string> = {},
+  ) => {
+    const rule = rules[ruleId];
+    if (!rule.enabled) return;
+    issues.push({
+      ruleId,
+      severity: rule.severity,
+      field: `${kind === "feeder" ? "feeders" : "turbines"}.${meter.id}.${field}`,
+      kind,
+      meterId: meter.id,
+      params,
+    });
+  };
+
+  // Feeder differences are signed (export or withdrawal), so only turbines
+  // are checked for negative energy.
+  for (const feeder of activeFeeders(config, day.dateKey)) {
+    const data = day.feeders[feeder.id];
+    const prev = context.previousDay?.feeders[feeder.id];
+    const prevEnd = closingReading(prev?.end, prev?.replacement);
+    if (data?.start && prevEnd && num(data.start) !== num(prevEnd)) {
+      report("continuity", "feeder", feeder, "start", { value: prevEnd });
+    }
+
+    if (!hasReadings(data?.start, data?.end)) continue;
+    const { diff } = feederRowComputed(day, feeder);
+    const history = context.recentDays
+      .filter((d) =>
+        hasReadings(d.feeders[feeder.id]?.start, d.feeders[feeder.id]?.end),
+      )
+      .map((d) => feederRowComputed(d, feeder).diff);
+    const deviation = deviationParams(diff, history, config);
+    if (deviation) report("deviation", "feeder", feeder, "end", deviation);
+  }
+
+  for (const turbine of activeTurbines(config, day.dateKey)) {
+    const data = day.turbines[turbine.id];
+    const prev = context.previousDay?.turbines[turbine.id];
+    const prevPresent = closingReading(prev?.present, prev?.replacement);
+    if (
+      data?.previous &&
+      prevPresent &&
+      num(data.previous) !== num(prevPresent)
+    ) {
+      report("continuity", "turbine", turbine, "previous", {
+        value: prevPresent,
+      });
+    }
+
+    const hours = num(data?.hours || "24");
+    if (hours <= 0 || hours > 24) {
+      report("hours_range", "turbine", turbine, "hours", {
+        value: data?.hours ?? "",
+      });
+    }
+
+    if (!hasReadings(data?.previous, data?.present)) continue;
+    const { diff, mwPerHr } = turbineRowComputed(day, turbine);
+    if (diff < 0) {
+      report("negative_difference", "turbine", turbine, "present", {
+        value: format2(diff),
+      });
+      continue;
+    }
+
+    if (turbine.ratingMw && mwPerHr > turbine.ratingMw) {
+      report("rating_exceeded", "turbine", turbine, "present", {
+        value: format2(mwPerHr),
+        limit: format2(turbine.ratingMw),
+      });
+    }
+
+    const history = context.recentDays
+      .filter((d) =>
+        hasReadings(
+          d.turbines[turbine.id]?.previous,
+          d.turbines[turbine.id]?.present,
+        ),
+      )
+      .map((d) => turbineRowComputed(d, turbine).diff);
+    const deviation = deviationParams(diff, history, config);
+    if (deviation)
+      report("deviation", "turbine", turbine, "present", deviation);
+  }
+
+  return issues;
+}
+
+export function blockingIssues(issues: ValidationIssue[]): ValidationIssue[] {
+  return issues.filter((i) => i.severity === "error");
+}
+
+export function issuesForMeter(
+  issues: ValidationIssue[],
+  kind: MeterKind,
+  meterId: string,
+): ValidationIssue[] {
+  return issues.filter((i) => i.kind === kind && i.meterId === meterId);
+}
+
+const MESSAGES: Record<ValidationRuleId, TranslationKey> = {
+  negative_difference: "validation_negative_difference",
+  hours_range: "validation_hours_range",
+  rating_exceeded: "validation_rating_exceeded",
+  deviation: "validation_deviation",
+  continuity: "validation_continuity",
+};
+
+// Messages carry placeholders such as {value} for the issue's params.
+export function formatIssue(
+  issue: ValidationIssue,
+  t: (key: TranslationKey) => string,
+): string {
+  return t(MESSAGES[issue.ruleId]).replace(
+    /\{(\w+)\}/g,
+    (match, name: string) => issue.params[name] ?? match,
+  );
+}
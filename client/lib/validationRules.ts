@@ -0,0 +1,102 @@
+import type { PlantConfig } from "./plantConfig";
+
+export type ValidationRuleId =
+  | "negative_difference"
+  | "hours_range"
+  | "rating_exceeded"
+  | "deviation"
+  | "continuity";
+
+// A warning is shown next to the field; an error also prevents saving.
+export type ValidationSeverity = "warning" | "error";
+
+export interface ValidationRuleSetting {
+  enabled: boolean;
+  severity: ValidationSeverity;
+}
+
+export interface ValidationSettings {
+  rules: Record<ValidationRuleId, ValidationRuleSetting>;
+  // A day's energy is flagged when it differs from the average of the
+  // previous rollingDays saved days by more than deviationPercent.
+  deviationPercent: number;
+  rollingDays: number;
+}
+
+export const VALIDATION_RULE_IDS: ValidationRuleId[] = [
+  "negative_difference",
+  "hours_range",
+  "rating_exceeded",
+  "deviation",
+  "continuity",
+];
+
+export const DEFAULT_VALIDATION_SETTINGS: ValidationSettings = {
+  rules: {
+    negative_difference: { enabled: true, severity: "error" },
+    hours_range: { enabled: true, severity: "error" },
+    rating_exceeded: { enabled: true, severity: "warning" },
+    deviation: { enabled: true, severity: "warning" },
+    continuity: { enabled: true, severity: "warning" },
+  },
+  deviationPercent: 30,
+  rollingDays: 7,
+};
+
+function positiveNumber(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0
+    ? value
+    : fallback;
+}
+
+// Fills in rules added after the settings were saved.
+export function normalizeValidationSettings(raw: unknown): ValidationSettings {
+  const settings = (raw ?? {}) as Partial<ValidationSettings>;
+  const rules = { ...DEFAULT_VALIDATION_SETTINGS.rules };
+  for (const id of VALIDATION_RULE_IDS) {
+    const rule = settings.rules?.[id];
+    if (!rule) continue;
+    rules[id] = {
+      enabled: rule.enabled !== false,
+      severity: rule.severity === "error" ? "error" : "warning",
+    };
+  }
+  return {
+    rules,
+    deviationPercent: positiveNumber(
+      settings.deviationPercent,
+      DEFAULT_VALIDATION_SETTINGS.deviationPercent,
+    ),
+    rollingDays: Math.round(
+      positiveNumber(
+        settings.rollingDays,
+        DEFAULT_VALIDATION_SETTINGS.rollingDays,
+      ),
+    ),
+  };
+}
+
+export function updateValidationRule(
+  config: PlantConfig,
+  id: ValidationRuleId,
+  changes: Partial<ValidationRuleSetting>,
+): PlantConfig {
+  const { validation } = config;
+  return {
+    ...config,
+    validation: {
+      ...validation,
+      rules: {
+        ...validation.rules,
+        [id]: { ...validation.rules[id], ...changes },
+      },
+    },
+  };
+}
+
+export function updateValidationSettings(
+  config: PlantConfig,
+  changes: Partial<Omit<ValidationSettings, "rules">>,
+): PlantConfig {
+  return { ...config, validation: { ...config.validation, ...changes } };
+}
@@ -25,16 +25,46 @@ const Tab = createBottomTabNavigator<MainTabParamList>();
 type TabConfig = {
   name: keyof MainTabParamList;
   component: React.ComponentType<object>;
-  titleKey: "tab_feeders" | "tab_turbines" | "tab_calculations" | "tab_reports" | "tab_settings";
+  titleKey:
+    | "tab_feeders"
+    | "tab_turbines"
+    | "tab_calculations"
+    | "tab_reports"
+    | "tab_settings";
   iconName: "activity" | "wind" | "cpu" | "file-text" | "settings";
 };
 
 const TAB_SCREENS: TabConfig[] = [
-  { name: "FeedersTab", component: FeedersStackNavigator, titleKey: "tab_feeders", iconName: "activity" },
-  { name: "TurbinesTab", component: TurbinesStackNavigator, titleKey: "tab_turbines", iconName: "wind" },
-  { name: "CalculationsTab", component: CalculationsStackNavigator, titleKey: "tab_calculations", iconName: "cpu" },
-  { name: "ReportsTab", component: ReportsStackNavigator, titleKey: "tab_reports", iconName: "file-text" },
-  { name: "SettingsTab", component: SettingsStackNavigator, titleKey: "tab_settings", iconName: "settings" },
+  {
+    name: "FeedersTab",
+    component: FeedersStackNavigator,
+    titleKey: "tab_feeders",
+    iconName: "activity",
+  },
+  {
+    name: "TurbinesTab",
+    component: TurbinesStackNavigator,
+    titleKey: "tab_turbines",
+    iconName: "wind",
+  },
+  {
+    name: "CalculationsTab",
+    component: CalculationsStackNavigator,
+    titleKey: "tab_calculations",
+    iconName: "cpu",
+  },
+  {
+    name: "ReportsTab",
+    component: ReportsStackNavigator,
+    titleKey: "tab_reports",
+    iconName: "file-text",
+  },
+  {
+    name: "SettingsTab",
+    component: SettingsStackNavigator,
+    titleKey: "tab_settings",
+    iconName: "settings",
+  },
 ];
 
 export default function MainTabNavigator() {
@@ -47,7 +77,7 @@ export default function MainTabNavigator() {
 
   // Reverse tab order for RTL languages
   const screens = isRTL ? [...TAB_SCREENS].reverse() : TAB_SCREENS;
-  
+
   // Get initial route based on direction (first tab after reversing)
   const initialRouteName = screens[0].name;
 
@@ -1,17 +1,25 @@
 import React from "react";
 import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import ReportsScreen from "@/screens/ReportsScreen";
+import ChainReviewScreen from "@/screens/ChainReviewScreen";
+import BackfillScreen from "@/screens/BackfillScreen";
+import RecycleBinScreen from "@/screens/RecycleBinScreen";
 import { HeaderTitle } from "@/components/HeaderTitle";
 import { useScreenOptions } from "@/hooks/useScreenOptions";
+import { useLanguage } from "@/contexts/LanguageContext";
 
 export type ReportsStackParamList = {
   Reports: undefined;
+  ChainReview: undefined;
+  Backfill: undefined;
+  RecycleBin: undefined;
 };
 
 const Stack = createNativeStackNavigator<ReportsStackParamList>();
 
 export default function ReportsStackNavigator() {
   const screenOptions = useScreenOptions();
+  const { t } = useLanguage();
 
   return (
     <Stack.Navigator screenOptions={screenOptions}>
@@ -22,6 +30,27 @@ export default function ReportsStackNavigator() {
           headerTitle: () => <HeaderTitle title="Reports" />,
         }}
       />
+      <Stack.Screen
+        name="ChainReview"
+        component={ChainReviewScreen}
+        options={{
+          headerTitle: () => <HeaderTitle title={t("chain_review")} />,
+        }}
+      />
+      <Stack.Screen
+        name="Backfill"
+        component={BackfillScreen}
+        options={{
+          headerTitle: () => <HeaderTitle title={t("backfill")} />,
+        }}
+      />
+      <Stack.Screen
+        name="RecycleBin"
+        component={RecycleBinScreen}
+        options={{
+          headerTitle: () => <HeaderTitle title={t("recycle_bin")} />,
+        }}
+      />
     </Stack.Navigator>
   );
 }
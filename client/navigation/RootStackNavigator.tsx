@@ -1,16 +1,25 @@
 import React from "react";
 import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import MainTabNavigator from "@/navigation/MainTabNavigator";
+import ConflictResolutionScreen from "@/screens/ConflictResolutionScreen";
+import GuestMergeScreen from "@/screens/GuestMergeScreen";
+import { HeaderTitle } from "@/components/HeaderTitle";
 import { useScreenOptions } from "@/hooks/useScreenOptions";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/contexts/AuthContext";
 
 export type RootStackParamList = {
   Main: undefined;
+  ConflictResolution: { dateKey: string };
+  GuestMerge: undefined;
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
 export default function RootStackNavigator() {
   const screenOptions = useScreenOptions();
+  const { t } = useLanguage();
+  const { pendingGuestMerge } = useAuth();
 
   return (
     <Stack.Navigator screenOptions={screenOptions}>
@@ -19,6 +28,28 @@ export default function RootStackNavigator() {
         component={MainTabNavigator}
         options={{ headerShown: false }}
       />
+      <Stack.Screen
+        name="ConflictResolution"
+        component={ConflictResolutionScreen}
+        options={{
+          headerTitle: () => <HeaderTitle title={t("resolve_conflict")} />,
+        }}
+      />
+      <Stack.Screen
+        name="GuestMerge"
+        component={GuestMergeScreen}
+        options={{
+          headerTitle: () => (
+            <HeaderTitle
+              title={t(
+                pendingGuestMerge?.userId === null
+                  ? "local_merge"
+                  : "guest_merge",
+              )}
+            />
+          ),
+        }}
+      />
     </Stack.Navigator>
   );
 }
@@ -1,12 +1,22 @@
 import React from "react";
 import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import SettingsScreen from "@/screens/SettingsScreen";
+import PlantConfigScreen from "@/screens/PlantConfigScreen";
+import GasCurvesScreen from "@/screens/GasCurvesScreen";
+import CrewRotationScreen from "@/screens/CrewRotationScreen";
+import ValidationRulesScreen from "@/screens/ValidationRulesScreen";
+import PlantWorkspaceScreen from "@/screens/PlantWorkspaceScreen";
 import { useScreenOptions } from "@/hooks/useScreenOptions";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { HeaderTitle } from "@/components/HeaderTitle";
 
 export type SettingsStackParamList = {
   Settings: undefined;
+  PlantConfig: undefined;
+  GasCurves: undefined;
+  CrewRotation: undefined;
+  ValidationRules: undefined;
+  PlantWorkspace: undefined;
 };
 
 const Stack = createNativeStackNavigator<SettingsStackParamList>();
@@ -24,6 +34,41 @@ export default function SettingsStackNavigator() {
           headerTitle: () => <HeaderTitle title={t("tab_settings")} />,
         }}
       />
+      <Stack.Screen
+        name="PlantConfig"
+        component={PlantConfigScreen}
+        options={{
+          headerTitle: () => <HeaderTitle title={t("plant_configuration")} />,
+        }}
+      />
+      <Stack.Screen
+        name="GasCurves"
+        component={GasCurvesScreen}
+        options={{
+          headerTitle: () => <HeaderTitle title={t("gas_curves")} />,
+        }}
+      />
+      <Stack.Screen
+        name="CrewRotation"
+        component={CrewRotationScreen}
+        options={{
+          headerTitle: () => <HeaderTitle title={t("crew_rotation")} />,
+        }}
+      />
+      <Stack.Screen
+        name="ValidationRules"
+        component={ValidationRulesScreen}
+        options={{
+          headerTitle: () => <HeaderTitle title={t("validation_rules")} />,
+        }}
+      />
+      <Stack.Screen
+        name="PlantWorkspace"
+        component={PlantWorkspaceScreen}
+        options={{
+          headerTitle: () => <HeaderTitle title={t("plant_workspace")} />,
+        }}
+      />
     </Stack.Navigator>
   );
 }
@@ -34,9 +34,13 @@ export function AuthScreen() {
 
   const texts = {
     appName: isArabic ? "حسابات محطة الطاقة" : "Power Plant Calc",
-    loginSubtitle: isArabic ? "تسجيل الدخول إلى حسابك" : "Sign in to your account",
+    loginSubtitle: isArabic
+      ? "تسجيل الدخول إلى حسابك"
+      : "Sign in to your account",
     signupSubtitle: isArabic ? "إنشاء حساب جديد" : "Create a new account",
-    forgotSubtitle: isArabic ? "إعادة تعيين كلمة المرور" : "Reset your password",
+    forgotSubtitle: isArabic
+      ? "إعادة تعيين كلمة المرور"
+      : "Reset your password",
     displayName: isArabic ? "الاسم" : "Display Name",
     displayNamePlaceholder: isArabic ? "مهندس" : "Engineer",
     email: isArabic ? "البريد الإلكتروني" : "Email",
@@ -49,8 +53,12 @@ export function AuthScreen() {
     noAccount: isArabic ? "ليس لديك حساب؟" : "Don't have an account?",
     haveAccount: isArabic ? "لديك حساب بالفعل؟" : "Already have an account?",
     checkEmail: isArabic ? "تحقق من بريدك" : "Check your email",
-    confirmationSent: isArabic ? "أرسلنا لك رابط التأكيد" : "We sent you a confirmation link",
-    resetLinkSent: isArabic ? "أرسلنا لك رابط إعادة التعيين" : "We sent you a password reset link",
+    confirmationSent: isArabic
+      ? "أرسلنا لك رابط التأكيد"
+      : "We sent you a confirmation link",
+    resetLinkSent: isArabic
+      ? "أرسلنا لك رابط إعادة التعيين"
+      : "We sent you a password reset link",
   };
 
   const handleSubmit = async () => {
@@ -189,8 +197,8 @@ export function AuthScreen() {
               {mode === "login"
                 ? texts.loginSubtitle
                 : mode === "signup"
-                ? texts.signupSubtitle
-                : texts.forgotSubtitle}
+                  ? texts.signupSubtitle
+                  : texts.forgotSubtitle}
             </ThemedText>
           </View>
 
@@ -201,7 +209,9 @@ export function AuthScreen() {
           <View style={styles.form}>
             {mode === "signup" && (
               <View style={styles.inputContainer}>
-                <ThemedText style={styles.label}>{texts.displayName}</ThemedText>
+                <ThemedText style={styles.label}>
+                  {texts.displayName}
+                </ThemedText>
                 <TextInput
                   style={styles.input}
                   value={displayName}
@@ -265,8 +275,8 @@ export function AuthScreen() {
                   {mode === "login"
                     ? texts.signIn
                     : mode === "signup"
-                    ? texts.signUp
-                    : texts.sendResetLink}
+                      ? texts.signUp
+                      : texts.sendResetLink}
                 </ThemedText>
               )}
             </TouchableOpacity>
@@ -275,16 +285,24 @@ export function AuthScreen() {
           <View style={styles.switchContainer}>
             {mode === "login" ? (
               <>
-                <ThemedText style={styles.switchText}>{texts.noAccount}</ThemedText>
+                <ThemedText style={styles.switchText}>
+                  {texts.noAccount}
+                </ThemedText>
                 <TouchableOpacity onPress={() => setMode("signup")}>
-                  <ThemedText style={styles.switchLink}>{texts.signUp}</ThemedText>
+                  <ThemedText style={styles.switchLink}>
+                    {texts.signUp}
+                  </ThemedText>
                 </TouchableOpacity>
               </>
             ) : (
               <>
-                <ThemedText style={styles.switchText}>{texts.haveAccount}</ThemedText>
+                <ThemedText style={styles.switchText}>
+                  {texts.haveAccount}
+                </ThemedText>
                 <TouchableOpacity onPress={() => setMode("login")}>
-                  <ThemedText style={styles.switchLink}>{texts.signIn}</ThemedText>
+                  <ThemedText style={styles.switchLink}>
+                    {texts.signIn}
+                  </ThemedText>
                 </TouchableOpacity>
               </>
             )}
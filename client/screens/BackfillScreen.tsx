@@ -0,0 +1,737 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  ActivityIndicator,
+  Modal,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Animated, { FadeInDown } from "react-native-reanimated";
+
+import { ThemedText } from "@/components/ThemedText";
+import { CalendarPicker } from "@/components/CalendarPicker";
+import { NumericInputField } from "@/components/NumericInputField";
+import { useTheme } from "@/hooks/useTheme";
+import { useResponsiveLayout } from "@/hooks/useResponsiveLayout";
+import { useRTL } from "@/hooks/useRTL";
+import { Spacing, BorderRadius, Typography } from "@/constants/theme";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { usePlantConfig } from "@/contexts/PlantConfigContext";
+import { useDay } from "@/contexts/DayContext";
+import {
+  DayGap,
+  GapNeighbours,
+  addDays,
+  detectGaps,
+  interpolateDay,
+  loadGapNeighbours,
+} from "@/lib/dayGaps";
+import {
+  DayData,
+  getDayDataWithLinkedValues,
+  getDayIndex,
+  todayKey,
+} from "@/lib/storage";
+import { activeFeeders, activeTurbines } from "@/lib/plantConfig";
+import { dayCrewLabel } from "@/lib/crewRotation";
+import {
+  blockingIssues,
+  loadValidationContext,
+  validateDay,
+} from "@/lib/validation";
+import { MonthClosedError, isMonthClosed } from "@/lib/monthClosing";
+import { showSuccess, showError } from "@/utils/notify";
+
+type RangeTarget = "from" | "to";
+
+// Dates being filled in, one at a time.
+interface Wizard {
+  dateKeys: string[];
+  index: number;
+}
+
+const DEFAULT_RANGE_DAYS = 30;
+
+export default function BackfillScreen() {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const { rtlRow, rtlText } = useRTL();
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const tabBarHeight = useBottomTabBarHeight();
+  const layout = useResponsiveLayout();
+  const { config } = usePlantConfig();
+  const { saveDays, closures } = useDay();
+
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState(() => addDays(todayKey(), -1));
+  const [rangeTarget, setRangeTarget] = useState<RangeTarget | null>(null);
+  const [gaps, setGaps] = useState<DayGap[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [wizard, setWizard] = useState<Wizard | null>(null);
+  const [draft, setDraft] = useState<DayData | null>(null);
+  const [neighbours, setNeighbours] = useState<GapNeighbours>({
+    before: null,
+    after: null,
+  });
+  const [saving, setSaving] = useState(false);
+
+  // The range starts at the first saved day, so the days before the app
+  // was in use are not reported as missing.
+  useEffect(() => {
+    getDayIndex().then((index) => {
+      const first = [...index].sort()[0];
+      setFrom(first ?? addDays(todayKey(), -DEFAULT_RANGE_DAYS));
+    });
+  }, []);
+
+  const loadGaps = useCallback(async () => {
+    if (!from) return;
+    setLoading(true);
+    try {
+      setGaps(await detectGaps(from, to));
+    } catch (error) {
+      console.error("Error detecting missing days:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to]);
+
+  useEffect(() => {
+    loadGaps();
+  }, [loadGaps]);
+
+  const currentDateKey = wizard ? wizard.dateKeys[wizard.index] : null;
+
+  // t changes on every render; the draft reloads only when the date does.
+  const tRef = useRef(t);
+  tRef.current = t;
+
+  useEffect(() => {
+    if (!currentDateKey) return;
+    setDraft(null);
+    Promise.all([
+      getDayDataWithLinkedValues(currentDateKey, config),
+      loadGapNeighbours(currentDateKey, config),
+    ])
+      .then(([linked, found]) => {
+        setDraft(linked);
+        setNeighbours(found);
+      })
+      .catch((error) => {
+        console.error("Error loading missing day:", error);
+        showError(tRef.current("msg_error_generic"));
+      });
+  }, [currentDateKey, config]);
+
+  const handleSelectDate = (date: string) => {
+    if (rangeTarget === "from") setFrom(date > to ? to : date);
+    if (rangeTarget === "to") setTo(date < from ? from : date);
+    setRangeTarget(null);
+  };
+
+  // Missing days in a closed month are left missing.
+  const startWizard = (dateKeys: string[]) => {
+    const open = dateKeys.filter((d) => !isMonthClosed(closures, d));
+    if (open.length === 0) {
+      showError(t("month_closed_locked"));
+      return;
+    }
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setWizard({ dateKeys: open, index: 0 });
+  };
+
+  const next = () => {
+    if (!wizard) return;
+    if (wizard.index + 1 < wizard.dateKeys.length) {
+      setWizard({ ...wizard, index: wizard.index + 1 });
+      return;
+    }
+    setWizard(null);
+    setDraft(null);
+    showSuccess(t("backfill_done"));
+    loadGaps();
+  };
+
+  const handleInterpolate = () => {
+    if (!currentDateKey) return;
+    const estimated = interpolateDay(currentDateKey, neighbours, config);
+    if (!estimated) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setDraft(estimated);
+  };
+
+  const handleSave = async () => {
+    if (!draft || !currentDateKey) return;
+    setSaving(true);
+    try {
+      const dayToSave = {
+        ...draft,
+        crew: dayCrewLabel(config, currentDateKey),
+      };
+      const context = await loadValidationContext(currentDateKey, config);
+      if (blockingIssues(validateDay(dayToSave, context, config)).length > 0) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        showError(t("validation_blocked"));
+        return;
+      }
+      await saveDays([dayToSave]);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      next();
+    } catch (error) {
+      console.error("Error saving missing day:", error);
+      showError(
+        t(
+          error instanceof MonthClosedError
+            ? "month_closed_locked"
+            : "msg_error_generic",
+        ),
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setFeeder = (id: string, field: "start" | "end", value: string) => {
+    setDraft((d) =>
+      d
+        ? {
+            ...d,
+            feeders: {
+              ...d.feeders,
+              [id]: { ...d.feeders[id], [field]: value },
+            },
+          }
+        : d,
+    );
+  };
+
+  const setTurbine = (
+    id: string,
+    field: "previous" | "present" | "hours",
+    value: string,
+  ) => {
+    setDraft((d) =>
+      d
+        ? {
+            ...d,
+            turbines: {
+              ...d.turbines,
+              [id]: { ...d.turbines[id], [field]: value },
+            },
+          }
+        : d,
+    );
+  };
+
+  const renderRange = () => (
+    <View style={styles.cardBody}>
+      {(["from", "to"] as const).map((target) => (
+        <Pressable
+          key={target}
+          style={[styles.dateRow, rtlRow, { borderColor: theme.border }]}
+          onPress={() => setRangeTarget(target)}
+          testID={`button-backfill-${target}`}
+        >
+          <ThemedText
+            type="small"
+            style={[{ color: theme.textSecondary }, rtlText]}
+          >
+            {t(target === "from" ? "backfill_from" : "backfill_to")}
+          </ThemedText>
+          <View style={[styles.dateValue, rtlRow]}>
+            <ThemedText
+              type="body"
+              style={{ fontFamily: Typography.mono.fontFamily }}
+            >
+              {target === "from" ? from : to}
+            </ThemedText>
+            <Feather name="calendar" size={16} color={theme.primary} />
+          </View>
+        </Pressable>
+      ))}
+    </View>
+  );
+
+  const renderGaps = () => {
+    if (loading) {
+      return (
+        <View style={styles.emptyContainer}>
+          <ActivityIndicator size="large" color={theme.primary} />
+        </View>
+      );
+    }
+    if (gaps.length === 0) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Feather name="check-circle" size={40} color={theme.success} />
+          <ThemedText
+            type="body"
+            style={{
+              color: theme.textSecondary,
+              marginTop: Spacing.md,
+              textAlign: "center",
+            }}
+          >
+            {t("backfill_no_gaps")}
+          </ThemedText>
+        </View>
+      );
+    }
+    return gaps.map((gap, index) => (
+      <View
+        key={gap.from}
+        style={[
+          styles.gapRow,
+          rtlRow,
+          { borderTopWidth: 1, borderTopColor: theme.border },
+          index === 0 && { borderTopWidth: 0 },
+        ]}
+      >
+        <View style={{ flex: 1 }}>
+          <ThemedText type="body" style={[{ fontWeight: "600" }, rtlText]}>
+            {gap.from === gap.to ? gap.from : `${gap.from} → ${gap.to}`}
+          </ThemedText>
+          <ThemedText
+            type="small"
+            style={[{ color: theme.textSecondary }, rtlText]}
+          >
+            {gap.dateKeys.length}{" "}
+            {gap.dateKeys.length !== 1 ? t("days_plural") : t("day_singular")}
+          </ThemedText>
+        </View>
+        <Pressable
+          style={[styles.outlineButton, { borderColor: theme.primary }]}
+          onPress={() => startWizard(gap.dateKeys)}
+          testID={`button-backfill-fill-${gap.from}`}
+        >
+          <ThemedText type="small" style={{ color: theme.primary }}>
+            {t("backfill_fill")}
+          </ThemedText>
+        </Pressable>
+      </View>
+    ));
+  };
+
+  const renderWizard = () => {
+    if (!wizard || !currentDateKey) return null;
+    const canInterpolate = !!neighbours.before && !!neighbours.after;
+
+    return (
+      <View style={[styles.card, { backgroundColor: theme.backgroundDefault }]}>
+        <View
+          style={[
+            styles.cardHeader,
+            rtlRow,
+            { borderBottomColor: theme.border },
+          ]}
+        >
+          <View style={{ flex: 1 }}>
+            <ThemedText
+              type="body"
+              style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}
+            >
+              {currentDateKey}
+            </ThemedText>
+            <ThemedText
+              type="caption"
+              style={[{ color: theme.textSecondary }, rtlText]}
+            >
+              {wizard.index + 1} / {wizard.dateKeys.length}
+            </ThemedText>
+          </View>
+          {draft?.estimated ? (
+            <View
+              style={[
+                styles.estimatedBadge,
+                { backgroundColor: theme.warning + "20" },
+              ]}
+            >
+              <ThemedText type="caption" style={{ color: theme.warning }}>
+                {t("estimated")}
+              </ThemedText>
+            </View>
+          ) : null}
+          <Pressable
+            style={[
+              styles.iconButton,
+              { backgroundColor: theme.backgroundSecondary },
+            ]}
+            onPress={() => setWizard(null)}
+            testID="button-backfill-close"
+          >
+            <Feather name="x" size={18} color={theme.text} />
+          </Pressable>
+        </View>
+
+        {!draft ? (
+          <View style={styles.emptyContainer}>
+            <ActivityIndicator size="large" color={theme.primary} />
+          </View>
+        ) : (
+          <View style={styles.cardBody}>
+            <Pressable
+              style={[
+                styles.interpolateButton,
+                rtlRow,
+                { borderColor: canInterpolate ? theme.warning : theme.border },
+              ]}
+              onPress={handleInterpolate}
+              disabled={!canInterpolate}
+              testID="button-backfill-interpolate"
+            >
+              <Feather
+                name="trending-up"
+                size={18}
+                color={canInterpolate ? theme.warning : theme.textSecondary}
+              />
+              <View style={{ flex: 1 }}>
+                <ThemedText
+                  type="body"
+                  style={[
+                    {
+                      color: canInterpolate
+                        ? theme.warning
+                        : theme.textSecondary,
+                    },
+                    rtlText,
+                  ]}
+                >
+                  {t("backfill_interpolate")}
+                </ThemedText>
+                <ThemedText
+                  type="caption"
+                  style={[{ color: theme.textSecondary }, rtlText]}
+                >
+                  {t(
+                    canInterpolate
+                      ? "backfill_interpolate_hint"
+                      : "backfill_no_neighbours",
+                  )}
+                </ThemedText>
+              </View>
+            </Pressable>
+
+            {activeFeeders(config, currentDateKey).map((feeder) => (
+              <View key={feeder.id} style={styles.meterBlock}>
+                <ThemedText
+                  type="body"
+                  style={[{ fontWeight: "600" }, rtlText]}
+                >
+                  {t("feeder")} {feeder.name}
+                </ThemedText>
+                <View style={[styles.fieldRow, rtlRow]}>
+                  <View style={styles.field}>
+                    <NumericInputField
+                      label={t("start_of_day")}
+                      value={draft.feeders[feeder.id]?.start ?? ""}
+                      onChangeValue={(v) => setFeeder(feeder.id, "start", v)}
+                      testID={`input-backfill-${feeder.id}-start`}
+                    />
+                  </View>
+                  <View style={styles.field}>
+                    <NumericInputField
+                      label={t("end_of_day")}
+                      value={draft.feeders[feeder.id]?.end ?? ""}
+                      onChangeValue={(v) => setFeeder(feeder.id, "end", v)}
+                      testID={`input-backfill-${feeder.id}-end`}
+                    />
+                  </View>
+                </View>
+              </View>
+            ))}
+
+            {activeTurbines(config, currentDateKey).map((turbine) => (
+              <View key={turbine.id} style={styles.meterBlock}>
+                <ThemedText
+                  type="body"
+                  style={[{ fontWeight: "600" }, rtlText]}
+                >
+                  {t("turbine")} {turbine.name}
+                </ThemedText>
+                <View style={[styles.fieldRow, rtlRow]}>
+                  <View style={styles.field}>
+                    <NumericInputField
+                      label={t("previous")}
+                      value={draft.turbines[turbine.id]?.previous ?? ""}
+                      onChangeValue={(v) =>
+                        setTurbine(turbine.id, "previous", v)
+                      }
+                      testID={`input-backfill-${turbine.id}-previous`}
+                    />
+                  </View>
+                  <View style={styles.field}>
+                    <NumericInputField
+                      label={t("present")}
+                      value={draft.turbines[turbine.id]?.present ?? ""}
+                      onChangeValue={(v) =>
+                        setTurbine(turbine.id, "present", v)
+                      }
+                      testID={`input-backfill-${turbine.id}-present`}
+                    />
+                  </View>
+                  <View style={styles.field}>
+                    <NumericInputField
+                      label={t("hours")}
+                      value={draft.turbines[turbine.id]?.hours ?? ""}
+                      onChangeValue={(v) => setTurbine(turbine.id, "hours", v)}
+                      testID={`input-backfill-${turbine.id}-hours`}
+                    />
+                  </View>
+                </View>
+              </View>
+            ))}
+
+            <View style={[styles.footer, rtlRow]}>
+              <Pressable
+                style={[
+                  styles.footerButton,
+                  { backgroundColor: theme.backgroundSecondary },
+                ]}
+                onPress={next}
+                disabled={saving}
+                testID="button-backfill-skip"
+              >
+                <ThemedText type="body">{t("backfill_skip")}</ThemedText>
+              </Pressable>
+              <Pressable
+                style={[
+                  styles.footerButton,
+                  { backgroundColor: theme.primary },
+                ]}
+                onPress={handleSave}
+                disabled={saving}
+                testID="button-backfill-save"
+              >
+                {saving ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <ThemedText type="body" style={{ color: "#fff" }}>
+                    {t("backfill_save_next")}
+                  </ThemedText>
+                )}
+              </Pressable>
+            </View>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const missingCount = gaps.reduce((sum, g) => sum + g.dateKeys.length, 0);
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={{
+          paddingTop: headerHeight + Spacing.lg,
+          paddingBottom: tabBarHeight + Spacing.xl,
+          paddingHorizontal: layout.horizontalPadding,
+          maxWidth: layout.isTablet ? layout.contentMaxWidth : undefined,
+          alignSelf: layout.isTablet ? "center" : undefined,
+          width: layout.isTablet ? "100%" : undefined,
+        }}
+        scrollIndicatorInsets={{ bottom: insets.bottom }}
+        showsVerticalScrollIndicator={false}
+      >
+        <Animated.View entering={FadeInDown.duration(300)}>
+          {wizard ? (
+            renderWizard()
+          ) : (
+            <View
+              style={[
+                styles.card,
+                { backgroundColor: theme.backgroundDefault },
+              ]}
+            >
+              <View
+                style={[
+                  styles.cardHeader,
+                  rtlRow,
+                  { borderBottomColor: theme.border },
+                ]}
+              >
+                <View
+                  style={[
+                    styles.iconCircle,
+                    { backgroundColor: theme.primary + "20" },
+                  ]}
+                >
+                  <Feather name="calendar" size={20} color={theme.primary} />
+                </View>
+                <View style={{ flex: 1, marginHorizontal: Spacing.md }}>
+                  <ThemedText
+                    type="body"
+                    style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}
+                  >
+                    {t("backfill")}
+                  </ThemedText>
+                  <ThemedText
+                    type="caption"
+                    style={[{ color: theme.textSecondary }, rtlText]}
+                  >
+                    {t("backfill_desc")}
+                  </ThemedText>
+                </View>
+                {gaps.length > 1 ? (
+                  <Pressable
+                    style={[
+                      styles.outlineButton,
+                      { borderColor: theme.primary },
+                    ]}
+                    onPress={() => startWizard(gaps.flatMap((g) => g.dateKeys))}
+                    testID="button-backfill-fill-all"
+                  >
+                    <ThemedText type="small" style={{ color: theme.primary }}>
+                      {t("backfill_fill_all")} ({missingCount})
+                    </ThemedText>
+                  </Pressable>
+                ) : null}
+              </View>
+
+              {renderRange()}
+              <View
+                style={[styles.divider, { backgroundColor: theme.border }]}
+              />
+              {renderGaps()}
+            </View>
+          )}
+        </Animated.View>
+      </ScrollView>
+
+      <Modal
+        visible={!!rangeTarget}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setRangeTarget(null)}
+      >
+        <Pressable
+          style={styles.modalOverlay}
+          onPress={() => setRangeTarget(null)}
+        >
+          <Pressable onPress={(e) => e.stopPropagation()}>
+            <CalendarPicker
+              selectedDate={rangeTarget === "to" ? to : from}
+              onSelectDate={handleSelectDate}
+              onClose={() => setRangeTarget(null)}
+            />
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  card: {
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.lg,
+    overflow: "hidden",
+  },
+  cardHeader: {
+    alignItems: "center",
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+    gap: Spacing.sm,
+  },
+  cardBody: {
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  iconCircle: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  dateRow: {
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+  },
+  dateValue: {
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  divider: {
+    height: 1,
+  },
+  emptyContainer: {
+    padding: Spacing["3xl"],
+    alignItems: "center",
+  },
+  gapRow: {
+    alignItems: "center",
+    gap: Spacing.md,
+    padding: Spacing.lg,
+  },
+  outlineButton: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.xs,
+    borderWidth: 1,
+  },
+  estimatedBadge: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.xs,
+  },
+  interpolateButton: {
+    alignItems: "center",
+    gap: Spacing.md,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+  },
+  meterBlock: {
+    gap: Spacing.sm,
+  },
+  fieldRow: {
+    gap: Spacing.sm,
+  },
+  field: {
+    flex: 1,
+  },
+  footer: {
+    gap: Spacing.md,
+  },
+  footerButton: {
+    flex: 1,
+    height: 44,
+    borderRadius: BorderRadius.sm,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: Spacing.xl,
+  },
+});
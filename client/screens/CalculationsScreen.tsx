@@ -1,9 +1,5 @@
 import React, { useMemo } from "react";
-import {
-  View,
-  StyleSheet,
-  ScrollView,
-} from "react-native";
+import { View, StyleSheet, ScrollView } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useHeaderHeight } from "@react-navigation/elements";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
@@ -11,6 +7,7 @@ import { Feather } from "@expo/vector-icons";
 import Animated, { FadeInDown } from "react-native-reanimated";
 
 import { ThemedText } from "@/components/ThemedText";
+import { LoadProfileBars } from "@/components/LoadProfileBars";
 import { useTheme } from "@/hooks/useTheme";
 import { useResponsiveLayout } from "@/hooks/useResponsiveLayout";
 import { Spacing, BorderRadius, Typography } from "@/constants/theme";
@@ -18,8 +15,11 @@ import { useDay } from "@/contexts/DayContext";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { useRTL } from "@/hooks/useRTL";
 import { getFlowLabelAndStyle } from "@/lib/flowLabel";
+import { usePlantConfig } from "@/contexts/PlantConfigContext";
+import { activeTurbines } from "@/lib/plantConfig";
+import { GasCurveShape, curveForTurbine } from "@/lib/gasCurves";
+import { dayLoadProfile } from "@/lib/intraday";
 import {
-  TURBINES,
   format2,
   format4,
   feederExport,
@@ -40,7 +40,15 @@ interface StatCardProps {
   fullWidth?: boolean;
 }
 
-function StatCard({ title, value, unit, subtitle, tone = "blue", icon, fullWidth }: StatCardProps) {
+function StatCard({
+  title,
+  value,
+  unit,
+  subtitle,
+  tone = "blue",
+  icon,
+  fullWidth,
+}: StatCardProps) {
   const { theme } = useTheme();
 
   const colors = {
@@ -53,25 +61,49 @@ function StatCard({ title, value, unit, subtitle, tone = "blue", icon, fullWidth
   const color = colors[tone];
 
   return (
-    <View style={[styles.statCard, fullWidth && styles.statCardFull, { backgroundColor: color + "15", borderColor: color }]}>
+    <View
+      style={[
+        styles.statCard,
+        fullWidth && styles.statCardFull,
+        { backgroundColor: color + "15", borderColor: color },
+      ]}
+    >
       {icon ? (
-        <View style={[styles.statIconCircle, { backgroundColor: color + "20" }]}>
+        <View
+          style={[styles.statIconCircle, { backgroundColor: color + "20" }]}
+        >
           <Feather name={icon as any} size={20} color={color} />
         </View>
       ) : null}
-      <ThemedText type="small" style={{ color, marginTop: icon ? Spacing.sm : 0 }}>
+      <ThemedText
+        type="small"
+        style={{ color, marginTop: icon ? Spacing.sm : 0 }}
+      >
         {title}
       </ThemedText>
       <View style={styles.statValueRow}>
-        <ThemedText type="h2" style={{ color, fontFamily: Typography.mono.fontFamily, ...numberTextStyle }}>
+        <ThemedText
+          type="h2"
+          style={{
+            color,
+            fontFamily: Typography.mono.fontFamily,
+            ...numberTextStyle,
+          }}
+        >
           {value}
         </ThemedText>
-        <ThemedText type="small" style={{ color: theme.textSecondary, marginLeft: Spacing.xs }}>
+        <ThemedText
+          type="small"
+          style={{ color: theme.textSecondary, marginLeft: Spacing.xs }}
+        >
           {unit}
         </ThemedText>
       </View>
       {subtitle ? (
-        <ThemedText type="caption" style={{ color: theme.textSecondary, marginTop: Spacing.xs }}>
+        <ThemedText
+          type="caption"
+          style={{ color: theme.textSecondary, marginTop: Spacing.xs }}
+        >
           {subtitle}
         </ThemedText>
       ) : null}
@@ -79,6 +111,25 @@ function StatCard({ title, value, unit, subtitle, tone = "blue", icon, fullWidth
   );
 }
 
+function describeCurve(
+  curve: GasCurveShape,
+): { label: string; value: string }[] {
+  const points = [...curve.points].sort((a, b) => a.mwPerHr - b.mwPerHr);
+  if (curve.kind === "linear") {
+    return points.map((p) => ({
+      label: `MW/h = ${p.mwPerHr}:`,
+      value: `Diff × ${p.m3PerMwh}`,
+    }));
+  }
+  return points.map((p, i) => ({
+    label:
+      i < points.length - 1
+        ? `MW/h ≤ ${points[i + 1].mwPerHr}:`
+        : `MW/h > ${p.mwPerHr}:`,
+    value: `Diff × ${p.m3PerMwh}`,
+  }));
+}
+
 export default function CalculationsScreen() {
   const insets = useSafeAreaInsets();
   const headerHeight = useHeaderHeight();
@@ -88,24 +139,44 @@ export default function CalculationsScreen() {
   const { day, dateKey } = useDay();
   const { t, isRTL } = useLanguage();
   const { rtlRow, rtlText } = useRTL();
+  const { config } = usePlantConfig();
 
   const calculations = useMemo(() => {
-    const production = turbineProductionMwh(day);
-    const exportVal = feederExport(day);
+    const production = turbineProductionMwh(day, config);
+    const exportVal = feederExport(day, config);
     const consumption = production - exportVal;
 
-    const turbineData = TURBINES.map((t) => {
-      const computed = turbineRowComputed(day, t);
-      const gasM3 = gasForTurbine(computed.diff, computed.mwPerHr);
+    const turbineData = activeTurbines(config, dateKey).map((turbine) => {
+      const { id: t, name } = turbine;
+      const computed = turbineRowComputed(day, turbine);
+      const gasM3 = gasForTurbine(
+        computed.diff,
+        computed.mwPerHr,
+        curveForTurbine(config, t, dateKey),
+      );
       const gasMMscf = m3ToMMscf(gasM3);
       return {
         t,
+        name,
         ...computed,
         gasM3,
         gasMMscf,
       };
     });
 
+    const curveGroups: { curve: GasCurveShape; names: string[] }[] = [];
+    for (const { id: t, name } of activeTurbines(config, dateKey)) {
+      const curve = curveForTurbine(config, t, dateKey);
+      const group = curveGroups.find(
+        (g) => JSON.stringify(g.curve) === JSON.stringify(curve),
+      );
+      if (group) {
+        group.names.push(name);
+      } else {
+        curveGroups.push({ curve, names: [name] });
+      }
+    }
+
     const totalGasM3 = turbineData.reduce((a, r) => a + r.gasM3, 0);
     const totalGasMMscf = turbineData.reduce((a, r) => a + r.gasMMscf, 0);
 
@@ -116,8 +187,11 @@ export default function CalculationsScreen() {
       turbineData,
       totalGasM3,
       totalGasMMscf,
+      curveGroups,
     };
-  }, [day]);
+  }, [day, dateKey, config]);
+
+  const loadProfile = useMemo(() => dayLoadProfile(day, config), [day, config]);
 
   return (
     <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
@@ -134,13 +208,30 @@ export default function CalculationsScreen() {
         scrollIndicatorInsets={{ bottom: insets.bottom }}
         showsVerticalScrollIndicator={false}
       >
-        <Animated.View entering={FadeInDown.duration(300)} style={styles.dateHeader}>
-          <View style={[styles.dateIconCircle, { backgroundColor: theme.primary + "20" }]}>
+        <Animated.View
+          entering={FadeInDown.duration(300)}
+          style={styles.dateHeader}
+        >
+          <View
+            style={[
+              styles.dateIconCircle,
+              { backgroundColor: theme.primary + "20" },
+            ]}
+          >
             <Feather name="calendar" size={16} color={theme.primary} />
           </View>
-          <ThemedText type="body" style={{ marginLeft: Spacing.md, color: theme.textSecondary }}>
+          <ThemedText
+            type="body"
+            style={{ marginLeft: Spacing.md, color: theme.textSecondary }}
+          >
             {t("calculations_for")}{" "}
-            <ThemedText type="body" style={{ color: theme.text, fontFamily: Typography.h4.fontFamily }}>
+            <ThemedText
+              type="body"
+              style={{
+                color: theme.text,
+                fontFamily: Typography.h4.fontFamily,
+              }}
+            >
               {dateKey}
             </ThemedText>
           </ThemedText>
@@ -150,7 +241,11 @@ export default function CalculationsScreen() {
           <ThemedText type="h3" style={styles.sectionTitle}>
             {t("energy_summary")}
           </ThemedText>
-          <View style={layout.isTablet ? styles.tabletStatsGrid : styles.mobileStatsStack}>
+          <View
+            style={
+              layout.isTablet ? styles.tabletStatsGrid : styles.mobileStatsStack
+            }
+          >
             <StatCard
               title={t("production")}
               value={format2(calculations.production)}
@@ -160,11 +255,19 @@ export default function CalculationsScreen() {
               fullWidth={!layout.isTablet}
             />
             <StatCard
-              title={getFlowLabelAndStyle(calculations.exportVal >= 0, t, theme).text}
+              title={
+                getFlowLabelAndStyle(calculations.exportVal >= 0, t, theme).text
+              }
               value={format2(Math.abs(calculations.exportVal))}
               unit={t("mwh")}
-              tone={getFlowLabelAndStyle(calculations.exportVal >= 0, t, theme).tone}
-              icon={calculations.exportVal >= 0 ? "arrow-up-right" : "arrow-down-left"}
+              tone={
+                getFlowLabelAndStyle(calculations.exportVal >= 0, t, theme).tone
+              }
+              icon={
+                calculations.exportVal >= 0
+                  ? "arrow-up-right"
+                  : "arrow-down-left"
+              }
               fullWidth={!layout.isTablet}
             />
             <StatCard
@@ -183,9 +286,18 @@ export default function CalculationsScreen() {
             {t("gas_consumption")}
           </ThemedText>
 
-          <View style={[styles.card, { backgroundColor: theme.backgroundDefault }]}>
-            <View style={[styles.cardHeader, { borderBottomColor: theme.border }]}>
-              <View style={[styles.iconCircle, { backgroundColor: theme.warning + "20" }]}>
+          <View
+            style={[styles.card, { backgroundColor: theme.backgroundDefault }]}
+          >
+            <View
+              style={[styles.cardHeader, { borderBottomColor: theme.border }]}
+            >
+              <View
+                style={[
+                  styles.iconCircle,
+                  { backgroundColor: theme.warning + "20" },
+                ]}
+              >
                 <Feather name="droplet" size={18} color={theme.warning} />
               </View>
               <ThemedText type="h4" style={{ marginLeft: Spacing.md }}>
@@ -193,20 +305,40 @@ export default function CalculationsScreen() {
               </ThemedText>
             </View>
 
-            <View style={[styles.tableHeader, { borderBottomColor: theme.border }]}>
-              <ThemedText type="caption" style={[styles.tableCell, { flex: 0.8, color: theme.textSecondary }]}>
+            <View
+              style={[styles.tableHeader, { borderBottomColor: theme.border }]}
+            >
+              <ThemedText
+                type="caption"
+                style={[
+                  styles.tableCell,
+                  { flex: 0.8, color: theme.textSecondary },
+                ]}
+              >
                 {t("turbine")}
               </ThemedText>
-              <ThemedText type="caption" style={[styles.tableCell, { color: theme.textSecondary }]}>
+              <ThemedText
+                type="caption"
+                style={[styles.tableCell, { color: theme.textSecondary }]}
+              >
                 {t("diff_mwh")}
               </ThemedText>
-              <ThemedText type="caption" style={[styles.tableCell, { color: theme.textSecondary }]}>
+              <ThemedText
+                type="caption"
+                style={[styles.tableCell, { color: theme.textSecondary }]}
+              >
                 {t("mw_per_hr")}
               </ThemedText>
-              <ThemedText type="caption" style={[styles.tableCell, { color: theme.textSecondary }]}>
+              <ThemedText
+                type="caption"
+                style={[styles.tableCell, { color: theme.textSecondary }]}
+              >
                 {t("gas_m3")}
               </ThemedText>
-              <ThemedText type="caption" style={[styles.tableCell, { color: theme.textSecondary }]}>
+              <ThemedText
+                type="caption"
+                style={[styles.tableCell, { color: theme.textSecondary }]}
+              >
                 MMscf
               </ThemedText>
             </View>
@@ -222,23 +354,74 @@ export default function CalculationsScreen() {
                   },
                 ]}
               >
-                <View style={[styles.tableCell, { flex: 0.8, flexDirection: "row", alignItems: "center" }]}>
-                  <View style={[styles.turbineBadgeSmall, { backgroundColor: theme.success + "20" }]}>
-                    <ThemedText type="caption" style={{ color: theme.success, fontWeight: "600" }}>
-                      {r.t}
+                <View
+                  style={[
+                    styles.tableCell,
+                    { flex: 0.8, flexDirection: "row", alignItems: "center" },
+                  ]}
+                >
+                  <View
+                    style={[
+                      styles.turbineBadgeSmall,
+                      { backgroundColor: theme.success + "20" },
+                    ]}
+                  >
+                    <ThemedText
+                      type="caption"
+                      style={{ color: theme.success, fontWeight: "600" }}
+                    >
+                      {r.name}
                     </ThemedText>
                   </View>
                 </View>
-                <ThemedText type="small" style={[styles.tableCell, { fontFamily: Typography.mono.fontFamily, ...numberTextStyle }]}>
+                <ThemedText
+                  type="small"
+                  style={[
+                    styles.tableCell,
+                    {
+                      fontFamily: Typography.mono.fontFamily,
+                      ...numberTextStyle,
+                    },
+                  ]}
+                >
                   {format2(r.diff)}
                 </ThemedText>
-                <ThemedText type="small" style={[styles.tableCell, { fontFamily: Typography.mono.fontFamily, ...numberTextStyle }]}>
+                <ThemedText
+                  type="small"
+                  style={[
+                    styles.tableCell,
+                    {
+                      fontFamily: Typography.mono.fontFamily,
+                      ...numberTextStyle,
+                    },
+                  ]}
+                >
                   {format2(r.mwPerHr)}
                 </ThemedText>
-                <ThemedText type="small" style={[styles.tableCell, { fontFamily: Typography.mono.fontFamily, color: theme.warning, ...numberTextStyle }]}>
+                <ThemedText
+                  type="small"
+                  style={[
+                    styles.tableCell,
+                    {
+                      fontFamily: Typography.mono.fontFamily,
+                      color: theme.warning,
+                      ...numberTextStyle,
+                    },
+                  ]}
+                >
                   {format2(r.gasM3)}
                 </ThemedText>
-                <ThemedText type="small" style={[styles.tableCell, { fontFamily: Typography.mono.fontFamily, color: theme.warning, ...numberTextStyle }]}>
+                <ThemedText
+                  type="small"
+                  style={[
+                    styles.tableCell,
+                    {
+                      fontFamily: Typography.mono.fontFamily,
+                      color: theme.warning,
+                      ...numberTextStyle,
+                    },
+                  ]}
+                >
                   {format4(r.gasMMscf)}
                 </ThemedText>
               </View>
@@ -263,77 +446,268 @@ export default function CalculationsScreen() {
           </View>
         </Animated.View>
 
+        <Animated.View entering={FadeInDown.delay(200).duration(300)}>
+          <ThemedText type="h3" style={styles.sectionTitle}>
+            {t("load_profile")}
+          </ThemedText>
+
+          <View
+            style={[styles.card, { backgroundColor: theme.backgroundDefault }]}
+          >
+            <View
+              style={[styles.cardHeader, { borderBottomColor: theme.border }]}
+            >
+              <View
+                style={[
+                  styles.iconCircle,
+                  { backgroundColor: theme.success + "20" },
+                ]}
+              >
+                <Feather name="bar-chart-2" size={18} color={theme.success} />
+              </View>
+              <ThemedText type="h4" style={{ marginLeft: Spacing.md }}>
+                {t("production")} · {t("mwh")}/h
+              </ThemedText>
+            </View>
+
+            <View style={styles.profileChart}>
+              <LoadProfileBars
+                values={loadProfile.production}
+                color={theme.success}
+              />
+              {!loadProfile.hasIntervalReadings ? (
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary, marginTop: Spacing.sm }}
+                >
+                  {t("load_profile_no_readings")}
+                </ThemedText>
+              ) : null}
+            </View>
+
+            <View
+              style={[
+                styles.tableHeader,
+                {
+                  borderTopWidth: 1,
+                  borderTopColor: theme.border,
+                  borderBottomColor: theme.border,
+                },
+              ]}
+            >
+              <ThemedText
+                type="caption"
+                style={[styles.tableCell, { color: theme.textSecondary }]}
+              >
+                {t("shift")}
+              </ThemedText>
+              <ThemedText
+                type="caption"
+                style={[styles.tableCell, { color: theme.textSecondary }]}
+              >
+                {t("production")}
+              </ThemedText>
+              <ThemedText
+                type="caption"
+                style={[styles.tableCell, { color: theme.textSecondary }]}
+              >
+                {t("export")}
+              </ThemedText>
+            </View>
+
+            {loadProfile.shifts.map((row, index) => (
+              <View
+                key={row.shift.id}
+                style={[
+                  styles.tableRow,
+                  index < loadProfile.shifts.length - 1 && {
+                    borderBottomWidth: 1,
+                    borderBottomColor: theme.border,
+                  },
+                ]}
+              >
+                <ThemedText type="small" style={styles.tableCell}>
+                  {row.shift.name} ({row.shift.start})
+                </ThemedText>
+                <ThemedText
+                  type="small"
+                  style={[
+                    styles.tableCell,
+                    {
+                      fontFamily: Typography.mono.fontFamily,
+                      ...numberTextStyle,
+                    },
+                  ]}
+                >
+                  {format2(row.production)}
+                </ThemedText>
+                <ThemedText
+                  type="small"
+                  style={[
+                    styles.tableCell,
+                    {
+                      fontFamily: Typography.mono.fontFamily,
+                      ...numberTextStyle,
+                    },
+                  ]}
+                >
+                  {format2(row.exportVal)}
+                </ThemedText>
+              </View>
+            ))}
+          </View>
+
+          <View style={styles.statsRow}>
+            <StatCard
+              title={t("peak_mw")}
+              value={format2(loadProfile.peakProductionMw)}
+              unit={t("mw_unit")}
+              tone="green"
+              icon="zap"
+            />
+          </View>
+        </Animated.View>
+
         <Animated.View entering={FadeInDown.delay(250).duration(300)}>
           <ThemedText type="h3" style={styles.sectionTitle}>
             {t("formula_reference")}
           </ThemedText>
 
-          <View style={[styles.card, { backgroundColor: theme.backgroundDefault }]}>
-            <View style={[styles.formulaRow, { borderBottomWidth: 1, borderBottomColor: theme.border }]}>
+          <View
+            style={[styles.card, { backgroundColor: theme.backgroundDefault }]}
+          >
+            <View
+              style={[
+                styles.formulaRow,
+                { borderBottomWidth: 1, borderBottomColor: theme.border },
+              ]}
+            >
               <View style={styles.formulaLabelRow}>
-                <View style={[styles.formulaDot, { backgroundColor: theme.success }]} />
+                <View
+                  style={[
+                    styles.formulaDot,
+                    { backgroundColor: theme.success },
+                  ]}
+                />
                 <ThemedText type="small" style={{ color: theme.textSecondary }}>
                   {t("production")}
                 </ThemedText>
               </View>
-              <ThemedText type="body" style={{ fontFamily: Typography.mono.fontFamily, color: theme.primary }}>
+              <ThemedText
+                type="body"
+                style={{
+                  fontFamily: Typography.mono.fontFamily,
+                  color: theme.primary,
+                }}
+              >
                 {t("sum_turbine_diff")}
               </ThemedText>
             </View>
-            <View style={[styles.formulaRow, { borderBottomWidth: 1, borderBottomColor: theme.border }]}>
+            <View
+              style={[
+                styles.formulaRow,
+                { borderBottomWidth: 1, borderBottomColor: theme.border },
+              ]}
+            >
               <View style={styles.formulaLabelRow}>
-                <View style={[styles.formulaDot, { backgroundColor: theme.primary }]} />
+                <View
+                  style={[
+                    styles.formulaDot,
+                    { backgroundColor: theme.primary },
+                  ]}
+                />
                 <ThemedText type="small" style={{ color: theme.textSecondary }}>
                   {t("export_withdrawal_label")}
                 </ThemedText>
               </View>
-              <ThemedText type="body" style={{ fontFamily: Typography.mono.fontFamily, color: theme.primary }}>
+              <ThemedText
+                type="body"
+                style={{
+                  fontFamily: Typography.mono.fontFamily,
+                  color: theme.primary,
+                }}
+              >
                 {t("sum_feeder_diff")}
               </ThemedText>
             </View>
-            <View style={[styles.formulaRow, { borderBottomWidth: 1, borderBottomColor: theme.border }]}>
+            <View
+              style={[
+                styles.formulaRow,
+                { borderBottomWidth: 1, borderBottomColor: theme.border },
+              ]}
+            >
               <View style={styles.formulaLabelRow}>
-                <View style={[styles.formulaDot, { backgroundColor: theme.warning }]} />
+                <View
+                  style={[
+                    styles.formulaDot,
+                    { backgroundColor: theme.warning },
+                  ]}
+                />
                 <ThemedText type="small" style={{ color: theme.textSecondary }}>
                   {t("consumption")}
                 </ThemedText>
               </View>
-              <ThemedText type="body" style={{ fontFamily: Typography.mono.fontFamily, color: theme.primary }}>
+              <ThemedText
+                type="body"
+                style={{
+                  fontFamily: Typography.mono.fontFamily,
+                  color: theme.primary,
+                }}
+              >
                 {t("production_minus_export")}
               </ThemedText>
             </View>
             <View style={styles.formulaRow}>
               <View style={styles.formulaLabelRow}>
-                <View style={[styles.formulaDot, { backgroundColor: theme.warning }]} />
+                <View
+                  style={[
+                    styles.formulaDot,
+                    { backgroundColor: theme.warning },
+                  ]}
+                />
                 <ThemedText type="small" style={{ color: theme.textSecondary }}>
                   {t("gas_formula")}
                 </ThemedText>
               </View>
               <View style={styles.gasFormulas}>
-                <View style={styles.gasFormulaRow}>
-                  <ThemedText type="caption" style={{ color: theme.textSecondary }}>MW/h ≤ 3:</ThemedText>
-                  <ThemedText type="caption" style={{ color: theme.warning, fontFamily: Typography.mono.fontFamily }}>
-                    Diff × 1000
-                  </ThemedText>
-                </View>
-                <View style={styles.gasFormulaRow}>
-                  <ThemedText type="caption" style={{ color: theme.textSecondary }}>MW/h ≤ 5:</ThemedText>
-                  <ThemedText type="caption" style={{ color: theme.warning, fontFamily: Typography.mono.fontFamily }}>
-                    Diff × 700
-                  </ThemedText>
-                </View>
-                <View style={styles.gasFormulaRow}>
-                  <ThemedText type="caption" style={{ color: theme.textSecondary }}>MW/h ≤ 8:</ThemedText>
-                  <ThemedText type="caption" style={{ color: theme.warning, fontFamily: Typography.mono.fontFamily }}>
-                    Diff × 500
-                  </ThemedText>
-                </View>
-                <View style={styles.gasFormulaRow}>
-                  <ThemedText type="caption" style={{ color: theme.textSecondary }}>{"MW/h > 8:"}</ThemedText>
-                  <ThemedText type="caption" style={{ color: theme.warning, fontFamily: Typography.mono.fontFamily }}>
-                    Diff × 420
-                  </ThemedText>
-                </View>
+                {calculations.curveGroups.map((group) => (
+                  <View
+                    key={group.names.join(",")}
+                    style={styles.gasCurveGroup}
+                  >
+                    {calculations.curveGroups.length > 1 ||
+                    group.curve.kind === "linear" ? (
+                      <ThemedText
+                        type="caption"
+                        style={{ color: theme.text, fontWeight: "600" }}
+                      >
+                        {group.names.join(", ")}
+                        {group.curve.kind === "linear"
+                          ? ` · ${t("gas_curve_linear")}`
+                          : ""}
+                      </ThemedText>
+                    ) : null}
+                    {describeCurve(group.curve).map((band) => (
+                      <View key={band.label} style={styles.gasFormulaRow}>
+                        <ThemedText
+                          type="caption"
+                          style={{ color: theme.textSecondary }}
+                        >
+                          {band.label}
+                        </ThemedText>
+                        <ThemedText
+                          type="caption"
+                          style={{
+                            color: theme.warning,
+                            fontFamily: Typography.mono.fontFamily,
+                          }}
+                        >
+                          {band.value}
+                        </ThemedText>
+                      </View>
+                    ))}
+                  </View>
+                ))}
               </View>
             </View>
           </View>
@@ -423,6 +797,9 @@ const styles = StyleSheet.create({
     alignItems: "center",
     justifyContent: "center",
   },
+  profileChart: {
+    padding: Spacing.lg,
+  },
   tableHeader: {
     flexDirection: "row",
     paddingHorizontal: Spacing.lg,
@@ -465,6 +842,10 @@ const styles = StyleSheet.create({
   gasFormulas: {
     alignItems: "flex-end",
   },
+  gasCurveGroup: {
+    alignItems: "flex-end",
+    marginBottom: Spacing.sm,
+  },
   gasFormulaRow: {
     flexDirection: "row",
     gap: Spacing.sm,
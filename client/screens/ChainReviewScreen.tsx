@@ -0,0 +1,300 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  ActivityIndicator,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Animated, { FadeInDown } from "react-native-reanimated";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ChainCorrectionModal } from "@/components/ChainCorrectionModal";
+import { useTheme } from "@/hooks/useTheme";
+import { useResponsiveLayout } from "@/hooks/useResponsiveLayout";
+import { useRTL } from "@/hooks/useRTL";
+import { Spacing, BorderRadius, Typography } from "@/constants/theme";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { usePlantConfig } from "@/contexts/PlantConfigContext";
+import { useDay } from "@/contexts/DayContext";
+import {
+  ChainCorrection,
+  ChainMismatch,
+  findChainMismatches,
+  planChainCorrections,
+} from "@/lib/dayChain";
+import { meterName } from "@/lib/plantConfig";
+import { isDayLocked } from "@/lib/dayApproval";
+import { isMonthClosed } from "@/lib/monthClosing";
+import { DayData, getAllDaysData } from "@/lib/storage";
+import { showSuccess, showError } from "@/utils/notify";
+
+export default function ChainReviewScreen() {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const { rtlRow, rtlText } = useRTL();
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const tabBarHeight = useBottomTabBarHeight();
+  const layout = useResponsiveLayout();
+  const { config } = usePlantConfig();
+  const { saveDays, closures } = useDay();
+
+  const [days, setDays] = useState<DayData[]>([]);
+  const [mismatches, setMismatches] = useState<ChainMismatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [corrections, setCorrections] = useState<ChainCorrection[] | null>(
+    null,
+  );
+  const [applying, setApplying] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const allDays = await getAllDaysData(config);
+      setDays(allDays);
+      setMismatches(findChainMismatches(allDays, config));
+    } catch (error) {
+      console.error("Error checking reading chain:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [config]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handlePreview = (selected: ChainMismatch[]) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setCorrections(
+      planChainCorrections(
+        days,
+        selected,
+        config,
+        (d) => isDayLocked(d) || isMonthClosed(closures, d.dateKey),
+      ),
+    );
+  };
+
+  const handleApply = async () => {
+    if (!corrections) return;
+    setApplying(true);
+    try {
+      await saveDays(corrections.map((c) => c.after));
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      showSuccess(t("chain_applied"));
+      setCorrections(null);
+      await load();
+    } catch (error) {
+      console.error("Error applying chain corrections:", error);
+      showError(t("msg_error_generic"));
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={{
+          paddingTop: headerHeight + Spacing.lg,
+          paddingBottom: tabBarHeight + Spacing.xl,
+          paddingHorizontal: layout.horizontalPadding,
+          maxWidth: layout.isTablet ? layout.contentMaxWidth : undefined,
+          alignSelf: layout.isTablet ? "center" : undefined,
+          width: layout.isTablet ? "100%" : undefined,
+        }}
+        scrollIndicatorInsets={{ bottom: insets.bottom }}
+        showsVerticalScrollIndicator={false}
+      >
+        <Animated.View entering={FadeInDown.duration(300)}>
+          <View
+            style={[styles.card, { backgroundColor: theme.backgroundDefault }]}
+          >
+            <View
+              style={[
+                styles.cardHeader,
+                rtlRow,
+                { borderBottomColor: theme.border },
+              ]}
+            >
+              <View
+                style={[
+                  styles.iconCircle,
+                  { backgroundColor: theme.primary + "20" },
+                ]}
+              >
+                <Feather name="link" size={20} color={theme.primary} />
+              </View>
+              <View style={{ flex: 1, marginHorizontal: Spacing.md }}>
+                <ThemedText
+                  type="body"
+                  style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}
+                >
+                  {t("chain_review")}
+                </ThemedText>
+                <ThemedText
+                  type="caption"
+                  style={[{ color: theme.textSecondary }, rtlText]}
+                >
+                  {t("chain_review_desc")}
+                </ThemedText>
+              </View>
+              {mismatches.length > 1 ? (
+                <Pressable
+                  style={[styles.fixButton, { borderColor: theme.primary }]}
+                  onPress={() => handlePreview(mismatches)}
+                  testID="button-chain-fix-all"
+                >
+                  <ThemedText type="small" style={{ color: theme.primary }}>
+                    {t("chain_fix_all")}
+                  </ThemedText>
+                </Pressable>
+              ) : null}
+            </View>
+
+            {loading ? (
+              <View style={styles.emptyContainer}>
+                <ActivityIndicator size="large" color={theme.primary} />
+              </View>
+            ) : mismatches.length === 0 ? (
+              <View style={styles.emptyContainer}>
+                <Feather name="check-circle" size={40} color={theme.success} />
+                <ThemedText
+                  type="body"
+                  style={{
+                    color: theme.textSecondary,
+                    marginTop: Spacing.md,
+                    textAlign: "center",
+                  }}
+                >
+                  {t("chain_consistent")}
+                </ThemedText>
+              </View>
+            ) : (
+              mismatches.map((mismatch, index) => (
+                <View
+                  key={`${mismatch.dateKey}-${mismatch.kind}-${mismatch.meterId}`}
+                  style={[
+                    styles.mismatchRow,
+                    rtlRow,
+                    index < mismatches.length - 1 && {
+                      borderBottomWidth: 1,
+                      borderBottomColor: theme.border,
+                    },
+                  ]}
+                >
+                  <View style={{ flex: 1 }}>
+                    <ThemedText
+                      type="body"
+                      style={[{ fontWeight: "600" }, rtlText]}
+                    >
+                      {mismatch.dateKey} ·{" "}
+                      {t(mismatch.kind === "feeder" ? "feeder" : "turbine")}{" "}
+                      {meterName(config, mismatch.kind, mismatch.meterId)}
+                    </ThemedText>
+                    <ThemedText
+                      type="small"
+                      style={[{ color: theme.textSecondary }, rtlText]}
+                    >
+                      {t("chain_stored_opening")}:{" "}
+                      <ThemedText
+                        type="small"
+                        style={{
+                          color: theme.error,
+                          fontFamily: Typography.mono.fontFamily,
+                        }}
+                      >
+                        {mismatch.actual}
+                      </ThemedText>
+                    </ThemedText>
+                    <ThemedText
+                      type="small"
+                      style={[{ color: theme.textSecondary }, rtlText]}
+                    >
+                      {t("chain_previous_closing")}:{" "}
+                      <ThemedText
+                        type="small"
+                        style={{
+                          color: theme.success,
+                          fontFamily: Typography.mono.fontFamily,
+                        }}
+                      >
+                        {mismatch.expected}
+                      </ThemedText>
+                    </ThemedText>
+                  </View>
+                  <Pressable
+                    style={[styles.fixButton, { borderColor: theme.primary }]}
+                    onPress={() => handlePreview([mismatch])}
+                    testID={`button-chain-preview-${mismatch.dateKey}-${mismatch.meterId}`}
+                  >
+                    <ThemedText type="small" style={{ color: theme.primary }}>
+                      {t("chain_preview_fix")}
+                    </ThemedText>
+                  </Pressable>
+                </View>
+              ))
+            )}
+          </View>
+        </Animated.View>
+      </ScrollView>
+
+      <ChainCorrectionModal
+        visible={!!corrections}
+        corrections={corrections ?? []}
+        applying={applying}
+        onApply={handleApply}
+        onClose={() => setCorrections(null)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  card: {
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.lg,
+    overflow: "hidden",
+  },
+  cardHeader: {
+    alignItems: "center",
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+  },
+  iconCircle: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  emptyContainer: {
+    padding: Spacing["3xl"],
+    alignItems: "center",
+  },
+  mismatchRow: {
+    alignItems: "center",
+    gap: Spacing.md,
+    padding: Spacing.lg,
+  },
+  fixButton: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.xs,
+    borderWidth: 1,
+  },
+});
@@ -0,0 +1,561 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  TextInput,
+  ActivityIndicator,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { RouteProp, useNavigation, useRoute } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useResponsiveLayout } from "@/hooks/useResponsiveLayout";
+import { useRTL } from "@/hooks/useRTL";
+import { Spacing, BorderRadius, Typography } from "@/constants/theme";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { usePlantConfig } from "@/contexts/PlantConfigContext";
+import { usePlantWorkspace } from "@/contexts/PlantWorkspaceContext";
+import { useDay } from "@/contexts/DayContext";
+import type { RootStackParamList } from "@/navigation/RootStackNavigator";
+import {
+  ConflictChoice,
+  FieldConflict,
+  FieldResolution,
+  findFieldConflicts,
+  mergeKind,
+  mergeReadings,
+  resolveDay,
+} from "@/lib/dayConflicts";
+import { fieldLabel } from "@/lib/dayHistory";
+import {
+  DayData,
+  IntervalReading,
+  getDeletedDayData,
+  getSavedDayData,
+} from "@/lib/storage";
+import { fetchDayFromSupabase } from "@/lib/supabaseSync";
+import { canApproveDays } from "@/lib/plantWorkspace";
+import { showSuccess, showError } from "@/utils/notify";
+
+function displayValue(field: string, value: string): string {
+  if (!value) return "—";
+  if (mergeKind(field) !== "list") return value;
+  const readings: IntervalReading[] = JSON.parse(value);
+  return readings.map((r) => `${r.time} ${r.value}`).join(", ");
+}
+
+interface ChoiceButtonProps {
+  label: string;
+  value: string;
+  selected: boolean;
+  onPress: () => void;
+  testID?: string;
+}
+
+function ChoiceButton({
+  label,
+  value,
+  selected,
+  onPress,
+  testID,
+}: ChoiceButtonProps) {
+  const { theme } = useTheme();
+  const { rtlText } = useRTL();
+
+  return (
+    <Pressable
+      style={[
+        styles.choice,
+        {
+          borderColor: selected ? theme.primary : theme.border,
+          backgroundColor: selected ? theme.primary + "15" : "transparent",
+        },
+      ]}
+      onPress={onPress}
+      testID={testID}
+    >
+      <ThemedText
+        type="caption"
+        style={[{ color: theme.textSecondary }, rtlText]}
+      >
+        {label}
+      </ThemedText>
+      <ThemedText
+        type="small"
+        style={[
+          {
+            fontFamily: Typography.mono.fontFamily,
+            color: selected ? theme.primary : theme.text,
+          },
+          rtlText,
+        ]}
+      >
+        {value}
+      </ThemedText>
+    </Pressable>
+  );
+}
+
+interface ConflictRowProps {
+  conflict: FieldConflict;
+  label: string;
+  resolution: FieldResolution;
+  onChange: (resolution: FieldResolution) => void;
+  last: boolean;
+}
+
+function ConflictRow({
+  conflict,
+  label,
+  resolution,
+  onChange,
+  last,
+}: ConflictRowProps) {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const { rtlRow, rtlText } = useRTL();
+  const { field, mine, theirs } = conflict;
+  const kind = mergeKind(field);
+
+  const select = (choice: ConflictChoice) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onChange(
+      choice === "merge" && kind === "text"
+        ? { choice, value: resolution.value ?? mine }
+        : { choice },
+    );
+  };
+
+  const merged =
+    kind === "list"
+      ? JSON.stringify(
+          mergeReadings(
+            mine ? JSON.parse(mine) : [],
+            theirs ? JSON.parse(theirs) : [],
+          ),
+        )
+      : null;
+
+  return (
+    <View
+      style={[
+        styles.conflictRow,
+        !last && { borderBottomWidth: 1, borderBottomColor: theme.border },
+      ]}
+    >
+      <ThemedText type="body" style={[{ fontWeight: "600" }, rtlText]}>
+        {label}
+      </ThemedText>
+      <View style={[styles.choices, rtlRow]}>
+        <ChoiceButton
+          label={t("conflict_mine")}
+          value={displayValue(field, mine)}
+          selected={resolution.choice === "mine"}
+          onPress={() => select("mine")}
+          testID={`button-conflict-mine-${field}`}
+        />
+        <ChoiceButton
+          label={t("conflict_theirs")}
+          value={displayValue(field, theirs)}
+          selected={resolution.choice === "theirs"}
+          onPress={() => select("theirs")}
+          testID={`button-conflict-theirs-${field}`}
+        />
+      </View>
+      {kind === "list" && merged ? (
+        <ChoiceButton
+          label={t("conflict_merge")}
+          value={displayValue(field, merged)}
+          selected={resolution.choice === "merge"}
+          onPress={() => select("merge")}
+          testID={`button-conflict-merge-${field}`}
+        />
+      ) : kind === "text" ? (
+        resolution.choice === "merge" ? (
+          <TextInput
+            style={[
+              styles.input,
+              {
+                color: theme.text,
+                borderColor: theme.primary,
+                backgroundColor: theme.backgroundSecondary,
+              },
+              rtlText,
+            ]}
+            value={resolution.value}
+            onChangeText={(value) => onChange({ choice: "merge", value })}
+            keyboardType={field.endsWith(".time") ? "default" : "decimal-pad"}
+            autoFocus
+            testID={`input-conflict-merge-${field}`}
+          />
+        ) : (
+          <Pressable
+            style={[styles.mergeButton, rtlRow]}
+            onPress={() => select("merge")}
+            testID={`button-conflict-merge-${field}`}
+          >
+            <Feather name="edit-2" size={14} color={theme.primary} />
+            <ThemedText type="small" style={{ color: theme.primary }}>
+              {t("conflict_merge")}
+            </ThemedText>
+          </Pressable>
+        )
+      ) : null}
+    </View>
+  );
+}
+
+// Puts this device's version of a day next to the one in Supabase, field by
+// field, so the user picks or merges each value before the day is pushed
+// again. A day deleted here but changed in Supabase is either kept deleted
+// or restored as changed there.
+export default function ConflictResolutionScreen() {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const { rtlRow, rtlText } = useRTL();
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const layout = useResponsiveLayout();
+  const navigation = useNavigation();
+  const { dateKey } =
+    useRoute<RouteProp<RootStackParamList, "ConflictResolution">>().params;
+  const { config } = usePlantConfig();
+  const { plant, role } = usePlantWorkspace();
+  const { resolveConflict } = useDay();
+
+  const [mine, setMine] = useState<DayData | null>(null);
+  const [theirs, setTheirs] = useState<DayData | null>(null);
+  const [conflicts, setConflicts] = useState<FieldConflict[]>([]);
+  const [resolutions, setResolutions] = useState<
+    Record<string, FieldResolution>
+  >({});
+  const [loading, setLoading] = useState(true);
+  const [applying, setApplying] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!plant) return;
+    setLoading(true);
+    try {
+      const [saved, deleted, remote] = await Promise.all([
+        getSavedDayData(dateKey, config),
+        getDeletedDayData(dateKey, config),
+        fetchDayFromSupabase(plant.id, dateKey, config),
+      ]);
+      const local = saved ?? deleted;
+      setMine(local);
+      setTheirs(remote);
+      setConflicts(
+        local && remote && !local.deletedAt && !remote.deletedAt
+          ? findFieldConflicts(local, remote)
+          : [],
+      );
+      setResolutions({});
+    } catch (error) {
+      console.error("Error loading day conflict:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [plant, dateKey, config]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const chooseAll = (choice: ConflictChoice) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setResolutions(
+      Object.fromEntries(conflicts.map(({ field }) => [field, { choice }])),
+    );
+  };
+
+  const handleApply = async () => {
+    if (!mine || !theirs) return;
+    setApplying(true);
+    try {
+      await resolveConflict(resolveDay(mine, theirs, conflicts, resolutions));
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      showSuccess(t("msg_conflict_resolved"));
+      navigation.goBack();
+    } catch (error) {
+      console.error("Error resolving conflict:", error);
+      showError(t("msg_error_generic"));
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  // The deletion is based on the server's version once resolved, so that
+  // keeping it deleted is pushed rather than reported again. Only a
+  // supervisor may keep it deleted.
+  const handleResolveDeletion = async (keepDeleted: boolean) => {
+    if (!mine || !theirs) return;
+    setApplying(true);
+    try {
+      await resolveConflict(
+        keepDeleted
+          ? { ...mine, remoteRevision: theirs.remoteRevision }
+          : theirs,
+      );
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      showSuccess(t("msg_conflict_resolved"));
+      navigation.goBack();
+    } catch (error) {
+      console.error("Error resolving deletion conflict:", error);
+      showError(t("msg_error_generic"));
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const ready = !loading && !!mine && !!theirs;
+  const deletion = ready && !!mine.deletedAt && !theirs.deletedAt;
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={{
+          paddingTop: headerHeight + Spacing.lg,
+          paddingBottom: insets.bottom + Spacing.xl,
+          paddingHorizontal: layout.horizontalPadding,
+          maxWidth: layout.isTablet ? layout.contentMaxWidth : undefined,
+          alignSelf: layout.isTablet ? "center" : undefined,
+          width: layout.isTablet ? "100%" : undefined,
+        }}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        <View
+          style={[styles.card, { backgroundColor: theme.backgroundDefault }]}
+        >
+          <View
+            style={[
+              styles.cardHeader,
+              rtlRow,
+              { borderBottomColor: theme.border },
+            ]}
+          >
+            <View
+              style={[
+                styles.iconCircle,
+                { backgroundColor: theme.error + "20" },
+              ]}
+            >
+              <Feather name="git-merge" size={20} color={theme.error} />
+            </View>
+            <View style={{ flex: 1, marginHorizontal: Spacing.md }}>
+              <ThemedText
+                type="body"
+                style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}
+              >
+                {dateKey}
+              </ThemedText>
+              <ThemedText
+                type="caption"
+                style={[{ color: theme.textSecondary }, rtlText]}
+              >
+                {t(deletion ? "conflict_deleted_desc" : "conflict_desc")}
+              </ThemedText>
+            </View>
+          </View>
+
+          {loading ? (
+            <View style={styles.emptyContainer}>
+              <ActivityIndicator size="large" color={theme.primary} />
+            </View>
+          ) : !ready ? (
+            <View style={styles.emptyContainer}>
+              <Feather name="cloud-off" size={40} color={theme.error} />
+              <ThemedText
+                type="body"
+                style={[styles.emptyText, { color: theme.textSecondary }]}
+              >
+                {t("conflict_load_failed")}
+              </ThemedText>
+            </View>
+          ) : deletion ? (
+            <View
+              style={[styles.bulkRow, rtlRow, { paddingBottom: Spacing.lg }]}
+            >
+              {canApproveDays(role) ? (
+                <Pressable
+                  style={[styles.bulkButton, { borderColor: theme.error }]}
+                  onPress={() => handleResolveDeletion(true)}
+                  disabled={applying}
+                  testID="button-conflict-keep-deleted"
+                >
+                  <ThemedText type="small" style={{ color: theme.error }}>
+                    {t("conflict_keep_deleted")}
+                  </ThemedText>
+                </Pressable>
+              ) : null}
+              <Pressable
+                style={[styles.bulkButton, { borderColor: theme.primary }]}
+                onPress={() => handleResolveDeletion(false)}
+                disabled={applying}
+                testID="button-conflict-restore-theirs"
+              >
+                <ThemedText type="small" style={{ color: theme.primary }}>
+                  {t("conflict_restore_theirs")}
+                </ThemedText>
+              </Pressable>
+            </View>
+          ) : conflicts.length === 0 ? (
+            <View style={styles.emptyContainer}>
+              <Feather name="check-circle" size={40} color={theme.success} />
+              <ThemedText
+                type="body"
+                style={[styles.emptyText, { color: theme.textSecondary }]}
+              >
+                {t("conflict_none")}
+              </ThemedText>
+            </View>
+          ) : (
+            <>
+              <View style={[styles.bulkRow, rtlRow]}>
+                <Pressable
+                  style={[styles.bulkButton, { borderColor: theme.primary }]}
+                  onPress={() => chooseAll("mine")}
+                  testID="button-conflict-all-mine"
+                >
+                  <ThemedText type="small" style={{ color: theme.primary }}>
+                    {t("conflict_keep_all_mine")}
+                  </ThemedText>
+                </Pressable>
+                <Pressable
+                  style={[styles.bulkButton, { borderColor: theme.primary }]}
+                  onPress={() => chooseAll("theirs")}
+                  testID="button-conflict-all-theirs"
+                >
+                  <ThemedText type="small" style={{ color: theme.primary }}>
+                    {t("conflict_take_all_theirs")}
+                  </ThemedText>
+                </Pressable>
+              </View>
+              {conflicts.map((conflict, index) => (
+                <ConflictRow
+                  key={conflict.field}
+                  conflict={conflict}
+                  label={fieldLabel(conflict.field, config, t)}
+                  resolution={resolutions[conflict.field] ?? { choice: "mine" }}
+                  onChange={(resolution) =>
+                    setResolutions((current) => ({
+                      ...current,
+                      [conflict.field]: resolution,
+                    }))
+                  }
+                  last={index === conflicts.length - 1}
+                />
+              ))}
+            </>
+          )}
+        </View>
+
+        {ready && !deletion ? (
+          <Pressable
+            style={[
+              styles.applyButton,
+              { backgroundColor: theme.primary },
+              applying && { opacity: 0.6 },
+            ]}
+            onPress={handleApply}
+            disabled={applying}
+            testID="button-conflict-apply"
+          >
+            {applying ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <ThemedText type="body" style={{ color: "#fff" }}>
+                {t("conflict_apply")}
+              </ThemedText>
+            )}
+          </Pressable>
+        ) : null}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  card: {
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.lg,
+    overflow: "hidden",
+  },
+  cardHeader: {
+    alignItems: "center",
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+  },
+  iconCircle: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  emptyContainer: {
+    padding: Spacing["3xl"],
+    alignItems: "center",
+  },
+  emptyText: {
+    marginTop: Spacing.md,
+    textAlign: "center",
+  },
+  bulkRow: {
+    gap: Spacing.sm,
+    padding: Spacing.lg,
+    paddingBottom: 0,
+  },
+  bulkButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.xs,
+    borderWidth: 1,
+  },
+  conflictRow: {
+    gap: Spacing.sm,
+    padding: Spacing.lg,
+  },
+  choices: {
+    gap: Spacing.sm,
+  },
+  choice: {
+    flex: 1,
+    gap: Spacing.xs,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+  },
+  mergeButton: {
+    alignItems: "center",
+    gap: Spacing.xs,
+    alignSelf: "flex-start",
+  },
+  input: {
+    height: 44,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    paddingHorizontal: Spacing.md,
+    fontSize: 16,
+  },
+  applyButton: {
+    height: 48,
+    borderRadius: BorderRadius.sm,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
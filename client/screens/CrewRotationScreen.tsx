@@ -0,0 +1,724 @@
+import React, { useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  TextInput,
+  Modal,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Animated, { FadeInDown } from "react-native-reanimated";
+
+import { ThemedText } from "@/components/ThemedText";
+import { CalendarPicker } from "@/components/CalendarPicker";
+import { useTheme } from "@/hooks/useTheme";
+import { useResponsiveLayout } from "@/hooks/useResponsiveLayout";
+import { useRTL } from "@/hooks/useRTL";
+import { Spacing, BorderRadius, Typography } from "@/constants/theme";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { usePlantConfig } from "@/contexts/PlantConfigContext";
+import {
+  addCrew,
+  crewsForDay,
+  parsePattern,
+  removeCrew,
+  removeCrewException,
+  setCrewException,
+  updateRotation,
+} from "@/lib/crewRotation";
+import { sortedShifts } from "@/lib/plantConfig";
+import { formatDateKey, todayKey } from "@/lib/storage";
+import { showSuccess, showError } from "@/utils/notify";
+
+type DateTarget = "anchor" | "exception";
+
+interface SectionHeaderProps {
+  icon: keyof typeof Feather.glyphMap;
+  title: string;
+  hint?: string;
+}
+
+function SectionHeader({ icon, title, hint }: SectionHeaderProps) {
+  const { theme } = useTheme();
+  const { rtlRow, rtlText } = useRTL();
+
+  return (
+    <View
+      style={[styles.cardHeader, rtlRow, { borderBottomColor: theme.border }]}
+    >
+      <View
+        style={[styles.iconCircle, { backgroundColor: theme.primary + "20" }]}
+      >
+        <Feather name={icon} size={20} color={theme.primary} />
+      </View>
+      <View style={{ flex: 1, marginHorizontal: Spacing.md }}>
+        <ThemedText
+          type="body"
+          style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}
+        >
+          {title}
+        </ThemedText>
+        {hint ? (
+          <ThemedText
+            type="caption"
+            style={[{ color: theme.textSecondary }, rtlText]}
+          >
+            {hint}
+          </ThemedText>
+        ) : null}
+      </View>
+    </View>
+  );
+}
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+  testID?: string;
+}
+
+function Chip({ label, selected, onPress, testID }: ChipProps) {
+  const { theme } = useTheme();
+
+  return (
+    <Pressable
+      style={[
+        styles.chip,
+        {
+          borderColor: selected ? theme.primary : theme.border,
+          backgroundColor: selected ? theme.primary + "20" : "transparent",
+        },
+      ]}
+      onPress={onPress}
+      testID={testID}
+    >
+      <ThemedText
+        type="small"
+        style={{ color: selected ? theme.primary : theme.text }}
+      >
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+}
+
+function CrewsSection() {
+  const { theme } = useTheme();
+  const { t, isRTL } = useLanguage();
+  const { rtlRow } = useRTL();
+  const { config, updateConfig } = usePlantConfig();
+  const [newCrew, setNewCrew] = useState("");
+
+  const { crews } = config.rotation;
+
+  const handleAdd = () => {
+    const trimmed = newCrew.trim();
+    if (!trimmed) {
+      showError(t("crew_name_required"));
+      return;
+    }
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    updateConfig((c) => addCrew(c, trimmed));
+    setNewCrew("");
+  };
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.backgroundDefault }]}>
+      <SectionHeader icon="users" title={t("crews")} />
+
+      <View style={[styles.chipWrap, rtlRow]}>
+        {crews.map((crew) => (
+          <View
+            key={crew}
+            style={[
+              styles.crewChip,
+              rtlRow,
+              { backgroundColor: theme.backgroundSecondary },
+            ]}
+          >
+            <ThemedText type="body" style={{ fontWeight: "600" }}>
+              {crew}
+            </ThemedText>
+            <Pressable
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+                updateConfig((c) => removeCrew(c, crew));
+              }}
+              disabled={crews.length <= 1}
+              hitSlop={8}
+              testID={`button-remove-crew-${crew}`}
+            >
+              <Feather
+                name="x"
+                size={16}
+                color={crews.length > 1 ? theme.error : theme.border}
+              />
+            </Pressable>
+          </View>
+        ))}
+      </View>
+
+      <View
+        style={[
+          styles.addRow,
+          rtlRow,
+          { borderTopWidth: 1, borderTopColor: theme.border },
+        ]}
+      >
+        <TextInput
+          style={[
+            styles.input,
+            {
+              backgroundColor: theme.backgroundRoot,
+              color: theme.text,
+              borderColor: theme.border,
+              textAlign: isRTL ? "right" : "left",
+            },
+          ]}
+          value={newCrew}
+          onChangeText={setNewCrew}
+          onSubmitEditing={handleAdd}
+          placeholder={t("add_crew")}
+          placeholderTextColor={theme.textSecondary}
+          autoCapitalize="characters"
+          testID="input-new-crew"
+        />
+        <Pressable
+          style={[styles.addButton, { backgroundColor: theme.primary }]}
+          onPress={handleAdd}
+          testID="button-add-crew"
+        >
+          <Feather name="plus" size={20} color="#fff" />
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+interface PatternSectionProps {
+  onPickAnchor: () => void;
+}
+
+function PatternSection({ onPickAnchor }: PatternSectionProps) {
+  const { theme } = useTheme();
+  const { t, isRTL } = useLanguage();
+  const { rtlRow, rtlText } = useRTL();
+  const { config, updateConfig } = usePlantConfig();
+  const { rotation } = config;
+  const [pattern, setPattern] = useState(rotation.pattern.join(", "));
+
+  const handleSave = () => {
+    const parsed = parsePattern(pattern, rotation.crews);
+    if (!parsed) {
+      showError(t("invalid_pattern"));
+      return;
+    }
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    updateConfig((c) => updateRotation(c, { pattern: parsed }));
+    setPattern(parsed.join(", "));
+    showSuccess(t("rotation_saved"));
+  };
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.backgroundDefault }]}>
+      <SectionHeader
+        icon="repeat"
+        title={t("rotation_pattern")}
+        hint={t("rotation_pattern_hint")}
+      />
+
+      <View style={styles.cardBody}>
+        <View style={[styles.addRowInline, rtlRow]}>
+          <TextInput
+            style={[
+              styles.input,
+              {
+                backgroundColor: theme.backgroundRoot,
+                color: theme.text,
+                borderColor: theme.border,
+                textAlign: isRTL ? "right" : "left",
+                fontFamily: Typography.mono.fontFamily,
+              },
+            ]}
+            value={pattern}
+            onChangeText={setPattern}
+            autoCapitalize="characters"
+            testID="input-rotation-pattern"
+          />
+          <Pressable
+            style={[styles.addButton, { backgroundColor: theme.primary }]}
+            onPress={handleSave}
+            testID="button-save-pattern"
+          >
+            <Feather name="check" size={20} color="#fff" />
+          </Pressable>
+        </View>
+
+        <Pressable
+          style={[styles.dateRow, rtlRow, { borderColor: theme.border }]}
+          onPress={onPickAnchor}
+          testID="button-anchor-date"
+        >
+          <ThemedText
+            type="small"
+            style={[{ color: theme.textSecondary }, rtlText]}
+          >
+            {t("anchor_date")}
+          </ThemedText>
+          <View style={[styles.dateValue, rtlRow]}>
+            <ThemedText
+              type="body"
+              style={{ fontFamily: Typography.mono.fontFamily }}
+            >
+              {rotation.anchorDate}
+            </ThemedText>
+            <Feather name="calendar" size={16} color={theme.primary} />
+          </View>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+interface ExceptionsSectionProps {
+  exceptionDate: string;
+  onPickDate: () => void;
+}
+
+function ExceptionsSection({
+  exceptionDate,
+  onPickDate,
+}: ExceptionsSectionProps) {
+  const { theme } = useTheme();
+  const { t, isRTL } = useLanguage();
+  const { rtlRow, rtlText } = useRTL();
+  const { config, updateConfig } = usePlantConfig();
+  const shifts = sortedShifts(config);
+  const { crews, exceptions } = config.rotation;
+
+  const [shiftId, setShiftId] = useState(shifts[0]?.id ?? "");
+  const [crew, setCrew] = useState(crews[0] ?? "");
+  const [note, setNote] = useState("");
+
+  const selectedShift = shifts.find((s) => s.id === shiftId) ?? shifts[0];
+
+  const handleAdd = () => {
+    if (!selectedShift || !crews.includes(crew)) {
+      showError(t("crew_name_required"));
+      return;
+    }
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    updateConfig((c) =>
+      setCrewException(
+        c,
+        exceptionDate,
+        selectedShift.id,
+        crew,
+        note.trim() || undefined,
+      ),
+    );
+    setNote("");
+  };
+
+  const shiftName = (id: string) => shifts.find((s) => s.id === id)?.name ?? id;
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.backgroundDefault }]}>
+      <SectionHeader
+        icon="shuffle"
+        title={t("crew_exceptions")}
+        hint={t("crew_exceptions_hint")}
+      />
+
+      {exceptions.length === 0 ? (
+        <ThemedText
+          type="small"
+          style={[styles.emptyText, { color: theme.textSecondary }, rtlText]}
+        >
+          {t("no_exceptions")}
+        </ThemedText>
+      ) : (
+        exceptions.map((exception) => (
+          <View
+            key={exception.id}
+            style={[
+              styles.exceptionRow,
+              rtlRow,
+              { borderBottomWidth: 1, borderBottomColor: theme.border },
+            ]}
+          >
+            <View style={{ flex: 1 }}>
+              <ThemedText type="body" style={rtlText}>
+                {exception.dateKey} · {shiftName(exception.shiftId)} ·{" "}
+                {exception.crew}
+              </ThemedText>
+              {exception.note ? (
+                <ThemedText
+                  type="caption"
+                  style={[{ color: theme.textSecondary }, rtlText]}
+                >
+                  {exception.note}
+                </ThemedText>
+              ) : null}
+            </View>
+            <Pressable
+              style={[
+                styles.iconButton,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+                updateConfig((c) => removeCrewException(c, exception.id));
+              }}
+              testID={`button-remove-exception-${exception.id}`}
+            >
+              <Feather name="trash-2" size={16} color={theme.error} />
+            </Pressable>
+          </View>
+        ))
+      )}
+
+      <View style={styles.cardBody}>
+        <Pressable
+          style={[styles.dateRow, rtlRow, { borderColor: theme.border }]}
+          onPress={onPickDate}
+          testID="button-exception-date"
+        >
+          <ThemedText
+            type="small"
+            style={[{ color: theme.textSecondary }, rtlText]}
+          >
+            {t("exception_date")}
+          </ThemedText>
+          <View style={[styles.dateValue, rtlRow]}>
+            <ThemedText
+              type="body"
+              style={{ fontFamily: Typography.mono.fontFamily }}
+            >
+              {exceptionDate}
+            </ThemedText>
+            <Feather name="calendar" size={16} color={theme.primary} />
+          </View>
+        </Pressable>
+
+        {shifts.length > 1 ? (
+          <View style={[styles.chipWrap, styles.chipWrapInline, rtlRow]}>
+            {shifts.map((shift) => (
+              <Chip
+                key={shift.id}
+                label={shift.name}
+                selected={shift.id === selectedShift?.id}
+                onPress={() => setShiftId(shift.id)}
+                testID={`chip-exception-shift-${shift.id}`}
+              />
+            ))}
+          </View>
+        ) : null}
+
+        <View style={[styles.chipWrap, styles.chipWrapInline, rtlRow]}>
+          {crews.map((c) => (
+            <Chip
+              key={c}
+              label={c}
+              selected={c === crew}
+              onPress={() => setCrew(c)}
+              testID={`chip-exception-crew-${c}`}
+            />
+          ))}
+        </View>
+
+        <View style={[styles.addRowInline, rtlRow]}>
+          <TextInput
+            style={[
+              styles.input,
+              {
+                backgroundColor: theme.backgroundRoot,
+                color: theme.text,
+                borderColor: theme.border,
+                textAlign: isRTL ? "right" : "left",
+              },
+            ]}
+            value={note}
+            onChangeText={setNote}
+            placeholder={t("note")}
+            placeholderTextColor={theme.textSecondary}
+            testID="input-exception-note"
+          />
+          <Pressable
+            style={[styles.addButton, { backgroundColor: theme.primary }]}
+            onPress={handleAdd}
+            testID="button-add-exception"
+          >
+            <Feather name="plus" size={20} color="#fff" />
+          </Pressable>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+function UpcomingSection() {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const { rtlRow } = useRTL();
+  const { config } = usePlantConfig();
+
+  const today = new Date();
+  const dateKeys = Array.from({ length: 7 }, (_, i) =>
+    formatDateKey(
+      new Date(today.getFullYear(), today.getMonth(), today.getDate() + i),
+    ),
+  );
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.backgroundDefault }]}>
+      <SectionHeader icon="calendar" title={t("upcoming_crews")} />
+      {dateKeys.map((dateKey, index) => (
+        <View
+          key={dateKey}
+          style={[
+            styles.previewRow,
+            rtlRow,
+            index < dateKeys.length - 1 && {
+              borderBottomWidth: 1,
+              borderBottomColor: theme.border,
+            },
+          ]}
+        >
+          <ThemedText
+            type="small"
+            style={{ fontFamily: Typography.mono.fontFamily }}
+          >
+            {dateKey}
+          </ThemedText>
+          <View style={[styles.previewCrews, rtlRow]}>
+            {crewsForDay(config, dateKey).map(({ shift, crew, exception }) => (
+              <ThemedText
+                key={shift.id}
+                type="small"
+                style={{
+                  color: exception ? theme.warning : theme.text,
+                  fontWeight: "600",
+                }}
+              >
+                {config.shifts.length > 1 ? `${shift.name}: ` : ""}
+                {crew ?? "—"}
+              </ThemedText>
+            ))}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+export default function CrewRotationScreen() {
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const tabBarHeight = useBottomTabBarHeight();
+  const layout = useResponsiveLayout();
+  const { config, updateConfig } = usePlantConfig();
+
+  const [dateTarget, setDateTarget] = useState<DateTarget | null>(null);
+  const [exceptionDate, setExceptionDate] = useState(todayKey());
+
+  const handleSelectDate = (date: string) => {
+    if (dateTarget === "anchor") {
+      updateConfig((c) => updateRotation(c, { anchorDate: date }));
+    } else {
+      setExceptionDate(date);
+    }
+    setDateTarget(null);
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={{
+          paddingTop: headerHeight + Spacing.lg,
+          paddingBottom: tabBarHeight + Spacing.xl,
+          paddingHorizontal: layout.horizontalPadding,
+          maxWidth: layout.isTablet ? layout.contentMaxWidth : undefined,
+          alignSelf: layout.isTablet ? "center" : undefined,
+          width: layout.isTablet ? "100%" : undefined,
+        }}
+        scrollIndicatorInsets={{ bottom: insets.bottom }}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Animated.View entering={FadeInDown.duration(300)}>
+          <CrewsSection />
+        </Animated.View>
+
+        <Animated.View entering={FadeInDown.delay(100).duration(300)}>
+          <PatternSection
+            key={config.rotation.crews.join(",")}
+            onPickAnchor={() => setDateTarget("anchor")}
+          />
+        </Animated.View>
+
+        <Animated.View entering={FadeInDown.delay(200).duration(300)}>
+          <ExceptionsSection
+            exceptionDate={exceptionDate}
+            onPickDate={() => setDateTarget("exception")}
+          />
+        </Animated.View>
+
+        <Animated.View entering={FadeInDown.delay(300).duration(300)}>
+          <UpcomingSection />
+        </Animated.View>
+      </ScrollView>
+
+      <Modal
+        visible={!!dateTarget}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setDateTarget(null)}
+      >
+        <Pressable
+          style={styles.modalOverlay}
+          onPress={() => setDateTarget(null)}
+        >
+          <Pressable onPress={(e) => e.stopPropagation()}>
+            <CalendarPicker
+              selectedDate={
+                dateTarget === "anchor"
+                  ? config.rotation.anchorDate
+                  : exceptionDate
+              }
+              onSelectDate={handleSelectDate}
+              onClose={() => setDateTarget(null)}
+            />
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  card: {
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.lg,
+    overflow: "hidden",
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+  },
+  cardBody: {
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  iconCircle: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  input: {
+    flex: 1,
+    height: 44,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    paddingHorizontal: Spacing.md,
+    fontSize: 16,
+  },
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  chipWrap: {
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    padding: Spacing.lg,
+  },
+  chipWrapInline: {
+    padding: 0,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+  },
+  crewChip: {
+    alignItems: "center",
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+  },
+  addRow: {
+    alignItems: "center",
+    gap: Spacing.sm,
+    padding: Spacing.lg,
+  },
+  addRowInline: {
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  addButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  dateRow: {
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+  },
+  dateValue: {
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  emptyText: {
+    padding: Spacing.lg,
+  },
+  exceptionRow: {
+    alignItems: "center",
+    gap: Spacing.sm,
+    padding: Spacing.lg,
+  },
+  previewRow: {
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+  },
+  previewCrews: {
+    gap: Spacing.md,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: Spacing.xl,
+  },
+});
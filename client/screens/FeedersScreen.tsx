@@ -16,24 +16,53 @@ import Animated, { FadeInDown } from "react-native-reanimated";
 import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
 import { ThemedText } from "@/components/ThemedText";
 import { CalendarPicker } from "@/components/CalendarPicker";
+import { CrewBadge } from "@/components/CrewBadge";
+import { PlantSwitcher } from "@/components/PlantSwitcher";
+import { SyncStatusBadge } from "@/components/SyncStatusBadge";
+import { DayHistoryModal } from "@/components/DayHistoryModal";
+import { EstimatedDayBanner } from "@/components/EstimatedDayBanner";
+import { RemoteChangeBanner } from "@/components/RemoteChangeBanner";
+import { DayApprovalBar } from "@/components/DayApprovalBar";
 import { NumericInputField } from "@/components/NumericInputField";
+import { ReadingFlagModal } from "@/components/ReadingFlagModal";
+import { MeterReplacementFields } from "@/components/MeterReplacementFields";
+import { ValidationMessages } from "@/components/ValidationMessages";
+import {
+  IntradayReadingsButton,
+  IntradayReadingsModal,
+} from "@/components/IntradayReadingsModal";
 import { useTheme } from "@/hooks/useTheme";
 import { useResponsiveLayout } from "@/hooks/useResponsiveLayout";
-import { Spacing, BorderRadius, Colors, Typography, Shadows } from "@/constants/theme";
+import {
+  Spacing,
+  BorderRadius,
+  Colors,
+  Typography,
+  Shadows,
+} from "@/constants/theme";
 import { useDay } from "@/contexts/DayContext";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { useRTL } from "@/hooks/useRTL";
-import { FEEDERS, num, format2, numberTextStyle, formatDateKey, todayKey } from "@/lib/storage";
+import { usePlantConfig } from "@/contexts/PlantConfigContext";
+import {
+  FeederReadingField,
+  feederRowComputed,
+  format2,
+  numberTextStyle,
+  formatDateKey,
+  todayKey,
+} from "@/lib/storage";
+import { MeterConfig, activeFeeders } from "@/lib/plantConfig";
+import { feederSegments } from "@/lib/intraday";
 import { showSuccess, showError } from "@/utils/notify";
+import { ValidationError, issuesForMeter } from "@/lib/validation";
+import { DayLockedError } from "@/lib/dayApproval";
+import { MonthClosedError } from "@/lib/monthClosing";
+import { withReadingFlag } from "@/lib/readingFlags";
 
-function getDayLetter(dateStr: string): string {
-  const letters = ["B", "D", "A", "C"];
-  const date = new Date(dateStr);
-  if (isNaN(date.getTime())) return "A";
-  const epoch = new Date("2026-01-18");
-  const diffDays = Math.floor((date.getTime() - epoch.getTime()) / (1000 * 60 * 60 * 24));
-  const index = ((diffDays % 4) + 4) % 4;
-  return letters[index];
+interface FlagTarget {
+  feeder: MeterConfig;
+  field: FeederReadingField;
 }
 
 export default function FeedersScreen() {
@@ -42,22 +71,46 @@ export default function FeedersScreen() {
   const tabBarHeight = useBottomTabBarHeight();
   const { theme } = useTheme();
   const layout = useResponsiveLayout();
-  const { dateKey, setDateKey, day, setDay, saveDay, resetDay } = useDay();
+  const {
+    dateKey,
+    setDateKey,
+    day,
+    setDay,
+    saveDay,
+    issues,
+    resetDay,
+    locked,
+  } = useDay();
   const { t, isRTL } = useLanguage();
   const { rtlRow, rtlText } = useRTL();
+  const { config } = usePlantConfig();
+
+  const feeders = useMemo(
+    () => activeFeeders(config, dateKey),
+    [config, dateKey],
+  );
 
   const rows = useMemo(() => {
-    return FEEDERS.map((f) => {
-      const start = num(day.feeders[f]?.start);
-      const end = num(day.feeders[f]?.end);
-      const diff = start - end;
-      return { f, start, end, diff };
-    });
-  }, [day]);
+    return feeders.map((feeder) => ({
+      f: feeder.id,
+      name: feeder.name,
+      ...feederRowComputed(day, feeder),
+    }));
+  }, [day, feeders]);
 
   const total = rows.reduce((a, r) => a + r.diff, 0);
   const isExport = total >= 0;
 
+  const [intradayFeeder, setIntradayFeeder] = useState<MeterConfig | null>(
+    null,
+  );
+  const intradaySegments = useMemo(
+    () => (intradayFeeder ? feederSegments(day, intradayFeeder) : []),
+    [day, intradayFeeder],
+  );
+
+  const [flagTarget, setFlagTarget] = useState<FlagTarget | null>(null);
+
   const [isSaving, setIsSaving] = useState(false);
   const saveLockRef = useRef(false);
 
@@ -67,11 +120,28 @@ export default function FeedersScreen() {
     setIsSaving(true);
 
     try {
-      await saveDay();
+      const warnings = await saveDay();
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      showSuccess(t("msg_saved_success"));
+      showSuccess(
+        t(
+          warnings.length > 0 ? "msg_saved_with_warnings" : "msg_saved_success",
+        ),
+      );
     } catch (error) {
-      showError(t("msg_error_generic"));
+      if (error instanceof ValidationError) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        showError(t("validation_blocked"));
+      } else if (error instanceof DayLockedError) {
+        showError(
+          t(
+            error instanceof MonthClosedError
+              ? "month_closed_locked"
+              : "day_locked",
+          ),
+        );
+      } else {
+        showError(t("msg_error_generic"));
+      }
     } finally {
       setIsSaving(false);
       saveLockRef.current = false;
@@ -85,7 +155,7 @@ export default function FeedersScreen() {
   };
 
   const [showDatePicker, setShowDatePicker] = useState(false);
-  const dayLetter = getDayLetter(dateKey);
+  const [showHistory, setShowHistory] = useState(false);
 
   const handleSetToday = () => {
     setDateKey(todayKey());
@@ -121,26 +191,58 @@ export default function FeedersScreen() {
         scrollIndicatorInsets={{ bottom: insets.bottom }}
       >
         <View style={[styles.headerRow, rtlRow]}>
-          <Pressable
-            style={[styles.todayButton, rtlRow, { borderColor: theme.primary, backgroundColor: theme.primary + "10" }]}
-            onPress={() => setShowDatePicker(true)}
-            testID="button-date"
-          >
-            <Feather name="calendar" size={18} color={theme.primary} />
-            <ThemedText type="body" style={{ color: theme.primary, marginHorizontal: Spacing.sm, fontWeight: "600" }}>
-              {isToday ? t("today") : dateKey}
-            </ThemedText>
-          </Pressable>
-
           <View style={[styles.actionButtons, rtlRow]}>
-            <View style={[styles.letterCircle, { borderColor: theme.primary, backgroundColor: theme.primary + "10" }]}>
-              <ThemedText type="h3" style={{ color: theme.primary, fontWeight: "700" }}>
-                {dayLetter}
+            <Pressable
+              style={[
+                styles.todayButton,
+                rtlRow,
+                {
+                  borderColor: theme.primary,
+                  backgroundColor: theme.primary + "10",
+                },
+              ]}
+              onPress={() => setShowDatePicker(true)}
+              testID="button-date"
+            >
+              <Feather name="calendar" size={18} color={theme.primary} />
+              <ThemedText
+                type="body"
+                style={{
+                  color: theme.primary,
+                  marginHorizontal: Spacing.sm,
+                  fontWeight: "600",
+                }}
+              >
+                {isToday ? t("today") : dateKey}
               </ThemedText>
-            </View>
+            </Pressable>
+            <PlantSwitcher testID="button-plant-switcher" />
+            <SyncStatusBadge dateKey={dateKey} testID="button-sync-status" />
+          </View>
+
+          <View style={[styles.actionButtons, rtlRow]}>
+            <CrewBadge dateKey={dateKey} testID="button-crew" />
+            <Pressable
+              style={[
+                styles.circleButton,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                setShowHistory(true);
+              }}
+              testID="button-history"
+            >
+              <Feather name="git-commit" size={20} color={theme.text} />
+            </Pressable>
             <Pressable
-              style={[styles.circleButton, { backgroundColor: "#f04438" }]}
+              style={[
+                styles.circleButton,
+                { backgroundColor: "#f04438" },
+                locked && { opacity: 0.6 },
+              ]}
               onPress={handleReset}
+              disabled={locked}
               testID="button-reset"
             >
               <Feather name="rotate-ccw" size={20} color="#fff" />
@@ -149,10 +251,10 @@ export default function FeedersScreen() {
               style={[
                 styles.circleButton,
                 { backgroundColor: theme.primary, ...Shadows.fab },
-                isSaving && { opacity: 0.6 },
+                (isSaving || locked) && { opacity: 0.6 },
               ]}
               onPress={handleSave}
-              disabled={isSaving}
+              disabled={isSaving || locked}
               testID="button-save"
             >
               {isSaving ? (
@@ -184,12 +286,23 @@ export default function FeedersScreen() {
           </Pressable>
         </Modal>
 
+        <DayApprovalBar />
+        <EstimatedDayBanner />
+        <RemoteChangeBanner />
+
         <Animated.View
           entering={FadeInDown.duration(300)}
           style={[styles.card, { backgroundColor: theme.backgroundDefault }]}
         >
-          <View style={[styles.cardHeader, { borderBottomColor: theme.border }]}>
-            <View style={[styles.iconCircle, { backgroundColor: theme.primary + "20" }]}>
+          <View
+            style={[styles.cardHeader, { borderBottomColor: theme.border }]}
+          >
+            <View
+              style={[
+                styles.iconCircle,
+                { backgroundColor: theme.primary + "20" },
+              ]}
+            >
               <Feather name="activity" size={18} color={theme.primary} />
             </View>
             <ThemedText type="h3" style={{ marginLeft: Spacing.md }}>
@@ -198,7 +311,7 @@ export default function FeedersScreen() {
           </View>
 
           <View style={layout.isTablet ? styles.tabletGrid : undefined}>
-            {FEEDERS.map((f, index) => {
+            {feeders.map(({ id: f, name }, index) => {
               const row = rows[index];
               return (
                 <Animated.View
@@ -210,13 +323,18 @@ export default function FeedersScreen() {
                   ]}
                 >
                   <View style={[styles.feederLabelRow]}>
-                    <View style={[styles.feederBadge, { backgroundColor: theme.primary + "20" }]}>
+                    <View
+                      style={[
+                        styles.feederBadge,
+                        { backgroundColor: theme.primary + "20" },
+                      ]}
+                    >
                       <ThemedText type="h4" style={{ color: theme.primary }}>
-                        {f}
+                        {name}
                       </ThemedText>
                     </View>
                     <ThemedText type="body" style={styles.feederLabel}>
-                      {t("feeder")} {f}
+                      {t("feeder")} {name}
                     </ThemedText>
                   </View>
 
@@ -233,6 +351,14 @@ export default function FeedersScreen() {
                           },
                         }))
                       }
+                      flag={day.feeders[f]?.flags?.start}
+                      onPressFlag={() =>
+                        setFlagTarget({
+                          feeder: feeders[index],
+                          field: "start",
+                        })
+                      }
+                      disabled={locked}
                       testID={`input-${f}-start`}
                     />
                     <NumericInputField
@@ -247,20 +373,65 @@ export default function FeedersScreen() {
                           },
                         }))
                       }
+                      flag={day.feeders[f]?.flags?.end}
+                      onPressFlag={() =>
+                        setFlagTarget({ feeder: feeders[index], field: "end" })
+                      }
+                      disabled={locked}
                       testID={`input-${f}-end`}
                     />
                   </View>
 
-                  <View style={[styles.diffBox, { backgroundColor: theme.primary + "15", borderColor: theme.primary + "40" }]}>
+                  <MeterReplacementFields
+                    replacement={day.feeders[f]?.replacement}
+                    onChange={(replacement) =>
+                      setDay((prev) => ({
+                        ...prev,
+                        feeders: {
+                          ...prev.feeders,
+                          [f]: { ...prev.feeders[f], replacement },
+                        },
+                      }))
+                    }
+                    testID={`input-${f}-replacement`}
+                  />
+
+                  <IntradayReadingsButton
+                    count={day.feeders[f]?.readings?.length ?? 0}
+                    onPress={() => setIntradayFeeder(feeders[index])}
+                    testID={`button-${f}-readings`}
+                  />
+
+                  <ValidationMessages
+                    issues={issuesForMeter(issues, "feeder", f)}
+                    testID={`validation-${f}`}
+                  />
+
+                  <View
+                    style={[
+                      styles.diffBox,
+                      {
+                        backgroundColor: theme.primary + "15",
+                        borderColor: theme.primary + "40",
+                      },
+                    ]}
+                  >
                     <ThemedText type="small" style={{ color: theme.primary }}>
                       {t("difference")}
                     </ThemedText>
                     <ThemedText
                       type="h2"
-                      style={{ color: theme.text, fontFamily: Typography.mono.fontFamily, ...numberTextStyle }}
+                      style={{
+                        color: theme.text,
+                        fontFamily: Typography.mono.fontFamily,
+                        ...numberTextStyle,
+                      }}
                     >
                       {format2(row.diff)}{" "}
-                      <ThemedText type="body" style={{ color: theme.textSecondary }}>
+                      <ThemedText
+                        type="body"
+                        style={{ color: theme.textSecondary }}
+                      >
                         {t("mw_unit")}
                       </ThemedText>
                     </ThemedText>
@@ -281,16 +452,25 @@ export default function FeedersScreen() {
             },
           ]}
         >
-          <View style={[styles.summaryIconCircle, { backgroundColor: isExport ? "#12b76a20" : "#f0443820" }]}>
-            <Feather 
-              name={isExport ? "arrow-up-right" : "arrow-down-left"} 
-              size={28} 
-              color={isExport ? "#12b76a" : "#f04438"} 
+          <View
+            style={[
+              styles.summaryIconCircle,
+              { backgroundColor: isExport ? "#12b76a20" : "#f0443820" },
+            ]}
+          >
+            <Feather
+              name={isExport ? "arrow-up-right" : "arrow-down-left"}
+              size={28}
+              color={isExport ? "#12b76a" : "#f04438"}
             />
           </View>
           <ThemedText
             type="h4"
-            style={{ color: isExport ? "#12b76a" : "#f04438", fontWeight: "900", marginTop: Spacing.md }}
+            style={{
+              color: isExport ? "#12b76a" : "#f04438",
+              fontWeight: "900",
+              marginTop: Spacing.md,
+            }}
           >
             {isExport ? t("export") : t("withdrawal")}
           </ThemedText>
@@ -307,7 +487,10 @@ export default function FeedersScreen() {
           >
             {format2(Math.abs(total))}
           </ThemedText>
-          <ThemedText type="small" style={{ color: theme.textSecondary, marginTop: Spacing.xs }}>
+          <ThemedText
+            type="small"
+            style={{ color: theme.textSecondary, marginTop: Spacing.xs }}
+          >
             {isExport ? t("positive_energy_flow") : t("negative_energy_flow")}
           </ThemedText>
         </Animated.View>
@@ -316,8 +499,15 @@ export default function FeedersScreen() {
           entering={FadeInDown.delay(300).duration(300)}
           style={[styles.card, { backgroundColor: theme.backgroundDefault }]}
         >
-          <View style={[styles.cardHeader, { borderBottomColor: theme.border }]}>
-            <View style={[styles.iconCircle, { backgroundColor: theme.primary + "20" }]}>
+          <View
+            style={[styles.cardHeader, { borderBottomColor: theme.border }]}
+          >
+            <View
+              style={[
+                styles.iconCircle,
+                { backgroundColor: theme.primary + "20" },
+              ]}
+            >
               <Feather name="list" size={18} color={theme.primary} />
             </View>
             <ThemedText type="h3" style={{ marginLeft: Spacing.md }}>
@@ -330,28 +520,51 @@ export default function FeedersScreen() {
               key={r.f}
               style={[
                 styles.summaryRow,
-                index < rows.length - 1 && { borderBottomWidth: 1, borderBottomColor: theme.border },
+                index < rows.length - 1 && {
+                  borderBottomWidth: 1,
+                  borderBottomColor: theme.border,
+                },
               ]}
             >
-              <View style={[styles.feederBadgeSmall, { backgroundColor: theme.primary + "20" }]}>
-                <ThemedText type="small" style={{ color: theme.primary, fontWeight: "600" }}>
-                  {r.f}
+              <View
+                style={[
+                  styles.feederBadgeSmall,
+                  { backgroundColor: theme.primary + "20" },
+                ]}
+              >
+                <ThemedText
+                  type="small"
+                  style={{ color: theme.primary, fontWeight: "600" }}
+                >
+                  {r.name}
                 </ThemedText>
               </View>
               <View style={styles.summaryValues}>
                 <View style={styles.summaryValue}>
-                  <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                  <ThemedText
+                    type="caption"
+                    style={{ color: theme.textSecondary }}
+                  >
                     {t("start")}
                   </ThemedText>
-                  <ThemedText type="body" style={{ fontFamily: Typography.mono.fontFamily }}>
+                  <ThemedText
+                    type="body"
+                    style={{ fontFamily: Typography.mono.fontFamily }}
+                  >
                     {format2(r.start)}
                   </ThemedText>
                 </View>
                 <View style={styles.summaryValue}>
-                  <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                  <ThemedText
+                    type="caption"
+                    style={{ color: theme.textSecondary }}
+                  >
                     {t("end")}
                   </ThemedText>
-                  <ThemedText type="body" style={{ fontFamily: Typography.mono.fontFamily }}>
+                  <ThemedText
+                    type="body"
+                    style={{ fontFamily: Typography.mono.fontFamily }}
+                  >
                     {format2(r.end)}
                   </ThemedText>
                 </View>
@@ -361,7 +574,11 @@ export default function FeedersScreen() {
                   </ThemedText>
                   <ThemedText
                     type="body"
-                    style={{ fontFamily: Typography.mono.fontFamily, color: theme.primary, fontWeight: "600" }}
+                    style={{
+                      fontFamily: Typography.mono.fontFamily,
+                      color: theme.primary,
+                      fontWeight: "600",
+                    }}
                   >
                     {format2(r.diff)}
                   </ThemedText>
@@ -371,6 +588,64 @@ export default function FeedersScreen() {
           ))}
         </Animated.View>
       </KeyboardAwareScrollViewCompat>
+
+      <IntradayReadingsModal
+        visible={!!intradayFeeder}
+        title={intradayFeeder?.name ?? ""}
+        readings={
+          intradayFeeder ? (day.feeders[intradayFeeder.id]?.readings ?? []) : []
+        }
+        segments={intradaySegments}
+        onChangeReadings={(readings) => {
+          if (!intradayFeeder) return;
+          const f = intradayFeeder.id;
+          setDay((prev) => ({
+            ...prev,
+            feeders: {
+              ...prev.feeders,
+              [f]: { ...prev.feeders[f], readings },
+            },
+          }));
+        }}
+        onClose={() => setIntradayFeeder(null)}
+      />
+
+      <ReadingFlagModal
+        visible={!!flagTarget}
+        title={
+          flagTarget
+            ? `${t("feeder")} ${flagTarget.feeder.name} · ${t(flagTarget.field === "start" ? "start_of_day" : "end_of_day")}`
+            : ""
+        }
+        flag={
+          flagTarget
+            ? day.feeders[flagTarget.feeder.id]?.flags?.[flagTarget.field]
+            : undefined
+        }
+        onSave={(flag) => {
+          if (!flagTarget) return;
+          const {
+            feeder: { id: f },
+            field,
+          } = flagTarget;
+          setDay((prev) => ({
+            ...prev,
+            feeders: {
+              ...prev.feeders,
+              [f]: {
+                ...prev.feeders[f],
+                flags: withReadingFlag(prev.feeders[f]?.flags, field, flag),
+              },
+            },
+          }));
+        }}
+        onClose={() => setFlagTarget(null)}
+      />
+
+      <DayHistoryModal
+        visible={showHistory}
+        onClose={() => setShowHistory(false)}
+      />
     </View>
   );
 }
@@ -503,14 +778,6 @@ const styles = StyleSheet.create({
     borderRadius: BorderRadius.sm,
     borderWidth: 2,
   },
-  letterCircle: {
-    width: 44,
-    height: 44,
-    borderRadius: 22,
-    borderWidth: 2,
-    alignItems: "center",
-    justifyContent: "center",
-  },
   circleButton: {
     width: 44,
     height: 44,
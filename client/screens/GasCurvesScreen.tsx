@@ -0,0 +1,458 @@
+import React, { useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  TextInput,
+  Modal,
+  Alert,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Animated, { FadeInDown } from "react-native-reanimated";
+
+import { ThemedText } from "@/components/ThemedText";
+import { CalendarPicker } from "@/components/CalendarPicker";
+import { useTheme } from "@/hooks/useTheme";
+import { useResponsiveLayout } from "@/hooks/useResponsiveLayout";
+import { useRTL } from "@/hooks/useRTL";
+import { Spacing, BorderRadius, Typography } from "@/constants/theme";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { usePlantConfig } from "@/contexts/PlantConfigContext";
+import {
+  GasCurve,
+  GasCurveKind,
+  addGasCurve,
+  curvesForTurbine,
+  removeGasCurve,
+  updateGasCurve,
+} from "@/lib/gasCurves";
+import { MeterConfig } from "@/lib/plantConfig";
+import { todayKey } from "@/lib/storage";
+import { showSuccess, showError } from "@/utils/notify";
+
+interface DraftPoint {
+  mwPerHr: string;
+  m3PerMwh: string;
+}
+
+interface CurveEditorProps {
+  curve: GasCurve;
+  isLast: boolean;
+}
+
+function CurveEditor({ curve, isLast }: CurveEditorProps) {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const { rtlRow } = useRTL();
+  const { updateConfig } = usePlantConfig();
+
+  const [kind, setKind] = useState<GasCurveKind>(curve.kind);
+  const [effectiveFrom, setEffectiveFrom] = useState(curve.effectiveFrom);
+  const [points, setPoints] = useState<DraftPoint[]>(
+    curve.points.map((p) => ({
+      mwPerHr: String(p.mwPerHr),
+      m3PerMwh: String(p.m3PerMwh),
+    })),
+  );
+  const [showDatePicker, setShowDatePicker] = useState(false);
+
+  const updatePoint = (index: number, changes: Partial<DraftPoint>) => {
+    setPoints((prev) =>
+      prev.map((p, i) => (i === index ? { ...p, ...changes } : p)),
+    );
+  };
+
+  const handleSave = () => {
+    const isBlank = points.some((p) => !p.mwPerHr.trim() || !p.m3PerMwh.trim());
+    const parsed = points.map((p) => ({
+      mwPerHr: Number(p.mwPerHr),
+      m3PerMwh: Number(p.m3PerMwh),
+    }));
+    const isValid =
+      !isBlank &&
+      parsed.length > 0 &&
+      parsed.every(
+        (p) =>
+          Number.isFinite(p.mwPerHr) &&
+          Number.isFinite(p.m3PerMwh) &&
+          p.m3PerMwh >= 0,
+      );
+    if (!isValid) {
+      showError(t("gas_curve_invalid"));
+      return;
+    }
+    parsed.sort((a, b) => a.mwPerHr - b.mwPerHr);
+    updateConfig((c) =>
+      updateGasCurve(c, curve.id, { kind, effectiveFrom, points: parsed }),
+    );
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    showSuccess(t("gas_curve_saved"));
+  };
+
+  const handleDelete = () => {
+    Alert.alert(t("delete_gas_curve"), t("delete_gas_curve_confirm"), [
+      { text: t("cancel"), style: "cancel" },
+      {
+        text: t("delete_gas_curve"),
+        style: "destructive",
+        onPress: () => updateConfig((c) => removeGasCurve(c, curve.id)),
+      },
+    ]);
+  };
+
+  const inputStyle = [
+    styles.pointInput,
+    {
+      backgroundColor: theme.backgroundRoot,
+      color: theme.text,
+      borderColor: theme.border,
+    },
+  ];
+
+  return (
+    <View
+      style={[
+        styles.curve,
+        !isLast && { borderBottomWidth: 1, borderBottomColor: theme.border },
+      ]}
+    >
+      <View style={[rtlRow, styles.curveHeader]}>
+        <Pressable onPress={() => setShowDatePicker(true)}>
+          <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+            {t("effective_from")}
+          </ThemedText>
+          <ThemedText
+            type="body"
+            style={{ color: theme.primary, writingDirection: "ltr" }}
+          >
+            {effectiveFrom}
+          </ThemedText>
+        </Pressable>
+        <View style={[rtlRow, { gap: Spacing.xs }]}>
+          {(["step", "linear"] as GasCurveKind[]).map((k) => (
+            <Pressable
+              key={k}
+              style={[
+                styles.kindOption,
+                {
+                  borderColor: kind === k ? theme.primary : theme.border,
+                  backgroundColor:
+                    kind === k ? theme.primary + "15" : "transparent",
+                },
+              ]}
+              onPress={() => setKind(k)}
+            >
+              <ThemedText
+                type="small"
+                style={{ color: kind === k ? theme.primary : theme.text }}
+              >
+                {k === "step" ? t("gas_curve_step") : t("gas_curve_linear")}
+              </ThemedText>
+            </Pressable>
+          ))}
+        </View>
+      </View>
+
+      <View style={[rtlRow, styles.pointRow]}>
+        <ThemedText
+          type="caption"
+          style={[styles.pointLabel, { color: theme.textSecondary }]}
+        >
+          MW/h
+        </ThemedText>
+        <ThemedText
+          type="caption"
+          style={[styles.pointLabel, { color: theme.textSecondary }]}
+        >
+          {t("gas_curve_rate")}
+        </ThemedText>
+        <View style={styles.removeSpacer} />
+      </View>
+      {points.map((p, index) => (
+        <View key={index} style={[rtlRow, styles.pointRow]}>
+          <TextInput
+            style={inputStyle}
+            value={p.mwPerHr}
+            onChangeText={(v) => updatePoint(index, { mwPerHr: v })}
+            keyboardType="decimal-pad"
+          />
+          <TextInput
+            style={inputStyle}
+            value={p.m3PerMwh}
+            onChangeText={(v) => updatePoint(index, { m3PerMwh: v })}
+            keyboardType="decimal-pad"
+          />
+          <Pressable
+            style={styles.removeSpacer}
+            onPress={() =>
+              setPoints((prev) => prev.filter((_, i) => i !== index))
+            }
+          >
+            <Feather name="x" size={18} color={theme.error} />
+          </Pressable>
+        </View>
+      ))}
+
+      <View style={[rtlRow, styles.curveActions]}>
+        <Pressable
+          style={[rtlRow, styles.textButton]}
+          onPress={() =>
+            setPoints((prev) => [...prev, { mwPerHr: "", m3PerMwh: "" }])
+          }
+        >
+          <Feather name="plus" size={16} color={theme.primary} />
+          <ThemedText type="small" style={{ color: theme.primary }}>
+            {t("add_point")}
+          </ThemedText>
+        </Pressable>
+        <View style={[rtlRow, { gap: Spacing.sm }]}>
+          <Pressable
+            style={[styles.circleButton, { backgroundColor: theme.error }]}
+            onPress={handleDelete}
+          >
+            <Feather name="trash-2" size={18} color="#fff" />
+          </Pressable>
+          <Pressable
+            style={[styles.circleButton, { backgroundColor: theme.primary }]}
+            onPress={handleSave}
+          >
+            <Feather name="save" size={18} color="#fff" />
+          </Pressable>
+        </View>
+      </View>
+
+      <Modal
+        visible={showDatePicker}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setShowDatePicker(false)}
+      >
+        <Pressable
+          style={styles.modalOverlay}
+          onPress={() => setShowDatePicker(false)}
+        >
+          <Pressable onPress={(e) => e.stopPropagation()}>
+            <CalendarPicker
+              selectedDate={effectiveFrom}
+              onSelectDate={setEffectiveFrom}
+              onClose={() => setShowDatePicker(false)}
+            />
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </View>
+  );
+}
+
+function TurbineCurves({ turbine }: { turbine: MeterConfig }) {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const { rtlRow, rtlText } = useRTL();
+  const { config, updateConfig } = usePlantConfig();
+
+  const curves = curvesForTurbine(config, turbine.id);
+
+  const handleAdd = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    updateConfig((c) => addGasCurve(c, turbine.id, todayKey()));
+  };
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.backgroundDefault }]}>
+      <View
+        style={[styles.cardHeader, rtlRow, { borderBottomColor: theme.border }]}
+      >
+        <View style={[rtlRow, { alignItems: "center", flex: 1 }]}>
+          <View
+            style={[
+              styles.iconCircle,
+              { backgroundColor: theme.success + "20" },
+            ]}
+          >
+            <ThemedText type="h4" style={{ color: theme.success }}>
+              {turbine.name}
+            </ThemedText>
+          </View>
+          <ThemedText
+            type="body"
+            style={[
+              {
+                fontFamily: Typography.h4.fontFamily,
+                marginHorizontal: Spacing.md,
+              },
+              rtlText,
+            ]}
+          >
+            {t("turbine")} {turbine.name}
+          </ThemedText>
+        </View>
+        <Pressable
+          style={[rtlRow, styles.textButton]}
+          onPress={handleAdd}
+          testID={`button-add-curve-${turbine.id}`}
+        >
+          <Feather name="plus" size={16} color={theme.primary} />
+          <ThemedText type="small" style={{ color: theme.primary }}>
+            {t("add_gas_curve")}
+          </ThemedText>
+        </Pressable>
+      </View>
+
+      {curves.length === 0 ? (
+        <ThemedText
+          type="small"
+          style={[{ color: theme.textSecondary, padding: Spacing.lg }, rtlText]}
+        >
+          {t("default_gas_curve")}
+        </ThemedText>
+      ) : (
+        curves.map((curve, index) => (
+          <CurveEditor
+            key={curve.id}
+            curve={curve}
+            isLast={index === curves.length - 1}
+          />
+        ))
+      )}
+    </View>
+  );
+}
+
+export default function GasCurvesScreen() {
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const tabBarHeight = useBottomTabBarHeight();
+  const layout = useResponsiveLayout();
+  const { t } = useLanguage();
+  const { rtlText } = useRTL();
+  const { config } = usePlantConfig();
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={{
+          paddingTop: headerHeight + Spacing.lg,
+          paddingBottom: tabBarHeight + Spacing.xl,
+          paddingHorizontal: layout.horizontalPadding,
+          maxWidth: layout.isTablet ? layout.contentMaxWidth : undefined,
+          alignSelf: layout.isTablet ? "center" : undefined,
+          width: layout.isTablet ? "100%" : undefined,
+        }}
+        scrollIndicatorInsets={{ bottom: insets.bottom }}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Animated.View entering={FadeInDown.duration(300)}>
+          <ThemedText
+            type="small"
+            style={[
+              { color: theme.textSecondary, marginBottom: Spacing.lg },
+              rtlText,
+            ]}
+          >
+            {t("gas_curves_hint")}
+          </ThemedText>
+          {config.turbines.map((turbine) => (
+            <TurbineCurves key={turbine.id} turbine={turbine} />
+          ))}
+        </Animated.View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  card: {
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.lg,
+    overflow: "hidden",
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+  },
+  iconCircle: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  curve: {
+    padding: Spacing.lg,
+  },
+  curveHeader: {
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: Spacing.md,
+  },
+  kindOption: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+  },
+  pointRow: {
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginBottom: Spacing.xs,
+  },
+  pointLabel: {
+    flex: 1,
+    textAlign: "center",
+  },
+  pointInput: {
+    flex: 1,
+    height: 40,
+    borderRadius: BorderRadius.xs,
+    borderWidth: 1,
+    paddingHorizontal: Spacing.md,
+    fontSize: 15,
+    fontFamily: Typography.mono.fontFamily,
+    textAlign: "center",
+  },
+  removeSpacer: {
+    width: 28,
+    alignItems: "center",
+  },
+  curveActions: {
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: Spacing.md,
+  },
+  textButton: {
+    alignItems: "center",
+    gap: Spacing.xs,
+    padding: Spacing.xs,
+  },
+  circleButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: Spacing.xl,
+  },
+});
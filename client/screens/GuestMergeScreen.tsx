@@ -0,0 +1,455 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { useNavigation } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useResponsiveLayout } from "@/hooks/useResponsiveLayout";
+import { useRTL } from "@/hooks/useRTL";
+import { Spacing, BorderRadius, Typography } from "@/constants/theme";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePlantConfig } from "@/contexts/PlantConfigContext";
+import { usePlantWorkspace } from "@/contexts/PlantWorkspaceContext";
+import { useDay } from "@/contexts/DayContext";
+import { useSync } from "@/contexts/SyncContext";
+import { formatMWh } from "@/lib/storage";
+import { dayFigures } from "@/lib/dayFigures";
+import { isDayLocked } from "@/lib/dayApproval";
+import { isMonthClosed } from "@/lib/monthClosing";
+import { canEditDays } from "@/lib/plantWorkspace";
+import { getPlantConfig } from "@/lib/plantConfig";
+import {
+  GuestSession,
+  MergeCandidate,
+  loadMergeCandidates,
+  mergedDay,
+} from "@/lib/guestMerge";
+import { showSuccess, showError } from "@/utils/notify";
+
+// Shown after signing into an existing account from a guest session. Lists
+// the guest's days against the account's: new dates are merged by default,
+// while collisions keep the account's version unless the guest's is chosen.
+// Days approved or in a closed month in the account cannot be replaced.
+// Days saved on this device while signed out are offered the same way.
+export default function GuestMergeScreen() {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const { rtlRow, rtlText } = useRTL();
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const layout = useResponsiveLayout();
+  const navigation = useNavigation();
+  const { pendingGuestMerge, finishGuestMerge } = useAuth();
+  const { config } = usePlantConfig();
+  const { plant: currentPlant, role } = usePlantWorkspace();
+  const { saveDays, closures } = useDay();
+  const { online } = useSync();
+  // Right after signing in the guest's plant is still open until the
+  // account's plants load.
+  const plant =
+    currentPlant && !pendingGuestMerge?.plantIds.includes(currentPlant.id)
+      ? currentPlant
+      : null;
+  const canMerge = canEditDays(role);
+  const localDays = pendingGuestMerge?.userId === null;
+
+  const [candidates, setCandidates] = useState<MergeCandidate[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [merging, setMerging] = useState(false);
+
+  const isFrozen = useCallback(
+    (candidate: MergeCandidate) =>
+      isMonthClosed(closures, candidate.dateKey) ||
+      (!!candidate.account && isDayLocked(candidate.account)),
+    [closures],
+  );
+
+  // The candidates load once per guest session and account plant, so that
+  // going online or a month closing elsewhere does not reset the selection.
+  // The plant's configuration is read here, as the context's may still be
+  // the guest plant's right after signing in.
+  const loadedForRef = useRef<{
+    session: GuestSession;
+    plantId: string;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!plant) return;
+    if (!pendingGuestMerge) {
+      setCandidates([]);
+      setLoading(false);
+      return;
+    }
+    const loadedFor = loadedForRef.current;
+    if (
+      loadedFor?.session === pendingGuestMerge &&
+      loadedFor.plantId === plant.id
+    ) {
+      return;
+    }
+    const target = { session: pendingGuestMerge, plantId: plant.id };
+    loadedForRef.current = target;
+    setLoading(true);
+    getPlantConfig(plant.id)
+      .then((plantConfig) =>
+        loadMergeCandidates(pendingGuestMerge, plant.id, plantConfig, online),
+      )
+      .then((found) => {
+        if (loadedForRef.current !== target) return;
+        setCandidates(found);
+        setSelected(
+          new Set(
+            found
+              .filter((candidate) => !candidate.account && !isFrozen(candidate))
+              .map((candidate) => candidate.dateKey),
+          ),
+        );
+        setLoading(false);
+      })
+      .catch((error) => {
+        console.error("Error loading guest days:", error);
+        if (loadedForRef.current === target) setLoading(false);
+      });
+  }, [plant, pendingGuestMerge, online, isFrozen]);
+
+  const toggle = (dateKey: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(dateKey)) {
+        next.delete(dateKey);
+      } else {
+        next.add(dateKey);
+      }
+      return next;
+    });
+  };
+
+  const handleMerge = async () => {
+    if (merging) return;
+    setMerging(true);
+    try {
+      const chosen = candidates.filter(
+        (candidate) => selected.has(candidate.dateKey) && !isFrozen(candidate),
+      );
+      await saveDays(chosen.map(mergedDay));
+      await finishGuestMerge();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      showSuccess(t(localDays ? "local_merge_done" : "guest_merge_done"));
+      navigation.goBack();
+    } catch (error) {
+      console.error("Error merging guest days:", error);
+      showError(t("msg_error_generic"));
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const confirmDiscard = async () => {
+    await finishGuestMerge();
+    navigation.goBack();
+  };
+
+  const handleDiscard = () => {
+    if (merging) return;
+    if (candidates.length === 0) {
+      confirmDiscard();
+      return;
+    }
+    Alert.alert(
+      t(localDays ? "local_merge_discard" : "guest_merge_discard"),
+      t("guest_merge_discard_confirm"),
+      [
+        { text: t("cancel"), style: "cancel" },
+        {
+          text: t(localDays ? "local_merge_discard" : "guest_merge_discard"),
+          style: "destructive",
+          onPress: confirmDiscard,
+        },
+      ],
+    );
+  };
+
+  const production = (
+    candidate: MergeCandidate,
+    version: "guest" | "account",
+  ) => {
+    const day = candidate[version];
+    return day ? formatMWh(dayFigures(day, config).productionMwh) : "";
+  };
+
+  const ready = !loading && !!plant && canMerge;
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={{
+          paddingTop: headerHeight + Spacing.lg,
+          paddingBottom: insets.bottom + Spacing.xl,
+          paddingHorizontal: layout.horizontalPadding,
+          maxWidth: layout.isTablet ? layout.contentMaxWidth : undefined,
+          alignSelf: layout.isTablet ? "center" : undefined,
+          width: layout.isTablet ? "100%" : undefined,
+        }}
+        showsVerticalScrollIndicator={false}
+      >
+        <View
+          style={[styles.card, { backgroundColor: theme.backgroundDefault }]}
+        >
+          <View
+            style={[
+              styles.cardHeader,
+              rtlRow,
+              { borderBottomColor: theme.border },
+            ]}
+          >
+            <View
+              style={[
+                styles.iconCircle,
+                { backgroundColor: theme.primary + "20" },
+              ]}
+            >
+              <Feather name="user-plus" size={20} color={theme.primary} />
+            </View>
+            <View style={{ flex: 1, marginHorizontal: Spacing.md }}>
+              <ThemedText
+                type="body"
+                style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}
+              >
+                {plant?.name ?? t(localDays ? "local_merge" : "guest_merge")}
+              </ThemedText>
+              <ThemedText
+                type="caption"
+                style={[{ color: theme.textSecondary }, rtlText]}
+              >
+                {t(localDays ? "local_merge_desc" : "guest_merge_desc")}
+              </ThemedText>
+            </View>
+          </View>
+
+          {loading || !plant ? (
+            <View style={styles.emptyContainer}>
+              <ActivityIndicator size="large" color={theme.primary} />
+            </View>
+          ) : !canMerge ? (
+            <View style={styles.emptyContainer}>
+              <Feather name="lock" size={40} color={theme.textSecondary} />
+              <ThemedText
+                type="body"
+                style={[styles.emptyText, { color: theme.textSecondary }]}
+              >
+                {t("guest_merge_read_only")}
+              </ThemedText>
+            </View>
+          ) : candidates.length === 0 ? (
+            <View style={styles.emptyContainer}>
+              <Feather name="check-circle" size={40} color={theme.success} />
+              <ThemedText
+                type="body"
+                style={[styles.emptyText, { color: theme.textSecondary }]}
+              >
+                {t(localDays ? "local_merge_empty" : "guest_merge_empty")}
+              </ThemedText>
+            </View>
+          ) : (
+            candidates.map((candidate, index) => {
+              const frozen = isFrozen(candidate);
+              const chosen = selected.has(candidate.dateKey) && !frozen;
+              const collision = !!candidate.account;
+              const accent = collision ? theme.warning : theme.success;
+              return (
+                <Pressable
+                  key={candidate.dateKey}
+                  style={[
+                    styles.dayRow,
+                    rtlRow,
+                    collision && { backgroundColor: theme.warning + "10" },
+                    index < candidates.length - 1 && {
+                      borderBottomWidth: 1,
+                      borderBottomColor: theme.border,
+                    },
+                  ]}
+                  onPress={() => toggle(candidate.dateKey)}
+                  disabled={frozen}
+                  testID={`row-guest-day-${candidate.dateKey}`}
+                >
+                  <Feather
+                    name={chosen ? "check-square" : "square"}
+                    size={20}
+                    color={frozen ? theme.textSecondary : theme.primary}
+                  />
+                  <View style={{ flex: 1, gap: Spacing.xs }}>
+                    <View style={[rtlRow, styles.dayTitle]}>
+                      <ThemedText
+                        type="body"
+                        style={{
+                          fontFamily: Typography.mono.fontFamily,
+                          fontWeight: "600",
+                        }}
+                      >
+                        {candidate.dateKey}
+                      </ThemedText>
+                      <View
+                        style={[
+                          styles.badge,
+                          { backgroundColor: accent + "20" },
+                        ]}
+                      >
+                        <ThemedText type="caption" style={{ color: accent }}>
+                          {collision
+                            ? t("guest_merge_collision")
+                            : t("guest_merge_new")}
+                        </ThemedText>
+                      </View>
+                    </View>
+                    <ThemedText
+                      type="small"
+                      style={[{ color: theme.textSecondary }, rtlText]}
+                    >
+                      {`${t(localDays ? "local_merge_device" : "guest_merge_guest")}: ${production(candidate, "guest")}`}
+                      {collision
+                        ? ` · ${t("guest_merge_account")}: ${production(candidate, "account")} · ${candidate.differences} ${t("guest_merge_fields_differ")}`
+                        : null}
+                    </ThemedText>
+                    {collision || frozen ? (
+                      <ThemedText
+                        type="caption"
+                        style={[
+                          { color: frozen ? theme.textSecondary : accent },
+                          rtlText,
+                        ]}
+                      >
+                        {frozen
+                          ? t("guest_merge_locked")
+                          : chosen
+                            ? t(
+                                localDays
+                                  ? "local_merge_use_device"
+                                  : "guest_merge_use_guest",
+                              )
+                            : t("guest_merge_keep_account")}
+                      </ThemedText>
+                    ) : null}
+                  </View>
+                </Pressable>
+              );
+            })
+          )}
+        </View>
+
+        {ready && candidates.length > 0 ? (
+          <Pressable
+            style={[
+              styles.mergeButton,
+              { backgroundColor: theme.primary },
+              merging && { opacity: 0.6 },
+            ]}
+            onPress={handleMerge}
+            disabled={merging}
+            testID="button-guest-merge"
+          >
+            {merging ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <ThemedText type="body" style={{ color: "#fff" }}>
+                {`${t("guest_merge_button")} (${selected.size} ${t("guest_merge_selected")})`}
+              </ThemedText>
+            )}
+          </Pressable>
+        ) : null}
+
+        {!loading && plant ? (
+          <Pressable
+            style={styles.discardButton}
+            onPress={handleDiscard}
+            disabled={merging}
+            testID="button-guest-discard"
+          >
+            <ThemedText
+              type="body"
+              style={{
+                color: candidates.length > 0 ? theme.error : theme.primary,
+              }}
+            >
+              {candidates.length > 0
+                ? t(localDays ? "local_merge_discard" : "guest_merge_discard")
+                : t("guest_merge_finish")}
+            </ThemedText>
+          </Pressable>
+        ) : null}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  card: {
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.lg,
+    overflow: "hidden",
+  },
+  cardHeader: {
+    alignItems: "center",
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+  },
+  iconCircle: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  emptyContainer: {
+    padding: Spacing["3xl"],
+    alignItems: "center",
+  },
+  emptyText: {
+    marginTop: Spacing.md,
+    textAlign: "center",
+  },
+  dayRow: {
+    alignItems: "center",
+    gap: Spacing.md,
+    padding: Spacing.lg,
+  },
+  dayTitle: {
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  badge: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.xs,
+  },
+  mergeButton: {
+    height: 48,
+    borderRadius: BorderRadius.sm,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  discardButton: {
+    alignItems: "center",
+    paddingVertical: Spacing.lg,
+  },
+});
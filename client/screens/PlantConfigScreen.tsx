@@ -0,0 +1,903 @@
+import React, { useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  TextInput,
+  Modal,
+  Alert,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Animated, { FadeInDown } from "react-native-reanimated";
+
+import { ThemedText } from "@/components/ThemedText";
+import { CalendarPicker } from "@/components/CalendarPicker";
+import { TimeInputField } from "@/components/TimeInputField";
+import { useTheme } from "@/hooks/useTheme";
+import { useResponsiveLayout } from "@/hooks/useResponsiveLayout";
+import { useRTL } from "@/hooks/useRTL";
+import { Spacing, BorderRadius, Typography } from "@/constants/theme";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { usePlantConfig } from "@/contexts/PlantConfigContext";
+import {
+  EnergyUnit,
+  MeterConfig,
+  MeterKind,
+  ShiftDefinition,
+  addMeter,
+  addShift,
+  meterMultiplier,
+  removeShift,
+  sortedShifts,
+  updateShift,
+  updateMeter,
+  moveMeter,
+} from "@/lib/plantConfig";
+import { todayKey } from "@/lib/storage";
+import { showError } from "@/utils/notify";
+
+type DateField = "commissionedOn" | "retiredOn";
+
+const ENERGY_UNITS: EnergyUnit[] = ["kWh", "MWh"];
+
+interface DateTarget {
+  kind: MeterKind;
+  id: string;
+  field: DateField;
+  value?: string;
+}
+
+interface MeterNumberFieldProps {
+  label: string;
+  value?: number;
+  placeholder: string;
+  onCommit: (value: number | undefined) => void;
+  testID?: string;
+}
+
+function MeterNumberField({
+  label,
+  value,
+  placeholder,
+  onCommit,
+  testID,
+}: MeterNumberFieldProps) {
+  const { theme } = useTheme();
+  const [text, setText] = useState(value === undefined ? "" : String(value));
+
+  const handleEndEditing = () => {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      onCommit(undefined);
+      return;
+    }
+    const parsed = Number(trimmed);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      setText(value === undefined ? "" : String(value));
+      return;
+    }
+    onCommit(parsed);
+  };
+
+  return (
+    <View style={styles.numberField}>
+      <ThemedText
+        type="caption"
+        style={{ color: theme.textSecondary }}
+        numberOfLines={1}
+      >
+        {label}
+      </ThemedText>
+      <TextInput
+        style={[
+          styles.numberInput,
+          {
+            backgroundColor: theme.backgroundRoot,
+            color: theme.text,
+            borderColor: theme.border,
+          },
+        ]}
+        value={text}
+        onChangeText={setText}
+        onEndEditing={handleEndEditing}
+        keyboardType="decimal-pad"
+        placeholder={placeholder}
+        placeholderTextColor={theme.textSecondary}
+        testID={testID}
+      />
+    </View>
+  );
+}
+
+interface MeterRowProps {
+  meter: MeterConfig;
+  kind: MeterKind;
+  isFirst: boolean;
+  isLast: boolean;
+  onPickDate: (target: DateTarget) => void;
+}
+
+function MeterRow({ meter, kind, isFirst, isLast, onPickDate }: MeterRowProps) {
+  const { theme } = useTheme();
+  const { t, isRTL } = useLanguage();
+  const { rtlRow } = useRTL();
+  const { updateConfig } = usePlantConfig();
+  const [name, setName] = useState(meter.name);
+
+  const isRetired = !!meter.retiredOn && meter.retiredOn <= todayKey();
+
+  const handleRename = () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setName(meter.name);
+      showError(t("meter_name_required"));
+      return;
+    }
+    if (trimmed !== meter.name) {
+      updateConfig((c) => updateMeter(c, kind, meter.id, { name: trimmed }));
+    }
+  };
+
+  const handleMove = (offset: number) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    updateConfig((c) => moveMeter(c, kind, meter.id, offset));
+  };
+
+  const handleRetire = () => {
+    if (meter.retiredOn) {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      updateConfig((c) =>
+        updateMeter(c, kind, meter.id, { retiredOn: undefined }),
+      );
+      return;
+    }
+    Alert.alert(t("retire_meter"), t("retire_meter_confirm"), [
+      { text: t("cancel"), style: "cancel" },
+      {
+        text: t("retire_meter"),
+        style: "destructive",
+        onPress: () =>
+          updateConfig((c) =>
+            updateMeter(c, kind, meter.id, { retiredOn: todayKey() }),
+          ),
+      },
+    ]);
+  };
+
+  return (
+    <View
+      style={[
+        styles.meterRow,
+        !isLast && { borderBottomWidth: 1, borderBottomColor: theme.border },
+        isRetired && { opacity: 0.6 },
+      ]}
+    >
+      <View style={[rtlRow, { alignItems: "center", gap: Spacing.sm }]}>
+        <TextInput
+          style={[
+            styles.input,
+            {
+              backgroundColor: theme.backgroundRoot,
+              color: theme.text,
+              borderColor: theme.border,
+              textAlign: isRTL ? "right" : "left",
+            },
+          ]}
+          value={name}
+          onChangeText={setName}
+          onEndEditing={handleRename}
+          placeholder={t("meter_name")}
+          placeholderTextColor={theme.textSecondary}
+          testID={`input-meter-name-${meter.id}`}
+        />
+        <Pressable
+          style={[
+            styles.iconButton,
+            { backgroundColor: theme.backgroundSecondary },
+          ]}
+          onPress={() => handleMove(-1)}
+          disabled={isFirst}
+        >
+          <Feather
+            name="arrow-up"
+            size={16}
+            color={isFirst ? theme.border : theme.text}
+          />
+        </Pressable>
+        <Pressable
+          style={[
+            styles.iconButton,
+            { backgroundColor: theme.backgroundSecondary },
+          ]}
+          onPress={() => handleMove(1)}
+          disabled={isLast}
+        >
+          <Feather
+            name="arrow-down"
+            size={16}
+            color={isLast ? theme.border : theme.text}
+          />
+        </Pressable>
+      </View>
+
+      <View style={[rtlRow, styles.dateRow]}>
+        <Pressable
+          style={styles.dateChip}
+          onPress={() =>
+            onPickDate({
+              kind,
+              id: meter.id,
+              field: "commissionedOn",
+              value: meter.commissionedOn,
+            })
+          }
+        >
+          <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+            {t("commissioned_on")}
+          </ThemedText>
+          <ThemedText
+            type="small"
+            style={{ color: theme.primary, writingDirection: "ltr" }}
+          >
+            {meter.commissionedOn || t("not_set")}
+          </ThemedText>
+        </Pressable>
+        <Pressable
+          style={styles.dateChip}
+          onPress={() =>
+            onPickDate({
+              kind,
+              id: meter.id,
+              field: "retiredOn",
+              value: meter.retiredOn,
+            })
+          }
+        >
+          <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+            {t("retired_on")}
+          </ThemedText>
+          <ThemedText
+            type="small"
+            style={{ color: theme.primary, writingDirection: "ltr" }}
+          >
+            {meter.retiredOn || t("not_set")}
+          </ThemedText>
+        </Pressable>
+        <Pressable
+          style={[
+            styles.retireButton,
+            {
+              borderColor: meter.retiredOn ? theme.success : theme.error,
+            },
+          ]}
+          onPress={handleRetire}
+        >
+          <ThemedText
+            type="small"
+            style={{
+              color: meter.retiredOn ? theme.success : theme.error,
+              fontWeight: "600",
+            }}
+          >
+            {meter.retiredOn ? t("restore_meter") : t("retire_meter")}
+          </ThemedText>
+        </Pressable>
+      </View>
+
+      <View style={[rtlRow, styles.fieldGrid]}>
+        <MeterNumberField
+          label={t("register_digits")}
+          value={meter.registerDigits}
+          placeholder="—"
+          onCommit={(registerDigits) =>
+            updateConfig((c) =>
+              updateMeter(c, kind, meter.id, {
+                registerDigits:
+                  registerDigits === undefined
+                    ? undefined
+                    : Math.round(registerDigits),
+              }),
+            )
+          }
+          testID={`input-register-digits-${meter.id}`}
+        />
+        <MeterNumberField
+          label={t("ct_ratio")}
+          value={meter.ctRatio}
+          placeholder="1"
+          onCommit={(ctRatio) =>
+            updateConfig((c) => updateMeter(c, kind, meter.id, { ctRatio }))
+          }
+          testID={`input-ct-ratio-${meter.id}`}
+        />
+        <MeterNumberField
+          label={t("pt_ratio")}
+          value={meter.ptRatio}
+          placeholder="1"
+          onCommit={(ptRatio) =>
+            updateConfig((c) => updateMeter(c, kind, meter.id, { ptRatio }))
+          }
+          testID={`input-pt-ratio-${meter.id}`}
+        />
+        <MeterNumberField
+          label={t("register_constant")}
+          value={meter.registerConstant}
+          placeholder="1"
+          onCommit={(registerConstant) =>
+            updateConfig((c) =>
+              updateMeter(c, kind, meter.id, { registerConstant }),
+            )
+          }
+          testID={`input-register-constant-${meter.id}`}
+        />
+        {kind === "turbine" ? (
+          <MeterNumberField
+            label={t("turbine_rating")}
+            value={meter.ratingMw}
+            placeholder="—"
+            onCommit={(ratingMw) =>
+              updateConfig((c) => updateMeter(c, kind, meter.id, { ratingMw }))
+            }
+            testID={`input-rating-${meter.id}`}
+          />
+        ) : null}
+      </View>
+
+      <View style={[rtlRow, styles.unitRow]}>
+        <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+          {t("meter_unit")}
+        </ThemedText>
+        <View style={[rtlRow, styles.unitOptions]}>
+          {ENERGY_UNITS.map((unit) => {
+            const selected = (meter.unit ?? "MWh") === unit;
+            return (
+              <Pressable
+                key={unit}
+                style={[
+                  styles.unitChip,
+                  {
+                    borderColor: selected ? theme.primary : theme.border,
+                    backgroundColor: selected
+                      ? theme.primary + "15"
+                      : "transparent",
+                  },
+                ]}
+                onPress={() => {
+                  Haptics.selectionAsync();
+                  updateConfig((c) => updateMeter(c, kind, meter.id, { unit }));
+                }}
+                testID={`button-unit-${unit}-${meter.id}`}
+              >
+                <ThemedText
+                  type="small"
+                  style={{
+                    color: selected ? theme.primary : theme.textSecondary,
+                    fontWeight: selected ? "600" : "400",
+                  }}
+                >
+                  {unit}
+                </ThemedText>
+              </Pressable>
+            );
+          })}
+          <ThemedText
+            type="caption"
+            style={{ color: theme.textSecondary, writingDirection: "ltr" }}
+          >
+            ×{meterMultiplier(meter)}
+          </ThemedText>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+interface MeterSectionProps {
+  kind: MeterKind;
+  meters: MeterConfig[];
+  onPickDate: (target: DateTarget) => void;
+}
+
+function MeterSection({ kind, meters, onPickDate }: MeterSectionProps) {
+  const { theme } = useTheme();
+  const { t, isRTL } = useLanguage();
+  const { rtlRow, rtlText } = useRTL();
+  const { updateConfig } = usePlantConfig();
+  const [newName, setNewName] = useState("");
+
+  const handleAdd = () => {
+    const trimmed = newName.trim();
+    if (!trimmed) {
+      showError(t("meter_name_required"));
+      return;
+    }
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    updateConfig((c) => addMeter(c, kind, trimmed, todayKey()));
+    setNewName("");
+  };
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.backgroundDefault }]}>
+      <View
+        style={[styles.cardHeader, rtlRow, { borderBottomColor: theme.border }]}
+      >
+        <View
+          style={[styles.iconCircle, { backgroundColor: theme.primary + "20" }]}
+        >
+          <Feather
+            name={kind === "feeder" ? "activity" : "wind"}
+            size={20}
+            color={theme.primary}
+          />
+        </View>
+        <ThemedText
+          type="body"
+          style={[
+            {
+              fontFamily: Typography.h4.fontFamily,
+              marginHorizontal: Spacing.md,
+            },
+            rtlText,
+          ]}
+        >
+          {kind === "feeder" ? t("feeders_list") : t("turbines_list")}
+        </ThemedText>
+      </View>
+
+      {meters.map((meter, index) => (
+        <MeterRow
+          key={meter.id}
+          meter={meter}
+          kind={kind}
+          isFirst={index === 0}
+          isLast={index === meters.length - 1}
+          onPickDate={onPickDate}
+        />
+      ))}
+
+      <View
+        style={[
+          styles.addRow,
+          rtlRow,
+          { borderTopWidth: 1, borderTopColor: theme.border },
+        ]}
+      >
+        <TextInput
+          style={[
+            styles.input,
+            {
+              backgroundColor: theme.backgroundRoot,
+              color: theme.text,
+              borderColor: theme.border,
+              textAlign: isRTL ? "right" : "left",
+            },
+          ]}
+          value={newName}
+          onChangeText={setNewName}
+          placeholder={kind === "feeder" ? t("add_feeder") : t("add_turbine")}
+          placeholderTextColor={theme.textSecondary}
+          onSubmitEditing={handleAdd}
+          testID={`input-new-${kind}`}
+        />
+        <Pressable
+          style={[styles.addButton, { backgroundColor: theme.primary }]}
+          onPress={handleAdd}
+          testID={`button-add-${kind}`}
+        >
+          <Feather name="plus" size={20} color="#fff" />
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+interface ShiftRowProps {
+  shift: ShiftDefinition;
+  canRemove: boolean;
+  isLast: boolean;
+}
+
+function ShiftRow({ shift, canRemove, isLast }: ShiftRowProps) {
+  const { theme } = useTheme();
+  const { t, isRTL } = useLanguage();
+  const { rtlRow } = useRTL();
+  const { updateConfig } = usePlantConfig();
+  const [name, setName] = useState(shift.name);
+
+  const handleRename = () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setName(shift.name);
+      showError(t("meter_name_required"));
+      return;
+    }
+    if (trimmed !== shift.name) {
+      updateConfig((c) => updateShift(c, shift.id, { name: trimmed }));
+    }
+  };
+
+  return (
+    <View
+      style={[
+        styles.shiftRow,
+        rtlRow,
+        !isLast && { borderBottomWidth: 1, borderBottomColor: theme.border },
+      ]}
+    >
+      <TextInput
+        style={[
+          styles.input,
+          {
+            backgroundColor: theme.backgroundRoot,
+            color: theme.text,
+            borderColor: theme.border,
+            textAlign: isRTL ? "right" : "left",
+          },
+        ]}
+        value={name}
+        onChangeText={setName}
+        onEndEditing={handleRename}
+        placeholder={t("shift_name")}
+        placeholderTextColor={theme.textSecondary}
+        testID={`input-shift-name-${shift.id}`}
+      />
+      <TimeInputField
+        label={t("shift_start")}
+        value={shift.start}
+        onChangeValue={(start) => {
+          if (!start) return;
+          updateConfig((c) => updateShift(c, shift.id, { start }));
+        }}
+        onInvalid={() => showError(t("invalid_time"))}
+        testID={`input-shift-start-${shift.id}`}
+      />
+      <Pressable
+        style={[
+          styles.iconButton,
+          { backgroundColor: theme.backgroundSecondary },
+        ]}
+        onPress={() => {
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+          updateConfig((c) => removeShift(c, shift.id));
+        }}
+        disabled={!canRemove}
+        testID={`button-remove-shift-${shift.id}`}
+      >
+        <Feather
+          name="trash-2"
+          size={16}
+          color={canRemove ? theme.error : theme.border}
+        />
+      </Pressable>
+    </View>
+  );
+}
+
+function ShiftSection() {
+  const { theme } = useTheme();
+  const { t, isRTL } = useLanguage();
+  const { rtlRow, rtlText } = useRTL();
+  const { config, updateConfig } = usePlantConfig();
+  const [newName, setNewName] = useState("");
+  const [newStart, setNewStart] = useState("");
+
+  const shifts = sortedShifts(config);
+
+  const handleAdd = () => {
+    const trimmed = newName.trim();
+    if (!trimmed) {
+      showError(t("meter_name_required"));
+      return;
+    }
+    if (!newStart) {
+      showError(t("invalid_time"));
+      return;
+    }
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    updateConfig((c) => addShift(c, trimmed, newStart));
+    setNewName("");
+    setNewStart("");
+  };
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.backgroundDefault }]}>
+      <View
+        style={[styles.cardHeader, rtlRow, { borderBottomColor: theme.border }]}
+      >
+        <View
+          style={[styles.iconCircle, { backgroundColor: theme.primary + "20" }]}
+        >
+          <Feather name="clock" size={20} color={theme.primary} />
+        </View>
+        <View style={{ flex: 1, marginHorizontal: Spacing.md }}>
+          <ThemedText
+            type="body"
+            style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}
+          >
+            {t("shifts")}
+          </ThemedText>
+          <ThemedText
+            type="caption"
+            style={[{ color: theme.textSecondary }, rtlText]}
+          >
+            {t("shifts_hint")}
+          </ThemedText>
+        </View>
+      </View>
+
+      {shifts.map((shift, index) => (
+        <ShiftRow
+          key={shift.id}
+          shift={shift}
+          canRemove={shifts.length > 1}
+          isLast={index === shifts.length - 1}
+        />
+      ))}
+
+      <View
+        style={[
+          styles.addRow,
+          rtlRow,
+          { borderTopWidth: 1, borderTopColor: theme.border },
+        ]}
+      >
+        <TextInput
+          style={[
+            styles.input,
+            {
+              backgroundColor: theme.backgroundRoot,
+              color: theme.text,
+              borderColor: theme.border,
+              textAlign: isRTL ? "right" : "left",
+            },
+          ]}
+          value={newName}
+          onChangeText={setNewName}
+          placeholder={t("add_shift")}
+          placeholderTextColor={theme.textSecondary}
+          testID="input-new-shift"
+        />
+        <TimeInputField
+          label={t("shift_start")}
+          value={newStart}
+          onChangeValue={setNewStart}
+          onInvalid={() => showError(t("invalid_time"))}
+          testID="input-new-shift-start"
+        />
+        <Pressable
+          style={[styles.addButton, { backgroundColor: theme.primary }]}
+          onPress={handleAdd}
+          testID="button-add-shift"
+        >
+          <Feather name="plus" size={20} color="#fff" />
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+export default function PlantConfigScreen() {
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const tabBarHeight = useBottomTabBarHeight();
+  const layout = useResponsiveLayout();
+  const { t } = useLanguage();
+  const { rtlText } = useRTL();
+  const { config, updateConfig } = usePlantConfig();
+
+  const [dateTarget, setDateTarget] = useState<DateTarget | null>(null);
+
+  const handleSelectDate = (date: string | undefined) => {
+    if (!dateTarget) return;
+    const { kind, id, field } = dateTarget;
+    updateConfig((c) => updateMeter(c, kind, id, { [field]: date }));
+    setDateTarget(null);
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={{
+          paddingTop: headerHeight + Spacing.lg,
+          paddingBottom: tabBarHeight + Spacing.xl,
+          paddingHorizontal: layout.horizontalPadding,
+          maxWidth: layout.isTablet ? layout.contentMaxWidth : undefined,
+          alignSelf: layout.isTablet ? "center" : undefined,
+          width: layout.isTablet ? "100%" : undefined,
+        }}
+        scrollIndicatorInsets={{ bottom: insets.bottom }}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Animated.View entering={FadeInDown.duration(300)}>
+          <ThemedText
+            type="small"
+            style={[
+              { color: theme.textSecondary, marginBottom: Spacing.lg },
+              rtlText,
+            ]}
+          >
+            {t("plant_config_hint")} {t("register_digits_hint")}{" "}
+            {t("meter_scaling_hint")}
+          </ThemedText>
+          <MeterSection
+            kind="feeder"
+            meters={config.feeders}
+            onPickDate={setDateTarget}
+          />
+        </Animated.View>
+
+        <Animated.View entering={FadeInDown.delay(100).duration(300)}>
+          <MeterSection
+            kind="turbine"
+            meters={config.turbines}
+            onPickDate={setDateTarget}
+          />
+        </Animated.View>
+
+        <Animated.View entering={FadeInDown.delay(200).duration(300)}>
+          <ShiftSection />
+        </Animated.View>
+      </ScrollView>
+
+      <Modal
+        visible={!!dateTarget}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setDateTarget(null)}
+      >
+        <Pressable
+          style={styles.modalOverlay}
+          onPress={() => setDateTarget(null)}
+        >
+          <Pressable onPress={(e) => e.stopPropagation()}>
+            <CalendarPicker
+              selectedDate={dateTarget?.value || todayKey()}
+              onSelectDate={handleSelectDate}
+              onClose={() => setDateTarget(null)}
+            />
+            <Pressable
+              style={[
+                styles.clearButton,
+                { backgroundColor: theme.backgroundDefault },
+              ]}
+              onPress={() => handleSelectDate(undefined)}
+            >
+              <ThemedText type="body" style={{ color: theme.error }}>
+                {t("clear")}
+              </ThemedText>
+            </Pressable>
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  card: {
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.lg,
+    overflow: "hidden",
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+  },
+  iconCircle: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  meterRow: {
+    padding: Spacing.lg,
+  },
+  input: {
+    flex: 1,
+    height: 44,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    paddingHorizontal: Spacing.md,
+    fontSize: 16,
+  },
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  dateRow: {
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: Spacing.md,
+  },
+  dateChip: {
+    flex: 1,
+  },
+  fieldGrid: {
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  numberField: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  numberInput: {
+    height: 36,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    paddingHorizontal: Spacing.md,
+    fontSize: 14,
+    fontFamily: Typography.mono.fontFamily,
+    textAlign: "center",
+  },
+  unitRow: {
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: Spacing.md,
+  },
+  unitOptions: {
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  unitChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+  },
+  retireButton: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+  },
+  shiftRow: {
+    alignItems: "center",
+    gap: Spacing.sm,
+    padding: Spacing.lg,
+  },
+  addRow: {
+    alignItems: "center",
+    gap: Spacing.sm,
+    padding: Spacing.lg,
+  },
+  addButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: Spacing.xl,
+  },
+  clearButton: {
+    marginTop: Spacing.md,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    alignItems: "center",
+  },
+});
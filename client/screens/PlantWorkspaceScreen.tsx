@@ -0,0 +1,472 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  TextInput,
+  ActivityIndicator,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Animated, { FadeInDown } from "react-native-reanimated";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useResponsiveLayout } from "@/hooks/useResponsiveLayout";
+import { useRTL } from "@/hooks/useRTL";
+import { Spacing, BorderRadius, Typography } from "@/constants/theme";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePlantWorkspace } from "@/contexts/PlantWorkspaceContext";
+import {
+  PLANT_ROLES,
+  PlantMember,
+  PlantRole,
+  ROLE_LABELS,
+  canEditDays,
+} from "@/lib/plantWorkspace";
+import {
+  fetchPlantMembersFromSupabase,
+  updatePlantMemberRole,
+} from "@/lib/supabaseSync";
+import { showSuccess, showError } from "@/utils/notify";
+
+interface SectionHeaderProps {
+  icon: keyof typeof Feather.glyphMap;
+  title: string;
+  hint?: string;
+}
+
+function SectionHeader({ icon, title, hint }: SectionHeaderProps) {
+  const { theme } = useTheme();
+  const { rtlRow, rtlText } = useRTL();
+
+  return (
+    <View
+      style={[styles.cardHeader, rtlRow, { borderBottomColor: theme.border }]}
+    >
+      <View
+        style={[styles.iconCircle, { backgroundColor: theme.primary + "20" }]}
+      >
+        <Feather name={icon} size={20} color={theme.primary} />
+      </View>
+      <View style={{ flex: 1, marginHorizontal: Spacing.md }}>
+        <ThemedText
+          type="body"
+          style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}
+        >
+          {title}
+        </ThemedText>
+        {hint ? (
+          <ThemedText
+            type="caption"
+            style={[{ color: theme.textSecondary }, rtlText]}
+          >
+            {hint}
+          </ThemedText>
+        ) : null}
+      </View>
+    </View>
+  );
+}
+
+interface InputActionProps {
+  placeholder: string;
+  actionLabel: string;
+  onSubmit: (value: string) => Promise<void>;
+  autoCapitalize?: "none" | "sentences";
+  testID?: string;
+}
+
+function InputAction({
+  placeholder,
+  actionLabel,
+  onSubmit,
+  autoCapitalize,
+  testID,
+}: InputActionProps) {
+  const { theme } = useTheme();
+  const { rtlRow, rtlText } = useRTL();
+  const [value, setValue] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!value.trim() || busy) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setBusy(true);
+    try {
+      await onSubmit(value.trim());
+      setValue("");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <View style={[styles.inputRow, rtlRow]}>
+      <TextInput
+        style={[
+          styles.input,
+          {
+            backgroundColor: theme.backgroundRoot,
+            color: theme.text,
+            borderColor: theme.border,
+          },
+          rtlText,
+        ]}
+        value={value}
+        onChangeText={setValue}
+        placeholder={placeholder}
+        placeholderTextColor={theme.textSecondary}
+        autoCapitalize={autoCapitalize}
+        onSubmitEditing={handleSubmit}
+        testID={`input-${testID}`}
+      />
+      <Pressable
+        style={[
+          styles.actionButton,
+          { backgroundColor: theme.primary, opacity: value.trim() ? 1 : 0.5 },
+        ]}
+        onPress={handleSubmit}
+        disabled={!value.trim() || busy}
+        testID={`button-${testID}`}
+      >
+        {busy ? (
+          <ActivityIndicator size="small" color="#fff" />
+        ) : (
+          <ThemedText type="small" style={{ color: "#fff", fontWeight: "600" }}>
+            {actionLabel}
+          </ThemedText>
+        )}
+      </Pressable>
+    </View>
+  );
+}
+
+interface MemberRowProps {
+  member: PlantMember;
+  editable: boolean;
+  isLast: boolean;
+  onChangeRole: (role: PlantRole) => void;
+}
+
+function MemberRow({ member, editable, isLast, onChangeRole }: MemberRowProps) {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const { rtlRow, rtlText } = useRTL();
+
+  return (
+    <View
+      style={[
+        styles.memberRow,
+        !isLast && { borderBottomWidth: 1, borderBottomColor: theme.border },
+      ]}
+    >
+      <ThemedText type="body" style={rtlText}>
+        {member.name || member.userId.slice(0, 8)}
+      </ThemedText>
+      <View style={[styles.chipRow, rtlRow]}>
+        {PLANT_ROLES.map((role) => {
+          const selected = member.role === role;
+          return (
+            <Pressable
+              key={role}
+              style={[
+                styles.chip,
+                {
+                  borderColor: selected ? theme.primary : theme.border,
+                  backgroundColor: selected
+                    ? theme.primary + "20"
+                    : "transparent",
+                  opacity: editable || selected ? 1 : 0.5,
+                },
+              ]}
+              onPress={() => onChangeRole(role)}
+              disabled={!editable || selected}
+              testID={`chip-role-${member.userId}-${role}`}
+            >
+              <ThemedText
+                type="small"
+                style={{ color: selected ? theme.primary : theme.text }}
+              >
+                {t(ROLE_LABELS[role])}
+              </ThemedText>
+            </Pressable>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+// Lets a signed-in user pick which plant's days they work on, start or join
+// a plant, and, as a supervisor, set the roles of the plant's members.
+export default function PlantWorkspaceScreen() {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const { rtlRow, rtlText } = useRTL();
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const tabBarHeight = useBottomTabBarHeight();
+  const layout = useResponsiveLayout();
+  const { user } = useAuth();
+  const { plants, plant, role, selectPlant, createPlant, joinPlant } =
+    usePlantWorkspace();
+  const [members, setMembers] = useState<PlantMember[]>([]);
+
+  const loadMembers = useCallback(async () => {
+    setMembers(plant ? await fetchPlantMembersFromSupabase(plant.id) : []);
+  }, [plant]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  const handleCreate = async (name: string) => {
+    const created = await createPlant(name);
+    if (created) {
+      showSuccess(t("msg_plant_created"));
+    } else {
+      showError(t("msg_error_generic"));
+    }
+  };
+
+  const handleJoin = async (code: string) => {
+    if (await joinPlant(code)) {
+      showSuccess(t("msg_plant_joined"));
+    } else {
+      showError(t("join_code_invalid"));
+    }
+  };
+
+  const handleChangeRole = async (member: PlantMember, newRole: PlantRole) => {
+    if (!plant) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (await updatePlantMemberRole(plant.id, member.userId, newRole)) {
+      showSuccess(t("msg_role_updated"));
+      await loadMembers();
+    } else {
+      showError(t("msg_error_generic"));
+    }
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={{
+          paddingTop: headerHeight + Spacing.lg,
+          paddingBottom: tabBarHeight + Spacing.xl,
+          paddingHorizontal: layout.horizontalPadding,
+          maxWidth: layout.isTablet ? layout.contentMaxWidth : undefined,
+          alignSelf: layout.isTablet ? "center" : undefined,
+          width: layout.isTablet ? "100%" : undefined,
+        }}
+        scrollIndicatorInsets={{ bottom: insets.bottom }}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Animated.View entering={FadeInDown.duration(300)}>
+          <View
+            style={[styles.card, { backgroundColor: theme.backgroundDefault }]}
+          >
+            <SectionHeader
+              icon="home"
+              title={t("select_plant")}
+              hint={
+                role && !canEditDays(role) ? t("read_only_role") : undefined
+              }
+            />
+            {plants.map((p, index) => {
+              const selected = p.id === plant?.id;
+              return (
+                <Pressable
+                  key={p.id}
+                  style={[
+                    styles.plantRow,
+                    rtlRow,
+                    index < plants.length - 1 && {
+                      borderBottomWidth: 1,
+                      borderBottomColor: theme.border,
+                    },
+                  ]}
+                  onPress={() => {
+                    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                    selectPlant(p.id);
+                  }}
+                  testID={`button-plant-${p.id}`}
+                >
+                  <View style={{ flex: 1 }}>
+                    <ThemedText type="body" style={rtlText}>
+                      {p.name}
+                    </ThemedText>
+                    <ThemedText
+                      type="caption"
+                      style={[{ color: theme.textSecondary }, rtlText]}
+                    >
+                      {`${t(ROLE_LABELS[p.role])} · ${t("join_code")}: ${p.joinCode}`}
+                    </ThemedText>
+                  </View>
+                  {selected ? (
+                    <View
+                      style={[
+                        styles.checkCircle,
+                        { backgroundColor: theme.primary },
+                      ]}
+                    >
+                      <Feather name="check" size={16} color="#fff" />
+                    </View>
+                  ) : null}
+                </Pressable>
+              );
+            })}
+          </View>
+        </Animated.View>
+
+        <Animated.View entering={FadeInDown.delay(100).duration(300)}>
+          <View
+            style={[styles.card, { backgroundColor: theme.backgroundDefault }]}
+          >
+            <SectionHeader icon="plus-circle" title={t("create_plant")} />
+            <View style={styles.cardBody}>
+              <InputAction
+                placeholder={t("plant_name")}
+                actionLabel={t("create_plant")}
+                onSubmit={handleCreate}
+                autoCapitalize="sentences"
+                testID="create-plant"
+              />
+            </View>
+          </View>
+        </Animated.View>
+
+        <Animated.View entering={FadeInDown.delay(150).duration(300)}>
+          <View
+            style={[styles.card, { backgroundColor: theme.backgroundDefault }]}
+          >
+            <SectionHeader icon="log-in" title={t("join_plant")} />
+            <View style={styles.cardBody}>
+              <InputAction
+                placeholder={t("join_code")}
+                actionLabel={t("join_plant")}
+                onSubmit={handleJoin}
+                autoCapitalize="none"
+                testID="join-plant"
+              />
+            </View>
+          </View>
+        </Animated.View>
+
+        {plant ? (
+          <Animated.View entering={FadeInDown.delay(200).duration(300)}>
+            <View
+              style={[
+                styles.card,
+                { backgroundColor: theme.backgroundDefault },
+              ]}
+            >
+              <SectionHeader
+                icon="users"
+                title={t("team_members")}
+                hint={`${t("your_role")}: ${t(ROLE_LABELS[plant.role])}`}
+              />
+              {members.map((member, index) => (
+                <MemberRow
+                  key={member.userId}
+                  member={member}
+                  // A supervisor cannot demote themselves and leave the
+                  // plant without anyone to approve days.
+                  editable={
+                    plant.role === "supervisor" && member.userId !== user?.id
+                  }
+                  isLast={index === members.length - 1}
+                  onChangeRole={(newRole) => handleChangeRole(member, newRole)}
+                />
+              ))}
+            </View>
+          </Animated.View>
+        ) : null}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  card: {
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.lg,
+    overflow: "hidden",
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+  },
+  cardBody: {
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  iconCircle: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  checkCircle: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  plantRow: {
+    alignItems: "center",
+    gap: Spacing.md,
+    padding: Spacing.lg,
+  },
+  inputRow: {
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  input: {
+    flex: 1,
+    height: 44,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    paddingHorizontal: Spacing.md,
+    fontSize: 16,
+  },
+  actionButton: {
+    minWidth: 90,
+    height: 44,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  memberRow: {
+    padding: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  chipRow: {
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+  },
+});
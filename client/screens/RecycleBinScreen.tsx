@@ -0,0 +1,362 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Animated, { FadeInDown } from "react-native-reanimated";
+
+import { ThemedText } from "@/components/ThemedText";
+import { SyncStatusIcon } from "@/components/SyncStatusBadge";
+import { useTheme } from "@/hooks/useTheme";
+import { useResponsiveLayout } from "@/hooks/useResponsiveLayout";
+import { useRTL } from "@/hooks/useRTL";
+import { Spacing, BorderRadius, Typography } from "@/constants/theme";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { usePlantConfig } from "@/contexts/PlantConfigContext";
+import { usePlantWorkspace } from "@/contexts/PlantWorkspaceContext";
+import { useDay } from "@/contexts/DayContext";
+import { useSync } from "@/contexts/SyncContext";
+import { DayData, LOCAL_PLANT_ID, formatMWh } from "@/lib/storage";
+import { dayFigures } from "@/lib/dayFigures";
+import { isMonthClosed } from "@/lib/monthClosing";
+import { canApproveDays } from "@/lib/plantWorkspace";
+import {
+  DeletionPendingError,
+  daysUntilPurge,
+  purgeDay,
+  purgeExpiredDays,
+} from "@/lib/recycleBin";
+import type { RootStackParamList } from "@/navigation/RootStackNavigator";
+import { showSuccess, showError } from "@/utils/notify";
+
+// Days deleted on this device or pulled deleted from Supabase, until they
+// are restored, purged, or kept for RECYCLE_BIN_DAYS. Supervisors restore
+// and purge; everyone else can only look.
+export default function RecycleBinScreen() {
+  const { theme } = useTheme();
+  const { t, isRTL } = useLanguage();
+  const { rtlRow, rtlText } = useRTL();
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const tabBarHeight = useBottomTabBarHeight();
+  const layout = useResponsiveLayout();
+  const { config } = usePlantConfig();
+  const { plant, role, scope } = usePlantWorkspace();
+  const { restoreDay, closures } = useDay();
+  const { online, pendingCount, statusOf, lastFullSync, lastRemoteChange } =
+    useSync();
+  const plantId = plant?.id ?? LOCAL_PLANT_ID;
+  const canManage = canApproveDays(role);
+  const navigation =
+    useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+
+  const [days, setDays] = useState<DayData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  // Reloads as deletions are pushed and as days arrive from Supabase.
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      setDays(
+        await purgeExpiredDays(
+          plantId,
+          config,
+          canManage && online ? scope : null,
+        ),
+      );
+    } catch (error) {
+      console.error("Error loading recycle bin:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [plantId, config, canManage, online, scope]);
+
+  useEffect(() => {
+    load();
+  }, [load, pendingCount, lastFullSync, lastRemoteChange]);
+
+  // A deletion that met a newer edit elsewhere waits for the user to keep
+  // it or restore that edit.
+  const openConflict = (dateKey: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    navigation.navigate("ConflictResolution", { dateKey });
+  };
+
+  const handleRestore = async (day: DayData) => {
+    if (busyKey) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setBusyKey(day.dateKey);
+    try {
+      await restoreDay(day);
+      showSuccess(t("recycle_restored"));
+      await load();
+    } catch (error) {
+      console.error("Error restoring day:", error);
+      showError(t("msg_error_generic"));
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const confirmPurge = async (day: DayData) => {
+    setBusyKey(day.dateKey);
+    try {
+      await purgeDay(plantId, day, scope);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      showSuccess(t("recycle_purged"));
+      await load();
+    } catch (error) {
+      if (error instanceof DeletionPendingError) {
+        showError(t("recycle_purge_pending"));
+      } else {
+        console.error("Error purging day:", error);
+        showError(t("msg_error_generic"));
+      }
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handlePurge = (day: DayData) => {
+    if (busyKey) return;
+    if (scope && day.remoteRevision !== undefined && !online) {
+      showError(t("recycle_purge_offline"));
+      return;
+    }
+    Alert.alert(t("recycle_purge"), t("recycle_purge_confirm"), [
+      { text: t("cancel"), style: "cancel" },
+      {
+        text: t("recycle_purge"),
+        style: "destructive",
+        onPress: () => confirmPurge(day),
+      },
+    ]);
+  };
+
+  const formatDeletedAt = (deletedAt: string) =>
+    new Date(deletedAt).toLocaleDateString(isRTL ? "ar" : "en", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={{
+          paddingTop: headerHeight + Spacing.lg,
+          paddingBottom: tabBarHeight + Spacing.xl,
+          paddingHorizontal: layout.horizontalPadding,
+          maxWidth: layout.isTablet ? layout.contentMaxWidth : undefined,
+          alignSelf: layout.isTablet ? "center" : undefined,
+          width: layout.isTablet ? "100%" : undefined,
+        }}
+        scrollIndicatorInsets={{ bottom: insets.bottom }}
+        showsVerticalScrollIndicator={false}
+      >
+        <Animated.View entering={FadeInDown.duration(300)}>
+          <View
+            style={[styles.card, { backgroundColor: theme.backgroundDefault }]}
+          >
+            <View
+              style={[
+                styles.cardHeader,
+                rtlRow,
+                { borderBottomColor: theme.border },
+              ]}
+            >
+              <View
+                style={[
+                  styles.iconCircle,
+                  { backgroundColor: theme.error + "20" },
+                ]}
+              >
+                <Feather name="trash-2" size={20} color={theme.error} />
+              </View>
+              <View style={{ flex: 1, marginHorizontal: Spacing.md }}>
+                <ThemedText
+                  type="body"
+                  style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}
+                >
+                  {t("recycle_bin")}
+                </ThemedText>
+                <ThemedText
+                  type="caption"
+                  style={[{ color: theme.textSecondary }, rtlText]}
+                >
+                  {t("recycle_bin_hint")}
+                </ThemedText>
+              </View>
+            </View>
+
+            {loading && days.length === 0 ? (
+              <View style={styles.emptyContainer}>
+                <ActivityIndicator size="large" color={theme.primary} />
+              </View>
+            ) : days.length === 0 ? (
+              <View style={styles.emptyContainer}>
+                <Feather name="inbox" size={40} color={theme.textSecondary} />
+                <ThemedText
+                  type="body"
+                  style={{
+                    color: theme.textSecondary,
+                    marginTop: Spacing.md,
+                    textAlign: "center",
+                  }}
+                >
+                  {t("recycle_bin_empty")}
+                </ThemedText>
+              </View>
+            ) : (
+              days.map((day, index) => {
+                const status = statusOf(day.dateKey);
+                const busy = busyKey === day.dateKey;
+                const closed = isMonthClosed(closures, day.dateKey);
+                return (
+                  <View
+                    key={day.dateKey}
+                    style={[
+                      styles.dayRow,
+                      rtlRow,
+                      index < days.length - 1 && {
+                        borderBottomWidth: 1,
+                        borderBottomColor: theme.border,
+                      },
+                    ]}
+                  >
+                    <View style={{ flex: 1 }}>
+                      <View style={[rtlRow, styles.dayTitle]}>
+                        <ThemedText
+                          type="body"
+                          style={{
+                            fontFamily: Typography.mono.fontFamily,
+                            fontWeight: "600",
+                          }}
+                        >
+                          {day.dateKey}
+                        </ThemedText>
+                        {status === "conflict" ? (
+                          <Pressable
+                            onPress={() => openConflict(day.dateKey)}
+                            accessibilityLabel={t("resolve_conflict")}
+                            testID={`button-resolve-conflict-${day.dateKey}`}
+                          >
+                            <SyncStatusIcon status={status} />
+                          </Pressable>
+                        ) : status && status !== "synced" ? (
+                          <SyncStatusIcon status={status} />
+                        ) : null}
+                      </View>
+                      <ThemedText
+                        type="small"
+                        style={[{ color: theme.textSecondary }, rtlText]}
+                      >
+                        {formatMWh(dayFigures(day, config).productionMwh)}
+                        {day.deletedAt
+                          ? ` · ${t("recycle_deleted_on")}: ${formatDeletedAt(day.deletedAt)} · ${t("recycle_kept_for")}: ${daysUntilPurge(day.deletedAt)} ${t("days_plural")}`
+                          : null}
+                      </ThemedText>
+                    </View>
+                    {busy ? (
+                      <ActivityIndicator size="small" color={theme.primary} />
+                    ) : canManage && !closed ? (
+                      <View style={[rtlRow, styles.actions]}>
+                        <Pressable
+                          style={[
+                            styles.actionButton,
+                            { borderColor: theme.primary },
+                          ]}
+                          onPress={() => handleRestore(day)}
+                          testID={`button-restore-${day.dateKey}`}
+                        >
+                          <ThemedText
+                            type="small"
+                            style={{ color: theme.primary }}
+                          >
+                            {t("recycle_restore")}
+                          </ThemedText>
+                        </Pressable>
+                        <Pressable
+                          style={[
+                            styles.actionButton,
+                            { borderColor: theme.error },
+                          ]}
+                          onPress={() => handlePurge(day)}
+                          accessibilityLabel={t("recycle_purge")}
+                          testID={`button-purge-${day.dateKey}`}
+                        >
+                          <Feather name="x" size={14} color={theme.error} />
+                        </Pressable>
+                      </View>
+                    ) : null}
+                  </View>
+                );
+              })
+            )}
+          </View>
+        </Animated.View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  card: {
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.lg,
+    overflow: "hidden",
+  },
+  cardHeader: {
+    alignItems: "center",
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+  },
+  iconCircle: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  emptyContainer: {
+    padding: Spacing["3xl"],
+    alignItems: "center",
+  },
+  dayRow: {
+    alignItems: "center",
+    gap: Spacing.md,
+    padding: Spacing.lg,
+  },
+  dayTitle: {
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  actions: {
+    gap: Spacing.sm,
+  },
+  actionButton: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.xs,
+    borderWidth: 1,
+  },
+});
@@ -1,11 +1,11 @@
-import React, { useState, useEffect, useMemo } from "react";
-import {
-  View,
-  StyleSheet,
-  ScrollView,
-  Pressable,
-  Alert,
-} from "react-native";
+import React, {
+  useState,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+} from "react";
+import { View, StyleSheet, ScrollView, Pressable, Alert } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useHeaderHeight } from "@react-navigation/elements";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
@@ -13,32 +13,50 @@ import { Feather } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import * as Clipboard from "expo-clipboard";
 import Animated, { FadeInDown } from "react-native-reanimated";
+import { useFocusEffect, useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 
 import { ThemedText } from "@/components/ThemedText";
 import { SevenDayChart } from "@/components/SevenDayChart";
 import { MonthDaysModal } from "@/components/MonthDaysModal";
+import { ConsolidatedReport } from "@/components/ConsolidatedReport";
 import { useTheme } from "@/hooks/useTheme";
 import { useResponsiveLayout } from "@/hooks/useResponsiveLayout";
 import { Spacing, BorderRadius, Typography } from "@/constants/theme";
 import { useDay } from "@/contexts/DayContext";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { useRTL } from "@/hooks/useRTL";
+import { usePlantConfig } from "@/contexts/PlantConfigContext";
+import { usePlantWorkspace } from "@/contexts/PlantWorkspaceContext";
+import { useSync } from "@/contexts/SyncContext";
 import { getFlowLabelAndStyle } from "@/lib/flowLabel";
 import {
   DayData,
+  MonthTotals,
   getAllDaysData,
+  getLatestDays,
+  getMonthlyTotals,
   feederExport,
   turbineProductionMwh,
   exportAllData,
   format2,
-  monthKey,
   numberTextStyle,
 } from "@/lib/storage";
 import { generateExcelReport, generateTextReport } from "@/lib/excelExport";
+import { isDayLocked } from "@/lib/dayApproval";
+import {
+  ClosureMismatch,
+  MonthClosureSyncError,
+  findClosureMismatches,
+} from "@/lib/monthClosing";
+import { canApproveDays } from "@/lib/plantWorkspace";
+import { showSuccess, showError } from "@/utils/notify";
+import { ReportsStackParamList } from "@/navigation/ReportsStackNavigator";
 
 interface MonthlyStats {
   month: string;
   days: number;
+  estimatedDays: number;
   totalProduction: number;
   totalExport: number;
   totalConsumption: number;
@@ -50,67 +68,82 @@ export default function ReportsScreen() {
   const tabBarHeight = useBottomTabBarHeight();
   const { theme } = useTheme();
   const layout = useResponsiveLayout();
-  const { dateKey, day } = useDay();
+  const { dateKey, day, closures, closeMonth, reopenMonth } = useDay();
+  const { plant, plants, role } = usePlantWorkspace();
   const { language, t, isRTL } = useLanguage();
   const { rtlRow, rtlText } = useRTL();
+  const { config } = usePlantConfig();
+  const { lastRemoteChange } = useSync();
+  const navigation =
+    useNavigation<NativeStackNavigationProp<ReportsStackParamList>>();
 
-  const [allDays, setAllDays] = useState<DayData[]>([]);
+  const [recentDays, setRecentDays] = useState<DayData[]>([]);
+  const [monthTotals, setMonthTotals] = useState<MonthTotals[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedMonth, setSelectedMonth] = useState<string | null>(null);
   const [monthModalVisible, setMonthModalVisible] = useState(false);
+  const [approvedOnly, setApprovedOnly] = useState(false);
+  const [closureMismatches, setClosureMismatches] = useState<ClosureMismatch[]>(
+    [],
+  );
 
-  useEffect(() => {
-    loadAllData();
-  }, []);
-
-  const loadAllData = async () => {
+  const loadAllData = useCallback(async () => {
     setLoading(true);
-    const days = await getAllDaysData();
-    setAllDays(days);
+    const [days, totals, mismatches] = await Promise.all([
+      getLatestDays(7, config, { approvedOnly }),
+      getMonthlyTotals(config, { approvedOnly }),
+      findClosureMismatches(closures, config),
+    ]);
+    setRecentDays(days);
+    setMonthTotals(totals);
+    setClosureMismatches(mismatches);
     setLoading(false);
-  };
+  }, [config, approvedOnly, closures]);
+
+  // Reloads on focus so corrections made from the chain review show up.
+  useFocusEffect(
+    useCallback(() => {
+      loadAllData();
+    }, [loadAllData]),
+  );
+
+  // Reloads as days are changed by others while it is open.
+  const handledChangeRef = useRef(lastRemoteChange);
+  useEffect(() => {
+    if (lastRemoteChange === handledChangeRef.current) return;
+    handledChangeRef.current = lastRemoteChange;
+    loadAllData();
+  }, [lastRemoteChange, loadAllData]);
 
   const currentDayStats = useMemo(() => {
-    const production = turbineProductionMwh(day);
-    const exportVal = feederExport(day);
+    const production = turbineProductionMwh(day, config);
+    const exportVal = feederExport(day, config);
     const consumption = production - exportVal;
     const isExport = exportVal >= 0;
     return { production, exportVal, consumption, isExport };
-  }, [day]);
-
-  const monthlyStats = useMemo(() => {
-    const monthMap = new Map<string, MonthlyStats>();
-
-    allDays.forEach((d) => {
-      const month = monthKey(d.dateKey);
-      const production = turbineProductionMwh(d);
-      const exportVal = feederExport(d);
-      const consumption = production - exportVal;
-
-      if (!monthMap.has(month)) {
-        monthMap.set(month, {
-          month,
-          days: 0,
-          totalProduction: 0,
-          totalExport: 0,
-          totalConsumption: 0,
-        });
-      }
-
-      const stats = monthMap.get(month)!;
-      stats.days += 1;
-      stats.totalProduction += production;
-      stats.totalExport += exportVal;
-      stats.totalConsumption += consumption;
-    });
-
-    return Array.from(monthMap.values()).sort((a, b) => b.month.localeCompare(a.month));
-  }, [allDays]);
+  }, [day, config]);
+
+  const monthlyStats = useMemo(
+    () =>
+      monthTotals.map(
+        (m): MonthlyStats => ({
+          month: m.monthKey,
+          days: m.days,
+          estimatedDays: m.estimatedDays,
+          totalProduction: m.productionMwh,
+          totalExport: m.exportMwh,
+          totalConsumption: m.productionMwh - m.exportMwh,
+        }),
+      ),
+    [monthTotals],
+  );
+
+  const storedDays = monthTotals.reduce((acc, m) => acc + m.days, 0);
 
   const handleTextExport = async () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     try {
-      await generateTextReport(day, t, language);
+      await generateTextReport(day, config, t, language, plant ?? undefined);
     } catch (error) {
       Alert.alert(t("error"), t("failed_export"));
     }
@@ -122,6 +155,39 @@ export default function ReportsScreen() {
     setMonthModalVisible(true);
   };
 
+  const handleToggleClosure = (month: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    const closed = !!closures[month];
+    Alert.alert(
+      closed ? t("reopen_month") : t("close_month"),
+      closed ? t("reopen_month_confirm") : t("close_month_confirm"),
+      [
+        { text: t("cancel"), style: "cancel" },
+        {
+          text: closed ? t("reopen_month") : t("close_month"),
+          style: closed ? "destructive" : "default",
+          onPress: async () => {
+            try {
+              await (closed ? reopenMonth(month) : closeMonth(month));
+              showSuccess(
+                closed ? t("msg_month_reopened") : t("msg_month_closed"),
+              );
+            } catch (error) {
+              console.error("Error changing month closure:", error);
+              showError(
+                t(
+                  error instanceof MonthClosureSyncError
+                    ? "msg_month_closure_failed"
+                    : "msg_error_generic",
+                ),
+              );
+            }
+          },
+        },
+      ],
+    );
+  };
+
   const handleMonthDayDeleted = () => {
     loadAllData();
   };
@@ -140,7 +206,16 @@ export default function ReportsScreen() {
   const handleExcelExport = async () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     try {
-      await generateExcelReport(day, allDays, t, language);
+      const savedDays = await getAllDaysData(config);
+      const allDays = approvedOnly ? savedDays.filter(isDayLocked) : savedDays;
+      await generateExcelReport(
+        day,
+        allDays,
+        config,
+        t,
+        language,
+        plant ?? undefined,
+      );
     } catch (error) {
       Alert.alert(t("error"), t("failed_export"));
     }
@@ -163,17 +238,49 @@ export default function ReportsScreen() {
         scrollIndicatorInsets={{ bottom: insets.bottom }}
         showsVerticalScrollIndicator={false}
       >
+        <Pressable
+          style={[styles.filterToggle, rtlRow]}
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            setApprovedOnly((v) => !v);
+          }}
+          testID="toggle-approved-only"
+        >
+          <Feather
+            name={approvedOnly ? "check-square" : "square"}
+            size={18}
+            color={approvedOnly ? theme.success : theme.textSecondary}
+          />
+          <ThemedText
+            type="small"
+            style={{
+              color: approvedOnly ? theme.success : theme.textSecondary,
+            }}
+          >
+            {t("approved_only")}
+          </ThemedText>
+        </Pressable>
+
         <Animated.View entering={FadeInDown.duration(300)}>
-          <SevenDayChart days={allDays} />
+          <SevenDayChart days={recentDays} />
         </Animated.View>
 
         <Animated.View entering={FadeInDown.delay(100).duration(300)}>
           <ThemedText type="h3" style={styles.sectionTitle}>
             {t("current_day_report")}
           </ThemedText>
-          <View style={[styles.card, { backgroundColor: theme.backgroundDefault }]}>
-            <View style={[styles.cardHeader, { borderBottomColor: theme.border }]}>
-              <View style={[styles.iconCircle, { backgroundColor: theme.primary + "20" }]}>
+          <View
+            style={[styles.card, { backgroundColor: theme.backgroundDefault }]}
+          >
+            <View
+              style={[styles.cardHeader, { borderBottomColor: theme.border }]}
+            >
+              <View
+                style={[
+                  styles.iconCircle,
+                  { backgroundColor: theme.primary + "20" },
+                ]}
+              >
                 <Feather name="calendar" size={18} color={theme.primary} />
               </View>
               <ThemedText type="h4" style={{ marginLeft: Spacing.md }}>
@@ -181,53 +288,139 @@ export default function ReportsScreen() {
               </ThemedText>
             </View>
 
-            <View style={[styles.statsGrid, layout.isTablet && styles.tabletStatsGrid]}>
-              <View style={[styles.statItem, { backgroundColor: theme.success + "15" }]}>
-                <View style={[styles.statIconCircle, { backgroundColor: theme.success + "20" }]}>
+            <View
+              style={[
+                styles.statsGrid,
+                layout.isTablet && styles.tabletStatsGrid,
+              ]}
+            >
+              <View
+                style={[
+                  styles.statItem,
+                  { backgroundColor: theme.success + "15" },
+                ]}
+              >
+                <View
+                  style={[
+                    styles.statIconCircle,
+                    { backgroundColor: theme.success + "20" },
+                  ]}
+                >
                   <Feather name="zap" size={18} color={theme.success} />
                 </View>
-                <ThemedText type="caption" style={{ color: theme.success, marginTop: Spacing.sm }}>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.success, marginTop: Spacing.sm }}
+                >
                   {t("production")}
                 </ThemedText>
-                <ThemedText type="h3" style={{ color: theme.success, fontFamily: Typography.mono.fontFamily, ...numberTextStyle }}>
+                <ThemedText
+                  type="h3"
+                  style={{
+                    color: theme.success,
+                    fontFamily: Typography.mono.fontFamily,
+                    ...numberTextStyle,
+                  }}
+                >
                   {format2(currentDayStats.production)}
                 </ThemedText>
-                <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
                   {t("mwh")}
                 </ThemedText>
               </View>
 
               {(() => {
-                const flowStyle = getFlowLabelAndStyle(currentDayStats.isExport, t, theme);
+                const flowStyle = getFlowLabelAndStyle(
+                  currentDayStats.isExport,
+                  t,
+                  theme,
+                );
                 return (
-                  <View style={[styles.statItem, { backgroundColor: flowStyle.color + "15" }]}>
-                    <View style={[styles.statIconCircle, { backgroundColor: flowStyle.color + "20" }]}>
-                      <Feather name={currentDayStats.isExport ? "arrow-up-right" : "arrow-down-left"} size={18} color={flowStyle.color} />
+                  <View
+                    style={[
+                      styles.statItem,
+                      { backgroundColor: flowStyle.color + "15" },
+                    ]}
+                  >
+                    <View
+                      style={[
+                        styles.statIconCircle,
+                        { backgroundColor: flowStyle.color + "20" },
+                      ]}
+                    >
+                      <Feather
+                        name={
+                          currentDayStats.isExport
+                            ? "arrow-up-right"
+                            : "arrow-down-left"
+                        }
+                        size={18}
+                        color={flowStyle.color}
+                      />
                     </View>
-                    <ThemedText type="caption" style={{ color: flowStyle.color, marginTop: Spacing.sm }}>
+                    <ThemedText
+                      type="caption"
+                      style={{ color: flowStyle.color, marginTop: Spacing.sm }}
+                    >
                       {flowStyle.text}
                     </ThemedText>
-                    <ThemedText type="h3" style={{ color: flowStyle.color, fontFamily: Typography.mono.fontFamily, ...numberTextStyle }}>
+                    <ThemedText
+                      type="h3"
+                      style={{
+                        color: flowStyle.color,
+                        fontFamily: Typography.mono.fontFamily,
+                        ...numberTextStyle,
+                      }}
+                    >
                       {format2(Math.abs(currentDayStats.exportVal))}
                     </ThemedText>
-                    <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                    <ThemedText
+                      type="caption"
+                      style={{ color: theme.textSecondary }}
+                    >
                       {t("mwh")}
                     </ThemedText>
                   </View>
                 );
               })()}
 
-              <View style={[styles.statItem, { backgroundColor: theme.warning + "15" }]}>
-                <View style={[styles.statIconCircle, { backgroundColor: theme.warning + "20" }]}>
+              <View
+                style={[
+                  styles.statItem,
+                  { backgroundColor: theme.warning + "15" },
+                ]}
+              >
+                <View
+                  style={[
+                    styles.statIconCircle,
+                    { backgroundColor: theme.warning + "20" },
+                  ]}
+                >
                   <Feather name="home" size={18} color={theme.warning} />
                 </View>
-                <ThemedText type="caption" style={{ color: theme.warning, marginTop: Spacing.sm }}>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.warning, marginTop: Spacing.sm }}
+                >
                   {t("consumption")}
                 </ThemedText>
-                <ThemedText type="h3" style={{ color: theme.warning, fontFamily: Typography.mono.fontFamily, ...numberTextStyle }}>
+                <ThemedText
+                  type="h3"
+                  style={{
+                    color: theme.warning,
+                    fontFamily: Typography.mono.fontFamily,
+                    ...numberTextStyle,
+                  }}
+                >
                   {format2(currentDayStats.consumption)}
                 </ThemedText>
-                <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
                   {t("mwh")}
                 </ThemedText>
               </View>
@@ -240,73 +433,283 @@ export default function ReportsScreen() {
             {t("monthly_statistics")}
           </ThemedText>
 
+          {closureMismatches.length > 0 ? (
+            <View
+              style={[
+                styles.mismatchBanner,
+                rtlRow,
+                {
+                  backgroundColor: theme.error + "15",
+                  borderColor: theme.error,
+                },
+              ]}
+            >
+              <Feather name="alert-octagon" size={18} color={theme.error} />
+              <ThemedText
+                type="small"
+                style={[{ color: theme.error, flex: 1 }, rtlText]}
+              >
+                {t("closed_month_changed")}:{" "}
+                {closureMismatches.map((m) => m.monthKey).join(", ")}
+              </ThemedText>
+            </View>
+          ) : null}
+
           {monthlyStats.length > 0 ? (
             <View style={layout.isTablet ? styles.tabletMonthGrid : undefined}>
               {monthlyStats.map((stats, index) => (
                 <Animated.View
                   key={stats.month}
                   entering={FadeInDown.delay(150 + index * 50).duration(300)}
-                  style={[
-                    layout.isTablet && styles.tabletMonthCard
-                  ]}
+                  style={[layout.isTablet && styles.tabletMonthCard]}
                 >
                   <Pressable
                     style={[
-                      styles.card, 
-                      { backgroundColor: theme.backgroundDefault, marginBottom: Spacing.md },
+                      styles.card,
+                      {
+                        backgroundColor: theme.backgroundDefault,
+                        marginBottom: Spacing.md,
+                      },
                     ]}
                     onPress={() => handleOpenMonthModal(stats.month)}
                   >
-                    <View style={[styles.monthHeader, { borderBottomColor: theme.border }]}>
+                    <View
+                      style={[
+                        styles.monthHeader,
+                        { borderBottomColor: theme.border },
+                      ]}
+                    >
                       <View style={styles.monthTitleRow}>
-                        <View style={[styles.monthBadge, { backgroundColor: theme.primary + "20" }]}>
-                          <Feather name="calendar" size={14} color={theme.primary} />
+                        <View
+                          style={[
+                            styles.monthBadge,
+                            { backgroundColor: theme.primary + "20" },
+                          ]}
+                        >
+                          <Feather
+                            name="calendar"
+                            size={14}
+                            color={theme.primary}
+                          />
                         </View>
-                        <ThemedText type="h4" style={{ marginLeft: Spacing.sm }}>{stats.month}</ThemedText>
+                        <ThemedText
+                          type="h4"
+                          style={{ marginLeft: Spacing.sm }}
+                        >
+                          {stats.month}
+                        </ThemedText>
                       </View>
-                      <View style={[styles.daysBadge, { backgroundColor: theme.backgroundSecondary }]}>
-                        <ThemedText type="small" style={{ color: theme.textSecondary }}>
-                          {stats.days} {stats.days !== 1 ? t("days_plural") : t("day_singular")}
+                      <View
+                        style={[
+                          styles.daysBadge,
+                          { backgroundColor: theme.backgroundSecondary },
+                        ]}
+                      >
+                        <ThemedText
+                          type="small"
+                          style={{ color: theme.textSecondary }}
+                        >
+                          {stats.days}{" "}
+                          {stats.days !== 1
+                            ? t("days_plural")
+                            : t("day_singular")}
                         </ThemedText>
                       </View>
+                      {stats.estimatedDays > 0 ? (
+                        <View
+                          style={[
+                            styles.daysBadge,
+                            {
+                              backgroundColor: theme.warning + "20",
+                              marginLeft: Spacing.xs,
+                            },
+                          ]}
+                        >
+                          <ThemedText
+                            type="small"
+                            style={{ color: theme.warning }}
+                          >
+                            {stats.estimatedDays} {t("estimated")}
+                          </ThemedText>
+                        </View>
+                      ) : null}
+                      {closures[stats.month] ? (
+                        <View
+                          style={[
+                            styles.daysBadge,
+                            {
+                              backgroundColor: theme.success + "20",
+                              marginLeft: Spacing.xs,
+                            },
+                          ]}
+                        >
+                          <Feather
+                            name="lock"
+                            size={12}
+                            color={theme.success}
+                          />
+                        </View>
+                      ) : null}
                     </View>
 
                     <View style={styles.monthStats}>
                       <View style={styles.monthStatItem}>
-                        <View style={[styles.monthStatDot, { backgroundColor: theme.success }]} />
-                        <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                        <View
+                          style={[
+                            styles.monthStatDot,
+                            { backgroundColor: theme.success },
+                          ]}
+                        />
+                        <ThemedText
+                          type="caption"
+                          style={{ color: theme.textSecondary }}
+                        >
                           {t("production")}
                         </ThemedText>
-                        <ThemedText type="body" style={{ fontFamily: Typography.mono.fontFamily, fontWeight: "600", ...numberTextStyle }}>
+                        <ThemedText
+                          type="body"
+                          style={{
+                            fontFamily: Typography.mono.fontFamily,
+                            fontWeight: "600",
+                            ...numberTextStyle,
+                          }}
+                        >
                           {format2(stats.totalProduction)}
                         </ThemedText>
-                        <ThemedText type="caption" style={{ color: theme.textSecondary }}>{t("mwh")}</ThemedText>
+                        <ThemedText
+                          type="caption"
+                          style={{ color: theme.textSecondary }}
+                        >
+                          {t("mwh")}
+                        </ThemedText>
                       </View>
                       <View style={styles.monthStatItem}>
-                        <View style={[styles.monthStatDot, { backgroundColor: theme.primary }]} />
-                        <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                        <View
+                          style={[
+                            styles.monthStatDot,
+                            { backgroundColor: theme.primary },
+                          ]}
+                        />
+                        <ThemedText
+                          type="caption"
+                          style={{ color: theme.textSecondary }}
+                        >
                           {t("export")}
                         </ThemedText>
-                        <ThemedText type="body" style={{ fontFamily: Typography.mono.fontFamily, fontWeight: "600", ...numberTextStyle }}>
+                        <ThemedText
+                          type="body"
+                          style={{
+                            fontFamily: Typography.mono.fontFamily,
+                            fontWeight: "600",
+                            ...numberTextStyle,
+                          }}
+                        >
                           {format2(stats.totalExport)}
                         </ThemedText>
-                        <ThemedText type="caption" style={{ color: theme.textSecondary }}>{t("mwh")}</ThemedText>
+                        <ThemedText
+                          type="caption"
+                          style={{ color: theme.textSecondary }}
+                        >
+                          {t("mwh")}
+                        </ThemedText>
                       </View>
                       <View style={styles.monthStatItem}>
-                        <View style={[styles.monthStatDot, { backgroundColor: theme.warning }]} />
-                        <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                        <View
+                          style={[
+                            styles.monthStatDot,
+                            { backgroundColor: theme.warning },
+                          ]}
+                        />
+                        <ThemedText
+                          type="caption"
+                          style={{ color: theme.textSecondary }}
+                        >
                           {t("consumption")}
                         </ThemedText>
-                        <ThemedText type="body" style={{ fontFamily: Typography.mono.fontFamily, fontWeight: "600", ...numberTextStyle }}>
+                        <ThemedText
+                          type="body"
+                          style={{
+                            fontFamily: Typography.mono.fontFamily,
+                            fontWeight: "600",
+                            ...numberTextStyle,
+                          }}
+                        >
                           {format2(stats.totalConsumption)}
                         </ThemedText>
-                        <ThemedText type="caption" style={{ color: theme.textSecondary }}>{t("mwh")}</ThemedText>
+                        <ThemedText
+                          type="caption"
+                          style={{ color: theme.textSecondary }}
+                        >
+                          {t("mwh")}
+                        </ThemedText>
                       </View>
                     </View>
 
-                    <View style={[styles.tapHint, { borderTopColor: theme.border }]}>
-                      <Feather name="chevron-up" size={14} color={theme.textSecondary} />
-                      <ThemedText type="small" style={{ color: theme.textSecondary, marginLeft: Spacing.xs }}>
+                    <View
+                      style={[
+                        styles.closureRow,
+                        rtlRow,
+                        { borderTopColor: theme.border },
+                      ]}
+                    >
+                      {(() => {
+                        const closure = closures[stats.month];
+                        const changed = closureMismatches.some(
+                          (m) => m.monthKey === stats.month,
+                        );
+                        if (!closure) return <View style={{ flex: 1 }} />;
+                        return (
+                          <ThemedText
+                            type="caption"
+                            style={[
+                              {
+                                flex: 1,
+                                color: changed
+                                  ? theme.error
+                                  : theme.textSecondary,
+                              },
+                              rtlText,
+                            ]}
+                          >
+                            {changed
+                              ? t("closed_month_changed")
+                              : `${t("month_closed")} · ${closure.closedAt.slice(0, 10)}${closure.closedBy.name ? ` · ${closure.closedBy.name}` : ""}`}
+                          </ThemedText>
+                        );
+                      })()}
+                      {canApproveDays(role) ? (
+                        <Pressable
+                          onPress={() => handleToggleClosure(stats.month)}
+                          hitSlop={8}
+                          testID={`button-close-month-${stats.month}`}
+                        >
+                          <ThemedText
+                            type="small"
+                            style={{ color: theme.primary, fontWeight: "600" }}
+                          >
+                            {closures[stats.month]
+                              ? t("reopen_month")
+                              : t("close_month")}
+                          </ThemedText>
+                        </Pressable>
+                      ) : null}
+                    </View>
+
+                    <View
+                      style={[styles.tapHint, { borderTopColor: theme.border }]}
+                    >
+                      <Feather
+                        name="chevron-up"
+                        size={14}
+                        color={theme.textSecondary}
+                      />
+                      <ThemedText
+                        type="small"
+                        style={{
+                          color: theme.textSecondary,
+                          marginLeft: Spacing.xs,
+                        }}
+                      >
                         {t("tap_to_view")}
                       </ThemedText>
                     </View>
@@ -315,95 +718,329 @@ export default function ReportsScreen() {
               ))}
             </View>
           ) : (
-            <View style={[styles.emptyState, { backgroundColor: theme.backgroundDefault }]}>
-              <View style={[styles.emptyIconCircle, { backgroundColor: theme.primary + "15" }]}>
+            <View
+              style={[
+                styles.emptyState,
+                { backgroundColor: theme.backgroundDefault },
+              ]}
+            >
+              <View
+                style={[
+                  styles.emptyIconCircle,
+                  { backgroundColor: theme.primary + "15" },
+                ]}
+              >
                 <Feather name="inbox" size={32} color={theme.primary} />
               </View>
-              <ThemedText type="body" style={{ color: theme.text, marginTop: Spacing.lg, fontWeight: "600" }}>
+              <ThemedText
+                type="body"
+                style={{
+                  color: theme.text,
+                  marginTop: Spacing.lg,
+                  fontWeight: "600",
+                }}
+              >
                 {t("no_historical_data")}
               </ThemedText>
-              <ThemedText type="small" style={{ color: theme.textSecondary, textAlign: "center", marginTop: Spacing.xs }}>
+              <ThemedText
+                type="small"
+                style={{
+                  color: theme.textSecondary,
+                  textAlign: "center",
+                  marginTop: Spacing.xs,
+                }}
+              >
                 {t("save_first_day_hint")}
               </ThemedText>
             </View>
           )}
         </Animated.View>
 
+        {plants.length > 1 ? (
+          <Animated.View entering={FadeInDown.delay(300).duration(300)}>
+            <ThemedText type="h3" style={styles.sectionTitle}>
+              {t("consolidated_report")}
+            </ThemedText>
+            <ConsolidatedReport initialMonth={dateKey.slice(0, 7)} />
+          </Animated.View>
+        ) : null}
+
         <Animated.View entering={FadeInDown.delay(400).duration(300)}>
           <ThemedText type="h3" style={styles.sectionTitle}>
             {t("data_management")}
           </ThemedText>
 
-          <View style={[styles.card, { backgroundColor: theme.backgroundDefault }]}>
+          <View
+            style={[styles.card, { backgroundColor: theme.backgroundDefault }]}
+          >
             <Pressable
-              style={[styles.actionRow, { borderBottomWidth: 1, borderBottomColor: theme.border }]}
+              style={[
+                styles.actionRow,
+                { borderBottomWidth: 1, borderBottomColor: theme.border },
+              ]}
               onPress={handleExcelExport}
               testID="button-export-excel"
             >
-              <View style={[styles.actionIcon, { backgroundColor: theme.success + "20" }]}>
+              <View
+                style={[
+                  styles.actionIcon,
+                  { backgroundColor: theme.success + "20" },
+                ]}
+              >
                 <Feather name="file-text" size={20} color={theme.success} />
               </View>
               <View style={styles.actionText}>
-                <ThemedText type="body" style={{ fontFamily: Typography.h4.fontFamily }}>
+                <ThemedText
+                  type="body"
+                  style={{ fontFamily: Typography.h4.fontFamily }}
+                >
                   {t("export_excel")}
                 </ThemedText>
                 <ThemedText type="small" style={{ color: theme.textSecondary }}>
                   {t("share_as_excel")}
                 </ThemedText>
               </View>
-              <View style={[styles.actionArrow, { backgroundColor: theme.backgroundSecondary }]}>
-                <Feather name="chevron-right" size={18} color={theme.textSecondary} />
+              <View
+                style={[
+                  styles.actionArrow,
+                  { backgroundColor: theme.backgroundSecondary },
+                ]}
+              >
+                <Feather
+                  name="chevron-right"
+                  size={18}
+                  color={theme.textSecondary}
+                />
               </View>
             </Pressable>
 
             <Pressable
-              style={[styles.actionRow, { borderBottomWidth: 1, borderBottomColor: theme.border }]}
+              style={[
+                styles.actionRow,
+                { borderBottomWidth: 1, borderBottomColor: theme.border },
+              ]}
               onPress={handleTextExport}
               testID="button-export"
             >
-              <View style={[styles.actionIcon, { backgroundColor: theme.primary + "20" }]}>
+              <View
+                style={[
+                  styles.actionIcon,
+                  { backgroundColor: theme.primary + "20" },
+                ]}
+              >
                 <Feather name="file-text" size={20} color={theme.primary} />
               </View>
               <View style={styles.actionText}>
-                <ThemedText type="body" style={{ fontFamily: Typography.h4.fontFamily }}>
+                <ThemedText
+                  type="body"
+                  style={{ fontFamily: Typography.h4.fontFamily }}
+                >
                   {t("export_txt")}
                 </ThemedText>
                 <ThemedText type="small" style={{ color: theme.textSecondary }}>
                   {t("share_as_txt")}
                 </ThemedText>
               </View>
-              <View style={[styles.actionArrow, { backgroundColor: theme.backgroundSecondary }]}>
-                <Feather name="chevron-right" size={18} color={theme.textSecondary} />
+              <View
+                style={[
+                  styles.actionArrow,
+                  { backgroundColor: theme.backgroundSecondary },
+                ]}
+              >
+                <Feather
+                  name="chevron-right"
+                  size={18}
+                  color={theme.textSecondary}
+                />
               </View>
             </Pressable>
 
             <Pressable
-              style={styles.actionRow}
+              style={[
+                styles.actionRow,
+                { borderBottomWidth: 1, borderBottomColor: theme.border },
+              ]}
               onPress={handleCopyToClipboard}
               testID="button-copy"
             >
-              <View style={[styles.actionIcon, { backgroundColor: theme.success + "20" }]}>
+              <View
+                style={[
+                  styles.actionIcon,
+                  { backgroundColor: theme.success + "20" },
+                ]}
+              >
                 <Feather name="copy" size={20} color={theme.success} />
               </View>
               <View style={styles.actionText}>
-                <ThemedText type="body" style={{ fontFamily: Typography.h4.fontFamily }}>
+                <ThemedText
+                  type="body"
+                  style={{ fontFamily: Typography.h4.fontFamily }}
+                >
                   {t("copy_to_clipboard")}
                 </ThemedText>
                 <ThemedText type="small" style={{ color: theme.textSecondary }}>
                   {t("copy_all_data")}
                 </ThemedText>
               </View>
-              <View style={[styles.actionArrow, { backgroundColor: theme.backgroundSecondary }]}>
-                <Feather name="chevron-right" size={18} color={theme.textSecondary} />
+              <View
+                style={[
+                  styles.actionArrow,
+                  { backgroundColor: theme.backgroundSecondary },
+                ]}
+              >
+                <Feather
+                  name="chevron-right"
+                  size={18}
+                  color={theme.textSecondary}
+                />
+              </View>
+            </Pressable>
+
+            <Pressable
+              style={[
+                styles.actionRow,
+                { borderBottomWidth: 1, borderBottomColor: theme.border },
+              ]}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                navigation.navigate("ChainReview");
+              }}
+              testID="button-chain-review"
+            >
+              <View
+                style={[
+                  styles.actionIcon,
+                  { backgroundColor: theme.warning + "20" },
+                ]}
+              >
+                <Feather name="link" size={20} color={theme.warning} />
+              </View>
+              <View style={styles.actionText}>
+                <ThemedText
+                  type="body"
+                  style={{ fontFamily: Typography.h4.fontFamily }}
+                >
+                  {t("chain_review")}
+                </ThemedText>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  {t("chain_review_desc")}
+                </ThemedText>
+              </View>
+              <View
+                style={[
+                  styles.actionArrow,
+                  { backgroundColor: theme.backgroundSecondary },
+                ]}
+              >
+                <Feather
+                  name="chevron-right"
+                  size={18}
+                  color={theme.textSecondary}
+                />
+              </View>
+            </Pressable>
+
+            <Pressable
+              style={[
+                styles.actionRow,
+                { borderBottomWidth: 1, borderBottomColor: theme.border },
+              ]}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                navigation.navigate("Backfill");
+              }}
+              testID="button-backfill"
+            >
+              <View
+                style={[
+                  styles.actionIcon,
+                  { backgroundColor: theme.primary + "20" },
+                ]}
+              >
+                <Feather name="calendar" size={20} color={theme.primary} />
+              </View>
+              <View style={styles.actionText}>
+                <ThemedText
+                  type="body"
+                  style={{ fontFamily: Typography.h4.fontFamily }}
+                >
+                  {t("backfill")}
+                </ThemedText>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  {t("backfill_desc")}
+                </ThemedText>
+              </View>
+              <View
+                style={[
+                  styles.actionArrow,
+                  { backgroundColor: theme.backgroundSecondary },
+                ]}
+              >
+                <Feather
+                  name="chevron-right"
+                  size={18}
+                  color={theme.textSecondary}
+                />
+              </View>
+            </Pressable>
+
+            <Pressable
+              style={styles.actionRow}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                navigation.navigate("RecycleBin");
+              }}
+              testID="button-recycle-bin"
+            >
+              <View
+                style={[
+                  styles.actionIcon,
+                  { backgroundColor: theme.error + "20" },
+                ]}
+              >
+                <Feather name="trash-2" size={20} color={theme.error} />
+              </View>
+              <View style={styles.actionText}>
+                <ThemedText
+                  type="body"
+                  style={{ fontFamily: Typography.h4.fontFamily }}
+                >
+                  {t("recycle_bin")}
+                </ThemedText>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  {t("recycle_bin_desc")}
+                </ThemedText>
+              </View>
+              <View
+                style={[
+                  styles.actionArrow,
+                  { backgroundColor: theme.backgroundSecondary },
+                ]}
+              >
+                <Feather
+                  name="chevron-right"
+                  size={18}
+                  color={theme.textSecondary}
+                />
               </View>
             </Pressable>
           </View>
 
           <View style={styles.footer}>
-            <View style={[styles.footerBadge, { backgroundColor: theme.backgroundDefault }]}>
+            <View
+              style={[
+                styles.footerBadge,
+                { backgroundColor: theme.backgroundDefault },
+              ]}
+            >
               <Feather name="database" size={14} color={theme.textSecondary} />
-              <ThemedText type="small" style={{ color: theme.textSecondary, marginLeft: Spacing.sm }}>
-                {allDays.length} {allDays.length !== 1 ? t("days_plural") : t("day_singular")} {t("days_stored")}
+              <ThemedText
+                type="small"
+                style={{ color: theme.textSecondary, marginLeft: Spacing.sm }}
+              >
+                {storedDays}{" "}
+                {storedDays !== 1 ? t("days_plural") : t("day_singular")}{" "}
+                {t("days_stored")}
               </ThemedText>
             </View>
           </View>
@@ -416,6 +1053,7 @@ export default function ReportsScreen() {
           monthKey={selectedMonth}
           onClose={() => setMonthModalVisible(false)}
           onDayDeleted={handleMonthDayDeleted}
+          closed={!!closures[selectedMonth]}
         />
       )}
     </View>
@@ -423,6 +1061,11 @@ export default function ReportsScreen() {
 }
 
 const styles = StyleSheet.create({
+  filterToggle: {
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
   container: {
     flex: 1,
   },
@@ -489,6 +1132,7 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
   },
   monthTitleRow: {
+    flex: 1,
     flexDirection: "row",
     alignItems: "center",
   },
@@ -571,6 +1215,21 @@ const styles = StyleSheet.create({
   flexRowRTL: {
     flexDirection: "row-reverse",
   },
+  mismatchBanner: {
+    alignItems: "center",
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    marginBottom: Spacing.md,
+  },
+  closureRow: {
+    alignItems: "center",
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    borderTopWidth: 1,
+  },
   tapHint: {
     flexDirection: "row",
     alignItems: "center",
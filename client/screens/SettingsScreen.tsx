@@ -10,6 +10,8 @@ import {
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useHeaderHeight } from "@react-navigation/elements";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
 import { Feather } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
@@ -23,8 +25,14 @@ import { useResponsiveLayout } from "@/hooks/useResponsiveLayout";
 import { Spacing, BorderRadius, Typography } from "@/constants/theme";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { useAuth } from "@/contexts/AuthContext";
+import { usePlantWorkspace } from "@/contexts/PlantWorkspaceContext";
+import { useSync } from "@/contexts/SyncContext";
+import { useFullSync, fullSyncSummary } from "@/hooks/useFullSync";
+import { ROLE_LABELS } from "@/lib/plantWorkspace";
 import { useRTL } from "@/hooks/useRTL";
 import { Language } from "@/lib/i18n";
+import { SettingsStackParamList } from "@/navigation/SettingsStackNavigator";
+import type { RootStackParamList } from "@/navigation/RootStackNavigator";
 
 interface LanguageOption {
   code: Language;
@@ -45,9 +53,24 @@ interface ThemeOption {
 }
 
 const THEME_OPTIONS: ThemeOption[] = [
-  { mode: "system", titleKey: "system_theme", descKey: "theme_system_desc", icon: "smartphone" },
-  { mode: "light", titleKey: "light_mode", descKey: "theme_light_desc", icon: "sun" },
-  { mode: "dark", titleKey: "dark_mode", descKey: "theme_dark_desc", icon: "moon" },
+  {
+    mode: "system",
+    titleKey: "system_theme",
+    descKey: "theme_system_desc",
+    icon: "smartphone",
+  },
+  {
+    mode: "light",
+    titleKey: "light_mode",
+    descKey: "theme_light_desc",
+    icon: "sun",
+  },
+  {
+    mode: "dark",
+    titleKey: "dark_mode",
+    descKey: "theme_dark_desc",
+    icon: "moon",
+  },
 ];
 
 type AuthMode = "none" | "signup" | "signin";
@@ -59,8 +82,23 @@ export default function SettingsScreen() {
   const tabBarHeight = useBottomTabBarHeight();
   const layout = useResponsiveLayout();
   const { t, language, setLanguage, isRTL } = useLanguage();
-  const { user, signOut, signIn, isGuest, upgradeGuestAccount, authError } = useAuth();
+  const {
+    user,
+    signOut,
+    signIn,
+    isGuest,
+    upgradeGuestAccount,
+    authError,
+    pendingGuestMerge,
+  } = useAuth();
+  const { plant } = usePlantWorkspace();
+  const { lastFullSync } = useSync();
+  const { fullSync: runFullSync, syncing } = useFullSync();
   const { rtlRow, rtlText } = useRTL();
+  const navigation =
+    useNavigation<NativeStackNavigationProp<SettingsStackParamList>>();
+  const rootNavigation =
+    useNavigation<NativeStackNavigationProp<RootStackParamList>>();
 
   const [authMode, setAuthMode] = useState<AuthMode>("none");
   const [email, setEmail] = useState("");
@@ -112,7 +150,11 @@ export default function SettingsScreen() {
 
     try {
       if (authMode === "signup") {
-        const result = await upgradeGuestAccount(email, password, displayName || undefined);
+        const result = await upgradeGuestAccount(
+          email,
+          password,
+          displayName || undefined,
+        );
         if (result.error) {
           setError(result.error);
         } else {
@@ -126,7 +168,13 @@ export default function SettingsScreen() {
           setError(result.error.message);
         } else {
           Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-          Alert.alert(t("sign_in_success"), "", [{ text: "OK" }]);
+          // Days saved as a guest are offered to the account first.
+          const openMerge = result.pendingGuestMerge
+            ? () => rootNavigation.navigate("GuestMerge")
+            : undefined;
+          Alert.alert(t("sign_in_success"), "", [
+            { text: "OK", onPress: openMerge },
+          ]);
           resetForm();
         }
       }
@@ -137,6 +185,49 @@ export default function SettingsScreen() {
     }
   };
 
+  // Days left by a guest session, or saved while signed out, wait here
+  // until merged or discarded.
+  const renderGuestMergeRow = () => {
+    if (!pendingGuestMerge) return null;
+    const localDays = pendingGuestMerge.userId === null;
+    return (
+      <Pressable
+        style={[
+          styles.aboutRow,
+          rtlRow,
+          { borderBottomColor: theme.border, borderBottomWidth: 1 },
+        ]}
+        onPress={() => rootNavigation.navigate("GuestMerge")}
+        testID="button-guest-merge-pending"
+      >
+        <View
+          style={[styles.iconCircle, { backgroundColor: theme.warning + "20" }]}
+        >
+          <Feather name="user-plus" size={20} color={theme.warning} />
+        </View>
+        <View style={{ marginHorizontal: Spacing.md, flex: 1 }}>
+          <ThemedText
+            type="body"
+            style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}
+          >
+            {t(localDays ? "local_merge" : "guest_merge")}
+          </ThemedText>
+          <ThemedText
+            type="small"
+            style={[{ color: theme.textSecondary }, rtlText]}
+          >
+            {t(localDays ? "local_merge_pending" : "guest_merge_pending")}
+          </ThemedText>
+        </View>
+        <Feather
+          name={isRTL ? "chevron-left" : "chevron-right"}
+          size={20}
+          color={theme.textSecondary}
+        />
+      </Pressable>
+    );
+  };
+
   const renderSetupRequiredSection = () => (
     <Animated.View entering={FadeInDown.delay(100).duration(300)}>
       <ThemedText type="h3" style={[styles.sectionTitle, rtlText]}>
@@ -145,18 +236,28 @@ export default function SettingsScreen() {
 
       <View style={[styles.card, { backgroundColor: theme.backgroundDefault }]}>
         <View style={[styles.aboutRow, rtlRow]}>
-          <View style={[styles.iconCircle, { backgroundColor: theme.warning + "20" }]}>
+          <View
+            style={[
+              styles.iconCircle,
+              { backgroundColor: theme.warning + "20" },
+            ]}
+          >
             <Feather name="alert-circle" size={20} color={theme.warning} />
           </View>
           <View style={{ marginHorizontal: Spacing.md, flex: 1 }}>
-            <ThemedText type="body" style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}>
+            <ThemedText
+              type="body"
+              style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}
+            >
               {isRTL ? "مطلوب إعداد" : "Setup Required"}
             </ThemedText>
-            <ThemedText type="small" style={[{ color: theme.textSecondary }, rtlText]}>
-              {isRTL 
+            <ThemedText
+              type="small"
+              style={[{ color: theme.textSecondary }, rtlText]}
+            >
+              {isRTL
                 ? "يرجى تمكين تسجيل الدخول المجهول في لوحة تحكم Supabase"
-                : "Please enable Anonymous Sign-In in Supabase Dashboard > Authentication > Providers"
-              }
+                : "Please enable Anonymous Sign-In in Supabase Dashboard > Authentication > Providers"}
             </ThemedText>
           </View>
         </View>
@@ -173,39 +274,83 @@ export default function SettingsScreen() {
       <View style={[styles.card, { backgroundColor: theme.backgroundDefault }]}>
         {authMode === "none" ? (
           <>
-            <View style={[styles.aboutRow, rtlRow, { borderBottomColor: theme.border, borderBottomWidth: 1 }]}>
-              <View style={[styles.iconCircle, { backgroundColor: theme.warning + "20" }]}>
+            <View
+              style={[
+                styles.aboutRow,
+                rtlRow,
+                { borderBottomColor: theme.border, borderBottomWidth: 1 },
+              ]}
+            >
+              <View
+                style={[
+                  styles.iconCircle,
+                  { backgroundColor: theme.warning + "20" },
+                ]}
+              >
                 <Feather name="user" size={20} color={theme.warning} />
               </View>
               <View style={{ marginHorizontal: Spacing.md, flex: 1 }}>
-                <ThemedText type="body" style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}>
+                <ThemedText
+                  type="body"
+                  style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}
+                >
                   {t("guest_mode")}
                 </ThemedText>
-                <ThemedText type="small" style={[{ color: theme.textSecondary }, rtlText]}>
+                <ThemedText
+                  type="small"
+                  style={[{ color: theme.textSecondary }, rtlText]}
+                >
                   {t("guest_mode_desc")}
                 </ThemedText>
               </View>
             </View>
 
+            {renderGuestMergeRow()}
+
             <Pressable
-              style={[styles.aboutRow, rtlRow, { borderBottomColor: theme.border, borderBottomWidth: 1 }]}
+              style={[
+                styles.aboutRow,
+                rtlRow,
+                { borderBottomColor: theme.border, borderBottomWidth: 1 },
+              ]}
               onPress={() => {
                 Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
                 setAuthMode("signup");
               }}
             >
-              <View style={[styles.iconCircle, { backgroundColor: theme.success + "20" }]}>
+              <View
+                style={[
+                  styles.iconCircle,
+                  { backgroundColor: theme.success + "20" },
+                ]}
+              >
                 <Feather name="user-plus" size={20} color={theme.success} />
               </View>
               <View style={{ marginHorizontal: Spacing.md, flex: 1 }}>
-                <ThemedText type="body" style={[{ fontFamily: Typography.h4.fontFamily, color: theme.success }, rtlText]}>
+                <ThemedText
+                  type="body"
+                  style={[
+                    {
+                      fontFamily: Typography.h4.fontFamily,
+                      color: theme.success,
+                    },
+                    rtlText,
+                  ]}
+                >
                   {t("create_account")}
                 </ThemedText>
-                <ThemedText type="small" style={[{ color: theme.textSecondary }, rtlText]}>
+                <ThemedText
+                  type="small"
+                  style={[{ color: theme.textSecondary }, rtlText]}
+                >
                   {t("upgrade_account_desc")}
                 </ThemedText>
               </View>
-              <Feather name={isRTL ? "chevron-left" : "chevron-right"} size={20} color={theme.textSecondary} />
+              <Feather
+                name={isRTL ? "chevron-left" : "chevron-right"}
+                size={20}
+                color={theme.textSecondary}
+              />
             </Pressable>
 
             <Pressable
@@ -215,42 +360,90 @@ export default function SettingsScreen() {
                 setAuthMode("signin");
               }}
             >
-              <View style={[styles.iconCircle, { backgroundColor: theme.primary + "20" }]}>
+              <View
+                style={[
+                  styles.iconCircle,
+                  { backgroundColor: theme.primary + "20" },
+                ]}
+              >
                 <Feather name="log-in" size={20} color={theme.primary} />
               </View>
               <View style={{ marginHorizontal: Spacing.md, flex: 1 }}>
-                <ThemedText type="body" style={[{ fontFamily: Typography.h4.fontFamily, color: theme.primary }, rtlText]}>
+                <ThemedText
+                  type="body"
+                  style={[
+                    {
+                      fontFamily: Typography.h4.fontFamily,
+                      color: theme.primary,
+                    },
+                    rtlText,
+                  ]}
+                >
                   {t("sign_in")}
                 </ThemedText>
-                <ThemedText type="small" style={[{ color: theme.textSecondary }, rtlText]}>
+                <ThemedText
+                  type="small"
+                  style={[{ color: theme.textSecondary }, rtlText]}
+                >
                   {t("already_have_account")}
                 </ThemedText>
               </View>
-              <Feather name={isRTL ? "chevron-left" : "chevron-right"} size={20} color={theme.textSecondary} />
+              <Feather
+                name={isRTL ? "chevron-left" : "chevron-right"}
+                size={20}
+                color={theme.textSecondary}
+              />
             </Pressable>
           </>
         ) : (
           <View style={styles.formContainer}>
-            <View style={[rtlRow, { alignItems: "center", marginBottom: Spacing.lg }]}>
+            <View
+              style={[
+                rtlRow,
+                { alignItems: "center", marginBottom: Spacing.lg },
+              ]}
+            >
               <Pressable onPress={resetForm} style={{ padding: Spacing.sm }}>
-                <Feather name={isRTL ? "arrow-right" : "arrow-left"} size={24} color={theme.text} />
+                <Feather
+                  name={isRTL ? "arrow-right" : "arrow-left"}
+                  size={24}
+                  color={theme.text}
+                />
               </Pressable>
-              <ThemedText type="h4" style={[{ flex: 1, textAlign: "center" }, rtlText]}>
+              <ThemedText
+                type="h4"
+                style={[{ flex: 1, textAlign: "center" }, rtlText]}
+              >
                 {authMode === "signup" ? t("create_account") : t("sign_in")}
               </ThemedText>
               <View style={{ width: 40 }} />
             </View>
 
             {error && (
-              <View style={[styles.errorBox, { backgroundColor: theme.error + "20" }]}>
-                <ThemedText type="small" style={{ color: theme.error, textAlign: "center" }}>
+              <View
+                style={[
+                  styles.errorBox,
+                  { backgroundColor: theme.error + "20" },
+                ]}
+              >
+                <ThemedText
+                  type="small"
+                  style={{ color: theme.error, textAlign: "center" }}
+                >
                   {error}
                 </ThemedText>
               </View>
             )}
 
             <View style={styles.inputGroup}>
-              <ThemedText type="small" style={[styles.inputLabel, { color: theme.textSecondary }, rtlText]}>
+              <ThemedText
+                type="small"
+                style={[
+                  styles.inputLabel,
+                  { color: theme.textSecondary },
+                  rtlText,
+                ]}
+              >
                 {t("email")}
               </ThemedText>
               <TextInput
@@ -274,7 +467,14 @@ export default function SettingsScreen() {
             </View>
 
             <View style={styles.inputGroup}>
-              <ThemedText type="small" style={[styles.inputLabel, { color: theme.textSecondary }, rtlText]}>
+              <ThemedText
+                type="small"
+                style={[
+                  styles.inputLabel,
+                  { color: theme.textSecondary },
+                  rtlText,
+                ]}
+              >
                 {t("password")}
               </ThemedText>
               <TextInput
@@ -298,7 +498,14 @@ export default function SettingsScreen() {
             {authMode === "signup" && (
               <>
                 <View style={styles.inputGroup}>
-                  <ThemedText type="small" style={[styles.inputLabel, { color: theme.textSecondary }, rtlText]}>
+                  <ThemedText
+                    type="small"
+                    style={[
+                      styles.inputLabel,
+                      { color: theme.textSecondary },
+                      rtlText,
+                    ]}
+                  >
                     {t("confirm_password")}
                   </ThemedText>
                   <TextInput
@@ -320,7 +527,14 @@ export default function SettingsScreen() {
                 </View>
 
                 <View style={styles.inputGroup}>
-                  <ThemedText type="small" style={[styles.inputLabel, { color: theme.textSecondary }, rtlText]}>
+                  <ThemedText
+                    type="small"
+                    style={[
+                      styles.inputLabel,
+                      { color: theme.textSecondary },
+                      rtlText,
+                    ]}
+                  >
                     {t("display_name")} ({t("optional")})
                   </ThemedText>
                   <TextInput
@@ -355,7 +569,10 @@ export default function SettingsScreen() {
               {loading ? (
                 <ActivityIndicator color="#fff" />
               ) : (
-                <ThemedText type="body" style={{ color: "#fff", fontWeight: "600" }}>
+                <ThemedText
+                  type="body"
+                  style={{ color: "#fff", fontWeight: "600" }}
+                >
                   {authMode === "signup" ? t("create_account") : t("sign_in")}
                 </ThemedText>
               )}
@@ -368,8 +585,13 @@ export default function SettingsScreen() {
                 setAuthMode(authMode === "signup" ? "signin" : "signup");
               }}
             >
-              <ThemedText type="small" style={{ color: theme.primary, textAlign: "center" }}>
-                {authMode === "signup" ? t("already_have_account") : t("dont_have_account")}
+              <ThemedText
+                type="small"
+                style={{ color: theme.primary, textAlign: "center" }}
+              >
+                {authMode === "signup"
+                  ? t("already_have_account")
+                  : t("dont_have_account")}
               </ThemedText>
             </Pressable>
           </View>
@@ -385,29 +607,95 @@ export default function SettingsScreen() {
       </ThemedText>
 
       <View style={[styles.card, { backgroundColor: theme.backgroundDefault }]}>
-        <View style={[styles.aboutRow, rtlRow, { borderBottomColor: theme.border, borderBottomWidth: 1 }]}>
-          <View style={[styles.iconCircle, { backgroundColor: theme.primary + "20" }]}>
+        <View
+          style={[
+            styles.aboutRow,
+            rtlRow,
+            { borderBottomColor: theme.border, borderBottomWidth: 1 },
+          ]}
+        >
+          <View
+            style={[
+              styles.iconCircle,
+              { backgroundColor: theme.primary + "20" },
+            ]}
+          >
             <Feather name="user" size={20} color={theme.primary} />
           </View>
           <View style={{ marginHorizontal: Spacing.md, flex: 1 }}>
-            <ThemedText type="body" style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}>
+            <ThemedText
+              type="body"
+              style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}
+            >
               {t("email")}
             </ThemedText>
-            <ThemedText type="small" style={[{ color: theme.textSecondary }, rtlText]}>
+            <ThemedText
+              type="small"
+              style={[{ color: theme.textSecondary }, rtlText]}
+            >
               {user?.email || ""}
             </ThemedText>
           </View>
         </View>
 
-        <Pressable
-          style={[styles.aboutRow, rtlRow]}
-          onPress={handleSignOut}
-        >
-          <View style={[styles.iconCircle, { backgroundColor: theme.error + "20" }]}>
+        {renderGuestMergeRow()}
+
+        {plant ? (
+          <Pressable
+            style={[
+              styles.aboutRow,
+              rtlRow,
+              { borderBottomColor: theme.border, borderBottomWidth: 1 },
+            ]}
+            onPress={runFullSync}
+            disabled={syncing}
+            testID="button-full-sync"
+          >
+            <View
+              style={[
+                styles.iconCircle,
+                { backgroundColor: theme.primary + "20" },
+              ]}
+            >
+              {syncing ? (
+                <ActivityIndicator size="small" color={theme.primary} />
+              ) : (
+                <Feather name="refresh-cw" size={20} color={theme.primary} />
+              )}
+            </View>
+            <View style={{ marginHorizontal: Spacing.md, flex: 1 }}>
+              <ThemedText
+                type="body"
+                style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}
+              >
+                {t("full_sync")}
+              </ThemedText>
+              <ThemedText
+                type="small"
+                style={[{ color: theme.textSecondary }, rtlText]}
+              >
+                {lastFullSync
+                  ? fullSyncSummary(lastFullSync, t)
+                  : t("full_sync_desc")}
+              </ThemedText>
+            </View>
+          </Pressable>
+        ) : null}
+
+        <Pressable style={[styles.aboutRow, rtlRow]} onPress={handleSignOut}>
+          <View
+            style={[styles.iconCircle, { backgroundColor: theme.error + "20" }]}
+          >
             <Feather name="log-out" size={20} color={theme.error} />
           </View>
           <View style={{ marginHorizontal: Spacing.md, flex: 1 }}>
-            <ThemedText type="body" style={[{ fontFamily: Typography.h4.fontFamily, color: theme.error }, rtlText]}>
+            <ThemedText
+              type="body"
+              style={[
+                { fontFamily: Typography.h4.fontFamily, color: theme.error },
+                rtlText,
+              ]}
+            >
               {t("sign_out")}
             </ThemedText>
           </View>
@@ -437,17 +725,36 @@ export default function SettingsScreen() {
             {t("language")}
           </ThemedText>
 
-          <View style={[styles.card, { backgroundColor: theme.backgroundDefault }]}>
-            <View style={[styles.cardHeader, rtlRow, { borderBottomColor: theme.border }]}>
+          <View
+            style={[styles.card, { backgroundColor: theme.backgroundDefault }]}
+          >
+            <View
+              style={[
+                styles.cardHeader,
+                rtlRow,
+                { borderBottomColor: theme.border },
+              ]}
+            >
               <View style={[rtlRow, { alignItems: "center" }]}>
-                <View style={[styles.iconCircle, { backgroundColor: theme.primary + "20" }]}>
+                <View
+                  style={[
+                    styles.iconCircle,
+                    { backgroundColor: theme.primary + "20" },
+                  ]}
+                >
                   <Feather name="globe" size={20} color={theme.primary} />
                 </View>
                 <View style={{ marginHorizontal: Spacing.md }}>
-                  <ThemedText type="body" style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}>
+                  <ThemedText
+                    type="body"
+                    style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}
+                  >
                     {t("language")}
                   </ThemedText>
-                  <ThemedText type="small" style={[{ color: theme.textSecondary }, rtlText]}>
+                  <ThemedText
+                    type="small"
+                    style={[{ color: theme.textSecondary }, rtlText]}
+                  >
                     {t("select_language")}
                   </ThemedText>
                 </View>
@@ -460,23 +767,44 @@ export default function SettingsScreen() {
                   key={lang.code}
                   style={[
                     styles.languageOption,
-                    { borderColor: language === lang.code ? theme.primary : theme.border },
-                    language === lang.code && { backgroundColor: theme.primary + "15" },
+                    {
+                      borderColor:
+                        language === lang.code ? theme.primary : theme.border,
+                    },
+                    language === lang.code && {
+                      backgroundColor: theme.primary + "15",
+                    },
                   ]}
                   onPress={() => handleSelectLanguage(lang.code)}
                   testID={`button-language-${lang.code}`}
                 >
-                  <View style={[rtlRow, { alignItems: "center", justifyContent: "space-between" }]}>
+                  <View
+                    style={[
+                      rtlRow,
+                      { alignItems: "center", justifyContent: "space-between" },
+                    ]}
+                  >
                     <View>
-                      <ThemedText type="body" style={[{ fontWeight: "600" }, rtlText]}>
+                      <ThemedText
+                        type="body"
+                        style={[{ fontWeight: "600" }, rtlText]}
+                      >
                         {lang.nativeName}
                       </ThemedText>
-                      <ThemedText type="small" style={[{ color: theme.textSecondary }, rtlText]}>
+                      <ThemedText
+                        type="small"
+                        style={[{ color: theme.textSecondary }, rtlText]}
+                      >
                         {lang.name}
                       </ThemedText>
                     </View>
                     {language === lang.code ? (
-                      <View style={[styles.checkCircle, { backgroundColor: theme.primary }]}>
+                      <View
+                        style={[
+                          styles.checkCircle,
+                          { backgroundColor: theme.primary },
+                        ]}
+                      >
                         <Feather name="check" size={16} color="#fff" />
                       </View>
                     ) : null}
@@ -492,17 +820,36 @@ export default function SettingsScreen() {
             {t("theme")}
           </ThemedText>
 
-          <View style={[styles.card, { backgroundColor: theme.backgroundDefault }]}>
-            <View style={[styles.cardHeader, rtlRow, { borderBottomColor: theme.border }]}>
+          <View
+            style={[styles.card, { backgroundColor: theme.backgroundDefault }]}
+          >
+            <View
+              style={[
+                styles.cardHeader,
+                rtlRow,
+                { borderBottomColor: theme.border },
+              ]}
+            >
               <View style={[rtlRow, { alignItems: "center" }]}>
-                <View style={[styles.iconCircle, { backgroundColor: theme.primary + "20" }]}>
+                <View
+                  style={[
+                    styles.iconCircle,
+                    { backgroundColor: theme.primary + "20" },
+                  ]}
+                >
                   <Feather name="moon" size={20} color={theme.primary} />
                 </View>
                 <View style={{ marginHorizontal: Spacing.md }}>
-                  <ThemedText type="body" style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}>
+                  <ThemedText
+                    type="body"
+                    style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}
+                  >
                     {t("theme")}
                   </ThemedText>
-                  <ThemedText type="small" style={[{ color: theme.textSecondary }, rtlText]}>
+                  <ThemedText
+                    type="small"
+                    style={[{ color: theme.textSecondary }, rtlText]}
+                  >
                     {t("select_theme")}
                   </ThemedText>
                 </View>
@@ -515,31 +862,59 @@ export default function SettingsScreen() {
                   key={option.mode}
                   style={[
                     styles.languageOption,
-                    { borderColor: mode === option.mode ? theme.primary : theme.border },
-                    mode === option.mode && { backgroundColor: theme.primary + "15" },
+                    {
+                      borderColor:
+                        mode === option.mode ? theme.primary : theme.border,
+                    },
+                    mode === option.mode && {
+                      backgroundColor: theme.primary + "15",
+                    },
                   ]}
                   onPress={() => handleSelectTheme(option.mode)}
                   testID={`button-theme-${option.mode}`}
                 >
-                  <View style={[rtlRow, { alignItems: "center", justifyContent: "space-between" }]}>
+                  <View
+                    style={[
+                      rtlRow,
+                      { alignItems: "center", justifyContent: "space-between" },
+                    ]}
+                  >
                     <View style={[rtlRow, { alignItems: "center", flex: 1 }]}>
-                      <Feather 
-                        name={option.icon} 
-                        size={20} 
-                        color={mode === option.mode ? theme.primary : theme.textSecondary} 
-                        style={{ marginRight: isRTL ? 0 : Spacing.md, marginLeft: isRTL ? Spacing.md : 0 }}
+                      <Feather
+                        name={option.icon}
+                        size={20}
+                        color={
+                          mode === option.mode
+                            ? theme.primary
+                            : theme.textSecondary
+                        }
+                        style={{
+                          marginRight: isRTL ? 0 : Spacing.md,
+                          marginLeft: isRTL ? Spacing.md : 0,
+                        }}
                       />
                       <View>
-                        <ThemedText type="body" style={[{ fontWeight: "600" }, rtlText]}>
+                        <ThemedText
+                          type="body"
+                          style={[{ fontWeight: "600" }, rtlText]}
+                        >
                           {t(option.titleKey)}
                         </ThemedText>
-                        <ThemedText type="small" style={[{ color: theme.textSecondary }, rtlText]}>
+                        <ThemedText
+                          type="small"
+                          style={[{ color: theme.textSecondary }, rtlText]}
+                        >
                           {t(option.descKey)}
                         </ThemedText>
                       </View>
                     </View>
                     {mode === option.mode ? (
-                      <View style={[styles.checkCircle, { backgroundColor: theme.primary }]}>
+                      <View
+                        style={[
+                          styles.checkCircle,
+                          { backgroundColor: theme.primary },
+                        ]}
+                      >
                         <Feather name="check" size={16} color="#fff" />
                       </View>
                     ) : null}
@@ -550,54 +925,326 @@ export default function SettingsScreen() {
           </View>
         </Animated.View>
 
-        {!user && authError ? renderSetupRequiredSection() : isGuest ? renderGuestSection() : renderLoggedInSection()}
+        <Animated.View entering={FadeInDown.delay(75).duration(300)}>
+          <ThemedText type="h3" style={[styles.sectionTitle, rtlText]}>
+            {t("plant_configuration")}
+          </ThemedText>
+
+          <View
+            style={[styles.card, { backgroundColor: theme.backgroundDefault }]}
+          >
+            {user ? (
+              <Pressable
+                style={[
+                  styles.aboutRow,
+                  rtlRow,
+                  { borderBottomColor: theme.border, borderBottomWidth: 1 },
+                ]}
+                onPress={() => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                  navigation.navigate("PlantWorkspace");
+                }}
+                testID="button-plant-workspace"
+              >
+                <View
+                  style={[
+                    styles.iconCircle,
+                    { backgroundColor: theme.success + "20" },
+                  ]}
+                >
+                  <Feather name="home" size={20} color={theme.success} />
+                </View>
+                <View style={{ marginHorizontal: Spacing.md, flex: 1 }}>
+                  <ThemedText
+                    type="body"
+                    style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}
+                  >
+                    {plant ? plant.name : t("plant_workspace")}
+                  </ThemedText>
+                  <ThemedText
+                    type="small"
+                    style={[{ color: theme.textSecondary }, rtlText]}
+                  >
+                    {plant
+                      ? `${t("your_role")}: ${t(ROLE_LABELS[plant.role])}`
+                      : t("plant_workspace_desc")}
+                  </ThemedText>
+                </View>
+                <Feather
+                  name={isRTL ? "chevron-left" : "chevron-right"}
+                  size={20}
+                  color={theme.textSecondary}
+                />
+              </Pressable>
+            ) : null}
+
+            <Pressable
+              style={[
+                styles.aboutRow,
+                rtlRow,
+                { borderBottomColor: theme.border, borderBottomWidth: 1 },
+              ]}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                navigation.navigate("PlantConfig");
+              }}
+              testID="button-plant-config"
+            >
+              <View
+                style={[
+                  styles.iconCircle,
+                  { backgroundColor: theme.primary + "20" },
+                ]}
+              >
+                <Feather name="sliders" size={20} color={theme.primary} />
+              </View>
+              <View style={{ marginHorizontal: Spacing.md, flex: 1 }}>
+                <ThemedText
+                  type="body"
+                  style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}
+                >
+                  {t("plant_configuration")}
+                </ThemedText>
+                <ThemedText
+                  type="small"
+                  style={[{ color: theme.textSecondary }, rtlText]}
+                >
+                  {t("plant_configuration_desc")}
+                </ThemedText>
+              </View>
+              <Feather
+                name={isRTL ? "chevron-left" : "chevron-right"}
+                size={20}
+                color={theme.textSecondary}
+              />
+            </Pressable>
+
+            <Pressable
+              style={[
+                styles.aboutRow,
+                rtlRow,
+                { borderBottomColor: theme.border, borderBottomWidth: 1 },
+              ]}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                navigation.navigate("GasCurves");
+              }}
+              testID="button-gas-curves"
+            >
+              <View
+                style={[
+                  styles.iconCircle,
+                  { backgroundColor: theme.warning + "20" },
+                ]}
+              >
+                <Feather name="droplet" size={20} color={theme.warning} />
+              </View>
+              <View style={{ marginHorizontal: Spacing.md, flex: 1 }}>
+                <ThemedText
+                  type="body"
+                  style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}
+                >
+                  {t("gas_curves")}
+                </ThemedText>
+                <ThemedText
+                  type="small"
+                  style={[{ color: theme.textSecondary }, rtlText]}
+                >
+                  {t("gas_curves_desc")}
+                </ThemedText>
+              </View>
+              <Feather
+                name={isRTL ? "chevron-left" : "chevron-right"}
+                size={20}
+                color={theme.textSecondary}
+              />
+            </Pressable>
+
+            <Pressable
+              style={[
+                styles.aboutRow,
+                rtlRow,
+                { borderBottomColor: theme.border, borderBottomWidth: 1 },
+              ]}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                navigation.navigate("CrewRotation");
+              }}
+              testID="button-crew-rotation"
+            >
+              <View
+                style={[
+                  styles.iconCircle,
+                  { backgroundColor: theme.success + "20" },
+                ]}
+              >
+                <Feather name="users" size={20} color={theme.success} />
+              </View>
+              <View style={{ marginHorizontal: Spacing.md, flex: 1 }}>
+                <ThemedText
+                  type="body"
+                  style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}
+                >
+                  {t("crew_rotation")}
+                </ThemedText>
+                <ThemedText
+                  type="small"
+                  style={[{ color: theme.textSecondary }, rtlText]}
+                >
+                  {t("crew_rotation_desc")}
+                </ThemedText>
+              </View>
+              <Feather
+                name={isRTL ? "chevron-left" : "chevron-right"}
+                size={20}
+                color={theme.textSecondary}
+              />
+            </Pressable>
+
+            <Pressable
+              style={[styles.aboutRow, rtlRow]}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                navigation.navigate("ValidationRules");
+              }}
+              testID="button-validation-rules"
+            >
+              <View
+                style={[
+                  styles.iconCircle,
+                  { backgroundColor: theme.warning + "20" },
+                ]}
+              >
+                <Feather name="check-square" size={20} color={theme.warning} />
+              </View>
+              <View style={{ marginHorizontal: Spacing.md, flex: 1 }}>
+                <ThemedText
+                  type="body"
+                  style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}
+                >
+                  {t("validation_rules")}
+                </ThemedText>
+                <ThemedText
+                  type="small"
+                  style={[{ color: theme.textSecondary }, rtlText]}
+                >
+                  {t("validation_rules_desc")}
+                </ThemedText>
+              </View>
+              <Feather
+                name={isRTL ? "chevron-left" : "chevron-right"}
+                size={20}
+                color={theme.textSecondary}
+              />
+            </Pressable>
+          </View>
+        </Animated.View>
+
+        {!user && authError
+          ? renderSetupRequiredSection()
+          : isGuest
+            ? renderGuestSection()
+            : renderLoggedInSection()}
 
         <Animated.View entering={FadeInDown.delay(200).duration(300)}>
           <ThemedText type="h3" style={[styles.sectionTitle, rtlText]}>
             {t("about")}
           </ThemedText>
 
-          <View style={[styles.card, { backgroundColor: theme.backgroundDefault }]}>
-            <View style={[styles.aboutRow, rtlRow, { borderBottomColor: theme.border, borderBottomWidth: 1 }]}>
-              <View style={[styles.iconCircle, { backgroundColor: theme.primary + "20" }]}>
+          <View
+            style={[styles.card, { backgroundColor: theme.backgroundDefault }]}
+          >
+            <View
+              style={[
+                styles.aboutRow,
+                rtlRow,
+                { borderBottomColor: theme.border, borderBottomWidth: 1 },
+              ]}
+            >
+              <View
+                style={[
+                  styles.iconCircle,
+                  { backgroundColor: theme.primary + "20" },
+                ]}
+              >
                 <Feather name="zap" size={20} color={theme.primary} />
               </View>
               <View style={{ marginHorizontal: Spacing.md, flex: 1 }}>
-                <ThemedText type="body" style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}>
+                <ThemedText
+                  type="body"
+                  style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}
+                >
                   {t("app_name")}
                 </ThemedText>
-                <ThemedText type="small" style={[{ color: theme.textSecondary }, rtlText]}>
+                <ThemedText
+                  type="small"
+                  style={[{ color: theme.textSecondary }, rtlText]}
+                >
                   {t("version_label")}{" "}
-                  <ThemedText type="small" style={{ color: theme.textSecondary, writingDirection: "ltr" }}>
+                  <ThemedText
+                    type="small"
+                    style={{
+                      color: theme.textSecondary,
+                      writingDirection: "ltr",
+                    }}
+                  >
                     {appVersion}
                   </ThemedText>
                 </ThemedText>
               </View>
             </View>
 
-            <View style={[styles.aboutRow, rtlRow, { borderBottomColor: theme.border, borderBottomWidth: 1 }]}>
-              <View style={[styles.iconCircle, { backgroundColor: theme.success + "20" }]}>
+            <View
+              style={[
+                styles.aboutRow,
+                rtlRow,
+                { borderBottomColor: theme.border, borderBottomWidth: 1 },
+              ]}
+            >
+              <View
+                style={[
+                  styles.iconCircle,
+                  { backgroundColor: theme.success + "20" },
+                ]}
+              >
                 <Feather name="user" size={20} color={theme.success} />
               </View>
               <View style={{ marginHorizontal: Spacing.md, flex: 1 }}>
-                <ThemedText type="body" style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}>
+                <ThemedText
+                  type="body"
+                  style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}
+                >
                   {t("developer")}
                 </ThemedText>
-                <ThemedText type="small" style={[{ color: theme.textSecondary }, rtlText]}>
+                <ThemedText
+                  type="small"
+                  style={[{ color: theme.textSecondary }, rtlText]}
+                >
                   {t("developer_name")}
                 </ThemedText>
               </View>
             </View>
 
             <View style={[styles.aboutRow, rtlRow]}>
-              <View style={[styles.iconCircle, { backgroundColor: theme.warning + "20" }]}>
+              <View
+                style={[
+                  styles.iconCircle,
+                  { backgroundColor: theme.warning + "20" },
+                ]}
+              >
                 <Feather name="shield" size={20} color={theme.warning} />
               </View>
               <View style={{ marginHorizontal: Spacing.md, flex: 1 }}>
-                <ThemedText type="body" style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}>
+                <ThemedText
+                  type="body"
+                  style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}
+                >
                   {t("copyright")}
                 </ThemedText>
-                <ThemedText type="small" style={[{ color: theme.textSecondary }, rtlText]}>
+                <ThemedText
+                  type="small"
+                  style={[{ color: theme.textSecondary }, rtlText]}
+                >
                   {t("copyright_text")}
                 </ThemedText>
               </View>
@@ -606,7 +1253,14 @@ export default function SettingsScreen() {
         </Animated.View>
 
         <View style={styles.footer}>
-          <ThemedText type="small" style={{ color: theme.textSecondary, textAlign: "center", writingDirection: "ltr" }}>
+          <ThemedText
+            type="small"
+            style={{
+              color: theme.textSecondary,
+              textAlign: "center",
+              writingDirection: "ltr",
+            }}
+          >
             {t("version")}
           </ThemedText>
         </View>
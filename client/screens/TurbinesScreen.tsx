@@ -16,25 +16,48 @@ import Animated, { FadeInDown } from "react-native-reanimated";
 import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
 import { ThemedText } from "@/components/ThemedText";
 import { CalendarPicker } from "@/components/CalendarPicker";
+import { CrewBadge } from "@/components/CrewBadge";
+import { PlantSwitcher } from "@/components/PlantSwitcher";
+import { SyncStatusBadge } from "@/components/SyncStatusBadge";
+import { DayHistoryModal } from "@/components/DayHistoryModal";
+import { EstimatedDayBanner } from "@/components/EstimatedDayBanner";
+import { RemoteChangeBanner } from "@/components/RemoteChangeBanner";
+import { DayApprovalBar } from "@/components/DayApprovalBar";
 import { NumericInputField } from "@/components/NumericInputField";
+import { ReadingFlagModal } from "@/components/ReadingFlagModal";
 import { HoursInputField } from "@/components/HoursInputField";
+import { MeterReplacementFields } from "@/components/MeterReplacementFields";
+import { ValidationMessages } from "@/components/ValidationMessages";
+import {
+  IntradayReadingsButton,
+  IntradayReadingsModal,
+} from "@/components/IntradayReadingsModal";
 import { useTheme } from "@/hooks/useTheme";
 import { useResponsiveLayout } from "@/hooks/useResponsiveLayout";
 import { Spacing, BorderRadius, Typography, Shadows } from "@/constants/theme";
 import { useDay } from "@/contexts/DayContext";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { useRTL } from "@/hooks/useRTL";
-import { TURBINES, format2, turbineRowComputed, numberTextStyle, formatDateKey, todayKey } from "@/lib/storage";
+import { usePlantConfig } from "@/contexts/PlantConfigContext";
+import {
+  TurbineReadingField,
+  format2,
+  turbineRowComputed,
+  numberTextStyle,
+  formatDateKey,
+  todayKey,
+} from "@/lib/storage";
+import { MeterConfig, activeTurbines } from "@/lib/plantConfig";
+import { turbineSegments } from "@/lib/intraday";
 import { showSuccess, showError } from "@/utils/notify";
+import { ValidationError, issuesForMeter } from "@/lib/validation";
+import { DayLockedError } from "@/lib/dayApproval";
+import { MonthClosedError } from "@/lib/monthClosing";
+import { withReadingFlag } from "@/lib/readingFlags";
 
-function getDayLetter(dateStr: string): string {
-  const letters = ["B", "D", "A", "C"];
-  const date = new Date(dateStr);
-  if (isNaN(date.getTime())) return "A";
-  const epoch = new Date("2026-01-18");
-  const diffDays = Math.floor((date.getTime() - epoch.getTime()) / (1000 * 60 * 60 * 24));
-  const index = ((diffDays % 4) + 4) % 4;
-  return letters[index];
+interface FlagTarget {
+  turbine: MeterConfig;
+  field: TurbineReadingField;
 }
 
 export default function TurbinesScreen() {
@@ -43,19 +66,44 @@ export default function TurbinesScreen() {
   const tabBarHeight = useBottomTabBarHeight();
   const { theme } = useTheme();
   const layout = useResponsiveLayout();
-  const { dateKey, setDateKey, day, setDay, saveDay, resetDay } = useDay();
+  const {
+    dateKey,
+    setDateKey,
+    day,
+    setDay,
+    saveDay,
+    issues,
+    resetDay,
+    locked,
+  } = useDay();
   const { t: translate, isRTL } = useLanguage();
   const { rtlRow, rtlText } = useRTL();
+  const { config } = usePlantConfig();
+
+  const turbines = useMemo(
+    () => activeTurbines(config, dateKey),
+    [config, dateKey],
+  );
 
   const rows = useMemo(() => {
-    return TURBINES.map((t) => ({
-      t,
-      ...turbineRowComputed(day, t),
+    return turbines.map((turbine) => ({
+      t: turbine.id,
+      name: turbine.name,
+      ...turbineRowComputed(day, turbine),
     }));
-  }, [day]);
+  }, [day, turbines]);
 
   const totalProduction = rows.reduce((a, r) => a + r.diff, 0);
 
+  const [intradayTurbine, setIntradayTurbine] = useState<MeterConfig | null>(
+    null,
+  );
+  const [flagTarget, setFlagTarget] = useState<FlagTarget | null>(null);
+  const intradaySegments = useMemo(
+    () => (intradayTurbine ? turbineSegments(day, intradayTurbine) : []),
+    [day, intradayTurbine],
+  );
+
   const [isSaving, setIsSaving] = useState(false);
   const saveLockRef = useRef(false);
 
@@ -65,11 +113,28 @@ export default function TurbinesScreen() {
     setIsSaving(true);
 
     try {
-      await saveDay();
+      const warnings = await saveDay();
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      showSuccess(translate("msg_saved_success"));
+      showSuccess(
+        translate(
+          warnings.length > 0 ? "msg_saved_with_warnings" : "msg_saved_success",
+        ),
+      );
     } catch (error) {
-      showError(translate("msg_error_generic"));
+      if (error instanceof ValidationError) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        showError(translate("validation_blocked"));
+      } else if (error instanceof DayLockedError) {
+        showError(
+          translate(
+            error instanceof MonthClosedError
+              ? "month_closed_locked"
+              : "day_locked",
+          ),
+        );
+      } else {
+        showError(translate("msg_error_generic"));
+      }
     } finally {
       setIsSaving(false);
       saveLockRef.current = false;
@@ -83,7 +148,7 @@ export default function TurbinesScreen() {
   };
 
   const [showDatePicker, setShowDatePicker] = useState(false);
-  const dayLetter = getDayLetter(dateKey);
+  const [showHistory, setShowHistory] = useState(false);
 
   const handleSetToday = () => {
     setDateKey(todayKey());
@@ -119,26 +184,58 @@ export default function TurbinesScreen() {
         scrollIndicatorInsets={{ bottom: insets.bottom }}
       >
         <View style={[styles.headerRow, rtlRow]}>
-          <Pressable
-            style={[styles.todayButton, rtlRow, { borderColor: theme.primary, backgroundColor: theme.primary + "10" }]}
-            onPress={() => setShowDatePicker(true)}
-            testID="button-date"
-          >
-            <Feather name="calendar" size={18} color={theme.primary} />
-            <ThemedText type="body" style={{ color: theme.primary, marginHorizontal: Spacing.sm, fontWeight: "600" }}>
-              {isToday ? translate("today") : dateKey}
-            </ThemedText>
-          </Pressable>
-
           <View style={[styles.actionButtons, rtlRow]}>
-            <View style={[styles.letterCircle, { borderColor: theme.primary, backgroundColor: theme.primary + "10" }]}>
-              <ThemedText type="h3" style={{ color: theme.primary, fontWeight: "700" }}>
-                {dayLetter}
+            <Pressable
+              style={[
+                styles.todayButton,
+                rtlRow,
+                {
+                  borderColor: theme.primary,
+                  backgroundColor: theme.primary + "10",
+                },
+              ]}
+              onPress={() => setShowDatePicker(true)}
+              testID="button-date"
+            >
+              <Feather name="calendar" size={18} color={theme.primary} />
+              <ThemedText
+                type="body"
+                style={{
+                  color: theme.primary,
+                  marginHorizontal: Spacing.sm,
+                  fontWeight: "600",
+                }}
+              >
+                {isToday ? translate("today") : dateKey}
               </ThemedText>
-            </View>
+            </Pressable>
+            <PlantSwitcher testID="button-plant-switcher" />
+            <SyncStatusBadge dateKey={dateKey} testID="button-sync-status" />
+          </View>
+
+          <View style={[styles.actionButtons, rtlRow]}>
+            <CrewBadge dateKey={dateKey} testID="button-crew" />
+            <Pressable
+              style={[
+                styles.circleButton,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                setShowHistory(true);
+              }}
+              testID="button-history"
+            >
+              <Feather name="git-commit" size={20} color={theme.text} />
+            </Pressable>
             <Pressable
-              style={[styles.circleButton, { backgroundColor: "#f04438" }]}
+              style={[
+                styles.circleButton,
+                { backgroundColor: "#f04438" },
+                locked && { opacity: 0.6 },
+              ]}
               onPress={handleReset}
+              disabled={locked}
               testID="button-reset"
             >
               <Feather name="rotate-ccw" size={20} color="#fff" />
@@ -147,10 +244,10 @@ export default function TurbinesScreen() {
               style={[
                 styles.circleButton,
                 { backgroundColor: theme.primary, ...Shadows.fab },
-                isSaving && { opacity: 0.6 },
+                (isSaving || locked) && { opacity: 0.6 },
               ]}
               onPress={handleSave}
-              disabled={isSaving}
+              disabled={isSaving || locked}
               testID="button-save"
             >
               {isSaving ? (
@@ -182,12 +279,23 @@ export default function TurbinesScreen() {
           </Pressable>
         </Modal>
 
+        <DayApprovalBar />
+        <EstimatedDayBanner />
+        <RemoteChangeBanner />
+
         <Animated.View
           entering={FadeInDown.duration(300)}
           style={[styles.card, { backgroundColor: theme.backgroundDefault }]}
         >
-          <View style={[styles.cardHeader, { borderBottomColor: theme.border }]}>
-            <View style={[styles.iconCircle, { backgroundColor: theme.primary + "20" }]}>
+          <View
+            style={[styles.cardHeader, { borderBottomColor: theme.border }]}
+          >
+            <View
+              style={[
+                styles.iconCircle,
+                { backgroundColor: theme.primary + "20" },
+              ]}
+            >
               <Feather name="wind" size={18} color={theme.primary} />
             </View>
             <ThemedText type="h3" style={{ marginLeft: Spacing.md }}>
@@ -196,9 +304,10 @@ export default function TurbinesScreen() {
           </View>
 
           <View style={layout.isTablet ? styles.tabletGrid : undefined}>
-            {TURBINES.map((t, index) => {
+            {turbines.map(({ id: t, name }, index) => {
               const row = rows[index];
-              const hasError = row.pres < row.prev && row.prev > 0;
+              const rowIssues = issuesForMeter(issues, "turbine", t);
+              const hasError = rowIssues.some((i) => i.severity === "error");
               return (
                 <Animated.View
                   key={t}
@@ -209,13 +318,18 @@ export default function TurbinesScreen() {
                   ]}
                 >
                   <View style={styles.turbineLabelRow}>
-                    <View style={[styles.turbineBadge, { backgroundColor: theme.success + "20" }]}>
+                    <View
+                      style={[
+                        styles.turbineBadge,
+                        { backgroundColor: theme.success + "20" },
+                      ]}
+                    >
                       <ThemedText type="h4" style={{ color: theme.success }}>
-                        {t}
+                        {name}
                       </ThemedText>
                     </View>
                     <ThemedText type="body" style={styles.turbineLabel}>
-                      {translate("turbine")} {t}
+                      {translate("turbine")} {name}
                     </ThemedText>
                   </View>
 
@@ -232,6 +346,14 @@ export default function TurbinesScreen() {
                           },
                         }))
                       }
+                      flag={day.turbines[t]?.flags?.previous}
+                      onPressFlag={() =>
+                        setFlagTarget({
+                          turbine: turbines[index],
+                          field: "previous",
+                        })
+                      }
+                      disabled={locked}
                       testID={`input-${t}-previous`}
                     />
                     <NumericInputField
@@ -246,6 +368,14 @@ export default function TurbinesScreen() {
                           },
                         }))
                       }
+                      flag={day.turbines[t]?.flags?.present}
+                      onPressFlag={() =>
+                        setFlagTarget({
+                          turbine: turbines[index],
+                          field: "present",
+                        })
+                      }
+                      disabled={locked}
                       testID={`input-${t}-present`}
                     />
                     <HoursInputField
@@ -260,41 +390,89 @@ export default function TurbinesScreen() {
                           },
                         }))
                       }
+                      disabled={locked}
                       testID={`input-${t}-hours`}
                     />
                   </View>
 
-                  {hasError ? (
-                    <View style={[styles.errorBox, { backgroundColor: "#fff1f3", borderColor: "#f04438" }]}>
-                      <Feather name="alert-circle" size={16} color="#f04438" />
-                      <ThemedText type="small" style={{ color: "#f04438", marginLeft: Spacing.xs }}>
-                        {translate("turbine_error")}
-                      </ThemedText>
-                    </View>
-                  ) : null}
+                  <MeterReplacementFields
+                    replacement={day.turbines[t]?.replacement}
+                    onChange={(replacement) =>
+                      setDay((prev) => ({
+                        ...prev,
+                        turbines: {
+                          ...prev.turbines,
+                          [t]: { ...prev.turbines[t], replacement },
+                        },
+                      }))
+                    }
+                    testID={`input-${t}-replacement`}
+                  />
+
+                  <IntradayReadingsButton
+                    count={day.turbines[t]?.readings?.length ?? 0}
+                    onPress={() => setIntradayTurbine(turbines[index])}
+                    testID={`button-${t}-readings`}
+                  />
+
+                  <ValidationMessages
+                    issues={rowIssues}
+                    testID={`validation-${t}`}
+                  />
 
                   <View style={styles.resultsRow}>
-                    <View style={[styles.resultBox, { 
-                      backgroundColor: hasError ? "#fff1f3" : theme.primary + "15", 
-                      borderColor: hasError ? "#f04438" : theme.primary + "40" 
-                    }]}>
-                      <ThemedText type="caption" style={{ color: hasError ? "#f04438" : theme.primary }}>
+                    <View
+                      style={[
+                        styles.resultBox,
+                        {
+                          backgroundColor: hasError
+                            ? "#fff1f3"
+                            : theme.primary + "15",
+                          borderColor: hasError
+                            ? "#f04438"
+                            : theme.primary + "40",
+                        },
+                      ]}
+                    >
+                      <ThemedText
+                        type="caption"
+                        style={{ color: hasError ? "#f04438" : theme.primary }}
+                      >
                         {translate("difference")}
                       </ThemedText>
                       <ThemedText
                         type="h4"
-                        style={{ color: hasError ? "#f04438" : theme.text, fontFamily: Typography.mono.fontFamily, ...numberTextStyle }}
+                        style={{
+                          color: hasError ? "#f04438" : theme.text,
+                          fontFamily: Typography.mono.fontFamily,
+                          ...numberTextStyle,
+                        }}
                       >
                         {format2(Math.abs(row.diff))} {translate("mwh")}
                       </ThemedText>
                     </View>
-                    <View style={[styles.resultBox, { backgroundColor: theme.success + "15", borderColor: theme.success + "40" }]}>
-                      <ThemedText type="caption" style={{ color: theme.success }}>
+                    <View
+                      style={[
+                        styles.resultBox,
+                        {
+                          backgroundColor: theme.success + "15",
+                          borderColor: theme.success + "40",
+                        },
+                      ]}
+                    >
+                      <ThemedText
+                        type="caption"
+                        style={{ color: theme.success }}
+                      >
                         {translate("mw_per_hr")}
                       </ThemedText>
                       <ThemedText
                         type="h4"
-                        style={{ color: theme.text, fontFamily: Typography.mono.fontFamily, ...numberTextStyle }}
+                        style={{
+                          color: theme.text,
+                          fontFamily: Typography.mono.fontFamily,
+                          ...numberTextStyle,
+                        }}
                       >
                         {format2(Math.abs(row.mwPerHr))}
                       </ThemedText>
@@ -316,10 +494,18 @@ export default function TurbinesScreen() {
             },
           ]}
         >
-          <View style={[styles.summaryIconCircle, { backgroundColor: theme.success + "20" }]}>
+          <View
+            style={[
+              styles.summaryIconCircle,
+              { backgroundColor: theme.success + "20" },
+            ]}
+          >
             <Feather name="zap" size={28} color={theme.success} />
           </View>
-          <ThemedText type="h4" style={{ color: theme.success, marginTop: Spacing.md }}>
+          <ThemedText
+            type="h4"
+            style={{ color: theme.success, marginTop: Spacing.md }}
+          >
             {translate("total_generation")}
           </ThemedText>
           <ThemedText
@@ -334,7 +520,10 @@ export default function TurbinesScreen() {
           >
             {format2(Math.abs(totalProduction))}
           </ThemedText>
-          <ThemedText type="small" style={{ color: theme.textSecondary, marginTop: Spacing.xs }}>
+          <ThemedText
+            type="small"
+            style={{ color: theme.textSecondary, marginTop: Spacing.xs }}
+          >
             {translate("mwh")}
           </ThemedText>
         </Animated.View>
@@ -343,8 +532,15 @@ export default function TurbinesScreen() {
           entering={FadeInDown.delay(300).duration(300)}
           style={[styles.card, { backgroundColor: theme.backgroundDefault }]}
         >
-          <View style={[styles.cardHeader, { borderBottomColor: theme.border }]}>
-            <View style={[styles.iconCircle, { backgroundColor: theme.primary + "20" }]}>
+          <View
+            style={[styles.cardHeader, { borderBottomColor: theme.border }]}
+          >
+            <View
+              style={[
+                styles.iconCircle,
+                { backgroundColor: theme.primary + "20" },
+              ]}
+            >
               <Feather name="list" size={18} color={theme.primary} />
             </View>
             <ThemedText type="h3" style={{ marginLeft: Spacing.md }}>
@@ -357,28 +553,57 @@ export default function TurbinesScreen() {
               key={r.t}
               style={[
                 styles.summaryRow,
-                index < rows.length - 1 && { borderBottomWidth: 1, borderBottomColor: theme.border },
+                index < rows.length - 1 && {
+                  borderBottomWidth: 1,
+                  borderBottomColor: theme.border,
+                },
               ]}
             >
-              <View style={[styles.turbineBadgeSmall, { backgroundColor: theme.success + "20" }]}>
-                <ThemedText type="small" style={{ color: theme.success, fontWeight: "600" }}>
-                  {r.t}
+              <View
+                style={[
+                  styles.turbineBadgeSmall,
+                  { backgroundColor: theme.success + "20" },
+                ]}
+              >
+                <ThemedText
+                  type="small"
+                  style={{ color: theme.success, fontWeight: "600" }}
+                >
+                  {r.name}
                 </ThemedText>
               </View>
               <View style={styles.summaryValues}>
                 <View style={styles.summaryValue}>
-                  <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                  <ThemedText
+                    type="caption"
+                    style={{ color: theme.textSecondary }}
+                  >
                     {translate("prev_short")}
                   </ThemedText>
-                  <ThemedText type="small" style={{ fontFamily: Typography.mono.fontFamily, ...numberTextStyle }}>
+                  <ThemedText
+                    type="small"
+                    style={{
+                      fontFamily: Typography.mono.fontFamily,
+                      ...numberTextStyle,
+                    }}
+                  >
                     {format2(Math.abs(r.prev))}
                   </ThemedText>
                 </View>
                 <View style={styles.summaryValue}>
-                  <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                  <ThemedText
+                    type="caption"
+                    style={{ color: theme.textSecondary }}
+                  >
                     {translate("pres_short")}
                   </ThemedText>
-                  <ThemedText type="small" style={{ fontFamily: Typography.mono.fontFamily, ...numberTextStyle }}>
+                  <ThemedText
+                    type="small"
+                    style={{
+                      fontFamily: Typography.mono.fontFamily,
+                      ...numberTextStyle,
+                    }}
+                  >
                     {format2(Math.abs(r.pres))}
                   </ThemedText>
                 </View>
@@ -388,7 +613,12 @@ export default function TurbinesScreen() {
                   </ThemedText>
                   <ThemedText
                     type="small"
-                    style={{ fontFamily: Typography.mono.fontFamily, color: theme.primary, fontWeight: "600", ...numberTextStyle }}
+                    style={{
+                      fontFamily: Typography.mono.fontFamily,
+                      color: theme.primary,
+                      fontWeight: "600",
+                      ...numberTextStyle,
+                    }}
                   >
                     {format2(Math.abs(r.diff))}
                   </ThemedText>
@@ -399,7 +629,12 @@ export default function TurbinesScreen() {
                   </ThemedText>
                   <ThemedText
                     type="small"
-                    style={{ fontFamily: Typography.mono.fontFamily, color: theme.success, fontWeight: "600", ...numberTextStyle }}
+                    style={{
+                      fontFamily: Typography.mono.fontFamily,
+                      color: theme.success,
+                      fontWeight: "600",
+                      ...numberTextStyle,
+                    }}
                   >
                     {format2(Math.abs(r.mwPerHr))}
                   </ThemedText>
@@ -409,6 +644,70 @@ export default function TurbinesScreen() {
           ))}
         </Animated.View>
       </KeyboardAwareScrollViewCompat>
+
+      <IntradayReadingsModal
+        visible={!!intradayTurbine}
+        title={
+          intradayTurbine
+            ? `${translate("turbine")} ${intradayTurbine.name}`
+            : ""
+        }
+        readings={
+          intradayTurbine
+            ? (day.turbines[intradayTurbine.id]?.readings ?? [])
+            : []
+        }
+        segments={intradaySegments}
+        onChangeReadings={(readings) => {
+          if (!intradayTurbine) return;
+          const t = intradayTurbine.id;
+          setDay((prev) => ({
+            ...prev,
+            turbines: {
+              ...prev.turbines,
+              [t]: { ...prev.turbines[t], readings },
+            },
+          }));
+        }}
+        onClose={() => setIntradayTurbine(null)}
+      />
+
+      <ReadingFlagModal
+        visible={!!flagTarget}
+        title={
+          flagTarget
+            ? `${translate("turbine")} ${flagTarget.turbine.name} · ${translate(flagTarget.field)}`
+            : ""
+        }
+        flag={
+          flagTarget
+            ? day.turbines[flagTarget.turbine.id]?.flags?.[flagTarget.field]
+            : undefined
+        }
+        onSave={(flag) => {
+          if (!flagTarget) return;
+          const {
+            turbine: { id: t },
+            field,
+          } = flagTarget;
+          setDay((prev) => ({
+            ...prev,
+            turbines: {
+              ...prev.turbines,
+              [t]: {
+                ...prev.turbines[t],
+                flags: withReadingFlag(prev.turbines[t]?.flags, field, flag),
+              },
+            },
+          }));
+        }}
+        onClose={() => setFlagTarget(null)}
+      />
+
+      <DayHistoryModal
+        visible={showHistory}
+        onClose={() => setShowHistory(false)}
+      />
     </View>
   );
 }
@@ -510,14 +809,6 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     alignItems: "center",
   },
-  errorBox: {
-    flexDirection: "row",
-    alignItems: "center",
-    padding: Spacing.md,
-    borderRadius: BorderRadius.xs,
-    borderWidth: 1,
-    marginTop: Spacing.md,
-  },
   summaryCard: {
     borderRadius: BorderRadius.md,
     padding: Spacing.xl,
@@ -554,14 +845,6 @@ const styles = StyleSheet.create({
     borderRadius: BorderRadius.sm,
     borderWidth: 2,
   },
-  letterCircle: {
-    width: 44,
-    height: 44,
-    borderRadius: 22,
-    borderWidth: 2,
-    alignItems: "center",
-    justifyContent: "center",
-  },
   circleButton: {
     width: 44,
     height: 44,
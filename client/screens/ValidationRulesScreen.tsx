@@ -0,0 +1,377 @@
+import React, { useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  TextInput,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Animated, { FadeInDown } from "react-native-reanimated";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useResponsiveLayout } from "@/hooks/useResponsiveLayout";
+import { useRTL } from "@/hooks/useRTL";
+import { Spacing, BorderRadius, Typography } from "@/constants/theme";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { usePlantConfig } from "@/contexts/PlantConfigContext";
+import type { TranslationKey } from "@/lib/i18n";
+import {
+  VALIDATION_RULE_IDS,
+  ValidationRuleId,
+  ValidationSeverity,
+  updateValidationRule,
+  updateValidationSettings,
+} from "@/lib/validationRules";
+
+const RULE_LABELS: Record<ValidationRuleId, TranslationKey> = {
+  negative_difference: "rule_negative_difference",
+  hours_range: "rule_hours_range",
+  rating_exceeded: "rule_rating_exceeded",
+  deviation: "rule_deviation",
+  continuity: "rule_continuity",
+};
+
+const SEVERITIES: ValidationSeverity[] = ["warning", "error"];
+
+interface SectionHeaderProps {
+  icon: keyof typeof Feather.glyphMap;
+  title: string;
+  hint?: string;
+}
+
+function SectionHeader({ icon, title, hint }: SectionHeaderProps) {
+  const { theme } = useTheme();
+  const { rtlRow, rtlText } = useRTL();
+
+  return (
+    <View
+      style={[styles.cardHeader, rtlRow, { borderBottomColor: theme.border }]}
+    >
+      <View
+        style={[styles.iconCircle, { backgroundColor: theme.primary + "20" }]}
+      >
+        <Feather name={icon} size={20} color={theme.primary} />
+      </View>
+      <View style={{ flex: 1, marginHorizontal: Spacing.md }}>
+        <ThemedText
+          type="body"
+          style={[{ fontFamily: Typography.h4.fontFamily }, rtlText]}
+        >
+          {title}
+        </ThemedText>
+        {hint ? (
+          <ThemedText
+            type="caption"
+            style={[{ color: theme.textSecondary }, rtlText]}
+          >
+            {hint}
+          </ThemedText>
+        ) : null}
+      </View>
+    </View>
+  );
+}
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  color: string;
+  disabled?: boolean;
+  onPress: () => void;
+  testID?: string;
+}
+
+function Chip({
+  label,
+  selected,
+  color,
+  disabled,
+  onPress,
+  testID,
+}: ChipProps) {
+  const { theme } = useTheme();
+
+  return (
+    <Pressable
+      style={[
+        styles.chip,
+        {
+          borderColor: selected ? color : theme.border,
+          backgroundColor: selected ? color + "20" : "transparent",
+          opacity: disabled ? 0.5 : 1,
+        },
+      ]}
+      onPress={onPress}
+      disabled={disabled}
+      testID={testID}
+    >
+      <ThemedText type="small" style={{ color: selected ? color : theme.text }}>
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+}
+
+interface RuleRowProps {
+  id: ValidationRuleId;
+  isLast: boolean;
+}
+
+function RuleRow({ id, isLast }: RuleRowProps) {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const { rtlRow, rtlText } = useRTL();
+  const { config, updateConfig } = usePlantConfig();
+  const rule = config.validation.rules[id];
+
+  const severityColor = (severity: ValidationSeverity) =>
+    severity === "error" ? theme.error : theme.warning;
+
+  return (
+    <View
+      style={[
+        styles.ruleRow,
+        !isLast && { borderBottomWidth: 1, borderBottomColor: theme.border },
+      ]}
+    >
+      <Pressable
+        style={[styles.ruleToggle, rtlRow]}
+        onPress={() => {
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+          updateConfig((c) =>
+            updateValidationRule(c, id, { enabled: !rule.enabled }),
+          );
+        }}
+        testID={`toggle-rule-${id}`}
+      >
+        <Feather
+          name={rule.enabled ? "check-square" : "square"}
+          size={20}
+          color={rule.enabled ? theme.primary : theme.textSecondary}
+        />
+        <ThemedText type="body" style={[{ flex: 1 }, rtlText]}>
+          {t(RULE_LABELS[id])}
+        </ThemedText>
+      </Pressable>
+
+      <View style={[styles.chipRow, rtlRow]}>
+        {SEVERITIES.map((severity) => (
+          <Chip
+            key={severity}
+            label={t(
+              severity === "error" ? "severity_error" : "severity_warning",
+            )}
+            selected={rule.severity === severity}
+            color={severityColor(severity)}
+            disabled={!rule.enabled}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              updateConfig((c) => updateValidationRule(c, id, { severity }));
+            }}
+            testID={`chip-rule-${id}-${severity}`}
+          />
+        ))}
+      </View>
+    </View>
+  );
+}
+
+interface ThresholdFieldProps {
+  label: string;
+  value: number;
+  onCommit: (value: number) => void;
+  testID?: string;
+}
+
+function ThresholdField({
+  label,
+  value,
+  onCommit,
+  testID,
+}: ThresholdFieldProps) {
+  const { theme } = useTheme();
+  const { isRTL } = useLanguage();
+  const { rtlRow, rtlText } = useRTL();
+  const [text, setText] = useState(String(value));
+
+  const handleEndEditing = () => {
+    const parsed = Number(text.trim());
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      setText(String(value));
+      return;
+    }
+    onCommit(parsed);
+  };
+
+  return (
+    <View style={[styles.thresholdRow, rtlRow]}>
+      <ThemedText type="body" style={[{ flex: 1 }, rtlText]}>
+        {label}
+      </ThemedText>
+      <TextInput
+        style={[
+          styles.thresholdInput,
+          {
+            backgroundColor: theme.backgroundRoot,
+            color: theme.text,
+            borderColor: theme.border,
+            textAlign: isRTL ? "right" : "left",
+            fontFamily: Typography.mono.fontFamily,
+          },
+        ]}
+        value={text}
+        onChangeText={setText}
+        onEndEditing={handleEndEditing}
+        keyboardType="decimal-pad"
+        testID={testID}
+      />
+    </View>
+  );
+}
+
+export default function ValidationRulesScreen() {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const tabBarHeight = useBottomTabBarHeight();
+  const layout = useResponsiveLayout();
+  const { config, updateConfig } = usePlantConfig();
+  const { deviationPercent, rollingDays } = config.validation;
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={{
+          paddingTop: headerHeight + Spacing.lg,
+          paddingBottom: tabBarHeight + Spacing.xl,
+          paddingHorizontal: layout.horizontalPadding,
+          maxWidth: layout.isTablet ? layout.contentMaxWidth : undefined,
+          alignSelf: layout.isTablet ? "center" : undefined,
+          width: layout.isTablet ? "100%" : undefined,
+        }}
+        scrollIndicatorInsets={{ bottom: insets.bottom }}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Animated.View entering={FadeInDown.duration(300)}>
+          <View
+            style={[styles.card, { backgroundColor: theme.backgroundDefault }]}
+          >
+            <SectionHeader
+              icon="check-square"
+              title={t("validation_rules")}
+              hint={t("validation_rules_hint")}
+            />
+            {VALIDATION_RULE_IDS.map((id, index) => (
+              <RuleRow
+                key={id}
+                id={id}
+                isLast={index === VALIDATION_RULE_IDS.length - 1}
+              />
+            ))}
+          </View>
+        </Animated.View>
+
+        <Animated.View entering={FadeInDown.delay(100).duration(300)}>
+          <View
+            style={[styles.card, { backgroundColor: theme.backgroundDefault }]}
+          >
+            <SectionHeader icon="trending-up" title={t("rule_deviation")} />
+            <View style={styles.cardBody}>
+              <ThresholdField
+                label={t("deviation_percent")}
+                value={deviationPercent}
+                onCommit={(value) =>
+                  updateConfig((c) =>
+                    updateValidationSettings(c, { deviationPercent: value }),
+                  )
+                }
+                testID="input-deviation-percent"
+              />
+              <ThresholdField
+                label={t("rolling_days")}
+                value={rollingDays}
+                onCommit={(value) =>
+                  updateConfig((c) =>
+                    updateValidationSettings(c, {
+                      rollingDays: Math.round(value),
+                    }),
+                  )
+                }
+                testID="input-rolling-days"
+              />
+            </View>
+          </View>
+        </Animated.View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  card: {
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.lg,
+    overflow: "hidden",
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+  },
+  cardBody: {
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  iconCircle: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  ruleRow: {
+    padding: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  ruleToggle: {
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  chipRow: {
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+  },
+  thresholdRow: {
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  thresholdInput: {
+    width: 90,
+    height: 40,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    paddingHorizontal: Spacing.md,
+    fontSize: 16,
+  },
+});
@@ -9,7 +9,7 @@ export interface FormatNumberOptions {
 
 export function formatNumber(
   value: number | string,
-  options: FormatNumberOptions = {}
+  options: FormatNumberOptions = {},
 ): string {
   const {
     decimals = 2,
@@ -24,7 +24,8 @@ export function formatNumber(
     return unit ? `0 ${unit}` : "0";
   }
 
-  const rounded = Math.round(numValue * Math.pow(10, decimals)) / Math.pow(10, decimals);
+  const rounded =
+    Math.round(numValue * Math.pow(10, decimals)) / Math.pow(10, decimals);
   const isNegative = rounded < 0;
   const absValue = Math.abs(rounded);
 
@@ -72,20 +73,35 @@ export function format4(value: number | string): string {
   return formatNumber(value, { decimals: 4, thousandsSeparator: false });
 }
 
-export function formatWithCommas(value: number | string, decimals: number = 2): string {
+export function formatWithCommas(
+  value: number | string,
+  decimals: number = 2,
+): string {
   return formatNumber(value, { decimals, thousandsSeparator: true });
 }
 
 export function formatMW(value: number | string): string {
-  return formatNumber(value, { decimals: 2, thousandsSeparator: true, unit: "MW" });
+  return formatNumber(value, {
+    decimals: 2,
+    thousandsSeparator: true,
+    unit: "MW",
+  });
 }
 
 export function formatMWh(value: number | string): string {
-  return formatNumber(value, { decimals: 2, thousandsSeparator: true, unit: "MWh" });
+  return formatNumber(value, {
+    decimals: 2,
+    thousandsSeparator: true,
+    unit: "MWh",
+  });
 }
 
 export function formatNm3(value: number | string): string {
-  return formatNumber(value, { decimals: 2, thousandsSeparator: true, unit: "Nm³" });
+  return formatNumber(value, {
+    decimals: 2,
+    thousandsSeparator: true,
+    unit: "Nm³",
+  });
 }
 
 export const numberTextStyle = { writingDirection: "ltr" as const };
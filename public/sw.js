@@ -3,15 +3,19 @@ const ASSETS = ["/", "/index.html", "/manifest.webmanifest"];
 
 self.addEventListener("install", (event) => {
   event.waitUntil(
-    caches.open(CACHE_NAME).then((cache) => cache.addAll(ASSETS))
+    caches.open(CACHE_NAME).then((cache) => cache.addAll(ASSETS)),
   );
 });
 
 self.addEventListener("activate", (event) => {
   event.waitUntil(
-    caches.keys().then((keys) =>
-      Promise.all(keys.map((k) => (k !== CACHE_NAME ? caches.delete(k) : null)))
-    )
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys.map((k) => (k !== CACHE_NAME ? caches.delete(k) : null)),
+        ),
+      ),
   );
 });
 
@@ -23,11 +27,13 @@ self.addEventListener("fetch", (event) => {
         fetch(event.request)
           .then((resp) => {
             const copy = resp.clone();
-            caches.open(CACHE_NAME).then((cache) => cache.put(event.request, copy));
+            caches
+              .open(CACHE_NAME)
+              .then((cache) => cache.put(event.request, copy));
             return resp;
           })
           .catch(() => caches.match("/"))
       );
-    })
+    }),
   );
 });
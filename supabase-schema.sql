@@ -210,3 +210,1010 @@ CREATE TRIGGER update_turbines_updated_at
 -- 1. No data migration is needed
 -- 2. The same user_id continues to work with RLS
 -- 3. All existing data remains accessible
+
+-- ============================================================================
+-- METER REPLACEMENT
+-- ============================================================================
+
+-- Readings of the outgoing and incoming meter when a meter is swapped during
+-- the day. Both stay NULL on days without a replacement.
+ALTER TABLE feeders ADD COLUMN IF NOT EXISTS replacement_old_final TEXT;
+ALTER TABLE feeders ADD COLUMN IF NOT EXISTS replacement_new_initial TEXT;
+ALTER TABLE turbines ADD COLUMN IF NOT EXISTS replacement_old_final TEXT;
+ALTER TABLE turbines ADD COLUMN IF NOT EXISTS replacement_new_initial TEXT;
+
+-- ============================================================================
+-- INTRA-DAY READINGS
+-- ============================================================================
+
+-- Timestamped readings taken between the start and end of the day, stored as
+-- a JSON array of {"time": "HH:MM", "value": "..."} objects, and the time at
+-- which a meter replacement took place.
+ALTER TABLE feeders ADD COLUMN IF NOT EXISTS readings JSONB DEFAULT '[]'::jsonb;
+ALTER TABLE feeders ADD COLUMN IF NOT EXISTS replacement_time TEXT;
+ALTER TABLE turbines ADD COLUMN IF NOT EXISTS readings JSONB DEFAULT '[]'::jsonb;
+ALTER TABLE turbines ADD COLUMN IF NOT EXISTS replacement_time TEXT;
+
+-- ============================================================================
+-- CREW ROTATION
+-- ============================================================================
+
+-- Crew(s) on duty according to the plant's rotation when the day was saved,
+-- e.g. 'B' or 'A/C'.
+ALTER TABLE daily_data ADD COLUMN IF NOT EXISTS crew TEXT;
+
+-- ============================================================================
+-- ESTIMATED DAYS
+-- ============================================================================
+
+-- Days filled in by the backfill wizard with readings interpolated across a
+-- gap rather than read from the meters.
+ALTER TABLE daily_data ADD COLUMN IF NOT EXISTS estimated BOOLEAN NOT NULL DEFAULT false;
+
+-- ============================================================================
+-- READING QUALITY
+-- ============================================================================
+
+-- How each reading was obtained when it was not read from the meter:
+-- 'estimated', 'corrected' or 'override', with an optional reason. Both
+-- columns stay NULL for a measured reading.
+ALTER TABLE feeders ADD COLUMN IF NOT EXISTS start_quality TEXT
+  CHECK (start_quality IN ('estimated', 'corrected', 'override'));
+ALTER TABLE feeders ADD COLUMN IF NOT EXISTS start_quality_reason TEXT;
+ALTER TABLE feeders ADD COLUMN IF NOT EXISTS end_quality TEXT
+  CHECK (end_quality IN ('estimated', 'corrected', 'override'));
+ALTER TABLE feeders ADD COLUMN IF NOT EXISTS end_quality_reason TEXT;
+ALTER TABLE turbines ADD COLUMN IF NOT EXISTS previous_quality TEXT
+  CHECK (previous_quality IN ('estimated', 'corrected', 'override'));
+ALTER TABLE turbines ADD COLUMN IF NOT EXISTS previous_quality_reason TEXT;
+ALTER TABLE turbines ADD COLUMN IF NOT EXISTS present_quality TEXT
+  CHECK (present_quality IN ('estimated', 'corrected', 'override'));
+ALTER TABLE turbines ADD COLUMN IF NOT EXISTS present_quality_reason TEXT;
+
+-- ============================================================================
+-- DAY APPROVAL
+-- ============================================================================
+
+-- 'draft' → 'submitted' → 'approved'. Approved days are read-only in the app
+-- until unlocked, which returns them to 'draft' and records the reason in
+-- day_revisions.note. The approver columns are NULL unless approved.
+ALTER TABLE daily_data ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'draft'
+  CHECK (status IN ('draft', 'submitted', 'approved'));
+ALTER TABLE daily_data ADD COLUMN IF NOT EXISTS approved_by UUID REFERENCES auth.users(id);
+ALTER TABLE daily_data ADD COLUMN IF NOT EXISTS approved_by_name TEXT;
+ALTER TABLE daily_data ADD COLUMN IF NOT EXISTS approved_at TIMESTAMPTZ;
+
+-- ============================================================================
+-- DAY HISTORY
+-- ============================================================================
+
+-- Append-only log of every save of a day: the fields that changed and the
+-- full day as saved, so any earlier version can be restored. Rows are keyed
+-- by date rather than daily_data_id so the history outlives a deleted day.
+-- There are no UPDATE or DELETE policies; once written, entries are final.
+CREATE TABLE IF NOT EXISTS day_revisions (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  date_key TEXT NOT NULL,
+  changes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  snapshot JSONB NOT NULL,
+  author_name TEXT,
+  device_id TEXT NOT NULL,
+  revert_of UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Why a change was made where the app asks for a reason, e.g. unlocking an
+-- approved day.
+ALTER TABLE day_revisions ADD COLUMN IF NOT EXISTS note TEXT;
+
+CREATE INDEX IF NOT EXISTS day_revisions_user_date
+  ON day_revisions (user_id, date_key, created_at);
+
+ALTER TABLE day_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own day_revisions" ON day_revisions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own day_revisions" ON day_revisions
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- ============================================================================
+-- MONTH CLOSING
+-- ============================================================================
+
+-- A month is closed once its figures have been sent to the utility. The
+-- snapshot holds the monthly totals as exported (see computeMonthlyStats in
+-- client/lib/excelExport.ts) so later changes to the month can be detected.
+CREATE TABLE IF NOT EXISTS month_closures (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  month_key TEXT NOT NULL,
+  closed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  closed_by UUID REFERENCES auth.users(id),
+  closed_by_name TEXT,
+  snapshot JSONB NOT NULL,
+  PRIMARY KEY (user_id, month_key)
+);
+
+ALTER TABLE month_closures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own month_closures" ON month_closures
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own month_closures" ON month_closures
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own month_closures" ON month_closures
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own month_closures" ON month_closures
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Days in a closed month are frozen: the database rejects changes to them
+-- until the month is reopened by deleting its closure.
+CREATE OR REPLACE FUNCTION prevent_closed_month_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  target daily_data%ROWTYPE;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    target := OLD;
+  ELSE
+    target := NEW;
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM month_closures
+    WHERE month_closures.user_id = target.user_id
+    AND month_closures.month_key = LEFT(target.date_key, 7)
+  ) THEN
+    RAISE EXCEPTION 'Month % is closed', LEFT(target.date_key, 7);
+  END IF;
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS daily_data_closed_month ON daily_data;
+CREATE TRIGGER daily_data_closed_month
+  BEFORE INSERT OR UPDATE OR DELETE ON daily_data
+  FOR EACH ROW EXECUTE FUNCTION prevent_closed_month_changes();
+
+-- ============================================================================
+-- SHARED PLANTS
+-- ============================================================================
+
+-- Days belong to a plant rather than to the user who entered them, and every
+-- member of the plant works on the same days. A member's role decides what
+-- they may do:
+--   operator   - enter, edit and submit days
+--   supervisor - also approve and unlock days, close and reopen months,
+--                delete days and set the roles of the other members
+--   viewer     - read only
+-- The creator of a plant becomes its first supervisor; others join with the
+-- plant's join code and start as viewers.
+CREATE TABLE IF NOT EXISTS plants (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  join_code TEXT NOT NULL UNIQUE DEFAULT substr(md5(random()::text), 1, 8),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS plant_members (
+  plant_id UUID NOT NULL REFERENCES plants(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'viewer'
+    CHECK (role IN ('operator', 'supervisor', 'viewer')),
+  display_name TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (plant_id, user_id)
+);
+
+ALTER TABLE plants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE plant_members ENABLE ROW LEVEL SECURITY;
+
+-- The caller's role in a plant, or NULL when not a member. SECURITY DEFINER
+-- so policies on plant_members can use it without recursing into themselves.
+CREATE OR REPLACE FUNCTION public.plant_role(target_plant UUID)
+RETURNS TEXT AS $$
+  SELECT role FROM public.plant_members
+  WHERE plant_id = target_plant AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Members can view plants" ON plants
+  FOR SELECT USING (
+    plant_role(id) IS NOT NULL OR created_by = auth.uid()
+  );
+
+CREATE POLICY "Users can create plants" ON plants
+  FOR INSERT WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Supervisors can update plants" ON plants
+  FOR UPDATE USING (plant_role(id) = 'supervisor');
+
+CREATE POLICY "Members can view plant_members" ON plant_members
+  FOR SELECT USING (plant_role(plant_id) IS NOT NULL);
+
+CREATE POLICY "Supervisors can update plant_members" ON plant_members
+  FOR UPDATE USING (plant_role(plant_id) = 'supervisor');
+
+CREATE POLICY "Supervisors can delete plant_members" ON plant_members
+  FOR DELETE USING (
+    plant_role(plant_id) = 'supervisor' OR user_id = auth.uid()
+  );
+
+CREATE OR REPLACE FUNCTION public.add_plant_creator()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.plant_members (plant_id, user_id, role, display_name)
+  VALUES (
+    NEW.id,
+    NEW.created_by,
+    'supervisor',
+    (SELECT display_name FROM public.profiles WHERE id = NEW.created_by)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_plant_created ON plants;
+CREATE TRIGGER on_plant_created
+  AFTER INSERT ON plants
+  FOR EACH ROW EXECUTE FUNCTION public.add_plant_creator();
+
+-- Adds the caller to the plant with the given join code as a viewer and
+-- returns the plant's ID, or NULL when no plant has that code. Joining a
+-- plant the caller already belongs to keeps their current role.
+CREATE OR REPLACE FUNCTION public.join_plant(code TEXT)
+RETURNS UUID AS $$
+DECLARE
+  target UUID;
+BEGIN
+  SELECT id INTO target FROM public.plants WHERE join_code = lower(trim(code));
+  IF target IS NULL THEN
+    RETURN NULL;
+  END IF;
+  INSERT INTO public.plant_members (plant_id, user_id, role, display_name)
+  VALUES (
+    target,
+    auth.uid(),
+    'viewer',
+    (SELECT display_name FROM public.profiles WHERE id = auth.uid())
+  )
+  ON CONFLICT (plant_id, user_id) DO NOTHING;
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Existing data moves into a personal plant per user, so nothing is lost and
+-- each user starts out as the supervisor of their own days.
+ALTER TABLE daily_data ADD COLUMN IF NOT EXISTS plant_id UUID REFERENCES plants(id) ON DELETE CASCADE;
+ALTER TABLE day_revisions ADD COLUMN IF NOT EXISTS plant_id UUID REFERENCES plants(id) ON DELETE CASCADE;
+ALTER TABLE month_closures ADD COLUMN IF NOT EXISTS plant_id UUID REFERENCES plants(id) ON DELETE CASCADE;
+
+INSERT INTO plants (name, created_by)
+SELECT 'My Plant', owners.user_id
+FROM (
+  SELECT user_id FROM daily_data
+  UNION SELECT user_id FROM day_revisions
+  UNION SELECT user_id FROM month_closures
+) AS owners
+WHERE NOT EXISTS (
+  SELECT 1 FROM plant_members WHERE plant_members.user_id = owners.user_id
+);
+
+UPDATE daily_data SET plant_id = plants.id
+FROM plants WHERE daily_data.plant_id IS NULL AND plants.created_by = daily_data.user_id;
+UPDATE day_revisions SET plant_id = plants.id
+FROM plants WHERE day_revisions.plant_id IS NULL AND plants.created_by = day_revisions.user_id;
+UPDATE month_closures SET plant_id = plants.id
+FROM plants WHERE month_closures.plant_id IS NULL AND plants.created_by = month_closures.user_id;
+
+ALTER TABLE daily_data ALTER COLUMN plant_id SET NOT NULL;
+ALTER TABLE day_revisions ALTER COLUMN plant_id SET NOT NULL;
+ALTER TABLE month_closures ALTER COLUMN plant_id SET NOT NULL;
+
+-- One row per plant and date; user_id now records who last saved the day.
+ALTER TABLE daily_data DROP CONSTRAINT IF EXISTS daily_data_user_id_date_key_key;
+ALTER TABLE daily_data DROP CONSTRAINT IF EXISTS daily_data_plant_id_date_key_key;
+ALTER TABLE daily_data ADD CONSTRAINT daily_data_plant_id_date_key_key UNIQUE (plant_id, date_key);
+
+ALTER TABLE month_closures DROP CONSTRAINT IF EXISTS month_closures_pkey;
+ALTER TABLE month_closures ADD PRIMARY KEY (plant_id, month_key);
+ALTER TABLE month_closures ALTER COLUMN user_id DROP NOT NULL;
+
+DROP INDEX IF EXISTS day_revisions_user_date;
+CREATE INDEX IF NOT EXISTS day_revisions_plant_date
+  ON day_revisions (plant_id, date_key, created_at);
+
+-- Access follows plant membership instead of ownership.
+DROP POLICY IF EXISTS "Users can view own daily_data" ON daily_data;
+DROP POLICY IF EXISTS "Users can insert own daily_data" ON daily_data;
+DROP POLICY IF EXISTS "Users can update own daily_data" ON daily_data;
+DROP POLICY IF EXISTS "Users can delete own daily_data" ON daily_data;
+
+CREATE POLICY "Members can view daily_data" ON daily_data
+  FOR SELECT USING (plant_role(plant_id) IS NOT NULL);
+
+-- Only a supervisor may save a day as approved; an operator can still
+-- update an approved day's row when a supervisor has unlocked it.
+CREATE POLICY "Operators can insert daily_data" ON daily_data
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND plant_role(plant_id) IN ('operator', 'supervisor')
+    AND (status IS DISTINCT FROM 'approved' OR plant_role(plant_id) = 'supervisor')
+  );
+
+CREATE POLICY "Operators can update daily_data" ON daily_data
+  FOR UPDATE USING (plant_role(plant_id) IN ('operator', 'supervisor'))
+  WITH CHECK (
+    auth.uid() = user_id
+    AND plant_role(plant_id) IN ('operator', 'supervisor')
+    AND (status IS DISTINCT FROM 'approved' OR plant_role(plant_id) = 'supervisor')
+  );
+
+CREATE POLICY "Supervisors can delete daily_data" ON daily_data
+  FOR DELETE USING (plant_role(plant_id) = 'supervisor');
+
+DROP POLICY IF EXISTS "Users can view own feeders" ON feeders;
+DROP POLICY IF EXISTS "Users can insert own feeders" ON feeders;
+DROP POLICY IF EXISTS "Users can update own feeders" ON feeders;
+DROP POLICY IF EXISTS "Users can delete own feeders" ON feeders;
+
+CREATE POLICY "Members can view feeders" ON feeders
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM daily_data
+      WHERE daily_data.id = feeders.daily_data_id
+      AND plant_role(daily_data.plant_id) IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Operators can write feeders" ON feeders
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM daily_data
+      WHERE daily_data.id = feeders.daily_data_id
+      AND plant_role(daily_data.plant_id) IN ('operator', 'supervisor')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view own turbines" ON turbines;
+DROP POLICY IF EXISTS "Users can insert own turbines" ON turbines;
+DROP POLICY IF EXISTS "Users can update own turbines" ON turbines;
+DROP POLICY IF EXISTS "Users can delete own turbines" ON turbines;
+
+CREATE POLICY "Members can view turbines" ON turbines
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM daily_data
+      WHERE daily_data.id = turbines.daily_data_id
+      AND plant_role(daily_data.plant_id) IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Operators can write turbines" ON turbines
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM daily_data
+      WHERE daily_data.id = turbines.daily_data_id
+      AND plant_role(daily_data.plant_id) IN ('operator', 'supervisor')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view own day_revisions" ON day_revisions;
+DROP POLICY IF EXISTS "Users can insert own day_revisions" ON day_revisions;
+
+CREATE POLICY "Members can view day_revisions" ON day_revisions
+  FOR SELECT USING (plant_role(plant_id) IS NOT NULL);
+
+CREATE POLICY "Operators can insert day_revisions" ON day_revisions
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND plant_role(plant_id) IN ('operator', 'supervisor')
+  );
+
+DROP POLICY IF EXISTS "Users can view own month_closures" ON month_closures;
+DROP POLICY IF EXISTS "Users can insert own month_closures" ON month_closures;
+DROP POLICY IF EXISTS "Users can update own month_closures" ON month_closures;
+DROP POLICY IF EXISTS "Users can delete own month_closures" ON month_closures;
+
+CREATE POLICY "Members can view month_closures" ON month_closures
+  FOR SELECT USING (plant_role(plant_id) IS NOT NULL);
+
+CREATE POLICY "Supervisors can insert month_closures" ON month_closures
+  FOR INSERT WITH CHECK (plant_role(plant_id) = 'supervisor');
+
+CREATE POLICY "Supervisors can update month_closures" ON month_closures
+  FOR UPDATE USING (plant_role(plant_id) = 'supervisor');
+
+CREATE POLICY "Supervisors can delete month_closures" ON month_closures
+  FOR DELETE USING (plant_role(plant_id) = 'supervisor');
+
+-- Closed months are now per plant.
+CREATE OR REPLACE FUNCTION prevent_closed_month_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  target daily_data%ROWTYPE;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    target := OLD;
+  ELSE
+    target := NEW;
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM month_closures
+    WHERE month_closures.plant_id = target.plant_id
+    AND month_closures.month_key = LEFT(target.date_key, 7)
+  ) THEN
+    RAISE EXCEPTION 'Month % is closed', LEFT(target.date_key, 7);
+  END IF;
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- CONCURRENT EDITS
+-- ============================================================================
+
+-- Every update of a day bumps its revision. A device pushes a day only if
+-- the revision is still the one its copy was based on (the update matches on
+-- it); otherwise the day was changed elsewhere in the meantime and the user
+-- resolves the conflict before pushing again.
+ALTER TABLE daily_data ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1;
+
+CREATE OR REPLACE FUNCTION bump_daily_data_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.revision = OLD.revision + 1;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bump_daily_data_revision ON daily_data;
+CREATE TRIGGER bump_daily_data_revision
+  BEFORE UPDATE ON daily_data
+  FOR EACH ROW EXECUTE FUNCTION bump_daily_data_revision();
+
+-- ============================================================================
+-- DELETED DAYS
+-- ============================================================================
+
+-- Deleting a day marks its row rather than removing it, so that every device
+-- learns of the deletion when it syncs. Deleted days stay in the plant's
+-- recycle bin for 30 days and can be restored by pushing the day again;
+-- purging one deletes its row for good.
+ALTER TABLE daily_data ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE daily_data ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES auth.users(id);
+
+CREATE INDEX IF NOT EXISTS daily_data_plant_deleted
+  ON daily_data (plant_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- As with deleting a row, only a supervisor may mark a day deleted.
+CREATE OR REPLACE FUNCTION guard_daily_data_deletion()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL
+    AND plant_role(NEW.plant_id) IS DISTINCT FROM 'supervisor' THEN
+    RAISE EXCEPTION 'Only supervisors can delete days';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_daily_data_deletion ON daily_data;
+CREATE TRIGGER guard_daily_data_deletion
+  BEFORE UPDATE ON daily_data
+  FOR EACH ROW EXECUTE FUNCTION guard_daily_data_deletion();
+
+-- ============================================================================
+-- APPROVAL LOCK
+-- ============================================================================
+
+-- An approved day can be changed only by a supervisor, which includes
+-- unlocking it back to draft. Its feeders and turbines follow the day: an
+-- operator may write them only while the day is not approved.
+CREATE OR REPLACE FUNCTION guard_approved_daily_data()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'approved'
+    AND plant_role(OLD.plant_id) IS DISTINCT FROM 'supervisor' THEN
+    RAISE EXCEPTION 'Day % is approved', OLD.date_key;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_approved_daily_data ON daily_data;
+CREATE TRIGGER guard_approved_daily_data
+  BEFORE UPDATE ON daily_data
+  FOR EACH ROW EXECUTE FUNCTION guard_approved_daily_data();
+
+DROP POLICY IF EXISTS "Operators can write feeders" ON feeders;
+CREATE POLICY "Operators can write feeders" ON feeders
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM daily_data
+      WHERE daily_data.id = feeders.daily_data_id
+      AND plant_role(daily_data.plant_id) IN ('operator', 'supervisor')
+      AND (daily_data.status IS DISTINCT FROM 'approved'
+        OR plant_role(daily_data.plant_id) = 'supervisor')
+    )
+  );
+
+DROP POLICY IF EXISTS "Operators can write turbines" ON turbines;
+CREATE POLICY "Operators can write turbines" ON turbines
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM daily_data
+      WHERE daily_data.id = turbines.daily_data_id
+      AND plant_role(daily_data.plant_id) IN ('operator', 'supervisor')
+      AND (daily_data.status IS DISTINCT FROM 'approved'
+        OR plant_role(daily_data.plant_id) = 'supervisor')
+    )
+  );
+
+-- ============================================================================
+-- BATCH DAY SYNC
+-- ============================================================================
+
+-- Pushes a batch of days in one call. Each day is written in full (its
+-- daily_data row with its feeders and turbines) or not at all, and only if
+-- its revision is still base_revision; a day never pushed before has a NULL
+-- base_revision and conflicts with any existing row for its date, unless
+-- that row is deleted, which it then replaces. A day with deleted_at set is
+-- deleted instead of written; deleting a day no longer in Supabase does
+-- nothing. Any other push of a deleted day restores it. Runs as the caller,
+-- so the plant's policies and the closed-month trigger apply.
+-- Returns one result per day: {date_key, status, revision} when synced,
+-- {date_key, status} on a conflict, and {date_key, status, error} when the
+-- day could not be written.
+CREATE OR REPLACE FUNCTION public.sync_days(target_plant UUID, days JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  entry JSONB;
+  incoming daily_data%ROWTYPE;
+  current_revision INTEGER;
+  current_deleted_at TIMESTAMPTZ;
+  target_id UUID;
+  new_revision INTEGER;
+  results JSONB := '[]'::jsonb;
+BEGIN
+  FOR entry IN SELECT * FROM jsonb_array_elements(days) LOOP
+    BEGIN
+      incoming := jsonb_populate_record(NULL::daily_data, entry);
+      target_id := NULL;
+
+      SELECT id, revision, deleted_at
+      INTO target_id, current_revision, current_deleted_at
+      FROM daily_data
+      WHERE plant_id = target_plant AND date_key = incoming.date_key
+      FOR UPDATE;
+
+      IF target_id IS NULL AND incoming.deleted_at IS NOT NULL THEN
+        results := results || jsonb_build_object(
+          'date_key', incoming.date_key, 'status', 'synced',
+          'revision', (entry->>'base_revision')::INTEGER);
+        CONTINUE;
+      END IF;
+
+      IF target_id IS NOT NULL THEN
+        IF current_revision IS DISTINCT FROM (entry->>'base_revision')::INTEGER
+          AND NOT (current_deleted_at IS NOT NULL AND entry->>'base_revision' IS NULL) THEN
+          results := results || jsonb_build_object(
+            'date_key', incoming.date_key, 'status', 'conflict');
+          CONTINUE;
+        END IF;
+        IF incoming.deleted_at IS NOT NULL THEN
+          UPDATE daily_data SET
+            user_id = auth.uid(),
+            deleted_at = incoming.deleted_at,
+            deleted_by = auth.uid()
+          WHERE id = target_id
+          RETURNING revision INTO new_revision;
+          results := results || jsonb_build_object(
+            'date_key', incoming.date_key, 'status', 'synced',
+            'revision', new_revision);
+          CONTINUE;
+        END IF;
+        UPDATE daily_data SET
+          user_id = auth.uid(),
+          crew = incoming.crew,
+          estimated = COALESCE(incoming.estimated, false),
+          status = COALESCE(incoming.status, 'draft'),
+          approved_by = incoming.approved_by,
+          approved_by_name = incoming.approved_by_name,
+          approved_at = incoming.approved_at,
+          deleted_at = NULL,
+          deleted_by = NULL
+        WHERE id = target_id
+        RETURNING revision INTO new_revision;
+      ELSE
+        -- Another device may create the day between the lookup and here.
+        INSERT INTO daily_data (
+          plant_id, user_id, date_key, crew, estimated, status,
+          approved_by, approved_by_name, approved_at
+        ) VALUES (
+          target_plant, auth.uid(), incoming.date_key, incoming.crew,
+          COALESCE(incoming.estimated, false),
+          COALESCE(incoming.status, 'draft'),
+          incoming.approved_by, incoming.approved_by_name, incoming.approved_at
+        )
+        ON CONFLICT (plant_id, date_key) DO NOTHING
+        RETURNING id, revision INTO target_id, new_revision;
+        IF target_id IS NULL THEN
+          results := results || jsonb_build_object(
+            'date_key', incoming.date_key, 'status', 'conflict');
+          CONTINUE;
+        END IF;
+      END IF;
+
+      INSERT INTO feeders (
+        daily_data_id, feeder_name, start_reading, end_reading,
+        start_quality, start_quality_reason, end_quality, end_quality_reason,
+        replacement_old_final, replacement_new_initial, replacement_time,
+        readings
+      )
+      SELECT
+        target_id, f.feeder_name, f.start_reading, f.end_reading,
+        f.start_quality, f.start_quality_reason, f.end_quality,
+        f.end_quality_reason, f.replacement_old_final,
+        f.replacement_new_initial, f.replacement_time,
+        COALESCE(f.readings, '[]'::jsonb)
+      FROM jsonb_populate_recordset(NULL::feeders, entry->'feeders') AS f
+      ON CONFLICT (daily_data_id, feeder_name) DO UPDATE SET
+        start_reading = EXCLUDED.start_reading,
+        end_reading = EXCLUDED.end_reading,
+        start_quality = EXCLUDED.start_quality,
+        start_quality_reason = EXCLUDED.start_quality_reason,
+        end_quality = EXCLUDED.end_quality,
+        end_quality_reason = EXCLUDED.end_quality_reason,
+        replacement_old_final = EXCLUDED.replacement_old_final,
+        replacement_new_initial = EXCLUDED.replacement_new_initial,
+        replacement_time = EXCLUDED.replacement_time,
+        readings = EXCLUDED.readings;
+
+      INSERT INTO turbines (
+        daily_data_id, turbine_name, previous_reading, present_reading, hours,
+        previous_quality, previous_quality_reason, present_quality,
+        present_quality_reason, replacement_old_final,
+        replacement_new_initial, replacement_time, readings
+      )
+      SELECT
+        target_id, t.turbine_name, t.previous_reading, t.present_reading,
+        t.hours, t.previous_quality, t.previous_quality_reason,
+        t.present_quality, t.present_quality_reason, t.replacement_old_final,
+        t.replacement_new_initial, t.replacement_time,
+        COALESCE(t.readings, '[]'::jsonb)
+      FROM jsonb_populate_recordset(NULL::turbines, entry->'turbines') AS t
+      ON CONFLICT (daily_data_id, turbine_name) DO UPDATE SET
+        previous_reading = EXCLUDED.previous_reading,
+        present_reading = EXCLUDED.present_reading,
+        hours = EXCLUDED.hours,
+        previous_quality = EXCLUDED.previous_quality,
+        previous_quality_reason = EXCLUDED.previous_quality_reason,
+        present_quality = EXCLUDED.present_quality,
+        present_quality_reason = EXCLUDED.present_quality_reason,
+        replacement_old_final = EXCLUDED.replacement_old_final,
+        replacement_new_initial = EXCLUDED.replacement_new_initial,
+        replacement_time = EXCLUDED.replacement_time,
+        readings = EXCLUDED.readings;
+
+      results := results || jsonb_build_object(
+        'date_key', incoming.date_key, 'status', 'synced',
+        'revision', new_revision);
+    EXCEPTION WHEN OTHERS THEN
+      results := results || jsonb_build_object(
+        'date_key', entry->>'date_key', 'status', 'failed', 'error', SQLERRM);
+    END;
+  END LOOP;
+  RETURN results;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+-- ============================================================================
+-- DAY AND MONTH FIGURES
+-- ============================================================================
+
+-- Production, export, consumption and gas per day and per month, computed
+-- the way the app computes them on the device (client/lib/dayFigures.ts).
+-- Meter configuration lives on the device, so the caller passes it as a
+-- definition: its meters with their direction, scale to MWh, register digits
+-- and service dates, and the gas curves with their points sorted by MW/hr.
+-- client/lib/__tests__/fixtures/day-figures.json holds days with the rows
+-- these functions return for them, which the device's figures are tested
+-- against.
+
+-- A reading as a number; blank or unreadable readings count as zero.
+CREATE OR REPLACE FUNCTION public.reading_value(reading TEXT)
+RETURNS DOUBLE PRECISION AS $$
+  SELECT CASE
+    WHEN trim(reading) ~ '^[+-]?([0-9]+\.?[0-9]*|\.[0-9]+)([eE][+-]?[0-9]+)?$'
+      THEN trim(reading)::DOUBLE PRECISION
+    ELSE 0
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- A jump of more than half the register is taken to be a wrap past its last
+-- digit rather than genuine movement.
+CREATE OR REPLACE FUNCTION public.register_delta(
+  from_value DOUBLE PRECISION,
+  to_value DOUBLE PRECISION,
+  register_digits INTEGER
+)
+RETURNS DOUBLE PRECISION AS $$
+  SELECT CASE
+    WHEN register_digits IS NULL OR register_digits <= 0 THEN to_value - from_value
+    WHEN to_value - from_value < -power(10::DOUBLE PRECISION, register_digits) / 2
+      THEN to_value - from_value + power(10::DOUBLE PRECISION, register_digits)
+    WHEN to_value - from_value > power(10::DOUBLE PRECISION, register_digits) / 2
+      THEN to_value - from_value - power(10::DOUBLE PRECISION, register_digits)
+    ELSE to_value - from_value
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Counter movement over the day, split at the replacement when the meter was
+-- swapped.
+CREATE OR REPLACE FUNCTION public.counter_advance(
+  first_reading TEXT,
+  last_reading TEXT,
+  old_final TEXT,
+  new_initial TEXT,
+  register_digits INTEGER
+)
+RETURNS DOUBLE PRECISION AS $$
+  SELECT CASE
+    WHEN old_final IS NULL THEN register_delta(
+      reading_value(first_reading), reading_value(last_reading), register_digits)
+    ELSE register_delta(
+      reading_value(first_reading), reading_value(old_final), register_digits)
+      + register_delta(
+      reading_value(new_initial), reading_value(last_reading), register_digits)
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- m³ of gas per MWh at the given MW/hr. Step points are lower band limits;
+-- linear curves interpolate between points and hold their end values.
+CREATE OR REPLACE FUNCTION public.gas_rate(curve JSONB, mw_per_hr DOUBLE PRECISION)
+RETURNS DOUBLE PRECISION AS $$
+DECLARE
+  points JSONB := curve->'points';
+  point_count INTEGER := jsonb_array_length(curve->'points');
+  rate DOUBLE PRECISION;
+  lo JSONB;
+  hi JSONB;
+  span DOUBLE PRECISION;
+BEGIN
+  IF point_count IS NULL OR point_count = 0 THEN
+    RETURN 0;
+  END IF;
+
+  IF curve->>'kind' = 'step' THEN
+    rate := (points->0->>'m3_per_mwh')::DOUBLE PRECISION;
+    FOR i IN 0 .. point_count - 1 LOOP
+      IF mw_per_hr > (points->i->>'mw_per_hr')::DOUBLE PRECISION THEN
+        rate := (points->i->>'m3_per_mwh')::DOUBLE PRECISION;
+      END IF;
+    END LOOP;
+    RETURN rate;
+  END IF;
+
+  IF mw_per_hr <= (points->0->>'mw_per_hr')::DOUBLE PRECISION THEN
+    RETURN (points->0->>'m3_per_mwh')::DOUBLE PRECISION;
+  END IF;
+  IF mw_per_hr >= (points->(point_count - 1)->>'mw_per_hr')::DOUBLE PRECISION THEN
+    RETURN (points->(point_count - 1)->>'m3_per_mwh')::DOUBLE PRECISION;
+  END IF;
+  FOR i IN 1 .. point_count - 1 LOOP
+    lo := points->(i - 1);
+    hi := points->i;
+    IF mw_per_hr <= (hi->>'mw_per_hr')::DOUBLE PRECISION THEN
+      span := (hi->>'mw_per_hr')::DOUBLE PRECISION - (lo->>'mw_per_hr')::DOUBLE PRECISION;
+      IF span <= 0 THEN
+        RETURN (hi->>'m3_per_mwh')::DOUBLE PRECISION;
+      END IF;
+      RETURN (lo->>'m3_per_mwh')::DOUBLE PRECISION
+        + (mw_per_hr - (lo->>'mw_per_hr')::DOUBLE PRECISION) / span
+        * ((hi->>'m3_per_mwh')::DOUBLE PRECISION - (lo->>'m3_per_mwh')::DOUBLE PRECISION);
+    END IF;
+  END LOOP;
+  RETURN (points->(point_count - 1)->>'m3_per_mwh')::DOUBLE PRECISION;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- The curve in effect for a turbine on a date: its latest curve effective by
+-- then, or the default curve.
+CREATE OR REPLACE FUNCTION public.turbine_gas_curve(
+  definition JSONB,
+  target_turbine TEXT,
+  on_date TEXT
+)
+RETURNS JSONB AS $$
+  SELECT COALESCE(
+    (
+      SELECT curve FROM jsonb_array_elements(definition->'gas_curves') AS curve
+      WHERE curve->>'turbine_id' = target_turbine
+      AND curve->>'effective_from' <= on_date
+      ORDER BY curve->>'effective_from' DESC
+      LIMIT 1
+    ),
+    definition->'default_gas_curve'
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Each day of the plant between from_key and to_key (inclusive) with its
+-- figures, newest first; deleted days are left out. Meters only count on the
+-- days they were in service.
+CREATE OR REPLACE FUNCTION public.day_figures(
+  target_plant UUID,
+  from_key TEXT,
+  to_key TEXT,
+  definition JSONB
+)
+RETURNS TABLE (
+  id UUID,
+  date_key TEXT,
+  crew TEXT,
+  estimated BOOLEAN,
+  status TEXT,
+  approved_by UUID,
+  approved_by_name TEXT,
+  approved_at TIMESTAMPTZ,
+  revision INTEGER,
+  production_mwh DOUBLE PRECISION,
+  export_mwh DOUBLE PRECISION,
+  consumption_mwh DOUBLE PRECISION,
+  gas_m3 DOUBLE PRECISION
+) AS $$
+  WITH meters AS (
+    SELECT * FROM jsonb_to_recordset(definition->'meters') AS m(
+      kind TEXT,
+      id TEXT,
+      direction INTEGER,
+      scale_to_mwh DOUBLE PRECISION,
+      register_digits INTEGER,
+      commissioned_on TEXT,
+      retired_on TEXT
+    )
+  ),
+  days AS (
+    SELECT * FROM daily_data
+    WHERE daily_data.plant_id = target_plant
+    AND daily_data.date_key BETWEEN from_key AND to_key
+    AND daily_data.deleted_at IS NULL
+  ),
+  meter_rows AS (
+    SELECT
+      feeders.daily_data_id, 'feeder' AS kind, feeders.feeder_name AS meter_id,
+      feeders.start_reading AS first_reading, feeders.end_reading AS last_reading,
+      feeders.replacement_old_final, feeders.replacement_new_initial,
+      NULL::TEXT AS hours
+    FROM feeders JOIN days ON days.id = feeders.daily_data_id
+    UNION ALL
+    SELECT
+      turbines.daily_data_id, 'turbine', turbines.turbine_name,
+      turbines.previous_reading, turbines.present_reading,
+      turbines.replacement_old_final, turbines.replacement_new_initial,
+      turbines.hours
+    FROM turbines JOIN days ON days.id = turbines.daily_data_id
+  ),
+  meter_energy AS (
+    SELECT
+      days.id AS daily_data_id,
+      meters.kind,
+      meters.direction
+        * counter_advance(
+          meter_rows.first_reading, meter_rows.last_reading,
+          meter_rows.replacement_old_final, meter_rows.replacement_new_initial,
+          meters.register_digits)
+        * meters.scale_to_mwh AS energy_mwh,
+      GREATEST(0.000001, reading_value(COALESCE(NULLIF(meter_rows.hours, ''), '24'))) AS hours,
+      turbine_gas_curve(definition, meters.id, days.date_key) AS gas_curve
+    FROM days
+    JOIN meter_rows ON meter_rows.daily_data_id = days.id
+    JOIN meters ON meters.kind = meter_rows.kind AND meters.id = meter_rows.meter_id
+    WHERE (meters.commissioned_on IS NULL OR days.date_key >= meters.commissioned_on)
+    AND (meters.retired_on IS NULL OR days.date_key < meters.retired_on)
+  ),
+  totals AS (
+    SELECT
+      daily_data_id,
+      COALESCE(SUM(energy_mwh) FILTER (WHERE kind = 'turbine'), 0) AS production_mwh,
+      COALESCE(SUM(energy_mwh) FILTER (WHERE kind = 'feeder'), 0) AS export_mwh,
+      COALESCE(SUM(energy_mwh * gas_rate(gas_curve, energy_mwh / hours))
+        FILTER (WHERE kind = 'turbine'), 0) AS gas_m3
+    FROM meter_energy
+    GROUP BY daily_data_id
+  )
+  SELECT
+    days.id, days.date_key, days.crew, days.estimated, days.status,
+    days.approved_by, days.approved_by_name, days.approved_at, days.revision,
+    COALESCE(totals.production_mwh, 0),
+    COALESCE(totals.export_mwh, 0),
+    COALESCE(totals.production_mwh, 0) - COALESCE(totals.export_mwh, 0),
+    COALESCE(totals.gas_m3, 0)
+  FROM days
+  LEFT JOIN totals ON totals.daily_data_id = days.id
+  ORDER BY days.date_key DESC;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+-- The same figures summed per month, newest first. Export and withdrawal are
+-- summed over the days of each, as on the monthly sheet.
+CREATE OR REPLACE FUNCTION public.month_figures(
+  target_plant UUID,
+  from_key TEXT,
+  to_key TEXT,
+  definition JSONB
+)
+RETURNS TABLE (
+  month_key TEXT,
+  days INTEGER,
+  estimated_days INTEGER,
+  production_mwh DOUBLE PRECISION,
+  export_mwh DOUBLE PRECISION,
+  withdrawal_mwh DOUBLE PRECISION,
+  consumption_mwh DOUBLE PRECISION,
+  gas_m3 DOUBLE PRECISION
+) AS $$
+  SELECT
+    LEFT(figures.date_key, 7),
+    COUNT(*)::INTEGER,
+    (COUNT(*) FILTER (WHERE figures.estimated))::INTEGER,
+    SUM(figures.production_mwh),
+    COALESCE(SUM(figures.export_mwh) FILTER (WHERE figures.export_mwh >= 0), 0),
+    COALESCE(SUM(-figures.export_mwh) FILTER (WHERE figures.export_mwh < 0), 0),
+    SUM(figures.consumption_mwh),
+    SUM(figures.gas_m3)
+  FROM day_figures(target_plant, from_key, to_key, definition) AS figures
+  GROUP BY LEFT(figures.date_key, 7)
+  ORDER BY LEFT(figures.date_key, 7) DESC;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+-- ============================================================================
+-- LIVE UPDATES
+-- ============================================================================
+
+-- Changes to days are broadcast to signed-in members of the plant through
+-- Supabase Realtime. Row level security decides who receives each change.
+-- Readings are written in the same transaction as their day row, so only the
+-- day rows are broadcast; clients fetch the readings with the day.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'daily_data'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.daily_data;
+  END IF;
+END;
+$$;
+
+-- Earlier versions of this script also broadcast readings, which cannot be
+-- filtered by plant.
+DO $$
+DECLARE
+  table_name TEXT;
+BEGIN
+  FOREACH table_name IN ARRAY ARRAY['feeders', 'turbines'] LOOP
+    IF EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = table_name
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime DROP TABLE public.%I', table_name);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Changes to a day row carry the whole row, so that the plant filter and the
+-- author are known on every event.
+ALTER TABLE public.daily_data REPLICA IDENTITY FULL;